@@ -0,0 +1,278 @@
+import express, { NextFunction, Request, Response } from 'express';
+import bodyParser from 'body-parser';
+import axios from 'axios';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Second acquiring bank, for the backend's mock_acquirer adapter. Unlike the mock bank it
+// speaks snake_case under /v2/onboarding, authenticates with client id + API key headers
+// and reports its own states (UNDER_REVIEW, ACTIVATED, DECLINED, DOCS_REQUIRED).
+const app = express();
+app.use(bodyParser.json());
+
+const PORT = 3002;
+const BACKEND_WEBHOOK_URL = process.env.MOCK_ACQUIRER_WEBHOOK_URL || 'http://localhost:5000/api/supabase/bank-webhook/mock_acquirer';
+const CLIENT_ID = process.env.ACQUIRER_CLIENT_ID || 'sabbpe';
+const API_KEY = process.env.ACQUIRER_API_KEY || 'test-key';
+
+// Same HMAC scheme as the mock bank, so the backend verifies both the same way
+const WEBHOOK_SECRET = process.env.MOCK_BANK_WEBHOOK_SECRET || process.env.WEBHOOK_SECRET || 'default-webhook-secret';
+
+type AcquirerState = 'UNDER_REVIEW' | 'ACTIVATED' | 'DECLINED' | 'DOCS_REQUIRED';
+
+interface OnboardingRecord {
+    event_id?: string;
+    reference_no: string;
+    merchant_ref: string;
+    legal_name: string;
+    state: AcquirerState;
+    remarks?: string | null;
+    required_docs?: string[];
+    mid?: string;
+    settlement_account?: string;
+    received_at: string;
+    decided_at?: string;
+}
+
+const records = new Map<string, OnboardingRecord>();
+// X-Request-ID and traceparent of the backend's last call per application, sent back with webhooks
+const traceHeaders = new Map<string, Record<string, string>>();
+
+const keepTraceHeaders = (referenceNo: string, req: Request, res: Response): void => {
+    const headers: Record<string, string> = {};
+
+    for (const name of ['X-Request-ID', 'traceparent']) {
+        const value = req.get(name);
+        if (value) headers[name] = value;
+    }
+
+    if (headers['X-Request-ID']) {
+        res.setHeader('X-Request-ID', headers['X-Request-ID']);
+    }
+
+    traceHeaders.set(referenceNo, headers);
+};
+
+const newEventId = (): string => `ACQEVT-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+
+const sendError = (res: Response, status: number, code: string, message: string): void => {
+    res.status(status).json({ error: { code, message } });
+};
+
+// The decision record is what both the webhook and GET /v2/onboarding/:ref return
+const toBody = (record: OnboardingRecord) => ({
+    event_id: record.event_id,
+    reference_no: record.reference_no,
+    merchant_ref: record.merchant_ref,
+    state: record.state,
+    remarks: record.remarks,
+    required_docs: record.required_docs,
+    mid: record.mid,
+    settlement_account: record.settlement_account,
+    decided_at: record.decided_at
+});
+
+function sendWebhook(record: OnboardingRecord) {
+    const body = JSON.stringify(toBody(record));
+    const timestamp = Date.now().toString();
+    const signature = crypto
+        .createHmac('sha256', WEBHOOK_SECRET)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+
+    return axios.post(BACKEND_WEBHOOK_URL, body, {
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': signature,
+            ...traceHeaders.get(record.reference_no)
+        }
+    });
+}
+
+// Record the decision first: it stands even if the webhook is lost
+async function decide(
+    record: OnboardingRecord,
+    state: AcquirerState,
+    details: Partial<OnboardingRecord>
+): Promise<{ delivered: boolean; error?: string }> {
+    Object.assign(record, {
+        ...details,
+        state,
+        event_id: newEventId(),
+        decided_at: new Date().toISOString()
+    });
+
+    console.log(`\n🏦 ${record.reference_no} -> ${state}`);
+
+    try {
+        await sendWebhook(record);
+        console.log('✅ Webhook delivered');
+        return { delivered: true };
+    } catch (error) {
+        console.error('❌ Webhook delivery failed:', error instanceof Error ? error.message : error);
+        return { delivered: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+function authenticate(req: Request, res: Response, next: NextFunction): void {
+    if (req.header('X-Client-Id') !== CLIENT_ID || req.header('X-Api-Key') !== API_KEY) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Invalid client credentials');
+        return;
+    }
+
+    next();
+}
+
+// Submit an onboarding application
+app.post('/v2/onboarding', authenticate, (req: Request, res: Response): void => {
+    const { merchant_ref, legal_name, kyc_documents } = req.body;
+
+    if (!merchant_ref || !legal_name) {
+        sendError(res, 422, 'INVALID_APPLICATION', 'merchant_ref and legal_name are required');
+        return;
+    }
+
+    const referenceNo = `ACQ-${Date.now()}-${Math.random().toString(36).substring(2, 7).toUpperCase()}`;
+
+    records.set(referenceNo, {
+        reference_no: referenceNo,
+        merchant_ref,
+        legal_name,
+        state: 'UNDER_REVIEW',
+        received_at: new Date().toISOString()
+    });
+
+    keepTraceHeaders(referenceNo, req, res);
+
+    console.log(`\n📨 Onboarding ${referenceNo} for ${legal_name}`);
+    console.log('KYC documents:', (kyc_documents || []).map((doc: { doc_code: string }) => doc.doc_code).join(', '));
+
+    res.status(201).json({ reference_no: referenceNo, state: 'UNDER_REVIEW', sla_hours: 48 });
+});
+
+// Resubmit after DOCS_REQUIRED
+app.put('/v2/onboarding/:referenceNo', authenticate, (req: Request, res: Response): void => {
+    const record = records.get(req.params.referenceNo);
+
+    if (!record) {
+        sendError(res, 404, 'APPLICATION_NOT_FOUND', 'Unknown reference number');
+        return;
+    }
+
+    Object.assign(record, {
+        state: 'UNDER_REVIEW',
+        required_docs: undefined,
+        received_at: new Date().toISOString()
+    });
+    keepTraceHeaders(record.reference_no, req, res);
+
+    res.json({ reference_no: record.reference_no, state: record.state, sla_hours: 24 });
+});
+
+// Application status
+app.get('/v2/onboarding/:referenceNo', authenticate, (req: Request, res: Response): void => {
+    const record = records.get(req.params.referenceNo);
+
+    if (!record) {
+        sendError(res, 404, 'APPLICATION_NOT_FOUND', 'Unknown reference number');
+        return;
+    }
+
+    res.json(toBody(record));
+});
+
+// Admin: applications awaiting review
+app.get('/admin/pending', (req: Request, res: Response): void => {
+    const pending = Array.from(records.values()).filter(record => record.state === 'UNDER_REVIEW');
+
+    res.json({ count: pending.length, applications: pending });
+});
+
+// Admin: activate or decline
+app.post('/admin/decide/:referenceNo', async (req: Request, res: Response): Promise<void> => {
+    const record = records.get(req.params.referenceNo);
+    const { approved, remarks } = req.body;
+
+    if (typeof approved !== 'boolean') {
+        res.status(400).json({ error: 'Missing or invalid "approved" field. Must be true or false.' });
+        return;
+    }
+
+    if (!record || record.state !== 'UNDER_REVIEW') {
+        res.status(404).json({ error: 'Application not found or already decided' });
+        return;
+    }
+
+    const result = await decide(record, approved ? 'ACTIVATED' : 'DECLINED', approved
+        ? {
+            remarks: null,
+            mid: `MID${Math.floor(100000000 + Math.random() * 900000000)}`,
+            settlement_account: `${Math.floor(1000000000 + Math.random() * 9000000000)}`
+        }
+        : { remarks: remarks || 'Declined by acquirer' });
+
+    res.status(result.delivered ? 200 : 500).json({ ...result, record: toBody(record) });
+});
+
+// Admin: ask for more documents (our document types, upper case)
+app.post('/admin/request-docs/:referenceNo', async (req: Request, res: Response): Promise<void> => {
+    const record = records.get(req.params.referenceNo);
+    const { docs, remarks } = req.body;
+
+    if (!Array.isArray(docs) || docs.length === 0) {
+        res.status(400).json({ error: 'Missing or invalid "docs" field, e.g. ["BANK_STATEMENT"].' });
+        return;
+    }
+
+    if (!record || record.state !== 'UNDER_REVIEW') {
+        res.status(404).json({ error: 'Application not found or already decided' });
+        return;
+    }
+
+    const result = await decide(record, 'DOCS_REQUIRED', {
+        remarks: remarks || 'Additional documents required',
+        required_docs: docs.map((doc: string) => doc.toUpperCase())
+    });
+
+    res.status(result.delivered ? 200 : 500).json({ ...result, record: toBody(record) });
+});
+
+// Admin: redeliver the last decision with the same event id
+app.post('/admin/resend/:referenceNo', async (req: Request, res: Response): Promise<void> => {
+    const record = records.get(req.params.referenceNo);
+
+    if (!record || !record.event_id) {
+        res.status(404).json({ error: 'No decision to resend' });
+        return;
+    }
+
+    try {
+        await sendWebhook(record);
+        res.json({ delivered: true, event_id: record.event_id });
+    } catch (error) {
+        res.status(500).json({ delivered: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+});
+
+app.get('/health', (req: Request, res: Response): void => {
+    res.json({ status: 'ok', service: 'Mock Acquirer API', records: records.size });
+});
+
+app.listen(PORT, () => {
+    console.log('\n🏦 Mock Acquirer API Server Running');
+    console.log('================================');
+    console.log(`📡 Port: ${PORT}`);
+    console.log(`🔗 Onboarding endpoint: http://localhost:${PORT}/v2/onboarding`);
+    console.log(`📤 Webhooks to: ${BACKEND_WEBHOOK_URL}`);
+    console.log('\n📋 Admin Endpoints:');
+    console.log(`   View pending: GET http://localhost:${PORT}/admin/pending`);
+    console.log(`   Decide: POST http://localhost:${PORT}/admin/decide/{referenceNo}`);
+    console.log(`           Body: {"approved": false, "remarks": "Your reason here"}`);
+    console.log(`   Request documents: POST http://localhost:${PORT}/admin/request-docs/{referenceNo}`);
+    console.log(`                      Body: {"docs": ["BANK_STATEMENT"], "remarks": "Your reason here"}`);
+    console.log(`   Resend decision: POST http://localhost:${PORT}/admin/resend/{referenceNo}`);
+    console.log('================================\n');
+});
@@ -1,6 +1,7 @@
 ﻿import express, { Request, Response } from 'express';
 import bodyParser from 'body-parser';
 import axios from 'axios';
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -9,17 +10,87 @@ const app = express();
 app.use(bodyParser.json());
 
 const PORT = 3001;
-const BACKEND_WEBHOOK_URL = 'http://localhost:5000/api/supabase/bank-webhook';
+// Decisions go to the callbackUrl sent with each application; this is for applications without one
+const DEFAULT_WEBHOOK_URL = process.env.MOCK_BANK_WEBHOOK_URL || 'http://localhost:5000/api/webhooks/bank/mock_bank';
+
+// Failure simulation for exercising the backend retry queue:
+// the first MOCK_BANK_FAIL_FIRST applications fail with 503 ("unavailable")
+// or by answering after MOCK_BANK_TIMEOUT_DELAY_MS ("timeout")
+const FAILURE_MODE = process.env.MOCK_BANK_FAILURE_MODE === 'timeout' ? 'timeout' : 'unavailable';
+const TIMEOUT_DELAY_MS = parseInt(process.env.MOCK_BANK_TIMEOUT_DELAY_MS || '35000', 10);
+let remainingFailures = parseInt(process.env.MOCK_BANK_FAIL_FIRST || '0', 10);
+
+// Webhooks are signed with the shared HMAC scheme the backend verifies:
+// X-Webhook-Signature = hex HMAC-SHA256 of "<timestamp>.<body>" under this secret
+const WEBHOOK_SECRET = process.env.MOCK_BANK_WEBHOOK_SECRET || process.env.WEBHOOK_SECRET || 'default-webhook-secret';
 
 interface Application {
     merchantId: string;
     businessName: string;
     email: string;
     receivedAt: string;
+    // Where the backend wants this application's decisions delivered
+    callbackUrl: string;
+    // Correlation id and W3C trace context of the backend call, sent back with the decision webhook
+    requestId?: string;
+    traceparent?: string;
+}
+
+interface DecisionWebhook {
+    eventId: string;
+    applicationId: string;
+    merchantId: string;
+    status: 'approved' | 'rejected' | 'pending_info';
+    decision: {
+        approved: boolean;
+        reason: string | null;
+        conditions?: string[]; // document types requested with pending_info
+    };
+    processedAt: string;
 }
 
 const applications = new Map<string, Application>();
+
+// Correlation headers from the backend, echoed on the response and kept for the webhook
+const traceHeaders = (req: Request, res: Response): Pick<Application, 'requestId' | 'traceparent'> => {
+    const requestId = req.get('x-request-id');
+
+    if (requestId) {
+        res.setHeader('X-Request-ID', requestId);
+    }
+
+    return { requestId, traceparent: req.get('traceparent') };
+};
+
+const webhookUrl = (applicationId: string): string =>
+    applications.get(applicationId)?.callbackUrl || DEFAULT_WEBHOOK_URL;
+
+// Sign and deliver a decision; the signature covers the exact bytes sent
+function sendWebhook(webhookPayload: DecisionWebhook) {
+    const body = JSON.stringify(webhookPayload);
+    const application = applications.get(webhookPayload.applicationId);
+    const timestamp = Date.now().toString();
+    const signature = crypto
+        .createHmac('sha256', WEBHOOK_SECRET)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+
+    return axios.post(webhookUrl(webhookPayload.applicationId), body, {
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Timestamp': timestamp,
+            'X-Webhook-Signature': signature,
+            ...(application?.requestId && { 'X-Request-ID': application.requestId }),
+            ...(application?.traceparent && { traceparent: application.traceparent })
+        }
+    });
+}
+
 const pendingApplications = new Map<string, Application>();
+// Last decision per application, kept so it can be redelivered with the same event id
+const decisions = new Map<string, DecisionWebhook>();
+
+const newEventId = (): string => `EVT-${Date.now()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
 
 // Main endpoint to receive merchant applications
 app.post('/merchant-applications', async (req: Request, res: Response): Promise<void> => {
@@ -29,13 +100,33 @@ app.post('/merchant-applications', async (req: Request, res: Response): Promise<
         console.log('Email:', req.body.email);
         console.log('Merchant ID:', req.body.merchantId);
 
+        const trace = traceHeaders(req, res);
+        console.log('Request ID:', trace.requestId || '(none)');
+
+        if (remainingFailures > 0) {
+            remainingFailures--;
+            console.log(`💥 Simulating ${FAILURE_MODE} (${remainingFailures} failures left)`);
+
+            if (FAILURE_MODE === 'timeout') {
+                await new Promise(resolve => setTimeout(resolve, TIMEOUT_DELAY_MS));
+            }
+
+            res.status(503).json({
+                code: 'SERVICE_UNAVAILABLE',
+                message: 'Bank is temporarily unavailable'
+            });
+            return;
+        }
+
         const applicationId = `APP-${Date.now()}-${Math.random().toString(36).substring(7).toUpperCase()}`;
 
         const applicationData: Application = {
             merchantId: req.body.merchantId,
             businessName: req.body.businessName,
             email: req.body.email,
-            receivedAt: new Date().toISOString()
+            receivedAt: new Date().toISOString(),
+            callbackUrl: req.body.callbackUrl || DEFAULT_WEBHOOK_URL,
+            ...trace
         };
 
         applications.set(applicationId, applicationData);
@@ -64,6 +155,75 @@ app.post('/merchant-applications', async (req: Request, res: Response): Promise<
     }
 });
 
+// Resubmission after a pending_info request: same application ID, back into review
+app.put('/merchant-applications/:applicationId', (req: Request, res: Response): void => {
+    const { applicationId } = req.params;
+    const application = applications.get(applicationId);
+
+    if (!application) {
+        res.status(404).json({ code: 'APPLICATION_NOT_FOUND', message: 'Application not found' });
+        return;
+    }
+
+    const documentTypes = Array.isArray(req.body.documents)
+        ? req.body.documents.map((doc: { type: string }) => doc.type)
+        : [];
+
+    console.log(`\n📨 Resubmission for ${applicationId}`);
+    console.log('Documents:', documentTypes.join(', '));
+
+    const updated: Application = {
+        ...application,
+        businessName: req.body.businessName || application.businessName,
+        email: req.body.email || application.email,
+        receivedAt: new Date().toISOString(),
+        callbackUrl: req.body.callbackUrl || application.callbackUrl,
+        ...traceHeaders(req, res)
+    };
+
+    applications.set(applicationId, updated);
+    pendingApplications.set(applicationId, updated);
+
+    res.json({
+        success: true,
+        applicationId: applicationId,
+        status: 'pending_review',
+        estimatedProcessingTime: 'Awaiting manual review',
+        message: 'Application updated and pending review'
+    });
+});
+
+// Application status for the backend's reconciler, in the shape of a decision webhook
+app.get('/merchant-applications/:applicationId', (req: Request, res: Response): void => {
+    const { applicationId } = req.params;
+    const application = applications.get(applicationId);
+
+    if (!application) {
+        res.status(404).json({ code: 'APPLICATION_NOT_FOUND', message: 'Application not found' });
+        return;
+    }
+
+    const decision = decisions.get(applicationId);
+
+    if (pendingApplications.has(applicationId) || !decision) {
+        res.json({
+            applicationId,
+            merchantId: application.merchantId,
+            status: 'pending_review'
+        });
+        return;
+    }
+
+    res.json({
+        applicationId,
+        merchantId: decision.merchantId,
+        status: decision.status,
+        decision: decision.decision,
+        eventId: decision.eventId,
+        processedAt: decision.processedAt
+    });
+});
+
 // Admin: View all pending applications
 app.get('/admin/pending', (req: Request, res: Response): void => {
     const pending = Array.from(pendingApplications.entries()).map(([id, app]) => ({
@@ -111,7 +271,8 @@ app.post('/admin/decide/:applicationId', async (req: Request, res: Response): Pr
         }
 
         // Send webhook to backend
-        const webhookPayload = {
+        const webhookPayload: DecisionWebhook = {
+            eventId: newEventId(),
             applicationId: applicationId,
             merchantId: application.merchantId,
             status: approved ? 'approved' : 'rejected',
@@ -122,21 +283,17 @@ app.post('/admin/decide/:applicationId', async (req: Request, res: Response): Pr
             processedAt: new Date().toISOString()
         };
 
-        console.log('📤 Sending webhook to backend:', BACKEND_WEBHOOK_URL);
+        // The decision stands even if the webhook is lost; the backend can poll for it
+        pendingApplications.delete(applicationId);
+        decisions.set(applicationId, webhookPayload);
 
-        const response = await axios.post(BACKEND_WEBHOOK_URL, webhookPayload, {
-            headers: {
-                'Content-Type': 'application/json',
-                'X-Bank-Signature': 'mock-signature-12345'
-            }
-        });
+        console.log('📤 Sending webhook to backend:', webhookUrl(applicationId));
+
+        const response = await sendWebhook(webhookPayload);
 
         console.log('✅ Webhook delivered successfully');
         console.log('Backend response:', response.data);
 
-        // Remove from pending
-        pendingApplications.delete(applicationId);
-
         res.json({
             success: true,
             message: `Application ${approved ? 'approved' : 'rejected'} successfully`,
@@ -159,6 +316,62 @@ app.post('/admin/decide/:applicationId', async (req: Request, res: Response): Pr
     }
 });
 
+// Admin: Ask the merchant for more documents (pending_info) instead of deciding
+app.post('/admin/request-info/:applicationId', async (req: Request, res: Response): Promise<void> => {
+    const { applicationId } = req.params;
+    const { documents, reason } = req.body;
+
+    if (!Array.isArray(documents) || documents.length === 0) {
+        res.status(400).json({
+            error: 'Missing or invalid "documents" field. Must list document types, e.g. ["bank_statement"].'
+        });
+        return;
+    }
+
+    const application = pendingApplications.get(applicationId);
+
+    if (!application) {
+        res.status(404).json({ error: 'Application not found or already processed', applicationId });
+        return;
+    }
+
+    const webhookPayload: DecisionWebhook = {
+        eventId: newEventId(),
+        applicationId: applicationId,
+        merchantId: application.merchantId,
+        status: 'pending_info',
+        decision: {
+            approved: false,
+            reason: reason || 'Additional documents required',
+            conditions: documents
+        },
+        processedAt: new Date().toISOString()
+    };
+
+    // Waits for the merchant; a PUT to /merchant-applications/:id puts it back in review
+    pendingApplications.delete(applicationId);
+    decisions.set(applicationId, webhookPayload);
+
+    try {
+        console.log(`\n📝 Requesting ${documents.join(', ')} for ${applicationId}`);
+
+        const response = await sendWebhook(webhookPayload);
+
+        res.json({
+            success: true,
+            message: 'Information requested',
+            applicationId: applicationId,
+            backendResponse: response.data
+        });
+    } catch (error) {
+        console.error('❌ Error requesting information:', error);
+        res.status(500).json({
+            error: 'Failed to send webhook to backend',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 // Admin: Bulk approve/reject
 app.post('/admin/bulk-decide', async (req: Request, res: Response): Promise<void> => {
     try {
@@ -185,7 +398,8 @@ app.post('/admin/bulk-decide', async (req: Request, res: Response): Promise<void
             }
 
             try {
-                const webhookPayload = {
+                const webhookPayload: DecisionWebhook = {
+                    eventId: newEventId(),
                     applicationId: applicationId,
                     merchantId: application.merchantId,
                     status: approved ? 'approved' : 'rejected',
@@ -196,14 +410,11 @@ app.post('/admin/bulk-decide', async (req: Request, res: Response): Promise<void
                     processedAt: new Date().toISOString()
                 };
 
-                await axios.post(BACKEND_WEBHOOK_URL, webhookPayload, {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'X-Bank-Signature': 'mock-signature-12345'
-                    }
-                });
-
                 pendingApplications.delete(applicationId);
+                decisions.set(applicationId, webhookPayload);
+
+                await sendWebhook(webhookPayload);
+
                 results.push({ applicationId, success: true });
 
             } catch (error) {
@@ -230,6 +441,34 @@ app.post('/admin/bulk-decide', async (req: Request, res: Response): Promise<void
     }
 });
 
+// Admin: Redeliver the last decision webhook (same event id), as a real bank retry would
+app.post('/admin/resend/:applicationId', async (req: Request, res: Response): Promise<void> => {
+    const { applicationId } = req.params;
+    const webhookPayload = decisions.get(applicationId);
+
+    if (!webhookPayload) {
+        res.status(404).json({ error: 'No decision sent for this application', applicationId });
+        return;
+    }
+
+    try {
+        console.log(`\n🔁 Redelivering ${webhookPayload.eventId} for ${applicationId}`);
+
+        const response = await sendWebhook(webhookPayload);
+
+        res.json({
+            success: true,
+            eventId: webhookPayload.eventId,
+            backendResponse: response.data
+        });
+    } catch (error) {
+        res.status(500).json({
+            error: 'Failed to send webhook to backend',
+            details: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 // Health check
 app.get('/health', (req: Request, res: Response): void => {
     res.json({
@@ -263,6 +502,9 @@ app.listen(PORT, () => {
     console.log(`📡 Port: ${PORT}`);
     console.log(`🔗 Application endpoint: http://localhost:${PORT}/merchant-applications`);
     console.log(`🏥 Health: http://localhost:${PORT}/health`);
+    if (remainingFailures > 0) {
+        console.log(`💥 Failing the first ${remainingFailures} applications (${FAILURE_MODE})`);
+    }
     console.log('\n📋 Admin Endpoints:');
     console.log(`   View pending: GET http://localhost:${PORT}/admin/pending`);
     console.log(`   Approve: POST http://localhost:${PORT}/admin/decide/{applicationId}`);
@@ -271,5 +513,9 @@ app.listen(PORT, () => {
     console.log(`           Body: {"approved": false, "reason": "Your reason here"}`);
     console.log(`   Bulk: POST http://localhost:${PORT}/admin/bulk-decide`);
     console.log(`         Body: {"approved": true/false, "applicationIds": ["APP-1", "APP-2"]}`);
+    console.log(`   Request info: POST http://localhost:${PORT}/admin/request-info/{applicationId}`);
+    console.log(`                 Body: {"documents": ["bank_statement"], "reason": "Your reason here"}`);
+    console.log(`   Resend decision: POST http://localhost:${PORT}/admin/resend/{applicationId}`);
+    console.log(`   Status: GET http://localhost:${PORT}/merchant-applications/{applicationId}`);
     console.log('================================\n');
 });
\ No newline at end of file
@@ -0,0 +1,43 @@
+// backend/src/config/database.ts
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { config } from './env';
+import { logger } from '../utils/logger';
+
+export type StorageDriver = 'sqlite' | 'supabase';
+
+/**
+ * Resolve which persistence backend repositories should use.
+ * SQLite is the default so local and test runs need no external services.
+ */
+export function getStorageDriver(): StorageDriver {
+    return config.STORAGE_DRIVER;
+}
+
+/**
+ * Whether a driver has the settings it needs to connect; SQLite always does
+ */
+export function isStorageConfigured(driver: StorageDriver): boolean {
+    return driver === 'sqlite' || Boolean(config.SUPABASE_URL && config.SUPABASE_SERVICE_KEY);
+}
+
+// Lazy initialize SQLite connection
+let sqliteDatabase: Database.Database | null = null;
+
+export function getSqliteDatabase(): Database.Database {
+    if (!sqliteDatabase) {
+        const dbPath = config.SQLITE_PATH ?? path.join('data', 'sabbpe.db');
+
+        if (dbPath !== ':memory:') {
+            fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+        }
+
+        sqliteDatabase = new Database(dbPath);
+        sqliteDatabase.pragma('journal_mode = WAL');
+        sqliteDatabase.pragma('foreign_keys = ON');
+
+        logger.info('SQLite database opened', { path: dbPath });
+    }
+    return sqliteDatabase;
+}
@@ -0,0 +1,474 @@
+// backend/src/config/env.ts
+import path from 'path';
+import { BankRoutingRule } from '../types/bank';
+
+type RawEnv = Record<string, string | undefined>;
+
+interface ParseContext {
+    production: boolean;
+    problems: string[]; // refuse to start
+    warnings: string[]; // start, but report on boot and in /health/ready
+}
+
+interface Field<T> {
+    secret?: boolean;
+    parse(env: RawEnv, name: string, context: ParseContext): T;
+}
+
+// Defaults and .env.example placeholders; none of these may reach production
+const INSECURE_SECRETS = new Set([
+    'your-secret-key',
+    'your-super-secret-jwt-key-change-in-production-min-32-chars',
+    'default-webhook-secret',
+    'your-webhook-secret-key',
+    'your-webhook-api-key',
+    'test-key',
+    'your-bank-api-key',
+    'your-acquirer-api-key',
+    'your-supabase-service-role-key'
+]);
+
+const MIN_JWT_SECRET_LENGTH = 32;
+
+const REDACTED = '[REDACTED]';
+
+function read(env: RawEnv, name: string): string | undefined {
+    const value = env[name]?.trim();
+    return value ? value : undefined;
+}
+
+function string(fallback: string): Field<string> {
+    return { parse: (env, name) => read(env, name) ?? fallback };
+}
+
+function optionalString(): Field<string | undefined> {
+    return { parse: (env, name) => read(env, name) };
+}
+
+// Comma-separated, blanks dropped
+function stringList(): Field<string[]> {
+    return {
+        parse: (env, name) => (read(env, name) ?? '').split(',').map(value => value.trim()).filter(Boolean)
+    };
+}
+
+function integer(fallback: number, min = 0): Field<number> {
+    return {
+        parse: (env, name, context) => {
+            const raw = read(env, name);
+
+            if (raw === undefined) {
+                return fallback;
+            }
+
+            const value = Number(raw);
+
+            if (!Number.isInteger(value) || value < min) {
+                context.problems.push(`${name} must be an integer of at least ${min} (got "${raw}")`);
+                return fallback;
+            }
+
+            return value;
+        }
+    };
+}
+
+function number(fallback: number): Field<number> {
+    return {
+        parse: (env, name, context) => {
+            const raw = read(env, name);
+
+            if (raw === undefined) {
+                return fallback;
+            }
+
+            const value = Number(raw);
+
+            if (!Number.isFinite(value) || value <= 0) {
+                context.problems.push(`${name} must be a positive number (got "${raw}")`);
+                return fallback;
+            }
+
+            return value;
+        }
+    };
+}
+
+function boolean(fallback: boolean): Field<boolean> {
+    return {
+        parse: (env, name, context) => {
+            const raw = read(env, name)?.toLowerCase();
+
+            if (raw === undefined) {
+                return fallback;
+            }
+            if (raw !== 'true' && raw !== 'false') {
+                context.problems.push(`${name} must be "true" or "false" (got "${raw}")`);
+                return fallback;
+            }
+
+            return raw === 'true';
+        }
+    };
+}
+
+// Case-insensitive; returns the value as listed
+function oneOf<T extends string>(values: readonly T[], fallback: T): Field<T> {
+    return {
+        parse: (env, name, context) => optionalOneOf(values).parse(env, name, context) ?? fallback
+    };
+}
+
+function optionalOneOf<T extends string>(values: readonly T[]): Field<T | undefined> {
+    return {
+        parse: (env, name, context) => {
+            const raw = read(env, name);
+
+            if (raw === undefined) {
+                return undefined;
+            }
+
+            const value = values.find(candidate => candidate.toLowerCase() === raw.toLowerCase());
+
+            if (!value) {
+                context.problems.push(`${name} must be one of ${values.join(', ')} (got "${raw}")`);
+            }
+
+            return value;
+        }
+    };
+}
+
+function url(fallback: string): Field<string>;
+function url(): Field<string | undefined>;
+function url(fallback?: string): Field<string | undefined> {
+    return {
+        parse: (env, name, context) => {
+            const raw = read(env, name) ?? fallback;
+
+            if (raw !== undefined && !/^https?:\/\/[^\s/]+/.test(raw)) {
+                context.problems.push(`${name} must be an http(s) URL (got "${raw}")`);
+            }
+
+            return raw;
+        }
+    };
+}
+
+function checkSecret(name: string, value: string | undefined, context: ParseContext, minLength = 1): boolean {
+    const problem = value === undefined
+        ? `${name} is not set`
+        : INSECURE_SECRETS.has(value)
+            ? `${name} is a default or example value`
+            : context.production && value.length < minLength
+                ? `${name} must be at least ${minLength} characters`
+                : null;
+
+    if (problem) {
+        (context.production ? context.problems : context.warnings).push(problem);
+    }
+
+    return problem === null;
+}
+
+/**
+ * A secret that must be set (and not a known default) in production. Outside
+ * production the development default is used with a warning.
+ */
+function secret(developmentDefault: string, minLength?: number): Field<string> {
+    return {
+        secret: true,
+        parse: (env, name, context) => {
+            const value = read(env, name);
+            checkSecret(name, value, context, minLength);
+            return value ?? developmentDefault;
+        }
+    };
+}
+
+// A secret for an optional feature; only its value is checked
+function optionalSecret(): Field<string | undefined> {
+    return {
+        secret: true,
+        parse: (env, name, context) => {
+            const value = read(env, name);
+
+            if (value !== undefined) {
+                checkSecret(name, value, context);
+            }
+
+            return value;
+        }
+    };
+}
+
+// A secret that must be set in production; elsewhere what it guards stays open while unset
+function productionSecret(): Field<string | undefined> {
+    return {
+        secret: true,
+        parse: (env, name, context) => {
+            const value = read(env, name);
+
+            if (value !== undefined || context.production) {
+                checkSecret(name, value, context);
+            }
+
+            return value;
+        }
+    };
+}
+
+/**
+ * Comma-separated secrets, with a single-secret variable as the fallback
+ * (WEBHOOK_SECRETS, then WEBHOOK_SECRET)
+ */
+function secretList(singularName: string, developmentDefault: string): Field<string[]> {
+    return {
+        secret: true,
+        parse: (env, name, context) => {
+            const source = read(env, name) !== undefined ? name : singularName;
+            const values = (read(env, source) ?? '').split(',').map(value => value.trim()).filter(Boolean);
+
+            if (values.length === 0) {
+                checkSecret(`${name} or ${singularName}`, undefined, context);
+                return [developmentDefault];
+            }
+
+            values.forEach(value => checkSecret(source, value, context));
+            return values;
+        }
+    };
+}
+
+// BANK_ROUTING_RULES: a JSON array of BankRoutingRule
+function routingRules(): Field<BankRoutingRule[]> {
+    return {
+        parse: (env, name, context) => {
+            const raw = read(env, name);
+
+            if (raw === undefined) {
+                return [];
+            }
+
+            let rules: unknown;
+
+            try {
+                rules = JSON.parse(raw);
+            } catch {
+                context.problems.push(`${name} is not valid JSON`);
+                return [];
+            }
+
+            if (!Array.isArray(rules) || rules.some(rule => typeof rule?.adapter !== 'string')) {
+                context.problems.push(`${name} must be an array of rules with an "adapter"`);
+                return [];
+            }
+
+            return rules as BankRoutingRule[];
+        }
+    };
+}
+
+/**
+ * Every environment variable the backend reads. Documented in .env.example.
+ */
+const schema = {
+    NODE_ENV: oneOf(['development', 'production', 'test'] as const, 'development'),
+    PORT: integer(5000, 1),
+    CORS_ORIGIN: string('http://localhost:3000'),
+    LOG_LEVEL: optionalOneOf(['ERROR', 'WARN', 'INFO', 'DEBUG'] as const),
+    // full: sensitive keys and value patterns (PAN, Aadhaar, IFSC + account, bearer tokens); keys: key names only
+    LOG_REDACTION: oneOf(['full', 'keys', 'off'] as const, 'full'),
+    LOG_REDACT_KEYS: stringList(), // extra context keys to redact, e.g. otp,cvv
+
+    // Traces in OTLP/JSON: none, file (one export request per line) or otlp (HTTP collector)
+    OTEL_TRACES_EXPORTER: oneOf(['none', 'file', 'otlp'] as const, 'none'),
+    OTEL_SERVICE_NAME: string('sabbpe-backend'),
+    OTEL_TRACES_FILE: string(path.join('data', 'traces.ndjson')),
+    OTEL_EXPORTER_OTLP_ENDPOINT: url('http://localhost:4318'),
+
+    STORAGE_DRIVER: oneOf(['sqlite', 'supabase'] as const, 'sqlite'),
+    SQLITE_PATH: optionalString(),
+    SUPABASE_URL: url(),
+    SUPABASE_SERVICE_KEY: optionalSecret(),
+    // Verifies the Supabase Auth access tokens the React app sends; unset, only backend sessions are accepted
+    SUPABASE_JWT_SECRET: optionalSecret(),
+
+    JWT_SECRET: secret('your-secret-key', MIN_JWT_SECRET_LENGTH),
+    ACCESS_TOKEN_TTL_SECONDS: integer(900, 1), // 15 minutes
+    REFRESH_TOKEN_TTL_DAYS: integer(30, 1),
+
+    BANK_API_URL: url('https://bank-api.example.com'),
+    BANK_API_KEY: secret('test-key'),
+    BANK_API_TIMEOUT_MS: integer(30000, 1), // 30 seconds
+    ACQUIRER_API_URL: url('http://localhost:3002'),
+    ACQUIRER_CLIENT_ID: string('sabbpe'),
+    ACQUIRER_API_KEY: secret('test-key'),
+    BANK_DEFAULT_ADAPTER: string('mock_bank'),
+    BANK_ROUTING_RULES: routingRules(),
+
+    BANK_CIRCUIT_FAILURE_THRESHOLD: integer(5, 1),
+    BANK_CIRCUIT_RESET_TIMEOUT_MS: integer(30000),
+    BANK_CIRCUIT_HALF_OPEN_MAX_CALLS: integer(1, 1),
+    BANK_RATE_LIMIT_PER_SECOND: number(5),
+    BANK_RATE_LIMIT_BURST: integer(10, 1),
+
+    BANK_JOB_MAX_ATTEMPTS: integer(5, 1),
+    BANK_JOB_BASE_DELAY_MS: integer(5000),
+    BANK_JOB_MAX_DELAY_MS: integer(300000), // 5 minutes
+    BANK_JOB_POLL_INTERVAL_MS: integer(2000, 1),
+
+    OUTBOX_MAX_ATTEMPTS: integer(10, 1),
+    OUTBOX_BASE_DELAY_MS: integer(2000),
+    OUTBOX_MAX_DELAY_MS: integer(600000), // 10 minutes
+    OUTBOX_POLL_INTERVAL_MS: integer(1000, 1),
+
+    BANK_RECONCILE_INTERVAL_MS: integer(300000), // 5 minutes; 0 disables
+    BANK_RECONCILE_MIN_AGE_MS: integer(3600000), // 1 hour
+
+    // Rate limits (fixed windows); the store is per process for now
+    RATE_LIMIT_STORE: oneOf(['memory'] as const, 'memory'),
+    TRUST_PROXY_HOPS: integer(0), // proxies in front of the app, so req.ip is the client
+    AUTH_RATE_LIMIT_PER_IP: integer(30, 1),
+    AUTH_RATE_LIMIT_WINDOW_MS: integer(900000, 1), // 15 minutes
+    LOGIN_RATE_LIMIT_PER_ACCOUNT: integer(10, 1),
+    REFRESH_RATE_LIMIT_PER_IP: integer(60, 1), // per AUTH_RATE_LIMIT_WINDOW_MS
+    LOGIN_LOCKOUT_THRESHOLD: integer(5, 1),
+    LOGIN_LOCKOUT_BASE_MS: integer(60000, 1), // 1 minute, doubling per lockout
+    LOGIN_LOCKOUT_MAX_MS: integer(3600000, 1), // 1 hour
+    REGISTER_RATE_LIMIT_PER_IP: integer(5, 1),
+    REGISTER_RATE_LIMIT_WINDOW_MS: integer(3600000, 1), // 1 hour
+    WEBHOOK_RATE_LIMIT_PER_IP: integer(120, 1),
+    WEBHOOK_RATE_LIMIT_WINDOW_MS: integer(60000, 1), // 1 minute
+
+    HEALTH_CHECK_TIMEOUT_MS: integer(3000, 1),
+    HEALTH_QUEUE_DEPTH_WARNING: integer(100),
+    HEALTH_QUEUE_LAG_WARNING_MS: integer(300000), // 5 minutes
+
+    METRICS_TOKEN: productionSecret(), // bearer token for /metrics; open when unset outside production
+
+    WEBHOOK_SECRETS: secretList('WEBHOOK_SECRET', 'default-webhook-secret'),
+    WEBHOOK_API_KEY: optionalSecret(),
+    API_BASE_URL: url(),
+
+    // Notification providers per channel: a real gateway, or file (NDJSON under
+    // NOTIFICATION_SINK_DIR) / memory sinks for development and tests
+    NOTIFICATION_EMAIL_PROVIDER: oneOf(['smtp', 'file', 'memory'] as const, 'file'),
+    NOTIFICATION_SMS_PROVIDER: oneOf(['gateway', 'file', 'memory'] as const, 'file'),
+    NOTIFICATION_WHATSAPP_PROVIDER: oneOf(['cloud_api', 'file', 'memory'] as const, 'file'),
+    NOTIFICATION_PUSH_PROVIDER: oneOf(['web_push', 'file', 'memory'] as const, 'file'),
+    NOTIFICATION_SINK_DIR: string(path.join('data', 'notifications')),
+    NOTIFICATION_TIMEOUT_MS: integer(10000, 1),
+
+    SMTP_HOST: optionalString(),
+    SMTP_PORT: integer(587, 1),
+    SMTP_SECURE: boolean(false), // TLS from the start (465); otherwise STARTTLS
+    SMTP_USER: optionalString(),
+    SMTP_PASSWORD: optionalSecret(),
+    EMAIL_FROM: string('SabbPe <no-reply@sabbpe.com>'),
+
+    SMS_GATEWAY_URL: url(),
+    SMS_GATEWAY_API_KEY: optionalSecret(),
+    SMS_SENDER_ID: string('SABBPE'),
+
+    WHATSAPP_API_URL: url('https://graph.facebook.com/v19.0'),
+    WHATSAPP_PHONE_NUMBER_ID: optionalString(),
+    WHATSAPP_ACCESS_TOKEN: optionalSecret(),
+
+    // VAPID key pair (base64url) for web push to the PWA
+    VAPID_PUBLIC_KEY: optionalString(),
+    VAPID_PRIVATE_KEY: optionalSecret(),
+    VAPID_SUBJECT: string('mailto:admin@sabbpe.com'),
+    PUSH_TTL_SECONDS: integer(86400), // 1 day
+
+    ADMIN_EMAIL: string('admin@sabbpe.com'),
+    APP_URL: string('http://localhost:3000'),
+    SEED_DEMO_USERS: boolean(false)
+};
+
+type Schema = typeof schema;
+
+export type AppConfig = {
+    readonly [K in keyof Schema]: ReturnType<Schema[K]['parse']>;
+};
+
+export interface LoadedConfig {
+    config: AppConfig;
+    warnings: string[];
+}
+
+/**
+ * Parse and validate the environment. Throws listing every problem, so a
+ * misconfigured deployment fails at boot rather than on first use.
+ */
+export function loadConfig(env: RawEnv = process.env): LoadedConfig {
+    const production = read(env, 'NODE_ENV')?.toLowerCase() === 'production';
+    const context: ParseContext = { production, problems: [], warnings: [] };
+
+    const parsed = Object.fromEntries(
+        Object.entries(schema).map(([name, field]) => [name, field.parse(env, name, context)])
+    ) as AppConfig;
+
+    if (parsed.STORAGE_DRIVER === 'supabase' && (!parsed.SUPABASE_URL || !parsed.SUPABASE_SERVICE_KEY)) {
+        context.problems.push('STORAGE_DRIVER=supabase needs SUPABASE_URL and SUPABASE_SERVICE_KEY');
+    }
+
+    if (parsed.NOTIFICATION_EMAIL_PROVIDER === 'smtp' && !parsed.SMTP_HOST) {
+        context.problems.push('NOTIFICATION_EMAIL_PROVIDER=smtp needs SMTP_HOST');
+    }
+    if (parsed.NOTIFICATION_SMS_PROVIDER === 'gateway' && (!parsed.SMS_GATEWAY_URL || !parsed.SMS_GATEWAY_API_KEY)) {
+        context.problems.push('NOTIFICATION_SMS_PROVIDER=gateway needs SMS_GATEWAY_URL and SMS_GATEWAY_API_KEY');
+    }
+    if (
+        parsed.NOTIFICATION_WHATSAPP_PROVIDER === 'cloud_api'
+        && (!parsed.WHATSAPP_PHONE_NUMBER_ID || !parsed.WHATSAPP_ACCESS_TOKEN)
+    ) {
+        context.problems.push('NOTIFICATION_WHATSAPP_PROVIDER=cloud_api needs WHATSAPP_PHONE_NUMBER_ID and WHATSAPP_ACCESS_TOKEN');
+    }
+    if (parsed.NOTIFICATION_PUSH_PROVIDER === 'web_push' && (!parsed.VAPID_PUBLIC_KEY || !parsed.VAPID_PRIVATE_KEY)) {
+        context.problems.push('NOTIFICATION_PUSH_PROVIDER=web_push needs VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY');
+    }
+
+    if (parsed.SUPABASE_URL && !parsed.SUPABASE_JWT_SECRET) {
+        context.warnings.push('SUPABASE_JWT_SECRET is not set, so the React dashboard cannot call the backend');
+    }
+
+    if (production && parsed.LOG_REDACTION === 'off') {
+        context.problems.push('LOG_REDACTION cannot be off in production');
+    }
+
+    if (!parsed.API_BASE_URL) {
+        (production ? context.problems : context.warnings)
+            .push('API_BASE_URL is not set, so banks get no callback URL');
+    }
+
+    if (context.problems.length > 0) {
+        throw new Error(`Invalid configuration:\n  - ${context.problems.join('\n  - ')}`);
+    }
+
+    return { config: Object.freeze(parsed), warnings: context.warnings };
+}
+
+/**
+ * Config safe to log: secrets are replaced whether or not they are set to a default
+ */
+export function redactConfig(config: AppConfig): Record<string, string | number | boolean | undefined> {
+    return Object.fromEntries(
+        Object.entries(schema).map(([name, field]) => {
+            const value = config[name as keyof AppConfig];
+
+            if (field.secret) {
+                return [name, value === undefined ? undefined : REDACTED];
+            }
+
+            return [name, typeof value === 'object' ? JSON.stringify(value) : value];
+        })
+    );
+}
+
+const loaded = loadConfig();
+
+export const config = loaded.config;
+
+// Insecure defaults in use outside production
+export const configWarnings: readonly string[] = loaded.warnings;
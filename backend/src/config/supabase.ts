@@ -0,0 +1,33 @@
+// backend/src/config/supabase.ts
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { config } from './env';
+import { logger } from '../utils/logger';
+
+// Lazy initialize Supabase client
+let supabaseClient: SupabaseClient | null = null;
+
+export function getSupabaseClient(): SupabaseClient {
+    if (!supabaseClient) {
+        const supabaseUrl = config.SUPABASE_URL;
+        const supabaseKey = config.SUPABASE_SERVICE_KEY;
+
+        if (!supabaseUrl) {
+            throw new Error('SUPABASE_URL environment variable is not set');
+        }
+        if (!supabaseKey) {
+            throw new Error('SUPABASE_SERVICE_KEY environment variable is not set');
+        }
+
+        supabaseClient = createClient(supabaseUrl, supabaseKey, {
+            auth: {
+                autoRefreshToken: false,
+                persistSession: false
+            }
+        });
+
+        logger.info('Supabase client initialized', {
+            url: supabaseUrl.substring(0, 30) + '...'
+        });
+    }
+    return supabaseClient;
+}
@@ -0,0 +1,103 @@
+// backend/src/controllers/merchantController.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { merchantController } from './merchantController';
+import { merchantService } from '../services/merchantService';
+import { MerchantProfile } from '../types/merchant';
+import { AppError } from '../utils/errors';
+
+const profile = (documents: object[], extra: object = {}) => ({
+    businessName: 'Sharma Stores',
+    businessType: 'retail',
+    registrationNumber: 'ABCDE1234F',
+    taxId: '27ABCDE1234F1Z5',
+    email: 'owner@example.com',
+    phone: '9876543210',
+    addressLine1: '12 MG Road',
+    city: 'Pune',
+    state: 'Maharashtra',
+    postalCode: '411001',
+    country: 'India',
+    documents,
+    ...extra
+});
+
+const upload = (type: string, extra: object = {}) => ({
+    type,
+    url: `https://files.example.com/${type}.pdf`,
+    filename: `${type}.pdf`,
+    uploadedAt: '2025-10-19T10:00:00.000Z',
+    ...extra
+});
+
+// Runs POST /merchant/profile for a user and returns the saved profile
+async function saveProfile(userId: string, body: object): Promise<MerchantProfile> {
+    let saved: MerchantProfile | undefined;
+    let failure: unknown;
+
+    const req = { user: { userId, role: 'merchant' }, body } as unknown as Request;
+    const res = { json: (payload: { data: MerchantProfile }) => { saved = payload.data; } } as unknown as Response;
+
+    await merchantController.saveProfile(req, res, error => { failure = error; });
+
+    if (failure) throw failure;
+    return saved as MerchantProfile;
+}
+
+describe('MerchantController.saveProfile', () => {
+    it('ignores review, bank and status fields sent by the merchant', async () => {
+        const saved = await saveProfile(uuidv4(), profile(
+            [upload('pan_card', { verified: true, verifiedAt: '2025-10-19T10:00:00.000Z' })],
+            {
+                onboardingStatus: 'approved',
+                bankApplicationId: 'APP-1',
+                requestedDocuments: ['selfie']
+            }
+        ));
+
+        assert.equal(saved.onboardingStatus, 'draft');
+        assert.equal(saved.bankApplicationId, undefined);
+        assert.equal(saved.requestedDocuments, undefined);
+        assert.equal(saved.documents[0].verified, undefined);
+    });
+
+    it('cannot get an application to the bank without an admin verifying its documents', async () => {
+        const verified = { verified: true, verifiedAt: '2025-10-19T10:00:00.000Z' };
+        const saved = await saveProfile(uuidv4(), profile([
+            upload('pan_card', verified),
+            upload('aadhaar_card', verified),
+            upload('cancelled_cheque', verified)
+        ]));
+
+        await merchantService.transition(saved.id, 'SUBMIT');
+        await merchantService.transition(saved.id, 'START_VALIDATION');
+
+        await assert.rejects(
+            merchantService.transition(saved.id, 'SUBMIT_TO_BANK'),
+            (error: AppError) => error.code === 'TRANSITION_GUARD_FAILED'
+        );
+    });
+
+    it('keeps the review status of stored documents and never verifies a new one', async () => {
+        const userId = uuidv4();
+        const first = await saveProfile(userId, profile([upload('pan_card')]));
+        const reviewed = await merchantService.verifyDocument(first.id, first.documents[0].id as string, {
+            actorType: 'admin'
+        });
+
+        const saved = await saveProfile(userId, profile([
+            reviewed.documents[0],
+            upload('aadhaar_card', { id: uuidv4(), verified: true })
+        ]));
+
+        assert.equal(saved.documents.length, 2);
+        assert.equal(saved.documents[0].id, reviewed.documents[0].id);
+        assert.equal(saved.documents[0].verified, true);
+        assert.equal(saved.documents[1].verified, undefined);
+
+        const stored = await merchantService.getMerchantById(saved.id);
+        assert.deepEqual(stored.documents.map(doc => doc.verified), [true, false]);
+    });
+});
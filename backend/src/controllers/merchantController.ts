@@ -1,13 +1,45 @@
 // src/controllers/merchantController.ts
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
 import { merchantService } from '../services/merchantService';
 import { validationService } from '../services/validationService';
-import { bankApiService } from '../services/bankApiService';
+import { onboardingStateMachine } from '../services/onboardingStateMachine';
+import { bankSubmissionQueue } from '../services/bankSubmissionQueue';
 import { notificationService } from '../services/notifications';
-import { MerchantSubmission, OnboardingStatus } from '../types/merchant';
+import { MerchantDocument, MerchantProfile, MerchantSubmission, OnboardingStatus } from '../types/merchant';
 import { logger } from '../utils/logger';
 import { BadRequestError, NotFoundError } from '../utils/errors';
 
+// Profile fields a merchant edits; review, bank and status fields are only written by the services
+const EDITABLE_PROFILE_FIELDS = [
+    'businessName', 'businessType', 'entityType', 'registrationNumber', 'taxId', 'fullName',
+    'aadhaarNumber', 'email', 'phone', 'website', 'addressLine1', 'addressLine2', 'city',
+    'state', 'postalCode', 'country', 'products', 'metadata'
+] as const satisfies ReadonlyArray<keyof MerchantSubmission>;
+
+/**
+ * The profile a merchant sent, without fields they may not set. Documents keep
+ * only what was uploaded; whether one is verified comes from admin review.
+ */
+function toSubmission(body: Record<string, unknown>): MerchantSubmission {
+    const submission = Object.fromEntries(
+        EDITABLE_PROFILE_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])
+    ) as Partial<MerchantSubmission>;
+    const documents = Array.isArray(body.documents) ? body.documents as Array<Partial<MerchantDocument>> : [];
+
+    return {
+        ...submission,
+        documents: documents.map(doc => ({
+            // Only matched against the merchant's own stored documents
+            ...(typeof doc.id === 'string' && { id: doc.id }),
+            type: doc.type as MerchantDocument['type'],
+            url: doc.url as string,
+            filename: doc.filename as string,
+            uploadedAt: doc.uploadedAt as string
+        }))
+    } as MerchantSubmission;
+}
+
 export class MerchantController {
     /**
      * Create or update merchant profile (draft)
@@ -22,7 +54,7 @@ export class MerchantController {
                 throw new BadRequestError('User not authenticated', 'UNAUTHORIZED');
             }
 
-            const data: MerchantSubmission = req.body;
+            const data = toSubmission(req.body ?? {});
             const userId = req.user.userId;
 
             // Check if merchant already exists
@@ -69,33 +101,64 @@ export class MerchantController {
             // Validate profile
             await validationService.validateMerchantProfile(merchant);
 
-            // Update status to submitted
-            const updated = await merchantService.updateStatus(
+            // Submitting notifies the merchant and the admin team on entry
+            const updated = await merchantService.transition(
                 merchant.id,
-                'submitted'
+                'SUBMIT',
+                undefined,
+                undefined,
+                { actorId: userId, actorType: 'merchant' }
             );
 
-            // Send notification to admin
-            await notificationService.notifyAdminNewSubmission(updated);
+            res.json({
+                success: true,
+                data: updated,
+                message: 'Application submitted successfully'
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
 
-            // Send confirmation to merchant
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                'draft',
-                'submitted'
-            );
+    /**
+     * Upload the documents the bank asked for; the application goes back to the bank
+     */
+    async provideInfo(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            if (!req.user) {
+                throw new BadRequestError('User not authenticated', 'UNAUTHORIZED');
+            }
 
-            logger.business(
-                'merchant_submitted',
+            const userId = req.user.userId;
+            const merchant = await merchantService.getMerchantByUserId(userId);
+
+            if (!merchant) {
+                throw new NotFoundError('Merchant profile not found', 'MERCHANT_NOT_FOUND');
+            }
+
+            const documents: MerchantDocument[] = req.body.documents;
+
+            if (!Array.isArray(documents) || documents.length === 0) {
+                throw new BadRequestError('Requested documents are required', 'MISSING_DOCUMENTS');
+            }
+
+            const updated = await merchantService.provideRequestedInfo(
                 merchant.id,
-                'merchant',
-                { userId }
+                documents,
+                { actorId: userId, actorType: 'merchant' }
             );
 
             res.json({
                 success: true,
-                data: updated,
-                message: 'Application submitted successfully'
+                data: {
+                    merchant: updated,
+                    bankJob: await bankSubmissionQueue.getActiveJob(merchant.id)
+                },
+                message: 'Application queued for bank resubmission'
             });
         } catch (error) {
             next(error);
@@ -136,6 +199,166 @@ export class MerchantController {
         }
     }
 
+    /**
+     * Get status history of the merchant's own profile
+     */
+    async getProfileHistory(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            if (!req.user) {
+                throw new BadRequestError('User not authenticated', 'UNAUTHORIZED');
+            }
+
+            const merchant = await merchantService.getMerchantByUserId(req.user.userId);
+
+            if (!merchant) {
+                throw new NotFoundError('Merchant profile not found', 'MERCHANT_NOT_FOUND');
+            }
+
+            const history = await merchantService.getStatusHistory(merchant.id);
+
+            res.json({
+                success: true,
+                data: history,
+                count: history.length
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get the merchant's notification channels and push subscriptions
+     */
+    async getNotificationPreferences(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const merchant = await this.getOwnMerchant(req);
+            const preferences = await notificationService.getPreferences(merchant.id);
+
+            res.json({
+                success: true,
+                data: {
+                    ...preferences,
+                    // The PWA subscribes with this key (applicationServerKey)
+                    vapidPublicKey: config.VAPID_PUBLIC_KEY
+                }
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Turn notification channels on or off and choose the language
+     */
+    async updateNotificationPreferences(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const merchant = await this.getOwnMerchant(req);
+            const { channels, locale } = req.body;
+
+            if ((channels === undefined && locale === undefined)
+                || (channels !== undefined && (channels === null || typeof channels !== 'object'))
+                || (locale !== undefined && typeof locale !== 'string')) {
+                throw new BadRequestError('Send channels, a locale or both', 'INVALID_NOTIFICATION_PREFERENCES');
+            }
+
+            const preferences = await notificationService.updatePreferences(merchant.id, { channels, locale });
+
+            res.json({
+                success: true,
+                data: preferences,
+                message: 'Notification preferences updated'
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Register this browser for web push
+     */
+    async addPushSubscription(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const merchant = await this.getOwnMerchant(req);
+            const preferences = await notificationService.addPushSubscription(merchant.id, req.body);
+
+            res.status(201).json({
+                success: true,
+                data: preferences,
+                message: 'Push subscription saved'
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Stop web push to a browser
+     */
+    async removePushSubscription(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const merchant = await this.getOwnMerchant(req);
+            const { endpoint } = req.body;
+
+            if (!endpoint) {
+                throw new BadRequestError('Endpoint is required', 'MISSING_ENDPOINT');
+            }
+
+            const preferences = await notificationService.removePushSubscription(merchant.id, endpoint);
+
+            res.json({
+                success: true,
+                data: preferences,
+                message: 'Push subscription removed'
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * Get the notifications sent to the merchant and their delivery status
+     */
+    async getNotifications(
+        req: Request,
+        res: Response,
+        next: NextFunction
+    ): Promise<void> {
+        try {
+            const merchant = await this.getOwnMerchant(req);
+            // Admin alerts about the merchant are recorded against it too; leave those out
+            const deliveries = (await notificationService.getDeliveries({ merchantId: merchant.id }))
+                .filter(delivery => delivery.userId === merchant.userId);
+
+            res.json({
+                success: true,
+                data: deliveries,
+                count: deliveries.length
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * Get merchant by ID (admin)
      */
@@ -191,34 +414,18 @@ export class MerchantController {
             const { merchantId } = req.params;
             const merchant = await merchantService.getMerchantById(merchantId);
 
-            if (merchant.onboardingStatus !== 'submitted') {
-                throw new BadRequestError(
-                    'Merchant must be in submitted status',
-                    'INVALID_STATUS'
-                );
-            }
+            onboardingStateMachine.assertCan(merchant.onboardingStatus, 'START_VALIDATION');
 
             // Perform validation
             await validationService.validateMerchantProfile(merchant);
 
-            // Update status to validating
-            const updated = await merchantService.updateStatus(
-                merchantId,
-                'validating'
-            );
-
-            // Send notification
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                'submitted',
-                'validating'
-            );
-
-            logger.business(
-                'merchant_validated',
+            // Documents stay unverified until each one is reviewed
+            const updated = await merchantService.transition(
                 merchantId,
-                'merchant',
-                { adminUserId: req.user?.userId }
+                'START_VALIDATION',
+                undefined,
+                undefined,
+                { actorId: req.user?.userId, actorType: 'admin' }
             );
 
             res.json({
@@ -241,58 +448,23 @@ export class MerchantController {
     ): Promise<void> {
         try {
             const { merchantId } = req.params;
-            const merchant = await merchantService.getMerchantById(merchantId);
 
-            if (merchant.onboardingStatus !== 'validating') {
-                throw new BadRequestError(
-                    'Merchant must be validated first',
-                    'INVALID_STATUS'
-                );
-            }
-
-            // Submit to bank API
-            const bankResponse = await bankApiService.submitMerchantApplication(merchant);
-
-            // Update merchant with bank response
-            const updated = await merchantService.updateStatus(
+            // Entering pending_bank_approval queues the bank call
+            const updated = await merchantService.transition(
                 merchantId,
-                'pending_bank_approval',
+                'SUBMIT_TO_BANK',
                 undefined,
-                {
-                    bankApplicationId: bankResponse.applicationId,
-                    bankResponse: {
-                        success: bankResponse.success,
-                        applicationId: bankResponse.applicationId,
-                        message: bankResponse.message,
-                        estimatedProcessingTime: bankResponse.estimatedProcessingTime
-                    }
-                }
-            );
-
-            // Send notification
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                'validating',
-                'pending_bank_approval'
-            );
-
-            logger.business(
-                'merchant_submitted_to_bank',
-                merchantId,
-                'merchant',
-                {
-                    adminUserId: req.user?.userId,
-                    bankApplicationId: bankResponse.applicationId
-                }
+                undefined,
+                { actorId: req.user?.userId, actorType: 'admin' }
             );
 
             res.json({
                 success: true,
                 data: {
                     merchant: updated,
-                    bankResponse
+                    bankJob: await bankSubmissionQueue.getActiveJob(merchantId)
                 },
-                message: 'Application submitted to bank successfully'
+                message: 'Application queued for bank submission'
             });
         } catch (error) {
             next(error);
@@ -309,28 +481,16 @@ export class MerchantController {
     ): Promise<void> {
         try {
             const { merchantId } = req.params;
-            const merchant = await merchantService.getMerchantById(merchantId);
-            const oldStatus = merchant.onboardingStatus;
 
-            const updated = await merchantService.updateStatus(
+            const updated = await merchantService.transition(
                 merchantId,
-                'approved'
-            );
-
-            // Send notification
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                oldStatus,
-                'approved'
-            );
-
-            logger.business(
-                'merchant_approved',
-                merchantId,
-                'merchant',
+                'MANUAL_APPROVE',
+                undefined,
+                undefined,
                 {
-                    adminUserId: req.user?.userId,
-                    manualOverride: true
+                    actorId: req.user?.userId,
+                    actorType: 'admin',
+                    metadata: { manualOverride: true }
                 }
             );
 
@@ -363,30 +523,12 @@ export class MerchantController {
                 );
             }
 
-            const merchant = await merchantService.getMerchantById(merchantId);
-            const oldStatus = merchant.onboardingStatus;
-
-            const updated = await merchantService.updateStatus(
-                merchantId,
-                'rejected',
-                reason
-            );
-
-            // Send notification
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                oldStatus,
-                'rejected'
-            );
-
-            logger.business(
-                'merchant_rejected',
+            const updated = await merchantService.transition(
                 merchantId,
-                'merchant',
-                {
-                    adminUserId: req.user?.userId,
-                    reason
-                }
+                'REJECT',
+                reason,
+                undefined,
+                { actorId: req.user?.userId, actorType: 'admin' }
             );
 
             res.json({
@@ -427,6 +569,21 @@ export class MerchantController {
             next(error);
         }
     }
+
+    // The signed-in merchant's own profile
+    private async getOwnMerchant(req: Request): Promise<MerchantProfile> {
+        if (!req.user) {
+            throw new BadRequestError('User not authenticated', 'UNAUTHORIZED');
+        }
+
+        const merchant = await merchantService.getMerchantByUserId(req.user.userId);
+
+        if (!merchant) {
+            throw new NotFoundError('Merchant profile not found', 'MERCHANT_NOT_FOUND');
+        }
+
+        return merchant;
+    }
 }
 
 export const merchantController = new MerchantController();
\ No newline at end of file
@@ -1,13 +1,18 @@
 // src/controllers/webhookController.ts
 import { Request, Response, NextFunction } from 'express';
 import { merchantService } from '../services/merchantService';
+import { config } from '../config/env';
 import { bankApiService } from '../services/bankApiService';
-import { notificationService } from '../services/notifications';
+import { BankWebhookOutcome, webhookLedgerService } from '../services/webhookLedger';
 import { BankWebhookPayload } from '../types/bank';
 import { logger } from '../utils/logger';
 import { BadRequestError } from '../utils/errors';
 
 export class WebhookController {
+    constructor() {
+        webhookLedgerService.registerHandler('webhooks', payload => this.applyDecision(payload));
+    }
+
     /**
      * Handle bank webhook for application decision
      */
@@ -17,11 +22,13 @@ export class WebhookController {
         next: NextFunction
     ): Promise<void> {
         try {
-            const payload: BankWebhookPayload = req.body;
+            const payload: BankWebhookPayload = bankApiService.parseWebhook(req.body, req.params.adapter);
 
             logger.info('Received bank webhook', {
+                adapter: req.params.adapter,
                 applicationId: payload.applicationId,
                 merchantId: payload.merchantId,
+                eventId: payload.eventId,
                 status: payload.status
             });
 
@@ -35,98 +42,21 @@ export class WebhookController {
                 );
             }
 
-            // Get merchant
-            const merchant = await merchantService.getMerchantById(payload.merchantId);
-
-            // Verify application ID matches
-            if (merchant.bankApplicationId !== payload.applicationId) {
-                logger.warn('Webhook application ID mismatch', {
-                    merchantId: payload.merchantId,
-                    expectedApplicationId: merchant.bankApplicationId,
-                    receivedApplicationId: payload.applicationId
-                });
-
-                throw new BadRequestError(
-                    'Application ID mismatch',
-                    'APPLICATION_ID_MISMATCH'
-                );
-            }
-
-            const oldStatus = merchant.onboardingStatus;
-
-            // Process decision
-            if (payload.decision.approved) {
-                // Approve merchant
-                const updated = await merchantService.updateStatus(
-                    merchant.id,
-                    'approved',
-                    undefined,
-                    {
-                        bankResponse: {
-                            success: true,
-                            applicationId: payload.applicationId,
-                            message: 'Approved by bank',
-                            additionalData: {
-                                accountNumber: payload.decision.accountNumber || '',
-                                merchantCode: payload.decision.merchantCode || ''
-                            }
-                        }
-                    }
-                );
-
-                // Send notification
-                await notificationService.notifyMerchantStatusChange(
-                    updated,
-                    oldStatus,
-                    'approved'
-                );
-
-                logger.business(
-                    'merchant_approved_by_bank',
-                    merchant.id,
-                    'merchant',
-                    {
-                        applicationId: payload.applicationId,
-                        accountNumber: payload.decision.accountNumber
-                    }
-                );
-            } else {
-                // Reject merchant
-                const updated = await merchantService.updateStatus(
-                    merchant.id,
-                    'rejected',
-                    payload.decision.reason || 'Rejected by bank',
-                    {
-                        bankResponse: {
-                            success: false,
-                            applicationId: payload.applicationId,
-                            message: payload.decision.reason || 'Rejected by bank'
-                        }
-                    }
-                );
-
-                // Send notification
-                await notificationService.notifyMerchantStatusChange(
-                    updated,
-                    oldStatus,
-                    'rejected'
-                );
-
-                logger.business(
-                    'merchant_rejected_by_bank',
-                    merchant.id,
-                    'merchant',
-                    {
-                        applicationId: payload.applicationId,
-                        reason: payload.decision.reason
-                    }
-                );
-            }
+            // Redeliveries of an event that was already handled are acknowledged, not re-run
+            const { event, duplicate } = await webhookLedgerService.receive(
+                'webhooks',
+                payload,
+                req.rawBody ?? JSON.stringify(req.body)
+            );
 
             // Respond to webhook
             res.json({
                 success: true,
-                message: 'Webhook processed successfully'
+                message: duplicate
+                    ? 'Duplicate webhook ignored'
+                    : event.status === 'ignored' ? 'Decision no longer applies, ignored' : 'Webhook processed successfully',
+                duplicate,
+                eventId: event.eventId
             });
         } catch (error) {
             logger.error(
@@ -139,6 +69,96 @@ export class WebhookController {
         }
     }
 
+    /**
+     * Apply the bank decision to the merchant (notification and audit are entry actions of the new status)
+     */
+    private async applyDecision(payload: BankWebhookPayload): Promise<BankWebhookOutcome> {
+        // Get merchant
+        const merchant = await merchantService.getMerchantById(payload.merchantId);
+
+        // Verify application ID matches
+        if (merchant.bankApplicationId !== payload.applicationId) {
+            logger.warn('Webhook application ID mismatch', {
+                merchantId: payload.merchantId,
+                expectedApplicationId: merchant.bankApplicationId,
+                receivedApplicationId: payload.applicationId
+            });
+
+            throw new BadRequestError(
+                'Application ID mismatch',
+                'APPLICATION_ID_MISMATCH'
+            );
+        }
+
+        const event = bankApiService.getDecisionEvent(payload);
+
+        if (!(await merchantService.acceptsBankDecision(merchant, event, payload.applicationId))) {
+            return 'ignored';
+        }
+
+        if (event === 'BANK_REQUEST_INFO') {
+            // Not a decision yet: the merchant uploads what the bank asked for and it is resubmitted
+            await merchantService.transition(
+                merchant.id,
+                'BANK_REQUEST_INFO',
+                undefined,
+                {
+                    requestedDocuments: bankApiService.getRequestedDocuments(payload.decision),
+                    infoRequestReason: payload.decision.reason || undefined,
+                    bankResponse: {
+                        success: false,
+                        applicationId: payload.applicationId,
+                        message: payload.decision.reason || 'More information requested by bank'
+                    }
+                },
+                {
+                    actorType: 'bank',
+                    metadata: { applicationId: payload.applicationId }
+                }
+            );
+        } else if (event === 'BANK_APPROVE') {
+            await merchantService.transition(
+                merchant.id,
+                'BANK_APPROVE',
+                undefined,
+                {
+                    bankResponse: {
+                        success: true,
+                        applicationId: payload.applicationId,
+                        message: 'Approved by bank',
+                        additionalData: {
+                            accountNumber: payload.decision.accountNumber || '',
+                            merchantCode: payload.decision.merchantCode || ''
+                        }
+                    }
+                },
+                {
+                    actorType: 'bank',
+                    metadata: { applicationId: payload.applicationId }
+                }
+            );
+        } else {
+            await merchantService.transition(
+                merchant.id,
+                'BANK_REJECT',
+                payload.decision.reason || 'Rejected by bank',
+                {
+                    bankResponse: {
+                        success: false,
+                        applicationId: payload.applicationId,
+                        message: payload.decision.reason || 'Rejected by bank'
+                    }
+                },
+                {
+                    actorType: 'bank',
+                    metadata: { applicationId: payload.applicationId }
+                }
+            );
+        }
+
+        return 'processed';
+    }
+
     /**
      * Test webhook endpoint (development only)
      */
@@ -148,7 +168,7 @@ export class WebhookController {
         next: NextFunction
     ): Promise<void> {
         try {
-            if (process.env.NODE_ENV === 'production') {
+            if (config.NODE_ENV === 'production') {
                 throw new BadRequestError(
                     'Test webhook not available in production',
                     'NOT_AVAILABLE'
@@ -182,6 +202,7 @@ export class WebhookController {
 
             // Process the test webhook
             req.body = testPayload;
+            req.rawBody = JSON.stringify(testPayload);
             await this.handleBankWebhook(req, res, next);
         } catch (error) {
             next(error);
@@ -10,6 +10,15 @@ import merchantRoutes from './routes/merchant';
 import adminRoutes from './routes/admin';
 import webhookRoutes from './routes/webhook';
 import supabaseRoutes from './routes/supabase';  // ✅ Added
+import onboardingRoutes from './routes/onboarding';
+import healthRoutes from './routes/health';
+import metricsRoutes from './routes/metrics';
+import { bankSubmissionQueue } from './services/bankSubmissionQueue';
+import { outboxDispatcher } from './services/outboxDispatcher';
+import { bankStatusReconciler } from './services/bankStatusReconciler';
+import { config, configWarnings, redactConfig } from './config/env';
+import { captureRawBody } from './middleware/webhookAuth';
+import { requestContext } from './middleware/requestContext';
 import { logger } from './utils/logger';
 import {
     AppError,
@@ -20,7 +29,10 @@ import {
 dotenv.config();
 
 const app: Express = express();
-const PORT = process.env.PORT || 5000;
+const PORT = config.PORT;
+
+// Rate limits and sessions key on req.ip, the client's address only when the proxies are trusted
+app.set('trust proxy', config.TRUST_PROXY_HOPS);
 
 // Handle unhandled rejections and uncaught exceptions
 process.on('unhandledRejection', (reason: unknown) => {
@@ -41,39 +53,21 @@ process.on('uncaughtException', (error: Error) => {
 
 // Middleware
 app.use(cors({
-    origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
+    origin: config.CORS_ORIGIN,
     credentials: true
 }));
 
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true }));
 
-// Request logging middleware
-app.use((req: Request, res: Response, next: NextFunction) => {
-    const startTime = Date.now();
-
-    res.on('finish', () => {
-        const duration = Date.now() - startTime;
-        logger.request(
-            req.method,
-            req.path,
-            res.statusCode,
-            duration
-        );
-    });
+// Correlation id, trace span and request logging
+app.use(requestContext);
 
-    next();
-});
+// Health checks: /health, /health/live and /health/ready
+app.use('/health', healthRoutes);
 
-// Health check
-app.get('/health', (req, res) => {
-    res.json({
-        success: true,
-        message: 'Server is running',
-        timestamp: new Date().toISOString(),
-        uptime: process.uptime()
-    });
-});
+// Prometheus metrics
+app.use('/metrics', metricsRoutes);
 
 // API Routes
 app.use('/api/auth', authRoutes);
@@ -81,6 +75,7 @@ app.use('/api/merchants', merchantRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/webhooks', webhookRoutes);
 app.use('/api/supabase', supabaseRoutes);  // ✅ Added
+app.use('/api/onboarding', onboardingRoutes);
 
 // 404 handler
 app.use((req: Request, res: Response) => {
@@ -130,7 +125,7 @@ app.use((err: Error | AppError, req: Request, res: Response, next: NextFunction)
         error: {
             code: 'INTERNAL_SERVER_ERROR',
             message: 'An unexpected error occurred',
-            details: process.env.NODE_ENV === 'development' ? err.message : undefined
+            details: config.NODE_ENV === 'development' ? err.message : undefined
         }
     });
 });
@@ -139,17 +134,27 @@ app.use((err: Error | AppError, req: Request, res: Response, next: NextFunction)
 app.listen(PORT, () => {
     logger.info('Server started successfully', {
         port: PORT,
-        env: process.env.NODE_ENV || 'development',
+        env: config.NODE_ENV,
         nodeVersion: process.version
     });
+    logger.info('Configuration loaded', redactConfig(config));
+    configWarnings.forEach(warning => logger.warn(`Insecure configuration: ${warning}`));
+
+    // Delivers what status changes left in the outbox, including before a restart
+    outboxDispatcher.start();
+    // Picks up jobs left over from a previous run as well as new ones
+    bankSubmissionQueue.start();
+    // Catches bank decisions whose webhook never arrived
+    bankStatusReconciler.start();
 
     console.log('');
     console.log('✅ SabbPe Backend Server Running');
     console.log('================================');
     console.log(`📡 API: http://localhost:${PORT}/api`);
     console.log(`🏥 Health: http://localhost:${PORT}/health`);
+    console.log(`📈 Metrics: http://localhost:${PORT}/metrics`);
     console.log(`🔗 Supabase Webhook: http://localhost:${PORT}/api/supabase/merchant-webhook`);  // ✅ Added
-    console.log(`🌍 Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log(`🌍 Environment: ${config.NODE_ENV}`);
     console.log('================================');
     console.log('');
 });
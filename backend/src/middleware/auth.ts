@@ -1,6 +1,9 @@
 ﻿// src/middleware/auth.ts
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { sessionService } from '../services/sessionService';
+import { supabaseAuthService } from '../services/supabaseAuth';
+import { UserSession } from '../types/user';
 import { UnauthorizedError, ForbiddenError } from '../utils/errors';
 
 // Extend Express Request type
@@ -8,28 +11,17 @@ declare global {
     namespace Express {
         interface Request {
             user?: UserSession;
+            // The body exactly as sent, kept by captureRawBody for signature checks
+            rawBody?: string;
         }
     }
 }
 
-interface UserSession {
-    userId: string;
-    email: string;
-    role: 'merchant' | 'admin' | 'distributor';
-    firstName: string;
-    lastName: string;
-}
-
-interface JwtPayload extends UserSession {
-    iat: number;
-    exp: number;
-}
-
-export const authenticate = (
+export const authenticate = async (
     req: Request,
     res: Response,
     next: NextFunction
-): void => {
+): Promise<void> => {
     try {
         const authHeader = req.headers.authorization;
 
@@ -41,17 +33,12 @@ export const authenticate = (
         }
 
         const token = authHeader.replace('Bearer ', '');
-        const jwtSecret = process.env.JWT_SECRET || 'your-secret-key';
-
-        const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
 
-        req.user = {
-            userId: decoded.userId,
-            email: decoded.email,
-            role: decoded.role,
-            firstName: decoded.firstName,
-            lastName: decoded.lastName
-        };
+        // Backend tokens: signature/expiry and the session against the revocation list.
+        // The React dashboards send their Supabase Auth session instead.
+        req.user = supabaseAuthService.isSupabaseToken(token)
+            ? await supabaseAuthService.verifyAccessToken(token)
+            : await sessionService.verifyAccessToken(token);
 
         next();
     } catch (error) {
@@ -1,5 +1,6 @@
 ﻿// src/middleware/errorHandler.ts
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
 import { ApiError } from '../types/api';
 import { AppError, isOperationalError } from '../utils/errors';
 import { logger } from '../utils/logger';
@@ -57,7 +58,7 @@ export const errorHandler = (
         error: {
             code: 'INTERNAL_SERVER_ERROR',
             message: 'An unexpected error occurred',
-            details: process.env.NODE_ENV === 'development' ? err.message : undefined
+            details: config.NODE_ENV === 'development' ? err.message : undefined
         }
     });
 };
@@ -0,0 +1,122 @@
+// src/middleware/rateLimit.ts
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config/env';
+import { RateLimitError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { rateLimitRejections } from '../utils/metrics';
+import { RateLimitStore, rateLimitStore } from '../utils/rateLimitStore';
+
+export interface RateLimitOptions {
+    name: string; // key prefix and metric label
+    limit: number; // requests allowed per window
+    windowMs: number;
+    // Bucket the request is counted in; undefined lets it through uncounted
+    key?: (req: Request) => string | undefined;
+    store?: RateLimitStore;
+}
+
+const secondsUntil = (time: number): number => Math.max(1, Math.ceil((time - Date.now()) / 1000));
+
+// Behind a proxy this is only the client's address when TRUST_PROXY_HOPS is set
+export const byIp = (req: Request): string | undefined => req.ip;
+
+// The account a login is for, by normalized email
+export const byEmail = (req: Request): string | undefined => {
+    const email = req.body?.email;
+    return typeof email === 'string' && email.trim() ? email.trim().toLowerCase() : undefined;
+};
+
+/**
+ * Refuse a request with 429 and a Retry-After header (seconds until retryAt)
+ */
+export function tooManyRequests(
+    req: Request,
+    res: Response,
+    limiter: string,
+    retryAt: number,
+    message?: string,
+    code?: string
+): RateLimitError {
+    const retryAfterSeconds = secondsUntil(retryAt);
+
+    res.setHeader('Retry-After', retryAfterSeconds);
+    rateLimitRejections.inc({ limiter });
+
+    logger.warn('Rate limit exceeded', {
+        limiter,
+        method: req.method,
+        path: req.path,
+        ip: req.ip,
+        retryAfterSeconds
+    });
+
+    return new RateLimitError(message, code);
+}
+
+/**
+ * Fixed-window rate limit. Every counted response carries the RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset headers.
+ */
+export function rateLimit(options: RateLimitOptions): RequestHandler {
+    const { name, limit, windowMs, key = byIp, store = rateLimitStore } = options;
+
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const bucket = key(req);
+
+            if (!bucket) {
+                next();
+                return;
+            }
+
+            const counter = await store.increment(`${name}:${bucket}`, windowMs);
+
+            res.setHeader('RateLimit-Limit', limit);
+            res.setHeader('RateLimit-Remaining', Math.max(0, limit - counter.count));
+            res.setHeader('RateLimit-Reset', secondsUntil(counter.resetAt));
+
+            if (counter.count > limit) {
+                throw tooManyRequests(req, res, name, counter.resetAt);
+            }
+
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
+
+// Unauthenticated auth endpoints (login, password reset, verification), per client
+export const authRateLimit = rateLimit({
+    name: 'auth_ip',
+    limit: config.AUTH_RATE_LIMIT_PER_IP,
+    windowMs: config.AUTH_RATE_LIMIT_WINDOW_MS
+});
+
+// Guessing one account's password from many addresses
+export const loginAccountRateLimit = rateLimit({
+    name: 'login_account',
+    limit: config.LOGIN_RATE_LIMIT_PER_ACCOUNT,
+    windowMs: config.AUTH_RATE_LIMIT_WINDOW_MS,
+    key: byEmail
+});
+
+// Refresh token guessing or a client stuck in a refresh loop, per client
+export const refreshRateLimit = rateLimit({
+    name: 'refresh_ip',
+    limit: config.REFRESH_RATE_LIMIT_PER_IP,
+    windowMs: config.AUTH_RATE_LIMIT_WINDOW_MS
+});
+
+export const registerRateLimit = rateLimit({
+    name: 'register_ip',
+    limit: config.REGISTER_RATE_LIMIT_PER_IP,
+    windowMs: config.REGISTER_RATE_LIMIT_WINDOW_MS
+});
+
+// Banks retry failed deliveries, so this only stops floods
+export const webhookRateLimit = rateLimit({
+    name: 'webhook_ip',
+    limit: config.WEBHOOK_RATE_LIMIT_PER_IP,
+    windowMs: config.WEBHOOK_RATE_LIMIT_WINDOW_MS
+});
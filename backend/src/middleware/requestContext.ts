@@ -0,0 +1,93 @@
+// backend/src/middleware/requestContext.ts
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runWithRequestContext, RequestContext } from '../utils/requestContext';
+import {
+    REQUEST_ID_HEADER,
+    TRACEPARENT_HEADER,
+    parseRequestId,
+    parseTraceparent,
+    tracer
+} from '../utils/tracing';
+import { logger } from '../utils/logger';
+import { httpRequestDuration } from '../utils/metrics';
+
+// Where the matched route template is kept for the response (see recordRouteTemplate)
+const ROUTE_TEMPLATE_LOCAL = 'routeTemplate';
+
+/**
+ * Keep the template of each route the request matches on res.locals, so span
+ * names and metric labels stay low-cardinality. It is taken when Express sets
+ * req.route: req.baseUrl still holds the mount path then, but is reset by the
+ * time the error handler answers a request that left its router with next(error).
+ */
+function recordRouteTemplate(req: Request, res: Response): void {
+    let route: unknown;
+
+    Object.defineProperty(req, 'route', {
+        configurable: true,
+        enumerable: true,
+        get: () => route,
+        set: (value: { path?: unknown } | undefined) => {
+            route = value;
+
+            if (typeof value?.path === 'string') {
+                res.locals[ROUTE_TEMPLATE_LOCAL] = value.path === '/' && req.baseUrl
+                    ? req.baseUrl
+                    : `${req.baseUrl}${value.path}`;
+            }
+        }
+    });
+}
+
+/**
+ * Give each request a correlation id (the caller's X-Request-ID, or a new one)
+ * and a server span that continues the caller's traceparent. Both stay in the
+ * request context for logs and outbound calls; the id is echoed on the response.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+    const requestId = parseRequestId(req.get(REQUEST_ID_HEADER)) ?? uuidv4();
+    const span = tracer.startSpan(`${req.method} ${req.path}`, {
+        kind: 'server',
+        parent: parseTraceparent(req.get(TRACEPARENT_HEADER)),
+        attributes: {
+            'http.method': req.method,
+            'http.target': req.originalUrl,
+            'http.user_agent': req.get('user-agent'),
+            'request.id': requestId
+        }
+    });
+    const context: RequestContext = { requestId, traceId: span.traceId, spanId: span.spanId };
+    const startTime = Date.now();
+    const start = process.hrtime.bigint();
+
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    recordRouteTemplate(req, res);
+
+    res.on('finish', () => {
+        const route: string | undefined = res.locals[ROUTE_TEMPLATE_LOCAL];
+
+        httpRequestDuration.observe(
+            { method: req.method, route: route ?? 'unmatched', status_code: res.statusCode },
+            Number(process.hrtime.bigint() - start) / 1e9
+        );
+
+        if (route) {
+            span.updateName(`${req.method} ${route}`);
+        }
+        span.setAttribute('http.status_code', res.statusCode);
+        if (res.statusCode >= 500) {
+            span.setError(new Error(`HTTP ${res.statusCode}`));
+        }
+        span.end();
+
+        runWithRequestContext(context, () => logger.request(
+            req.method,
+            req.path,
+            res.statusCode,
+            Date.now() - startTime
+        ));
+    });
+
+    runWithRequestContext(context, next);
+};
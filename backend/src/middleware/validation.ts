@@ -1,5 +1,7 @@
 ﻿// src/middleware/validation.ts
 import { Request, Response, NextFunction } from 'express';
+import { MERCHANT_PRODUCT_TYPES } from '../services/validationService';
+import { MerchantProductType } from '../types/merchant';
 
 interface ValidationErrorItem {
     field: string;
@@ -117,6 +119,19 @@ export const validateMerchantSubmission = (
         });
     }
 
+    // Products (optional; they pick the acquiring bank)
+    if (
+        data.products !== undefined &&
+        (!Array.isArray(data.products) || data.products.some((product: unknown) =>
+            !MERCHANT_PRODUCT_TYPES.includes(product as MerchantProductType)))
+    ) {
+        errors.push({
+            field: 'products',
+            message: `Products must be a list of: ${MERCHANT_PRODUCT_TYPES.join(', ')}`,
+            code: 'INVALID_PRODUCTS'
+        });
+    }
+
     if (errors.length > 0) {
         res.status(400).json({
             success: false,
@@ -1,8 +1,44 @@
 // src/middleware/webhookAuth.ts
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
+import { config } from '../config/env';
 import { UnauthorizedError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { webhookRejections } from '../utils/metrics';
+
+/**
+ * express.json() verify hook that keeps the body exactly as it was sent
+ */
+export const captureRawBody = (req: Request, res: Response, buf: Buffer): void => {
+    req.rawBody = buf.toString('utf8');
+};
+
+/**
+ * Secrets accepted for bank webhook signatures. WEBHOOK_SECRETS lists every
+ * active secret (comma separated) so a new one can be rolled out to the bank
+ * before the old one is retired; WEBHOOK_SECRET is the single-secret form.
+ */
+export function getWebhookSecrets(): string[] {
+    return [...config.WEBHOOK_SECRETS];
+}
+
+/**
+ * HMAC-SHA256 (hex) of "<timestamp>.<raw body>", the scheme the bank signs with
+ */
+export function signWebhookPayload(secret: string, timestamp: string, payload: string): string {
+    return crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}.${payload}`)
+        .digest('hex');
+}
+
+// Constant-time comparison; malformed hex decodes short and fails the length check
+function signatureMatches(signature: string, expected: string): boolean {
+    const received = Buffer.from(signature, 'hex');
+    const computed = Buffer.from(expected, 'hex');
+
+    return received.length === computed.length && crypto.timingSafeEqual(received, computed);
+}
 
 /**
  * Verify webhook signature from bank API
@@ -34,7 +70,7 @@ export const verifyWebhookSignature = (
         const now = Date.now();
         const fiveMinutes = 5 * 60 * 1000;
 
-        if (Math.abs(now - timestampMs) > fiveMinutes) {
+        if (Number.isNaN(timestampMs) || Math.abs(now - timestampMs) > fiveMinutes) {
             logger.warn('Webhook timestamp expired', {
                 timestamp: timestampMs,
                 now,
@@ -47,19 +83,17 @@ export const verifyWebhookSignature = (
             );
         }
 
-        // Verify signature
-        const webhookSecret = process.env.WEBHOOK_SECRET || 'default-webhook-secret';
-        const payload = JSON.stringify(req.body);
-        const expectedSignature = crypto
-            .createHmac('sha256', webhookSecret)
-            .update(`${timestamp}.${payload}`)
-            .digest('hex');
+        // Verify signature against the exact bytes received, under any active secret
+        const payload = req.rawBody ?? JSON.stringify(req.body);
+        const secrets = getWebhookSecrets();
+        const matched = secrets.some(secret =>
+            signatureMatches(signature, signWebhookPayload(secret, timestamp, payload))
+        );
 
-        if (signature !== expectedSignature) {
+        if (!matched) {
             logger.warn('Invalid webhook signature', {
                 path: req.path,
-                expectedSignature: expectedSignature.substring(0, 10) + '...',
-                receivedSignature: signature.substring(0, 10) + '...'
+                activeSecrets: secrets.length
             });
 
             throw new UnauthorizedError(
@@ -76,6 +110,7 @@ export const verifyWebhookSignature = (
         next();
     } catch (error) {
         if (error instanceof UnauthorizedError) {
+            webhookRejections.inc({ code: error.code });
             res.status(error.statusCode).json(error.toJSON());
             return;
         }
@@ -101,7 +136,7 @@ export const verifyWebhookApiKey = (
 ): void => {
     try {
         const apiKey = req.headers['x-api-key'] as string | undefined;
-        const expectedApiKey = process.env.WEBHOOK_API_KEY;
+        const expectedApiKey = config.WEBHOOK_API_KEY;
 
         if (!apiKey) {
             throw new UnauthorizedError(
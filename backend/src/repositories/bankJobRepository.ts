@@ -0,0 +1,98 @@
+// backend/src/repositories/bankJobRepository.ts
+import {
+    BankSubmissionJob,
+    BankSubmissionJobStatus,
+    BankSubmissionMerchantStore
+} from '../types/bank';
+
+/**
+ * Durable store for the bank submission queue.
+ * claim() must only succeed for one worker, so it compares the status and
+ * attempt count the caller last saw before taking the job.
+ */
+export interface BankJobRepository {
+    create(job: BankSubmissionJob): Promise<BankSubmissionJob>;
+    findById(jobId: string): Promise<BankSubmissionJob | null>;
+    findAll(status?: BankSubmissionJobStatus): Promise<BankSubmissionJob[]>;
+    findActiveByMerchantId(merchantId: string): Promise<BankSubmissionJob | null>;
+    findDue(now: string, limit: number): Promise<BankSubmissionJob[]>;
+    claim(job: BankSubmissionJob, lockedUntil: string): Promise<BankSubmissionJob | null>;
+    update(job: BankSubmissionJob): Promise<BankSubmissionJob>;
+}
+
+// Jobs that still hold the merchant's place in the queue
+export const ACTIVE_JOB_STATUSES: BankSubmissionJobStatus[] = ['pending', 'running'];
+
+export interface BankJobRow {
+    id: string;
+    merchant_id: string;
+    merchant_store: BankSubmissionMerchantStore;
+    status: BankSubmissionJobStatus;
+    attempts: number;
+    max_attempts: number;
+    next_run_at: string;
+    locked_until: string | null;
+    last_error: string | null;
+    last_error_code: string | null;
+    bank_application_id: string | null;
+    request_id: string | null;
+    trace_parent: string | null;
+    created_at: string;
+    updated_at: string;
+    completed_at: string | null;
+}
+
+export function toBankJobRow(job: BankSubmissionJob): BankJobRow {
+    return {
+        id: job.id,
+        merchant_id: job.merchantId,
+        merchant_store: job.merchantStore,
+        status: job.status,
+        attempts: job.attempts,
+        max_attempts: job.maxAttempts,
+        next_run_at: job.nextRunAt,
+        locked_until: job.lockedUntil ?? null,
+        last_error: job.lastError ?? null,
+        last_error_code: job.lastErrorCode ?? null,
+        bank_application_id: job.bankApplicationId ?? null,
+        request_id: job.requestId ?? null,
+        trace_parent: job.traceParent ?? null,
+        created_at: job.createdAt,
+        updated_at: job.updatedAt,
+        completed_at: job.completedAt ?? null
+    };
+}
+
+export function fromBankJobRow(row: BankJobRow): BankSubmissionJob {
+    return {
+        id: row.id,
+        merchantId: row.merchant_id,
+        merchantStore: row.merchant_store,
+        status: row.status,
+        attempts: row.attempts,
+        maxAttempts: row.max_attempts,
+        nextRunAt: row.next_run_at,
+        lockedUntil: row.locked_until ?? undefined,
+        lastError: row.last_error ?? undefined,
+        lastErrorCode: row.last_error_code ?? undefined,
+        bankApplicationId: row.bank_application_id ?? undefined,
+        requestId: row.request_id ?? undefined,
+        traceParent: row.trace_parent ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        completedAt: row.completed_at ?? undefined
+    };
+}
+
+/**
+ * The job as a worker holds it: running, one more attempt, locked until the lease ends
+ */
+export function toClaimedJob(job: BankSubmissionJob, lockedUntil: string): BankSubmissionJob {
+    return {
+        ...job,
+        status: 'running',
+        attempts: job.attempts + 1,
+        lockedUntil,
+        updatedAt: new Date().toISOString()
+    };
+}
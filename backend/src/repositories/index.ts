@@ -0,0 +1,118 @@
+// backend/src/repositories/index.ts
+import { StorageDriver, getSqliteDatabase, getStorageDriver } from '../config/database';
+import { getSupabaseClient } from '../config/supabase';
+import { BankJobRepository } from './bankJobRepository';
+import { SqliteBankJobRepository } from './sqliteBankJobRepository';
+import { SupabaseBankJobRepository } from './supabaseBankJobRepository';
+import { MerchantRepository } from './merchantRepository';
+import { SqliteMerchantRepository } from './sqliteMerchantRepository';
+import { SupabaseMerchantRepository } from './supabaseMerchantRepository';
+import { SessionRepository } from './sessionRepository';
+import { SqliteSessionRepository } from './sqliteSessionRepository';
+import { SupabaseSessionRepository } from './supabaseSessionRepository';
+import { StatusHistoryRepository } from './statusHistoryRepository';
+import { SqliteStatusHistoryRepository } from './sqliteStatusHistoryRepository';
+import { SupabaseStatusHistoryRepository } from './supabaseStatusHistoryRepository';
+import { UserRepository } from './userRepository';
+import { SqliteUserRepository } from './sqliteUserRepository';
+import { SupabaseUserRepository } from './supabaseUserRepository';
+import {
+    InAppNotificationRepository,
+    NotificationDeliveryRepository,
+    NotificationPreferenceRepository
+} from './notificationRepository';
+import {
+    SqliteInAppNotificationRepository,
+    SqliteNotificationDeliveryRepository,
+    SqliteNotificationPreferenceRepository
+} from './sqliteNotificationRepository';
+import {
+    SupabaseInAppNotificationRepository,
+    SupabaseNotificationDeliveryRepository,
+    SupabaseNotificationPreferenceRepository
+} from './supabaseNotificationRepository';
+import { OutboxRepository } from './outboxRepository';
+import { SqliteOutboxRepository } from './sqliteOutboxRepository';
+import { SupabaseOutboxRepository } from './supabaseOutboxRepository';
+import { WebhookEventRepository } from './webhookEventRepository';
+import { SqliteWebhookEventRepository } from './sqliteWebhookEventRepository';
+import { SupabaseWebhookEventRepository } from './supabaseWebhookEventRepository';
+
+export type { BankJobRepository } from './bankJobRepository';
+export type { MerchantRepository } from './merchantRepository';
+export type { SessionRepository } from './sessionRepository';
+export type { StatusHistoryRepository } from './statusHistoryRepository';
+export type { UserRepository } from './userRepository';
+export type { WebhookEventRepository } from './webhookEventRepository';
+export type {
+    InAppNotificationRepository,
+    NotificationDeliveryRepository,
+    NotificationPreferenceRepository
+} from './notificationRepository';
+export type { OutboxRepository } from './outboxRepository';
+
+export function createMerchantRepository(driver: StorageDriver = getStorageDriver()): MerchantRepository {
+    return driver === 'supabase'
+        ? new SupabaseMerchantRepository(getSupabaseClient)
+        : new SqliteMerchantRepository(getSqliteDatabase());
+}
+
+export function createUserRepository(driver: StorageDriver = getStorageDriver()): UserRepository {
+    return driver === 'supabase'
+        ? new SupabaseUserRepository(getSupabaseClient)
+        : new SqliteUserRepository(getSqliteDatabase());
+}
+
+export function createSessionRepository(driver: StorageDriver = getStorageDriver()): SessionRepository {
+    return driver === 'supabase'
+        ? new SupabaseSessionRepository(getSupabaseClient)
+        : new SqliteSessionRepository(getSqliteDatabase());
+}
+
+export function createStatusHistoryRepository(driver: StorageDriver = getStorageDriver()): StatusHistoryRepository {
+    return driver === 'supabase'
+        ? new SupabaseStatusHistoryRepository(getSupabaseClient)
+        : new SqliteStatusHistoryRepository(getSqliteDatabase());
+}
+
+export function createBankJobRepository(driver: StorageDriver = getStorageDriver()): BankJobRepository {
+    return driver === 'supabase'
+        ? new SupabaseBankJobRepository(getSupabaseClient)
+        : new SqliteBankJobRepository(getSqliteDatabase());
+}
+
+export function createWebhookEventRepository(driver: StorageDriver = getStorageDriver()): WebhookEventRepository {
+    return driver === 'supabase'
+        ? new SupabaseWebhookEventRepository(getSupabaseClient)
+        : new SqliteWebhookEventRepository(getSqliteDatabase());
+}
+
+export function createNotificationDeliveryRepository(
+    driver: StorageDriver = getStorageDriver()
+): NotificationDeliveryRepository {
+    return driver === 'supabase'
+        ? new SupabaseNotificationDeliveryRepository(getSupabaseClient)
+        : new SqliteNotificationDeliveryRepository(getSqliteDatabase());
+}
+
+export function createNotificationPreferenceRepository(
+    driver: StorageDriver = getStorageDriver()
+): NotificationPreferenceRepository {
+    return driver === 'supabase'
+        ? new SupabaseNotificationPreferenceRepository(getSupabaseClient)
+        : new SqliteNotificationPreferenceRepository(getSqliteDatabase());
+}
+
+export function createInAppNotificationRepository(
+    driver: StorageDriver = getStorageDriver()
+): InAppNotificationRepository {
+    return driver === 'supabase'
+        ? new SupabaseInAppNotificationRepository(getSupabaseClient)
+        : new SqliteInAppNotificationRepository(getSqliteDatabase());
+}
+
+export function createOutboxRepository(driver: StorageDriver = getStorageDriver()): OutboxRepository {
+    return driver === 'supabase'
+        ? new SupabaseOutboxRepository(getSupabaseClient)
+        : new SqliteOutboxRepository(getSqliteDatabase());
+}
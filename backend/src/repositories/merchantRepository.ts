@@ -0,0 +1,283 @@
+// backend/src/repositories/merchantRepository.ts
+import { v4 as uuidv4 } from 'uuid';
+import {
+    BankResponseData,
+    MerchantDocument,
+    MerchantDocumentType,
+    MerchantProductType,
+    MerchantProfile,
+    OnboardingStatus,
+    StatusHistoryEntry
+} from '../types/merchant';
+import { BankSubmissionJob } from '../types/bank';
+import { OutboxEvent } from '../types/outbox';
+
+/**
+ * Persistence contract for merchant profiles.
+ * Implementations must enforce one profile per user, and must commit a status
+ * change, its history entry, its outbox events and the bank submission job it
+ * queues in one transaction. The job is skipped while the merchant already has
+ * one pending or running.
+ */
+export interface MerchantRepository {
+    create(merchant: MerchantProfile): Promise<MerchantProfile>;
+    findById(merchantId: string): Promise<MerchantProfile | null>;
+    findByUserId(userId: string): Promise<MerchantProfile | null>;
+    findAll(status?: OnboardingStatus): Promise<MerchantProfile[]>;
+    countByStatus(): Promise<Record<OnboardingStatus, number>>;
+    update(merchant: MerchantProfile): Promise<MerchantProfile>;
+    /**
+     * Commit a status change, but only while the merchant is still in the
+     * entry's fromStatus. Returns null, writing nothing, when it moved on meanwhile.
+     */
+    applyStatusChange(
+        merchant: MerchantProfile,
+        entry: StatusHistoryEntry,
+        events: OutboxEvent[],
+        bankJob?: BankSubmissionJob
+    ): Promise<MerchantProfile | null>;
+    /**
+     * Store the bank's answer to a submission, but only while the merchant is
+     * still awaiting the bank. Returns false when the status moved on meanwhile.
+     */
+    recordBankSubmission(merchantId: string, submission: BankSubmissionRecord): Promise<boolean>;
+    // Returns false when the merchant has no such document
+    verifyDocument(merchantId: string, documentId: string, verifiedAt: string): Promise<boolean>;
+    delete(merchantId: string): Promise<void>;
+}
+
+// What a bank submission writes back to the profile; nothing else is touched
+export interface BankSubmissionRecord {
+    bankApplicationId?: string;
+    bankAdapter?: string;
+    bankResponse: BankResponseData;
+    // A resubmission answers the bank's request, which is then cleared
+    clearInfoRequest?: boolean;
+    updatedAt: string;
+}
+
+export const ONBOARDING_STATUSES: OnboardingStatus[] = [
+    'draft',
+    'submitted',
+    'validating',
+    'pending_bank_approval',
+    'info_requested',
+    'approved',
+    'rejected'
+];
+
+// Row shape of merchant_profiles, the table shared with the React app
+export interface MerchantProfileRow {
+    id: string;
+    user_id: string;
+    full_name: string;
+    mobile_number: string;
+    email: string;
+    pan_number: string | null;
+    aadhaar_number: string | null;
+    business_name: string | null;
+    gst_number: string | null;
+    entity_type: string | null;
+    business_type: string | null;
+    website: string | null;
+    address_line1: string | null;
+    address_line2: string | null;
+    city: string | null;
+    state: string | null;
+    postal_code: string | null;
+    country: string | null;
+    metadata: Record<string, string | number | boolean | null> | null;
+    onboarding_status: OnboardingStatus;
+    bank_application_id: string | null;
+    bank_adapter: string | null;
+    bank_response: BankResponseData | null;
+    rejection_reason: string | null;
+    requested_documents: MerchantDocumentType[] | null;
+    info_request_reason: string | null;
+    info_requested_at: string | null;
+    info_provided_at: string | null;
+    submitted_at: string | null;
+    validated_at: string | null;
+    bank_submitted_at: string | null;
+    decision_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+// Same values as the kyc_status enum
+export type MerchantDocumentStatus = 'pending' | 'uploaded' | 'verified' | 'rejected';
+
+// Row shape of merchant_documents
+export interface MerchantDocumentRow {
+    id: string;
+    merchant_id: string;
+    document_type: MerchantDocumentType;
+    file_name: string;
+    file_path: string;
+    status: MerchantDocumentStatus;
+    uploaded_at: string;
+    verified_at: string | null;
+}
+
+// Document writes needed to bring merchant_documents in line with a profile
+export interface MerchantDocumentChanges {
+    insert: MerchantDocumentRow[];
+    remove: string[];
+}
+
+export function toMerchantProfileRow(merchant: MerchantProfile): MerchantProfileRow {
+    return {
+        id: merchant.id,
+        user_id: merchant.userId,
+        full_name: merchant.fullName || merchant.businessName,
+        mobile_number: merchant.phone,
+        email: merchant.email,
+        pan_number: merchant.registrationNumber || null,
+        aadhaar_number: merchant.aadhaarNumber || null,
+        business_name: merchant.businessName || null,
+        gst_number: merchant.taxId || null,
+        entity_type: merchant.entityType || null,
+        business_type: merchant.businessType || null,
+        website: merchant.website || null,
+        address_line1: merchant.addressLine1 || null,
+        address_line2: merchant.addressLine2 || null,
+        city: merchant.city || null,
+        state: merchant.state || null,
+        postal_code: merchant.postalCode || null,
+        country: merchant.country || null,
+        metadata: merchant.metadata ?? null,
+        onboarding_status: merchant.onboardingStatus,
+        bank_application_id: merchant.bankApplicationId ?? null,
+        bank_adapter: merchant.bankAdapter ?? null,
+        bank_response: merchant.bankResponse ?? null,
+        rejection_reason: merchant.rejectionReason ?? null,
+        requested_documents: merchant.requestedDocuments?.length ? merchant.requestedDocuments : null,
+        info_request_reason: merchant.infoRequestReason ?? null,
+        info_requested_at: merchant.infoRequestedAt ?? null,
+        info_provided_at: merchant.infoProvidedAt ?? null,
+        submitted_at: merchant.submittedAt ?? null,
+        validated_at: merchant.validatedAt ?? null,
+        bank_submitted_at: merchant.bankSubmittedAt ?? null,
+        decision_at: merchant.decisionAt ?? null,
+        created_at: merchant.createdAt,
+        updated_at: merchant.updatedAt
+    };
+}
+
+export function toBankSubmissionColumns(submission: BankSubmissionRecord): Partial<MerchantProfileRow> {
+    return {
+        bank_application_id: submission.bankApplicationId ?? null,
+        ...(submission.bankAdapter ? { bank_adapter: submission.bankAdapter } : {}),
+        bank_response: submission.bankResponse,
+        ...(submission.clearInfoRequest ? { requested_documents: null, info_request_reason: null } : {}),
+        updated_at: submission.updatedAt
+    };
+}
+
+// Products live in merchant_products on Supabase, so they are passed in like documents
+export function fromMerchantProfileRow(
+    row: MerchantProfileRow,
+    documents: MerchantDocumentRow[] = [],
+    products: MerchantProductType[] = []
+): MerchantProfile {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        fullName: row.full_name,
+        businessName: row.business_name ?? row.full_name,
+        businessType: row.business_type ?? '',
+        entityType: row.entity_type ?? undefined,
+        registrationNumber: row.pan_number ?? '',
+        taxId: row.gst_number ?? '',
+        aadhaarNumber: row.aadhaar_number ?? undefined,
+        email: row.email,
+        phone: row.mobile_number,
+        website: row.website ?? undefined,
+        addressLine1: row.address_line1 ?? '',
+        addressLine2: row.address_line2 ?? undefined,
+        city: row.city ?? '',
+        state: row.state ?? '',
+        postalCode: row.postal_code ?? '',
+        country: row.country ?? '',
+        documents: documents.map(fromMerchantDocumentRow),
+        products: products.length > 0 ? products : undefined,
+        metadata: row.metadata ?? undefined,
+        onboardingStatus: row.onboarding_status,
+        bankApplicationId: row.bank_application_id ?? undefined,
+        bankAdapter: row.bank_adapter ?? undefined,
+        bankResponse: row.bank_response ?? undefined,
+        rejectionReason: row.rejection_reason ?? undefined,
+        requestedDocuments: row.requested_documents ?? undefined,
+        infoRequestReason: row.info_request_reason ?? undefined,
+        infoRequestedAt: row.info_requested_at ?? undefined,
+        infoProvidedAt: row.info_provided_at ?? undefined,
+        submittedAt: row.submitted_at ?? undefined,
+        validatedAt: row.validated_at ?? undefined,
+        bankSubmittedAt: row.bank_submitted_at ?? undefined,
+        decisionAt: row.decision_at ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    };
+}
+
+export function toMerchantDocumentRow(
+    merchantId: string,
+    document: MerchantDocument & { id: string }
+): MerchantDocumentRow {
+    return {
+        id: document.id,
+        merchant_id: merchantId,
+        document_type: document.type,
+        file_name: document.filename,
+        file_path: document.url,
+        // A new row is never verified; verifyDocument is the only write that verifies one
+        status: 'uploaded',
+        uploaded_at: document.uploadedAt,
+        verified_at: null
+    };
+}
+
+export function fromMerchantDocumentRow(row: MerchantDocumentRow): MerchantDocument {
+    return {
+        id: row.id,
+        type: row.document_type,
+        url: row.file_path,
+        filename: row.file_name,
+        uploadedAt: row.uploaded_at,
+        verified: row.status === 'verified',
+        verifiedAt: row.verified_at ?? undefined
+    };
+}
+
+/**
+ * Give every document of the profile a row id
+ */
+export function withDocumentIds(merchant: MerchantProfile): MerchantProfile {
+    return {
+        ...merchant,
+        documents: (merchant.documents || []).map(document => ({
+            ...document,
+            id: document.id || uuidv4()
+        }))
+    };
+}
+
+/**
+ * Diff the profile documents against the stored rows. The profile is authoritative
+ * for which documents exist; the review status of a stored row is never changed here.
+ */
+export function planDocumentChanges(
+    merchant: MerchantProfile,
+    existing: MerchantDocumentRow[]
+): MerchantDocumentChanges {
+    const stored = new Map(existing.map(row => [row.id, row]));
+    const rows = merchant.documents.map(document =>
+        toMerchantDocumentRow(merchant.id, { ...document, id: document.id || uuidv4() })
+    );
+    const kept = new Set(rows.map(row => row.id));
+
+    return {
+        insert: rows.filter(row => !stored.has(row.id)),
+        remove: existing.filter(row => !kept.has(row.id)).map(row => row.id)
+    };
+}
\ No newline at end of file
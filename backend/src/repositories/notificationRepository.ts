@@ -0,0 +1,181 @@
+// backend/src/repositories/notificationRepository.ts
+import {
+    InAppNotification,
+    NotificationChannel,
+    NotificationDelivery,
+    NotificationDeliveryStatus,
+    NotificationLocale,
+    NotificationPreferences,
+    WebPushSubscription
+} from '../types/notification';
+
+export interface NotificationDeliveryFilter {
+    merchantId?: string;
+    status?: NotificationDeliveryStatus;
+    channel?: NotificationChannel;
+}
+
+/**
+ * Record of every notification sent, one row per message and channel
+ */
+export interface NotificationDeliveryRepository {
+    create(delivery: NotificationDelivery): Promise<NotificationDelivery>;
+    findAll(filter?: NotificationDeliveryFilter): Promise<NotificationDelivery[]>;
+    update(delivery: NotificationDelivery): Promise<NotificationDelivery>;
+}
+
+/**
+ * Per-merchant channel choices and web push subscriptions
+ */
+export interface NotificationPreferenceRepository {
+    findByMerchantId(merchantId: string): Promise<NotificationPreferences | null>;
+    save(preferences: NotificationPreferences): Promise<NotificationPreferences>;
+}
+
+/**
+ * The notification center shown in the app. Ids are chosen by the caller, and
+ * creating an id that already exists is a no-op, so redelivery adds nothing.
+ */
+export interface InAppNotificationRepository {
+    create(notification: InAppNotification): Promise<InAppNotification>;
+}
+
+export interface NotificationDeliveryRow {
+    id: string;
+    kind: string;
+    channel: NotificationChannel;
+    provider: string;
+    recipient: string;
+    subject: string;
+    template: string | null;
+    status: NotificationDeliveryStatus;
+    merchant_id: string | null;
+    user_id: string | null;
+    provider_message_id: string | null;
+    error: string | null;
+    created_at: string;
+    updated_at: string;
+    sent_at: string | null;
+}
+
+export interface NotificationPreferencesRow {
+    merchant_id: string;
+    email: boolean;
+    sms: boolean;
+    whatsapp: boolean;
+    push: boolean;
+    locale: NotificationLocale;
+    push_subscriptions: WebPushSubscription[];
+    updated_at: string;
+}
+
+export function toNotificationDeliveryRow(delivery: NotificationDelivery): NotificationDeliveryRow {
+    return {
+        id: delivery.id,
+        kind: delivery.kind,
+        channel: delivery.channel,
+        provider: delivery.provider,
+        recipient: delivery.recipient,
+        subject: delivery.subject,
+        template: delivery.template ?? null,
+        status: delivery.status,
+        merchant_id: delivery.merchantId ?? null,
+        user_id: delivery.userId ?? null,
+        provider_message_id: delivery.providerMessageId ?? null,
+        error: delivery.error ?? null,
+        created_at: delivery.createdAt,
+        updated_at: delivery.updatedAt,
+        sent_at: delivery.sentAt ?? null
+    };
+}
+
+export function fromNotificationDeliveryRow(row: NotificationDeliveryRow): NotificationDelivery {
+    return {
+        id: row.id,
+        kind: row.kind,
+        channel: row.channel,
+        provider: row.provider,
+        recipient: row.recipient,
+        subject: row.subject,
+        template: row.template ?? undefined,
+        status: row.status,
+        merchantId: row.merchant_id ?? undefined,
+        userId: row.user_id ?? undefined,
+        providerMessageId: row.provider_message_id ?? undefined,
+        error: row.error ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        sentAt: row.sent_at ?? undefined
+    };
+}
+
+export function toNotificationPreferencesRow(preferences: NotificationPreferences): NotificationPreferencesRow {
+    return {
+        merchant_id: preferences.merchantId,
+        email: preferences.channels.email,
+        sms: preferences.channels.sms,
+        whatsapp: preferences.channels.whatsapp,
+        push: preferences.channels.push,
+        locale: preferences.locale,
+        push_subscriptions: preferences.pushSubscriptions,
+        updated_at: preferences.updatedAt
+    };
+}
+
+export function fromNotificationPreferencesRow(row: NotificationPreferencesRow): NotificationPreferences {
+    return {
+        merchantId: row.merchant_id,
+        channels: {
+            email: Boolean(row.email),
+            sms: Boolean(row.sms),
+            whatsapp: Boolean(row.whatsapp),
+            push: Boolean(row.push)
+        },
+        locale: row.locale ?? 'en',
+        pushSubscriptions: row.push_subscriptions ?? [],
+        updatedAt: row.updated_at
+    };
+}
+
+export interface InAppNotificationRow {
+    id: string;
+    user_id: string;
+    type: string;
+    title: string;
+    message: string;
+    action_url: string | null;
+    action_label: string | null;
+    read: boolean;
+    read_at: string | null;
+    created_at: string;
+}
+
+export function toInAppNotificationRow(notification: InAppNotification): InAppNotificationRow {
+    return {
+        id: notification.id,
+        user_id: notification.userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        action_url: notification.actionUrl ?? null,
+        action_label: notification.actionLabel ?? null,
+        read: notification.read,
+        read_at: notification.readAt ?? null,
+        created_at: notification.createdAt
+    };
+}
+
+export function fromInAppNotificationRow(row: InAppNotificationRow): InAppNotification {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        type: row.type,
+        title: row.title,
+        message: row.message,
+        actionUrl: row.action_url ?? undefined,
+        actionLabel: row.action_label ?? undefined,
+        read: Boolean(row.read),
+        readAt: row.read_at ?? undefined,
+        createdAt: row.created_at
+    };
+}
@@ -0,0 +1,106 @@
+// backend/src/repositories/outboxRepository.ts
+import {
+    MerchantStatusChangedPayload,
+    OutboxEvent,
+    OutboxEventStatus,
+    OutboxEventType,
+    OutboxHandler,
+    OutboxMerchantStore
+} from '../types/outbox';
+
+/**
+ * Durable store for the transactional outbox. Events are written by the
+ * merchant repository together with the status change they describe, so there
+ * is no create() here. claim() must only succeed for one dispatcher, so it
+ * compares the status and attempt count the caller last saw.
+ */
+export interface OutboxRepository {
+    findById(eventId: string): Promise<OutboxEvent | null>;
+    findAll(status?: OutboxEventStatus): Promise<OutboxEvent[]>;
+    findDue(now: string, limit: number): Promise<OutboxEvent[]>;
+    claim(event: OutboxEvent, lockedUntil: string): Promise<OutboxEvent | null>;
+    update(event: OutboxEvent): Promise<OutboxEvent>;
+}
+
+export interface OutboxEventRow {
+    id: string;
+    type: OutboxEventType;
+    merchant_id: string;
+    merchant_store: OutboxMerchantStore;
+    payload: MerchantStatusChangedPayload;
+    handlers: OutboxHandler[];
+    completed_handlers: OutboxHandler[];
+    status: OutboxEventStatus;
+    attempts: number;
+    max_attempts: number;
+    next_run_at: string;
+    locked_until: string | null;
+    last_error: string | null;
+    last_error_code: string | null;
+    request_id: string | null;
+    trace_parent: string | null;
+    created_at: string;
+    updated_at: string;
+    delivered_at: string | null;
+}
+
+export function toOutboxEventRow(event: OutboxEvent): OutboxEventRow {
+    return {
+        id: event.id,
+        type: event.type,
+        merchant_id: event.merchantId,
+        merchant_store: event.merchantStore,
+        payload: event.payload,
+        handlers: event.handlers,
+        completed_handlers: event.completedHandlers,
+        status: event.status,
+        attempts: event.attempts,
+        max_attempts: event.maxAttempts,
+        next_run_at: event.nextRunAt,
+        locked_until: event.lockedUntil ?? null,
+        last_error: event.lastError ?? null,
+        last_error_code: event.lastErrorCode ?? null,
+        request_id: event.requestId ?? null,
+        trace_parent: event.traceParent ?? null,
+        created_at: event.createdAt,
+        updated_at: event.updatedAt,
+        delivered_at: event.deliveredAt ?? null
+    };
+}
+
+export function fromOutboxEventRow(row: OutboxEventRow): OutboxEvent {
+    return {
+        id: row.id,
+        type: row.type,
+        merchantId: row.merchant_id,
+        merchantStore: row.merchant_store,
+        payload: row.payload,
+        handlers: row.handlers,
+        completedHandlers: row.completed_handlers ?? [],
+        status: row.status,
+        attempts: row.attempts,
+        maxAttempts: row.max_attempts,
+        nextRunAt: row.next_run_at,
+        lockedUntil: row.locked_until ?? undefined,
+        lastError: row.last_error ?? undefined,
+        lastErrorCode: row.last_error_code ?? undefined,
+        requestId: row.request_id ?? undefined,
+        traceParent: row.trace_parent ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        deliveredAt: row.delivered_at ?? undefined
+    };
+}
+
+/**
+ * The event as a dispatcher holds it: running, one more attempt, locked until the lease ends
+ */
+export function toClaimedEvent(event: OutboxEvent, lockedUntil: string): OutboxEvent {
+    return {
+        ...event,
+        status: 'running',
+        attempts: event.attempts + 1,
+        lockedUntil,
+        updatedAt: new Date().toISOString()
+    };
+}
@@ -0,0 +1,62 @@
+// backend/src/repositories/sessionRepository.ts
+import { AuthSession } from '../types/user';
+
+/**
+ * Persistence contract for login sessions (refresh token families).
+ * A revoked session invalidates every access token issued under it.
+ */
+export interface SessionRepository {
+    create(session: AuthSession): Promise<AuthSession>;
+    findById(sessionId: string): Promise<AuthSession | null>;
+    findByRefreshTokenHash(tokenHash: string): Promise<AuthSession | null>;
+    findByPreviousRefreshTokenHash(tokenHash: string): Promise<AuthSession | null>;
+    findActiveByUserId(userId: string): Promise<AuthSession[]>;
+    update(session: AuthSession): Promise<AuthSession>;
+    revokeAllForUser(userId: string, revokedAt: string, reason: string): Promise<number>;
+}
+
+export interface SessionRow {
+    id: string;
+    user_id: string;
+    refresh_token_hash: string;
+    previous_refresh_token_hash: string | null;
+    expires_at: string;
+    revoked_at: string | null;
+    revoked_reason: string | null;
+    last_refreshed_at: string | null;
+    user_agent: string | null;
+    ip_address: string | null;
+    created_at: string;
+}
+
+export function toSessionRow(session: AuthSession): SessionRow {
+    return {
+        id: session.id,
+        user_id: session.userId,
+        refresh_token_hash: session.refreshTokenHash,
+        previous_refresh_token_hash: session.previousRefreshTokenHash ?? null,
+        expires_at: session.expiresAt,
+        revoked_at: session.revokedAt ?? null,
+        revoked_reason: session.revokedReason ?? null,
+        last_refreshed_at: session.lastRefreshedAt ?? null,
+        user_agent: session.userAgent ?? null,
+        ip_address: session.ipAddress ?? null,
+        created_at: session.createdAt
+    };
+}
+
+export function fromSessionRow(row: SessionRow): AuthSession {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        refreshTokenHash: row.refresh_token_hash,
+        previousRefreshTokenHash: row.previous_refresh_token_hash ?? undefined,
+        expiresAt: row.expires_at,
+        revokedAt: row.revoked_at ?? undefined,
+        revokedReason: row.revoked_reason ?? undefined,
+        lastRefreshedAt: row.last_refreshed_at ?? undefined,
+        userAgent: row.user_agent ?? undefined,
+        ipAddress: row.ip_address ?? undefined,
+        createdAt: row.created_at
+    };
+}
@@ -0,0 +1,165 @@
+// backend/src/repositories/sqliteBankJobRepository.ts
+import Database from 'better-sqlite3';
+import { BankSubmissionJob, BankSubmissionJobStatus } from '../types/bank';
+import {
+    BankJobRepository,
+    BankJobRow,
+    fromBankJobRow,
+    toBankJobRow,
+    toClaimedJob
+} from './bankJobRepository';
+
+const COLUMNS = [
+    'id', 'merchant_id', 'merchant_store', 'status', 'attempts', 'max_attempts', 'next_run_at',
+    'locked_until', 'last_error', 'last_error_code', 'bank_application_id', 'request_id',
+    'trace_parent', 'created_at', 'updated_at', 'completed_at'
+] as const;
+
+// Columns added after the table was first created
+const ADDED_JOB_COLUMNS: Record<string, string> = {
+    request_id: 'TEXT',
+    trace_parent: 'TEXT'
+};
+
+export class SqliteBankJobRepository implements BankJobRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS bank_submission_jobs (
+                id TEXT PRIMARY KEY,
+                merchant_id TEXT NOT NULL,
+                merchant_store TEXT NOT NULL,
+                status TEXT NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                max_attempts INTEGER NOT NULL,
+                next_run_at TEXT NOT NULL,
+                locked_until TEXT,
+                last_error TEXT,
+                last_error_code TEXT,
+                bank_application_id TEXT,
+                request_id TEXT,
+                trace_parent TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL,
+                completed_at TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_bank_submission_jobs_due
+                ON bank_submission_jobs (status, next_run_at);
+            CREATE INDEX IF NOT EXISTS idx_bank_submission_jobs_merchant
+                ON bank_submission_jobs (merchant_id);
+        `);
+        this.addMissingColumns();
+    }
+
+    async create(job: BankSubmissionJob): Promise<BankSubmissionJob> {
+        this.db
+            .prepare(`INSERT INTO bank_submission_jobs (${COLUMNS.join(', ')})
+                      VALUES (${COLUMNS.map(column => `@${column}`).join(', ')})`)
+            .run(toBankJobRow(job));
+
+        return job;
+    }
+
+    /**
+     * Synchronous, so the merchant repository can queue the job inside the
+     * transaction that changes the status. Returns false, inserting nothing,
+     * when the merchant already has an active job.
+     */
+    insertUnlessActive(job: BankSubmissionJob): boolean {
+        const result = this.db
+            .prepare(`INSERT INTO bank_submission_jobs (${COLUMNS.join(', ')})
+                      SELECT ${COLUMNS.map(column => `@${column}`).join(', ')}
+                      WHERE NOT EXISTS (
+                          SELECT 1 FROM bank_submission_jobs
+                          WHERE merchant_id = @merchant_id AND status IN ('pending', 'running')
+                      )`)
+            .run(toBankJobRow(job));
+
+        return result.changes === 1;
+    }
+
+    async findById(jobId: string): Promise<BankSubmissionJob | null> {
+        const row = this.db
+            .prepare('SELECT * FROM bank_submission_jobs WHERE id = ?')
+            .get(jobId) as BankJobRow | undefined;
+
+        return row ? fromBankJobRow(row) : null;
+    }
+
+    async findAll(status?: BankSubmissionJobStatus): Promise<BankSubmissionJob[]> {
+        const rows = status
+            ? this.db
+                .prepare('SELECT * FROM bank_submission_jobs WHERE status = ? ORDER BY created_at DESC')
+                .all(status)
+            : this.db
+                .prepare('SELECT * FROM bank_submission_jobs ORDER BY created_at DESC')
+                .all();
+
+        return (rows as BankJobRow[]).map(fromBankJobRow);
+    }
+
+    async findActiveByMerchantId(merchantId: string): Promise<BankSubmissionJob | null> {
+        const row = this.db
+            .prepare(`SELECT * FROM bank_submission_jobs
+                      WHERE merchant_id = ? AND status IN ('pending', 'running')
+                      ORDER BY created_at DESC LIMIT 1`)
+            .get(merchantId) as BankJobRow | undefined;
+
+        return row ? fromBankJobRow(row) : null;
+    }
+
+    async findDue(now: string, limit: number): Promise<BankSubmissionJob[]> {
+        // Running jobs whose lease ran out belonged to a worker that died
+        const rows = this.db
+            .prepare(`SELECT * FROM bank_submission_jobs
+                      WHERE (status = 'pending' AND next_run_at <= @now)
+                         OR (status = 'running' AND locked_until < @now)
+                      ORDER BY next_run_at LIMIT @limit`)
+            .all({ now, limit }) as BankJobRow[];
+
+        return rows.map(fromBankJobRow);
+    }
+
+    async claim(job: BankSubmissionJob, lockedUntil: string): Promise<BankSubmissionJob | null> {
+        const claimed = toClaimedJob(job, lockedUntil);
+
+        const result = this.db
+            .prepare(`UPDATE bank_submission_jobs
+                      SET status = @status, attempts = @attempts, locked_until = @locked_until, updated_at = @updated_at
+                      WHERE id = @id AND status = @expected_status AND attempts = @expected_attempts`)
+            .run({
+                id: claimed.id,
+                status: claimed.status,
+                attempts: claimed.attempts,
+                locked_until: claimed.lockedUntil,
+                updated_at: claimed.updatedAt,
+                expected_status: job.status,
+                expected_attempts: job.attempts
+            });
+
+        return result.changes === 1 ? claimed : null;
+    }
+
+    async update(job: BankSubmissionJob): Promise<BankSubmissionJob> {
+        const assignments = COLUMNS
+            .filter(column => column !== 'id')
+            .map(column => `${column} = @${column}`)
+            .join(', ');
+
+        this.db
+            .prepare(`UPDATE bank_submission_jobs SET ${assignments} WHERE id = @id`)
+            .run(toBankJobRow(job));
+
+        return job;
+    }
+
+    private addMissingColumns(): void {
+        const existing = new Set(
+            (this.db.prepare('PRAGMA table_info(bank_submission_jobs)').all() as Array<{ name: string }>)
+                .map(column => column.name)
+        );
+
+        Object.entries(ADDED_JOB_COLUMNS)
+            .filter(([column]) => !existing.has(column))
+            .forEach(([column, type]) => this.db.exec(`ALTER TABLE bank_submission_jobs ADD COLUMN ${column} ${type}`));
+    }
+}
@@ -0,0 +1,357 @@
+// backend/src/repositories/sqliteMerchantRepository.ts
+import Database from 'better-sqlite3';
+import { BankSubmissionJob } from '../types/bank';
+import { MerchantProfile, OnboardingStatus, StatusHistoryEntry } from '../types/merchant';
+import { OutboxEvent } from '../types/outbox';
+import { ConflictError, DatabaseError } from '../utils/errors';
+import {
+    BankSubmissionRecord,
+    MerchantDocumentRow,
+    MerchantProfileRow,
+    MerchantRepository,
+    ONBOARDING_STATUSES,
+    fromMerchantProfileRow,
+    planDocumentChanges,
+    toBankSubmissionColumns,
+    toMerchantProfileRow,
+    withDocumentIds
+} from './merchantRepository';
+import { SqliteBankJobRepository } from './sqliteBankJobRepository';
+import { SqliteOutboxRepository } from './sqliteOutboxRepository';
+import { SqliteStatusHistoryRepository } from './sqliteStatusHistoryRepository';
+
+// JSON and array columns are stored as TEXT in SQLite; products has no table of its own here
+type SqliteMerchantProfileRow = Omit<MerchantProfileRow, 'metadata' | 'bank_response' | 'requested_documents'> & {
+    metadata: string | null;
+    bank_response: string | null;
+    requested_documents: string | null;
+    products: string | null;
+};
+
+const PROFILE_COLUMNS = [
+    'id', 'user_id', 'full_name', 'mobile_number', 'email', 'pan_number', 'aadhaar_number',
+    'business_name', 'gst_number', 'entity_type', 'business_type', 'website', 'address_line1',
+    'address_line2', 'city', 'state', 'postal_code', 'country', 'metadata', 'onboarding_status',
+    'bank_application_id', 'bank_adapter', 'bank_response', 'rejection_reason', 'requested_documents',
+    'info_request_reason', 'info_requested_at', 'info_provided_at', 'submitted_at', 'validated_at',
+    'bank_submitted_at', 'decision_at', 'products', 'created_at', 'updated_at'
+] as const;
+
+// Columns added after the table was first created, for databases that predate them
+const ADDED_PROFILE_COLUMNS: Record<string, string> = {
+    requested_documents: 'TEXT',
+    info_request_reason: 'TEXT',
+    info_requested_at: 'TEXT',
+    info_provided_at: 'TEXT',
+    bank_adapter: 'TEXT',
+    products: 'TEXT'
+};
+
+const DOCUMENT_COLUMNS = [
+    'id', 'merchant_id', 'document_type', 'file_name', 'file_path', 'status',
+    'uploaded_at', 'verified_at'
+] as const;
+
+/**
+ * Mirrors the Supabase merchant_profiles / merchant_documents schema so both
+ * drivers store the same canonical model.
+ */
+export class SqliteMerchantRepository implements MerchantRepository {
+    // Status changes write to these tables in the same transaction as the profile
+    private readonly history: SqliteStatusHistoryRepository;
+    private readonly outbox: SqliteOutboxRepository;
+    private readonly bankJobs: SqliteBankJobRepository;
+
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS merchant_profiles (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL UNIQUE,
+                full_name TEXT NOT NULL,
+                mobile_number TEXT NOT NULL,
+                email TEXT NOT NULL,
+                pan_number TEXT,
+                aadhaar_number TEXT,
+                business_name TEXT,
+                gst_number TEXT,
+                entity_type TEXT,
+                business_type TEXT,
+                website TEXT,
+                address_line1 TEXT,
+                address_line2 TEXT,
+                city TEXT,
+                state TEXT,
+                postal_code TEXT,
+                country TEXT,
+                metadata TEXT,
+                onboarding_status TEXT NOT NULL DEFAULT 'draft',
+                bank_application_id TEXT,
+                bank_adapter TEXT,
+                bank_response TEXT,
+                rejection_reason TEXT,
+                requested_documents TEXT,
+                info_request_reason TEXT,
+                info_requested_at TEXT,
+                info_provided_at TEXT,
+                submitted_at TEXT,
+                validated_at TEXT,
+                bank_submitted_at TEXT,
+                decision_at TEXT,
+                products TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_merchant_profiles_status
+                ON merchant_profiles (onboarding_status);
+
+            CREATE TABLE IF NOT EXISTS merchant_documents (
+                id TEXT PRIMARY KEY,
+                merchant_id TEXT NOT NULL REFERENCES merchant_profiles (id) ON DELETE CASCADE,
+                document_type TEXT NOT NULL,
+                file_name TEXT NOT NULL,
+                file_path TEXT NOT NULL,
+                status TEXT NOT NULL DEFAULT 'pending',
+                uploaded_at TEXT NOT NULL,
+                verified_at TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_merchant_documents_merchant
+                ON merchant_documents (merchant_id);
+        `);
+
+        this.addMissingColumns();
+
+        this.history = new SqliteStatusHistoryRepository(db);
+        this.outbox = new SqliteOutboxRepository(db);
+        this.bankJobs = new SqliteBankJobRepository(db);
+    }
+
+    async create(merchant: MerchantProfile): Promise<MerchantProfile> {
+        const stored = withDocumentIds(merchant);
+        const placeholders = PROFILE_COLUMNS.map(column => `@${column}`).join(', ');
+
+        try {
+            this.db.transaction(() => {
+                this.db
+                    .prepare(`INSERT INTO merchant_profiles (${PROFILE_COLUMNS.join(', ')}) VALUES (${placeholders})`)
+                    .run(this.serialize(stored));
+                this.writeDocuments(stored, []);
+            })();
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return stored;
+    }
+
+    async findById(merchantId: string): Promise<MerchantProfile | null> {
+        const row = this.db
+            .prepare('SELECT * FROM merchant_profiles WHERE id = ?')
+            .get(merchantId) as SqliteMerchantProfileRow | undefined;
+
+        return row ? this.deserialize(row) : null;
+    }
+
+    async findByUserId(userId: string): Promise<MerchantProfile | null> {
+        const row = this.db
+            .prepare('SELECT * FROM merchant_profiles WHERE user_id = ?')
+            .get(userId) as SqliteMerchantProfileRow | undefined;
+
+        return row ? this.deserialize(row) : null;
+    }
+
+    async findAll(status?: OnboardingStatus): Promise<MerchantProfile[]> {
+        const rows = status
+            ? this.db
+                .prepare('SELECT * FROM merchant_profiles WHERE onboarding_status = ? ORDER BY created_at')
+                .all(status)
+            : this.db
+                .prepare('SELECT * FROM merchant_profiles ORDER BY created_at')
+                .all();
+
+        return (rows as SqliteMerchantProfileRow[]).map(row => this.deserialize(row));
+    }
+
+    async countByStatus(): Promise<Record<OnboardingStatus, number>> {
+        const rows = this.db
+            .prepare('SELECT onboarding_status AS status, COUNT(*) AS count FROM merchant_profiles GROUP BY onboarding_status')
+            .all() as Array<{ status: OnboardingStatus; count: number }>;
+        const counts = Object.fromEntries(ONBOARDING_STATUSES.map(status => [status, 0])) as Record<OnboardingStatus, number>;
+
+        rows.forEach(({ status, count }) => {
+            counts[status] = count;
+        });
+
+        return counts;
+    }
+
+    async update(merchant: MerchantProfile): Promise<MerchantProfile> {
+        const stored = withDocumentIds(merchant);
+
+        try {
+            this.db.transaction(() => this.writeProfile(stored))();
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return stored;
+    }
+
+    async applyStatusChange(
+        merchant: MerchantProfile,
+        entry: StatusHistoryEntry,
+        events: OutboxEvent[],
+        bankJob?: BankSubmissionJob
+    ): Promise<MerchantProfile | null> {
+        const stored = withDocumentIds(merchant);
+        let applied: boolean;
+
+        try {
+            applied = this.db.transaction(() => {
+                if (!this.writeProfile(stored, entry.fromStatus)) {
+                    return false;
+                }
+
+                this.history.insert(entry);
+                events.forEach(event => this.outbox.insert(event));
+
+                if (bankJob) {
+                    this.bankJobs.insertUnlessActive(bankJob);
+                }
+
+                return true;
+            })();
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return applied ? stored : null;
+    }
+
+    async recordBankSubmission(merchantId: string, submission: BankSubmissionRecord): Promise<boolean> {
+        const columns = toBankSubmissionColumns(submission);
+        const assignments = Object.keys(columns).map(column => `${column} = @${column}`).join(', ');
+
+        try {
+            const result = this.db
+                .prepare(
+                    `UPDATE merchant_profiles SET ${assignments}
+                     WHERE id = @id AND onboarding_status = 'pending_bank_approval'`
+                )
+                .run({
+                    ...columns,
+                    bank_response: JSON.stringify(columns.bank_response),
+                    id: merchantId
+                });
+
+            return result.changes > 0;
+        } catch (error) {
+            throw this.handleError(error);
+        }
+    }
+
+    async verifyDocument(merchantId: string, documentId: string, verifiedAt: string): Promise<boolean> {
+        const result = this.db
+            .prepare(`UPDATE merchant_documents SET status = 'verified', verified_at = ?
+                      WHERE id = ? AND merchant_id = ?`)
+            .run(verifiedAt, documentId, merchantId);
+
+        return result.changes > 0;
+    }
+
+    async delete(merchantId: string): Promise<void> {
+        this.db.prepare('DELETE FROM merchant_profiles WHERE id = ?').run(merchantId);
+    }
+
+    private addMissingColumns(): void {
+        const existing = new Set(
+            (this.db.prepare('PRAGMA table_info(merchant_profiles)').all() as Array<{ name: string }>)
+                .map(column => column.name)
+        );
+
+        Object.entries(ADDED_PROFILE_COLUMNS)
+            .filter(([column]) => !existing.has(column))
+            .forEach(([column, type]) => this.db.exec(`ALTER TABLE merchant_profiles ADD COLUMN ${column} ${type}`));
+    }
+
+    // With fromStatus, only writes while the stored status still matches; returns whether it wrote
+    private writeProfile(merchant: MerchantProfile, fromStatus?: OnboardingStatus): boolean {
+        const assignments = PROFILE_COLUMNS
+            .filter(column => column !== 'id')
+            .map(column => `${column} = @${column}`)
+            .join(', ');
+
+        const result = fromStatus
+            ? this.db
+                .prepare(`UPDATE merchant_profiles SET ${assignments} WHERE id = @id AND onboarding_status = @from_status`)
+                .run({ ...this.serialize(merchant), from_status: fromStatus })
+            : this.db
+                .prepare(`UPDATE merchant_profiles SET ${assignments} WHERE id = @id`)
+                .run(this.serialize(merchant));
+
+        if (result.changes === 0) {
+            return false;
+        }
+
+        this.writeDocuments(merchant, this.findDocuments(merchant.id));
+        return true;
+    }
+
+    private findDocuments(merchantId: string): MerchantDocumentRow[] {
+        return this.db
+            .prepare('SELECT * FROM merchant_documents WHERE merchant_id = ? ORDER BY uploaded_at')
+            .all(merchantId) as MerchantDocumentRow[];
+    }
+
+    private writeDocuments(merchant: MerchantProfile, existing: MerchantDocumentRow[]): void {
+        const changes = planDocumentChanges(merchant, existing);
+        const insert = this.db.prepare(
+            `INSERT INTO merchant_documents (${DOCUMENT_COLUMNS.join(', ')})
+             VALUES (${DOCUMENT_COLUMNS.map(column => `@${column}`).join(', ')})`
+        );
+        const remove = this.db.prepare('DELETE FROM merchant_documents WHERE id = ?');
+
+        changes.insert.forEach(row => insert.run(row));
+        changes.remove.forEach(id => remove.run(id));
+    }
+
+    private serialize(merchant: MerchantProfile): SqliteMerchantProfileRow {
+        const row = toMerchantProfileRow(merchant);
+
+        return {
+            ...row,
+            metadata: row.metadata ? JSON.stringify(row.metadata) : null,
+            bank_response: row.bank_response ? JSON.stringify(row.bank_response) : null,
+            requested_documents: row.requested_documents ? JSON.stringify(row.requested_documents) : null,
+            products: merchant.products?.length ? JSON.stringify(merchant.products) : null
+        };
+    }
+
+    private deserialize(row: SqliteMerchantProfileRow): MerchantProfile {
+        const { products, ...profile } = row;
+
+        return fromMerchantProfileRow(
+            {
+                ...profile,
+                metadata: row.metadata ? JSON.parse(row.metadata) : null,
+                bank_response: row.bank_response ? JSON.parse(row.bank_response) : null,
+                requested_documents: row.requested_documents ? JSON.parse(row.requested_documents) : null
+            },
+            this.findDocuments(row.id),
+            products ? JSON.parse(products) : []
+        );
+    }
+
+    private handleError(error: unknown): Error {
+        if (error instanceof Database.SqliteError && error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+            return new ConflictError(
+                'Merchant profile already exists for this user',
+                'MERCHANT_ALREADY_EXISTS'
+            );
+        }
+
+        return new DatabaseError(
+            'Failed to persist merchant profile',
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
\ No newline at end of file
@@ -0,0 +1,257 @@
+// backend/src/repositories/sqliteNotificationRepository.ts
+import Database from 'better-sqlite3';
+import { InAppNotification, NotificationDelivery, NotificationPreferences } from '../types/notification';
+import { DatabaseError } from '../utils/errors';
+import {
+    InAppNotificationRepository,
+    NotificationDeliveryFilter,
+    NotificationDeliveryRepository,
+    NotificationDeliveryRow,
+    NotificationPreferenceRepository,
+    NotificationPreferencesRow,
+    fromNotificationDeliveryRow,
+    fromNotificationPreferencesRow,
+    toInAppNotificationRow,
+    toNotificationDeliveryRow,
+    toNotificationPreferencesRow
+} from './notificationRepository';
+
+const IN_APP_COLUMNS = [
+    'id', 'user_id', 'type', 'title', 'message', 'action_url', 'action_label', 'read', 'read_at', 'created_at'
+] as const;
+
+const DELIVERY_COLUMNS = [
+    'id', 'kind', 'channel', 'provider', 'recipient', 'subject', 'template', 'status', 'merchant_id', 'user_id',
+    'provider_message_id', 'error', 'created_at', 'updated_at', 'sent_at'
+] as const;
+
+// Columns added after the tables were first created
+const ADDED_DELIVERY_COLUMNS: Record<string, string> = {
+    template: 'TEXT'
+};
+
+const ADDED_PREFERENCE_COLUMNS: Record<string, string> = {
+    locale: "TEXT NOT NULL DEFAULT 'en'"
+};
+
+function addMissingColumns(db: Database.Database, table: string, columns: Record<string, string>): void {
+    const existing = new Set(
+        (db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+            .map(column => column.name)
+    );
+
+    Object.entries(columns)
+        .filter(([column]) => !existing.has(column))
+        .forEach(([column, type]) => db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`));
+}
+
+// SQLite has no boolean or JSON column types
+type SqliteNotificationPreferencesRow = Omit<
+    NotificationPreferencesRow,
+    'email' | 'sms' | 'whatsapp' | 'push' | 'push_subscriptions'
+> & {
+    email: number;
+    sms: number;
+    whatsapp: number;
+    push: number;
+    push_subscriptions: string;
+};
+
+export class SqliteNotificationDeliveryRepository implements NotificationDeliveryRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS notification_deliveries (
+                id TEXT PRIMARY KEY,
+                kind TEXT NOT NULL,
+                channel TEXT NOT NULL,
+                provider TEXT NOT NULL,
+                recipient TEXT NOT NULL,
+                subject TEXT NOT NULL,
+                template TEXT,
+                status TEXT NOT NULL,
+                merchant_id TEXT,
+                user_id TEXT,
+                provider_message_id TEXT,
+                error TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL,
+                sent_at TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_notification_deliveries_merchant
+                ON notification_deliveries (merchant_id, created_at);
+            CREATE INDEX IF NOT EXISTS idx_notification_deliveries_status
+                ON notification_deliveries (status, created_at);
+        `);
+        addMissingColumns(this.db, 'notification_deliveries', ADDED_DELIVERY_COLUMNS);
+    }
+
+    async create(delivery: NotificationDelivery): Promise<NotificationDelivery> {
+        try {
+            this.db
+                .prepare(`INSERT INTO notification_deliveries (${DELIVERY_COLUMNS.join(', ')})
+                          VALUES (${DELIVERY_COLUMNS.map(column => `@${column}`).join(', ')})`)
+                .run(toNotificationDeliveryRow(delivery));
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return delivery;
+    }
+
+    async findAll(filter: NotificationDeliveryFilter = {}): Promise<NotificationDelivery[]> {
+        const conditions: string[] = [];
+
+        if (filter.merchantId) conditions.push('merchant_id = @merchantId');
+        if (filter.status) conditions.push('status = @status');
+        if (filter.channel) conditions.push('channel = @channel');
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const rows = this.db
+            .prepare(`SELECT * FROM notification_deliveries ${where} ORDER BY created_at DESC`)
+            .all(filter) as NotificationDeliveryRow[];
+
+        return rows.map(fromNotificationDeliveryRow);
+    }
+
+    async update(delivery: NotificationDelivery): Promise<NotificationDelivery> {
+        const assignments = DELIVERY_COLUMNS
+            .filter(column => column !== 'id')
+            .map(column => `${column} = @${column}`)
+            .join(', ');
+
+        try {
+            this.db
+                .prepare(`UPDATE notification_deliveries SET ${assignments} WHERE id = @id`)
+                .run(toNotificationDeliveryRow(delivery));
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return delivery;
+    }
+
+    private handleError(error: unknown): Error {
+        return new DatabaseError(
+            'Failed to persist notification delivery',
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
+
+export class SqliteNotificationPreferenceRepository implements NotificationPreferenceRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS notification_preferences (
+                merchant_id TEXT PRIMARY KEY,
+                email INTEGER NOT NULL,
+                sms INTEGER NOT NULL,
+                whatsapp INTEGER NOT NULL,
+                push INTEGER NOT NULL,
+                locale TEXT NOT NULL DEFAULT 'en',
+                push_subscriptions TEXT NOT NULL DEFAULT '[]',
+                updated_at TEXT NOT NULL
+            );
+        `);
+        addMissingColumns(this.db, 'notification_preferences', ADDED_PREFERENCE_COLUMNS);
+    }
+
+    async findByMerchantId(merchantId: string): Promise<NotificationPreferences | null> {
+        const row = this.db
+            .prepare('SELECT * FROM notification_preferences WHERE merchant_id = ?')
+            .get(merchantId) as SqliteNotificationPreferencesRow | undefined;
+
+        return row ? this.deserialize(row) : null;
+    }
+
+    async save(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+        try {
+            this.db.prepare(`
+                INSERT INTO notification_preferences (
+                    merchant_id, email, sms, whatsapp, push, locale, push_subscriptions, updated_at
+                ) VALUES (
+                    @merchant_id, @email, @sms, @whatsapp, @push, @locale, @push_subscriptions, @updated_at
+                )
+                ON CONFLICT (merchant_id) DO UPDATE SET
+                    email = excluded.email,
+                    sms = excluded.sms,
+                    whatsapp = excluded.whatsapp,
+                    push = excluded.push,
+                    locale = excluded.locale,
+                    push_subscriptions = excluded.push_subscriptions,
+                    updated_at = excluded.updated_at
+            `).run(this.serialize(preferences));
+        } catch (error) {
+            throw new DatabaseError(
+                'Failed to persist notification preferences',
+                error instanceof Error ? error.message : undefined
+            );
+        }
+
+        return preferences;
+    }
+
+    private serialize(preferences: NotificationPreferences): SqliteNotificationPreferencesRow {
+        const row = toNotificationPreferencesRow(preferences);
+
+        return {
+            ...row,
+            email: row.email ? 1 : 0,
+            sms: row.sms ? 1 : 0,
+            whatsapp: row.whatsapp ? 1 : 0,
+            push: row.push ? 1 : 0,
+            push_subscriptions: JSON.stringify(row.push_subscriptions)
+        };
+    }
+
+    private deserialize(row: SqliteNotificationPreferencesRow): NotificationPreferences {
+        return fromNotificationPreferencesRow({
+            ...row,
+            email: row.email === 1,
+            sms: row.sms === 1,
+            whatsapp: row.whatsapp === 1,
+            push: row.push === 1,
+            push_subscriptions: JSON.parse(row.push_subscriptions)
+        });
+    }
+}
+
+// Same shape as the Supabase notifications table the React app reads
+export class SqliteInAppNotificationRepository implements InAppNotificationRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS notifications (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL,
+                type TEXT NOT NULL,
+                title TEXT NOT NULL,
+                message TEXT NOT NULL,
+                action_url TEXT,
+                action_label TEXT,
+                read INTEGER NOT NULL DEFAULT 0,
+                read_at TEXT,
+                created_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_notifications_user
+                ON notifications (user_id, created_at);
+        `);
+    }
+
+    async create(notification: InAppNotification): Promise<InAppNotification> {
+        const row = toInAppNotificationRow(notification);
+
+        try {
+            this.db
+                .prepare(`INSERT OR IGNORE INTO notifications (${IN_APP_COLUMNS.join(', ')})
+                          VALUES (${IN_APP_COLUMNS.map(column => `@${column}`).join(', ')})`)
+                .run({ ...row, read: row.read ? 1 : 0 });
+        } catch (error) {
+            throw new DatabaseError(
+                'Failed to persist notification',
+                error instanceof Error ? error.message : undefined
+            );
+        }
+
+        return notification;
+    }
+}
@@ -0,0 +1,151 @@
+// backend/src/repositories/sqliteOutboxRepository.ts
+import Database from 'better-sqlite3';
+import { OutboxEvent, OutboxEventStatus } from '../types/outbox';
+import {
+    OutboxEventRow,
+    OutboxRepository,
+    fromOutboxEventRow,
+    toClaimedEvent,
+    toOutboxEventRow
+} from './outboxRepository';
+
+const COLUMNS = [
+    'id', 'type', 'merchant_id', 'merchant_store', 'payload', 'handlers', 'completed_handlers', 'status',
+    'attempts', 'max_attempts', 'next_run_at', 'locked_until', 'last_error', 'last_error_code', 'request_id',
+    'trace_parent', 'created_at', 'updated_at', 'delivered_at'
+] as const;
+
+// JSON columns are stored as TEXT in SQLite
+type SqliteOutboxEventRow = Omit<OutboxEventRow, 'payload' | 'handlers' | 'completed_handlers'> & {
+    payload: string;
+    handlers: string;
+    completed_handlers: string;
+};
+
+export class SqliteOutboxRepository implements OutboxRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS outbox_events (
+                id TEXT PRIMARY KEY,
+                type TEXT NOT NULL,
+                merchant_id TEXT NOT NULL,
+                merchant_store TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                handlers TEXT NOT NULL,
+                completed_handlers TEXT NOT NULL DEFAULT '[]',
+                status TEXT NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                max_attempts INTEGER NOT NULL,
+                next_run_at TEXT NOT NULL,
+                locked_until TEXT,
+                last_error TEXT,
+                last_error_code TEXT,
+                request_id TEXT,
+                trace_parent TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL,
+                delivered_at TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_outbox_events_due
+                ON outbox_events (status, next_run_at);
+            CREATE INDEX IF NOT EXISTS idx_outbox_events_merchant
+                ON outbox_events (merchant_id);
+        `);
+    }
+
+    /**
+     * Synchronous, so the merchant repository can write events inside the
+     * transaction that changes the status
+     */
+    insert(event: OutboxEvent): void {
+        this.db
+            .prepare(`INSERT INTO outbox_events (${COLUMNS.join(', ')})
+                      VALUES (${COLUMNS.map(column => `@${column}`).join(', ')})`)
+            .run(this.serialize(event));
+    }
+
+    async findById(eventId: string): Promise<OutboxEvent | null> {
+        const row = this.db
+            .prepare('SELECT * FROM outbox_events WHERE id = ?')
+            .get(eventId) as SqliteOutboxEventRow | undefined;
+
+        return row ? this.deserialize(row) : null;
+    }
+
+    async findAll(status?: OutboxEventStatus): Promise<OutboxEvent[]> {
+        const rows = status
+            ? this.db
+                .prepare('SELECT * FROM outbox_events WHERE status = ? ORDER BY created_at DESC')
+                .all(status)
+            : this.db
+                .prepare('SELECT * FROM outbox_events ORDER BY created_at DESC')
+                .all();
+
+        return (rows as SqliteOutboxEventRow[]).map(row => this.deserialize(row));
+    }
+
+    async findDue(now: string, limit: number): Promise<OutboxEvent[]> {
+        // Running events whose lease ran out belonged to a dispatcher that died
+        const rows = this.db
+            .prepare(`SELECT * FROM outbox_events
+                      WHERE (status = 'pending' AND next_run_at <= @now)
+                         OR (status = 'running' AND locked_until < @now)
+                      ORDER BY next_run_at LIMIT @limit`)
+            .all({ now, limit }) as SqliteOutboxEventRow[];
+
+        return rows.map(row => this.deserialize(row));
+    }
+
+    async claim(event: OutboxEvent, lockedUntil: string): Promise<OutboxEvent | null> {
+        const claimed = toClaimedEvent(event, lockedUntil);
+
+        const result = this.db
+            .prepare(`UPDATE outbox_events
+                      SET status = @status, attempts = @attempts, locked_until = @locked_until, updated_at = @updated_at
+                      WHERE id = @id AND status = @expected_status AND attempts = @expected_attempts`)
+            .run({
+                id: claimed.id,
+                status: claimed.status,
+                attempts: claimed.attempts,
+                locked_until: claimed.lockedUntil,
+                updated_at: claimed.updatedAt,
+                expected_status: event.status,
+                expected_attempts: event.attempts
+            });
+
+        return result.changes === 1 ? claimed : null;
+    }
+
+    async update(event: OutboxEvent): Promise<OutboxEvent> {
+        const assignments = COLUMNS
+            .filter(column => column !== 'id')
+            .map(column => `${column} = @${column}`)
+            .join(', ');
+
+        this.db
+            .prepare(`UPDATE outbox_events SET ${assignments} WHERE id = @id`)
+            .run(this.serialize(event));
+
+        return event;
+    }
+
+    private serialize(event: OutboxEvent): SqliteOutboxEventRow {
+        const row = toOutboxEventRow(event);
+
+        return {
+            ...row,
+            payload: JSON.stringify(row.payload),
+            handlers: JSON.stringify(row.handlers),
+            completed_handlers: JSON.stringify(row.completed_handlers)
+        };
+    }
+
+    private deserialize(row: SqliteOutboxEventRow): OutboxEvent {
+        return fromOutboxEventRow({
+            ...row,
+            payload: JSON.parse(row.payload),
+            handlers: JSON.parse(row.handlers),
+            completed_handlers: JSON.parse(row.completed_handlers)
+        });
+    }
+}
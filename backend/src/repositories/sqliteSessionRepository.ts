@@ -0,0 +1,102 @@
+// backend/src/repositories/sqliteSessionRepository.ts
+import Database from 'better-sqlite3';
+import { AuthSession } from '../types/user';
+import {
+    SessionRepository,
+    SessionRow,
+    fromSessionRow,
+    toSessionRow
+} from './sessionRepository';
+
+export class SqliteSessionRepository implements SessionRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS auth_sessions (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL,
+                refresh_token_hash TEXT NOT NULL UNIQUE,
+                previous_refresh_token_hash TEXT,
+                expires_at TEXT NOT NULL,
+                revoked_at TEXT,
+                revoked_reason TEXT,
+                last_refreshed_at TEXT,
+                user_agent TEXT,
+                ip_address TEXT,
+                created_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions (user_id);
+            CREATE INDEX IF NOT EXISTS idx_auth_sessions_previous ON auth_sessions (previous_refresh_token_hash);
+        `);
+    }
+
+    async create(session: AuthSession): Promise<AuthSession> {
+        this.db.prepare(`
+            INSERT INTO auth_sessions (
+                id, user_id, refresh_token_hash, previous_refresh_token_hash, expires_at,
+                revoked_at, revoked_reason, last_refreshed_at, user_agent, ip_address, created_at
+            ) VALUES (
+                @id, @user_id, @refresh_token_hash, @previous_refresh_token_hash, @expires_at,
+                @revoked_at, @revoked_reason, @last_refreshed_at, @user_agent, @ip_address, @created_at
+            )
+        `).run(toSessionRow(session));
+
+        return session;
+    }
+
+    async findById(sessionId: string): Promise<AuthSession | null> {
+        const row = this.db
+            .prepare('SELECT * FROM auth_sessions WHERE id = ?')
+            .get(sessionId) as SessionRow | undefined;
+
+        return row ? fromSessionRow(row) : null;
+    }
+
+    async findByRefreshTokenHash(tokenHash: string): Promise<AuthSession | null> {
+        const row = this.db
+            .prepare('SELECT * FROM auth_sessions WHERE refresh_token_hash = ?')
+            .get(tokenHash) as SessionRow | undefined;
+
+        return row ? fromSessionRow(row) : null;
+    }
+
+    async findByPreviousRefreshTokenHash(tokenHash: string): Promise<AuthSession | null> {
+        const row = this.db
+            .prepare('SELECT * FROM auth_sessions WHERE previous_refresh_token_hash = ?')
+            .get(tokenHash) as SessionRow | undefined;
+
+        return row ? fromSessionRow(row) : null;
+    }
+
+    async findActiveByUserId(userId: string): Promise<AuthSession[]> {
+        const rows = this.db
+            .prepare('SELECT * FROM auth_sessions WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ? ORDER BY created_at')
+            .all(userId, new Date().toISOString()) as SessionRow[];
+
+        return rows.map(fromSessionRow);
+    }
+
+    async update(session: AuthSession): Promise<AuthSession> {
+        this.db.prepare(`
+            UPDATE auth_sessions SET
+                refresh_token_hash = @refresh_token_hash,
+                previous_refresh_token_hash = @previous_refresh_token_hash,
+                expires_at = @expires_at,
+                revoked_at = @revoked_at,
+                revoked_reason = @revoked_reason,
+                last_refreshed_at = @last_refreshed_at,
+                user_agent = @user_agent,
+                ip_address = @ip_address
+            WHERE id = @id
+        `).run(toSessionRow(session));
+
+        return session;
+    }
+
+    async revokeAllForUser(userId: string, revokedAt: string, reason: string): Promise<number> {
+        const result = this.db
+            .prepare('UPDATE auth_sessions SET revoked_at = ?, revoked_reason = ? WHERE user_id = ? AND revoked_at IS NULL')
+            .run(revokedAt, reason, userId);
+
+        return result.changes;
+    }
+}
@@ -0,0 +1,70 @@
+// backend/src/repositories/sqliteStatusHistoryRepository.ts
+import Database from 'better-sqlite3';
+import { StatusHistoryEntry } from '../types/merchant';
+import {
+    StatusHistoryRepository,
+    StatusHistoryRow,
+    fromStatusHistoryRow,
+    toStatusHistoryRow
+} from './statusHistoryRepository';
+
+// JSON columns are stored as TEXT in SQLite
+type SqliteStatusHistoryRow = Omit<StatusHistoryRow, 'metadata'> & {
+    metadata: string | null;
+};
+
+export class SqliteStatusHistoryRepository implements StatusHistoryRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS merchant_status_history (
+                id TEXT PRIMARY KEY,
+                merchant_id TEXT NOT NULL,
+                from_status TEXT NOT NULL,
+                to_status TEXT NOT NULL,
+                reason TEXT,
+                metadata TEXT,
+                actor_id TEXT,
+                actor_type TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_merchant_status_history_merchant
+                ON merchant_status_history (merchant_id, created_at);
+        `);
+    }
+
+    async append(entry: StatusHistoryEntry): Promise<StatusHistoryEntry> {
+        this.insert(entry);
+
+        return entry;
+    }
+
+    /**
+     * Synchronous, so the merchant repository can record a transition inside
+     * the transaction that changes the status
+     */
+    insert(entry: StatusHistoryEntry): void {
+        const row = toStatusHistoryRow(entry);
+
+        this.db.prepare(`
+            INSERT INTO merchant_status_history (
+                id, merchant_id, from_status, to_status, reason, metadata, actor_id, actor_type, created_at
+            ) VALUES (
+                @id, @merchant_id, @from_status, @to_status, @reason, @metadata, @actor_id, @actor_type, @created_at
+            )
+        `).run({
+            ...row,
+            metadata: row.metadata ? JSON.stringify(row.metadata) : null
+        });
+    }
+
+    async findByMerchantId(merchantId: string): Promise<StatusHistoryEntry[]> {
+        const rows = this.db
+            .prepare('SELECT * FROM merchant_status_history WHERE merchant_id = ? ORDER BY created_at, rowid')
+            .all(merchantId) as SqliteStatusHistoryRow[];
+
+        return rows.map(row => fromStatusHistoryRow({
+            ...row,
+            metadata: row.metadata ? JSON.parse(row.metadata) : null
+        }));
+    }
+}
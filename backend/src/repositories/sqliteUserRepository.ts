@@ -0,0 +1,178 @@
+// backend/src/repositories/sqliteUserRepository.ts
+import Database from 'better-sqlite3';
+import { User, UserToken, UserTokenType } from '../types/user';
+import { ConflictError, DatabaseError } from '../utils/errors';
+import {
+    UserRepository,
+    UserRow,
+    UserTokenRow,
+    fromUserRow,
+    fromUserTokenRow,
+    toUserRow,
+    toUserTokenRow
+} from './userRepository';
+
+// SQLite has no boolean type; flags are stored as 0/1
+type SqliteUserRow = Omit<UserRow, 'is_active' | 'email_verified'> & {
+    is_active: number;
+    email_verified: number;
+};
+
+export class SqliteUserRepository implements UserRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS users (
+                id TEXT PRIMARY KEY,
+                email TEXT NOT NULL UNIQUE,
+                password_hash TEXT NOT NULL,
+                role TEXT NOT NULL,
+                first_name TEXT NOT NULL,
+                last_name TEXT NOT NULL,
+                phone TEXT,
+                is_active INTEGER NOT NULL DEFAULT 1,
+                email_verified INTEGER NOT NULL DEFAULT 0,
+                last_login_at TEXT,
+                created_at TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            );
+            CREATE TABLE IF NOT EXISTS user_tokens (
+                id TEXT PRIMARY KEY,
+                user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+                type TEXT NOT NULL,
+                token_hash TEXT NOT NULL UNIQUE,
+                expires_at TEXT NOT NULL,
+                used_at TEXT,
+                created_at TEXT NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_user_tokens_user ON user_tokens (user_id, type);
+        `);
+    }
+
+    async create(user: User): Promise<User> {
+        try {
+            this.db.prepare(`
+                INSERT INTO users (
+                    id, email, password_hash, role, first_name, last_name, phone,
+                    is_active, email_verified, last_login_at, created_at, updated_at
+                ) VALUES (
+                    @id, @email, @password_hash, @role, @first_name, @last_name, @phone,
+                    @is_active, @email_verified, @last_login_at, @created_at, @updated_at
+                )
+            `).run(this.serialize(user));
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return user;
+    }
+
+    async findById(userId: string): Promise<User | null> {
+        const row = this.db
+            .prepare('SELECT * FROM users WHERE id = ?')
+            .get(userId) as SqliteUserRow | undefined;
+
+        return row ? this.deserialize(row) : null;
+    }
+
+    async findByEmail(email: string): Promise<User | null> {
+        const row = this.db
+            .prepare('SELECT * FROM users WHERE email = ?')
+            .get(email) as SqliteUserRow | undefined;
+
+        return row ? this.deserialize(row) : null;
+    }
+
+    async findAll(): Promise<User[]> {
+        const rows = this.db
+            .prepare('SELECT * FROM users ORDER BY created_at')
+            .all() as SqliteUserRow[];
+
+        return rows.map(row => this.deserialize(row));
+    }
+
+    async update(user: User): Promise<User> {
+        try {
+            this.db.prepare(`
+                UPDATE users SET
+                    email = @email,
+                    password_hash = @password_hash,
+                    role = @role,
+                    first_name = @first_name,
+                    last_name = @last_name,
+                    phone = @phone,
+                    is_active = @is_active,
+                    email_verified = @email_verified,
+                    last_login_at = @last_login_at,
+                    updated_at = @updated_at
+                WHERE id = @id
+            `).run(this.serialize(user));
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return user;
+    }
+
+    async createToken(token: UserToken): Promise<UserToken> {
+        this.db.prepare(`
+            INSERT INTO user_tokens (id, user_id, type, token_hash, expires_at, used_at, created_at)
+            VALUES (@id, @user_id, @type, @token_hash, @expires_at, @used_at, @created_at)
+        `).run(toUserTokenRow(token));
+
+        return token;
+    }
+
+    async findTokenByHash(tokenHash: string, type: UserTokenType): Promise<UserToken | null> {
+        const row = this.db
+            .prepare('SELECT * FROM user_tokens WHERE token_hash = ? AND type = ?')
+            .get(tokenHash, type) as UserTokenRow | undefined;
+
+        return row ? fromUserTokenRow(row) : null;
+    }
+
+    async markTokenUsed(tokenId: string, usedAt: string): Promise<boolean> {
+        const result = this.db
+            .prepare('UPDATE user_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL')
+            .run(usedAt, tokenId);
+
+        return result.changes > 0;
+    }
+
+    async invalidateTokens(userId: string, type: UserTokenType): Promise<void> {
+        this.db
+            .prepare('UPDATE user_tokens SET used_at = ? WHERE user_id = ? AND type = ? AND used_at IS NULL')
+            .run(new Date().toISOString(), userId, type);
+    }
+
+    private serialize(user: User): SqliteUserRow {
+        const row = toUserRow(user);
+
+        return {
+            ...row,
+            is_active: row.is_active ? 1 : 0,
+            email_verified: row.email_verified ? 1 : 0
+        };
+    }
+
+    private deserialize(row: SqliteUserRow): User {
+        return fromUserRow({
+            ...row,
+            is_active: row.is_active === 1,
+            email_verified: row.email_verified === 1
+        });
+    }
+
+    private handleError(error: unknown): Error {
+        if (error instanceof Database.SqliteError && error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+            return new ConflictError(
+                'User with this email already exists',
+                'USER_EXISTS'
+            );
+        }
+
+        return new DatabaseError(
+            'Failed to persist user',
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
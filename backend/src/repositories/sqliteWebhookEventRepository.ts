@@ -0,0 +1,169 @@
+// backend/src/repositories/sqliteWebhookEventRepository.ts
+import Database from 'better-sqlite3';
+import { InboundWebhookEvent } from '../types/bank';
+import { ConflictError, DatabaseError } from '../utils/errors';
+import {
+    WebhookEventFilter,
+    WebhookEventRepository,
+    WebhookEventRow,
+    fromWebhookEventRow,
+    toClaimedEvent,
+    toWebhookEventRow
+} from './webhookEventRepository';
+
+const COLUMNS = [
+    'id', 'route', 'application_id', 'event_id', 'merchant_id', 'status', 'payload', 'attempts',
+    'duplicate_count', 'last_error', 'last_error_code', 'received_at', 'last_received_at',
+    'processing_started_at', 'processed_at', 'updated_at'
+] as const;
+
+// Columns added after the table was first created
+const ADDED_EVENT_COLUMNS: Record<string, string> = {
+    processing_started_at: 'TEXT'
+};
+
+export class SqliteWebhookEventRepository implements WebhookEventRepository {
+    constructor(private readonly db: Database.Database) {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS bank_webhook_events (
+                id TEXT PRIMARY KEY,
+                route TEXT NOT NULL,
+                application_id TEXT NOT NULL,
+                event_id TEXT NOT NULL,
+                merchant_id TEXT,
+                status TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                duplicate_count INTEGER NOT NULL DEFAULT 0,
+                last_error TEXT,
+                last_error_code TEXT,
+                received_at TEXT NOT NULL,
+                last_received_at TEXT NOT NULL,
+                processing_started_at TEXT,
+                processed_at TEXT,
+                updated_at TEXT NOT NULL,
+                UNIQUE (application_id, event_id)
+            );
+            CREATE INDEX IF NOT EXISTS idx_bank_webhook_events_status
+                ON bank_webhook_events (status, received_at);
+        `);
+        this.addMissingColumns();
+    }
+
+    async create(event: InboundWebhookEvent): Promise<InboundWebhookEvent> {
+        try {
+            this.db
+                .prepare(`INSERT INTO bank_webhook_events (${COLUMNS.join(', ')})
+                          VALUES (${COLUMNS.map(column => `@${column}`).join(', ')})`)
+                .run(toWebhookEventRow(event));
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return event;
+    }
+
+    async findById(id: string): Promise<InboundWebhookEvent | null> {
+        const row = this.db
+            .prepare('SELECT * FROM bank_webhook_events WHERE id = ?')
+            .get(id) as WebhookEventRow | undefined;
+
+        return row ? fromWebhookEventRow(row) : null;
+    }
+
+    async findByEventKey(applicationId: string, eventId: string): Promise<InboundWebhookEvent | null> {
+        const row = this.db
+            .prepare('SELECT * FROM bank_webhook_events WHERE application_id = ? AND event_id = ?')
+            .get(applicationId, eventId) as WebhookEventRow | undefined;
+
+        return row ? fromWebhookEventRow(row) : null;
+    }
+
+    async findAll(filter: WebhookEventFilter = {}): Promise<InboundWebhookEvent[]> {
+        const conditions: string[] = [];
+
+        if (filter.status) conditions.push('status = @status');
+        if (filter.applicationId) conditions.push('application_id = @applicationId');
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const rows = this.db
+            .prepare(`SELECT * FROM bank_webhook_events ${where} ORDER BY received_at DESC`)
+            .all(filter) as WebhookEventRow[];
+
+        return rows.map(fromWebhookEventRow);
+    }
+
+    async claim(event: InboundWebhookEvent): Promise<InboundWebhookEvent | null> {
+        const claimed = toClaimedEvent(event);
+
+        const result = this.db
+            .prepare(`UPDATE bank_webhook_events
+                      SET status = @status, attempts = @attempts, processing_started_at = @processing_started_at,
+                          updated_at = @updated_at
+                      WHERE id = @id AND status = @expected_status AND attempts = @expected_attempts`)
+            .run({
+                id: claimed.id,
+                status: claimed.status,
+                attempts: claimed.attempts,
+                processing_started_at: claimed.processingStartedAt,
+                updated_at: claimed.updatedAt,
+                expected_status: event.status,
+                expected_attempts: event.attempts
+            });
+
+        return result.changes === 1 ? claimed : null;
+    }
+
+    async recordDuplicate(event: InboundWebhookEvent, receivedAt: string): Promise<InboundWebhookEvent> {
+        this.db
+            .prepare(`UPDATE bank_webhook_events
+                      SET duplicate_count = duplicate_count + 1, last_received_at = @received_at, updated_at = @received_at
+                      WHERE id = @id`)
+            .run({ id: event.id, received_at: receivedAt });
+
+        return (await this.findById(event.id)) ?? event;
+    }
+
+    async update(event: InboundWebhookEvent): Promise<InboundWebhookEvent> {
+        const assignments = COLUMNS
+            .filter(column => column !== 'id')
+            .map(column => `${column} = @${column}`)
+            .join(', ');
+
+        try {
+            this.db
+                .prepare(`UPDATE bank_webhook_events SET ${assignments} WHERE id = @id`)
+                .run(toWebhookEventRow(event));
+        } catch (error) {
+            throw this.handleError(error);
+        }
+
+        return event;
+    }
+
+    private addMissingColumns(): void {
+        const existing = new Set(
+            (this.db.prepare('PRAGMA table_info(bank_webhook_events)').all() as Array<{ name: string }>)
+                .map(column => column.name)
+        );
+
+        Object.entries(ADDED_EVENT_COLUMNS)
+            .filter(([column]) => !existing.has(column))
+            .forEach(([column, type]) => this.db.exec(`ALTER TABLE bank_webhook_events ADD COLUMN ${column} ${type}`));
+    }
+
+    private handleError(error: unknown): Error {
+        if (error instanceof Database.SqliteError && error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+            return new ConflictError(
+                'Webhook event already recorded',
+                'WEBHOOK_EVENT_EXISTS'
+            );
+        }
+
+        return new DatabaseError(
+            'Failed to persist webhook event',
+            error instanceof Error ? error.message : undefined
+        );
+    }
+}
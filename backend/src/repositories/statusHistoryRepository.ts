@@ -0,0 +1,51 @@
+// backend/src/repositories/statusHistoryRepository.ts
+import { OnboardingStatus, StatusActorType, StatusHistoryEntry } from '../types/merchant';
+
+/**
+ * Append-only store of onboarding status transitions.
+ * Entries are kept when a merchant is deleted so the audit trail survives.
+ */
+export interface StatusHistoryRepository {
+    append(entry: StatusHistoryEntry): Promise<StatusHistoryEntry>;
+    findByMerchantId(merchantId: string): Promise<StatusHistoryEntry[]>;
+}
+
+export interface StatusHistoryRow {
+    id: string;
+    merchant_id: string;
+    from_status: OnboardingStatus;
+    to_status: OnboardingStatus;
+    reason: string | null;
+    metadata: Record<string, string | number | boolean | null> | null;
+    actor_id: string | null;
+    actor_type: StatusActorType;
+    created_at: string;
+}
+
+export function toStatusHistoryRow(entry: StatusHistoryEntry): StatusHistoryRow {
+    return {
+        id: entry.id,
+        merchant_id: entry.merchantId,
+        from_status: entry.fromStatus,
+        to_status: entry.toStatus,
+        reason: entry.reason ?? null,
+        metadata: entry.metadata ?? null,
+        actor_id: entry.actorId ?? null,
+        actor_type: entry.actorType,
+        created_at: entry.createdAt
+    };
+}
+
+export function fromStatusHistoryRow(row: StatusHistoryRow): StatusHistoryEntry {
+    return {
+        id: row.id,
+        merchantId: row.merchant_id,
+        fromStatus: row.from_status,
+        toStatus: row.to_status,
+        reason: row.reason ?? undefined,
+        metadata: row.metadata ?? undefined,
+        actorId: row.actor_id ?? undefined,
+        actorType: row.actor_type,
+        createdAt: row.created_at
+    };
+}
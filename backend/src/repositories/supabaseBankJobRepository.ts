@@ -0,0 +1,124 @@
+// backend/src/repositories/supabaseBankJobRepository.ts
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { BankSubmissionJob, BankSubmissionJobStatus } from '../types/bank';
+import { DatabaseError } from '../utils/errors';
+import {
+    ACTIVE_JOB_STATUSES,
+    BankJobRepository,
+    BankJobRow,
+    fromBankJobRow,
+    toBankJobRow,
+    toClaimedJob
+} from './bankJobRepository';
+
+const TABLE = 'bank_submission_jobs';
+
+export class SupabaseBankJobRepository implements BankJobRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async create(job: BankSubmissionJob): Promise<BankSubmissionJob> {
+        const { error } = await this.getClient()
+            .from(TABLE)
+            .insert(toBankJobRow(job));
+
+        if (error) throw this.handleError(error);
+
+        return job;
+    }
+
+    async findById(jobId: string): Promise<BankSubmissionJob | null> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .eq('id', jobId)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromBankJobRow(data as BankJobRow) : null;
+    }
+
+    async findAll(status?: BankSubmissionJobStatus): Promise<BankSubmissionJob[]> {
+        let query = this.getClient()
+            .from(TABLE)
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (status) {
+            query = query.eq('status', status);
+        }
+
+        const { data, error } = await query;
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as BankJobRow[]).map(fromBankJobRow);
+    }
+
+    async findActiveByMerchantId(merchantId: string): Promise<BankSubmissionJob | null> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .eq('merchant_id', merchantId)
+            .in('status', ACTIVE_JOB_STATUSES)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromBankJobRow(data as BankJobRow) : null;
+    }
+
+    async findDue(now: string, limit: number): Promise<BankSubmissionJob[]> {
+        // Running jobs whose lease ran out belonged to a worker that died
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .or(`and(status.eq.pending,next_run_at.lte."${now}"),and(status.eq.running,locked_until.lt."${now}")`)
+            .order('next_run_at', { ascending: true })
+            .limit(limit);
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as BankJobRow[]).map(fromBankJobRow);
+    }
+
+    async claim(job: BankSubmissionJob, lockedUntil: string): Promise<BankSubmissionJob | null> {
+        const claimed = toClaimedJob(job, lockedUntil);
+
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .update({
+                status: claimed.status,
+                attempts: claimed.attempts,
+                locked_until: claimed.lockedUntil,
+                updated_at: claimed.updatedAt
+            })
+            .eq('id', job.id)
+            .eq('status', job.status)
+            .eq('attempts', job.attempts)
+            .select('id');
+
+        if (error) throw this.handleError(error);
+
+        return (data || []).length === 1 ? claimed : null;
+    }
+
+    async update(job: BankSubmissionJob): Promise<BankSubmissionJob> {
+        const { id, ...row } = toBankJobRow(job);
+
+        const { error } = await this.getClient()
+            .from(TABLE)
+            .update(row)
+            .eq('id', id);
+
+        if (error) throw this.handleError(error);
+
+        return job;
+    }
+
+    private handleError(error: PostgrestError): Error {
+        return new DatabaseError('Failed to persist bank submission job', error.message);
+    }
+}
@@ -0,0 +1,285 @@
+// backend/src/repositories/supabaseMerchantRepository.ts
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { BankSubmissionJob } from '../types/bank';
+import { MerchantProductType, MerchantProfile, OnboardingStatus, StatusHistoryEntry } from '../types/merchant';
+import { OutboxEvent } from '../types/outbox';
+import { ConflictError, DatabaseError } from '../utils/errors';
+import {
+    BankSubmissionRecord,
+    MerchantDocumentRow,
+    MerchantProfileRow,
+    MerchantRepository,
+    ONBOARDING_STATUSES,
+    fromMerchantProfileRow,
+    planDocumentChanges,
+    toBankSubmissionColumns,
+    toMerchantProfileRow,
+    withDocumentIds
+} from './merchantRepository';
+import { toBankJobRow } from './bankJobRepository';
+import { toOutboxEventRow } from './outboxRepository';
+import { toStatusHistoryRow } from './statusHistoryRepository';
+
+const PROFILES_TABLE = 'merchant_profiles';
+const DOCUMENTS_TABLE = 'merchant_documents';
+const PRODUCTS_TABLE = 'merchant_products';
+
+// Updates the profile and inserts the history entry, outbox events and bank job in one transaction
+const APPLY_STATUS_CHANGE = 'apply_merchant_status_change';
+
+// Profiles are read together with their documents and products
+const PROFILE_SELECT = `*, ${DOCUMENTS_TABLE}(*), ${PRODUCTS_TABLE}(product_type)`;
+
+type MerchantProfileWithDocumentsRow = MerchantProfileRow & {
+    merchant_documents: MerchantDocumentRow[] | null;
+    merchant_products: Array<{ product_type: MerchantProductType }> | null;
+};
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Reads and writes the merchant_profiles / merchant_documents / merchant_products
+ * tables used by the React onboarding flow, so both entry points share one record per merchant.
+ */
+export class SupabaseMerchantRepository implements MerchantRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async create(merchant: MerchantProfile): Promise<MerchantProfile> {
+        const stored = withDocumentIds(merchant);
+
+        const { error } = await this.getClient()
+            .from(PROFILES_TABLE)
+            .insert(toMerchantProfileRow(stored));
+
+        if (error) throw this.handleError(error);
+
+        await this.writeDocuments(stored, []);
+        await this.writeProducts(stored, []);
+
+        return stored;
+    }
+
+    async findById(merchantId: string): Promise<MerchantProfile | null> {
+        const { data, error } = await this.getClient()
+            .from(PROFILES_TABLE)
+            .select(PROFILE_SELECT)
+            .eq('id', merchantId)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? this.deserialize(data as MerchantProfileWithDocumentsRow) : null;
+    }
+
+    async findByUserId(userId: string): Promise<MerchantProfile | null> {
+        const { data, error } = await this.getClient()
+            .from(PROFILES_TABLE)
+            .select(PROFILE_SELECT)
+            .eq('user_id', userId)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? this.deserialize(data as MerchantProfileWithDocumentsRow) : null;
+    }
+
+    async findAll(status?: OnboardingStatus): Promise<MerchantProfile[]> {
+        let query = this.getClient()
+            .from(PROFILES_TABLE)
+            .select(PROFILE_SELECT)
+            .order('created_at', { ascending: true });
+
+        if (status) {
+            query = query.eq('onboarding_status', status);
+        }
+
+        const { data, error } = await query;
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as MerchantProfileWithDocumentsRow[]).map(row => this.deserialize(row));
+    }
+
+    // PostgREST has no GROUP BY, so one head-only count per status
+    async countByStatus(): Promise<Record<OnboardingStatus, number>> {
+        const counts = await Promise.all(ONBOARDING_STATUSES.map(async status => {
+            const { count, error } = await this.getClient()
+                .from(PROFILES_TABLE)
+                .select('id', { count: 'exact', head: true })
+                .eq('onboarding_status', status);
+
+            if (error) throw this.handleError(error);
+
+            return [status, count ?? 0] as const;
+        }));
+
+        return Object.fromEntries(counts) as Record<OnboardingStatus, number>;
+    }
+
+    async update(merchant: MerchantProfile): Promise<MerchantProfile> {
+        const stored = withDocumentIds(merchant);
+        const { id, ...row } = toMerchantProfileRow(stored);
+
+        const { error } = await this.getClient()
+            .from(PROFILES_TABLE)
+            .update(row)
+            .eq('id', id);
+
+        if (error) throw this.handleError(error);
+
+        await this.writeDocuments(stored, await this.findDocuments(id));
+        await this.writeProducts(stored, await this.findProducts(id));
+
+        return stored;
+    }
+
+    // Documents go first: writing them again is a no-op, so a status change that fails can be retried
+    async applyStatusChange(
+        merchant: MerchantProfile,
+        entry: StatusHistoryEntry,
+        events: OutboxEvent[],
+        bankJob?: BankSubmissionJob
+    ): Promise<MerchantProfile | null> {
+        const stored = withDocumentIds(merchant);
+
+        await this.writeDocuments(stored, await this.findDocuments(stored.id));
+        await this.writeProducts(stored, await this.findProducts(stored.id));
+
+        // False when the profile is no longer in the history entry's from_status
+        const { data: applied, error } = await this.getClient().rpc(APPLY_STATUS_CHANGE, {
+            p_profile: toMerchantProfileRow(stored),
+            p_history: toStatusHistoryRow(entry),
+            p_events: events.map(toOutboxEventRow),
+            p_bank_job: bankJob ? toBankJobRow(bankJob) : null
+        });
+
+        if (error) throw this.handleError(error);
+
+        return applied === true ? stored : null;
+    }
+
+    async recordBankSubmission(merchantId: string, submission: BankSubmissionRecord): Promise<boolean> {
+        const { data, error } = await this.getClient()
+            .from(PROFILES_TABLE)
+            .update(toBankSubmissionColumns(submission))
+            .eq('id', merchantId)
+            .eq('onboarding_status', 'pending_bank_approval')
+            .select('id');
+
+        if (error) throw this.handleError(error);
+
+        return (data || []).length > 0;
+    }
+
+    async verifyDocument(merchantId: string, documentId: string, verifiedAt: string): Promise<boolean> {
+        const { data, error } = await this.getClient()
+            .from(DOCUMENTS_TABLE)
+            .update({ status: 'verified', verified_at: verifiedAt })
+            .eq('id', documentId)
+            .eq('merchant_id', merchantId)
+            .select('id');
+
+        if (error) throw this.handleError(error);
+
+        return (data || []).length > 0;
+    }
+
+    async delete(merchantId: string): Promise<void> {
+        // merchant_documents and merchant_products rows are removed by ON DELETE CASCADE
+        const { error } = await this.getClient()
+            .from(PROFILES_TABLE)
+            .delete()
+            .eq('id', merchantId);
+
+        if (error) throw this.handleError(error);
+    }
+
+    private async findDocuments(merchantId: string): Promise<MerchantDocumentRow[]> {
+        const { data, error } = await this.getClient()
+            .from(DOCUMENTS_TABLE)
+            .select('*')
+            .eq('merchant_id', merchantId);
+
+        if (error) throw this.handleError(error);
+
+        return (data || []) as MerchantDocumentRow[];
+    }
+
+    private async findProducts(merchantId: string): Promise<MerchantProductType[]> {
+        const { data, error } = await this.getClient()
+            .from(PRODUCTS_TABLE)
+            .select('product_type')
+            .eq('merchant_id', merchantId);
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as Array<{ product_type: MerchantProductType }>).map(row => row.product_type);
+    }
+
+    // Only the difference is written, so the settlement choice the React app stores is kept
+    private async writeProducts(
+        merchant: MerchantProfile,
+        existing: MerchantProductType[]
+    ): Promise<void> {
+        const products = merchant.products || [];
+        const added = products.filter(product => !existing.includes(product));
+        const removed = existing.filter(product => !products.includes(product));
+        const client = this.getClient();
+
+        if (added.length > 0) {
+            const { error } = await client
+                .from(PRODUCTS_TABLE)
+                .upsert(
+                    added.map(product => ({ merchant_id: merchant.id, product_type: product })),
+                    { onConflict: 'merchant_id,product_type', ignoreDuplicates: true }
+                );
+            if (error) throw this.handleError(error);
+        }
+
+        if (removed.length > 0) {
+            const { error } = await client
+                .from(PRODUCTS_TABLE)
+                .delete()
+                .eq('merchant_id', merchant.id)
+                .in('product_type', removed);
+            if (error) throw this.handleError(error);
+        }
+    }
+
+    private async writeDocuments(
+        merchant: MerchantProfile,
+        existing: MerchantDocumentRow[]
+    ): Promise<void> {
+        const changes = planDocumentChanges(merchant, existing);
+        const client = this.getClient();
+
+        if (changes.insert.length > 0) {
+            const { error } = await client.from(DOCUMENTS_TABLE).insert(changes.insert);
+            if (error) throw this.handleError(error);
+        }
+
+        if (changes.remove.length > 0) {
+            const { error } = await client.from(DOCUMENTS_TABLE).delete().in('id', changes.remove);
+            if (error) throw this.handleError(error);
+        }
+    }
+
+    private deserialize(row: MerchantProfileWithDocumentsRow): MerchantProfile {
+        const { merchant_documents: documents, merchant_products: products, ...profile } = row;
+        const sorted = [...(documents || [])].sort((a, b) => a.uploaded_at.localeCompare(b.uploaded_at));
+
+        return fromMerchantProfileRow(profile, sorted, (products || []).map(product => product.product_type));
+    }
+
+    private handleError(error: PostgrestError): Error {
+        if (error.code === UNIQUE_VIOLATION) {
+            return new ConflictError(
+                'Merchant profile already exists for this user',
+                'MERCHANT_ALREADY_EXISTS'
+            );
+        }
+
+        return new DatabaseError('Failed to persist merchant profile', error.message);
+    }
+}
\ No newline at end of file
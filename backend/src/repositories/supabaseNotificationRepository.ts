@@ -0,0 +1,118 @@
+// backend/src/repositories/supabaseNotificationRepository.ts
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { InAppNotification, NotificationDelivery, NotificationPreferences } from '../types/notification';
+import { DatabaseError } from '../utils/errors';
+import {
+    InAppNotificationRepository,
+    NotificationDeliveryFilter,
+    NotificationDeliveryRepository,
+    NotificationDeliveryRow,
+    NotificationPreferenceRepository,
+    NotificationPreferencesRow,
+    fromNotificationDeliveryRow,
+    fromNotificationPreferencesRow,
+    toInAppNotificationRow,
+    toNotificationDeliveryRow,
+    toNotificationPreferencesRow
+} from './notificationRepository';
+
+const DELIVERIES_TABLE = 'notification_deliveries';
+const PREFERENCES_TABLE = 'notification_preferences';
+const IN_APP_TABLE = 'notifications';
+
+export class SupabaseNotificationDeliveryRepository implements NotificationDeliveryRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async create(delivery: NotificationDelivery): Promise<NotificationDelivery> {
+        const { error } = await this.getClient()
+            .from(DELIVERIES_TABLE)
+            .insert(toNotificationDeliveryRow(delivery));
+
+        if (error) throw this.handleError(error);
+
+        return delivery;
+    }
+
+    async findAll(filter: NotificationDeliveryFilter = {}): Promise<NotificationDelivery[]> {
+        let query = this.getClient()
+            .from(DELIVERIES_TABLE)
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (filter.merchantId) query = query.eq('merchant_id', filter.merchantId);
+        if (filter.status) query = query.eq('status', filter.status);
+        if (filter.channel) query = query.eq('channel', filter.channel);
+
+        const { data, error } = await query;
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as NotificationDeliveryRow[]).map(fromNotificationDeliveryRow);
+    }
+
+    async update(delivery: NotificationDelivery): Promise<NotificationDelivery> {
+        const { id, ...row } = toNotificationDeliveryRow(delivery);
+
+        const { error } = await this.getClient()
+            .from(DELIVERIES_TABLE)
+            .update(row)
+            .eq('id', id);
+
+        if (error) throw this.handleError(error);
+
+        return delivery;
+    }
+
+    private handleError(error: PostgrestError): Error {
+        return new DatabaseError('Failed to persist notification delivery', error.message);
+    }
+}
+
+export class SupabaseNotificationPreferenceRepository implements NotificationPreferenceRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async findByMerchantId(merchantId: string): Promise<NotificationPreferences | null> {
+        const { data, error } = await this.getClient()
+            .from(PREFERENCES_TABLE)
+            .select('*')
+            .eq('merchant_id', merchantId)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromNotificationPreferencesRow(data as NotificationPreferencesRow) : null;
+    }
+
+    async save(preferences: NotificationPreferences): Promise<NotificationPreferences> {
+        const { error } = await this.getClient()
+            .from(PREFERENCES_TABLE)
+            .upsert(toNotificationPreferencesRow(preferences), { onConflict: 'merchant_id' });
+
+        if (error) throw this.handleError(error);
+
+        return preferences;
+    }
+
+    private handleError(error: PostgrestError): Error {
+        return new DatabaseError('Failed to persist notification preferences', error.message);
+    }
+}
+
+// The notifications table the React app already reads and writes
+export class SupabaseInAppNotificationRepository implements InAppNotificationRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async create(notification: InAppNotification): Promise<InAppNotification> {
+        const { error } = await this.getClient()
+            .from(IN_APP_TABLE)
+            .upsert(toInAppNotificationRow(notification), { onConflict: 'id', ignoreDuplicates: true });
+
+        if (error) throw this.handleError(error);
+
+        return notification;
+    }
+
+    private handleError(error: PostgrestError): Error {
+        return new DatabaseError('Failed to persist notification', error.message);
+    }
+}
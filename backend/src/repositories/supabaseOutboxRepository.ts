@@ -0,0 +1,98 @@
+// backend/src/repositories/supabaseOutboxRepository.ts
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { OutboxEvent, OutboxEventStatus } from '../types/outbox';
+import { DatabaseError } from '../utils/errors';
+import {
+    OutboxEventRow,
+    OutboxRepository,
+    fromOutboxEventRow,
+    toClaimedEvent,
+    toOutboxEventRow
+} from './outboxRepository';
+
+const TABLE = 'outbox_events';
+
+export class SupabaseOutboxRepository implements OutboxRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async findById(eventId: string): Promise<OutboxEvent | null> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .eq('id', eventId)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromOutboxEventRow(data as OutboxEventRow) : null;
+    }
+
+    async findAll(status?: OutboxEventStatus): Promise<OutboxEvent[]> {
+        let query = this.getClient()
+            .from(TABLE)
+            .select('*')
+            .order('created_at', { ascending: false });
+
+        if (status) {
+            query = query.eq('status', status);
+        }
+
+        const { data, error } = await query;
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as OutboxEventRow[]).map(fromOutboxEventRow);
+    }
+
+    async findDue(now: string, limit: number): Promise<OutboxEvent[]> {
+        // Running events whose lease ran out belonged to a dispatcher that died
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .or(`and(status.eq.pending,next_run_at.lte."${now}"),and(status.eq.running,locked_until.lt."${now}")`)
+            .order('next_run_at', { ascending: true })
+            .limit(limit);
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as OutboxEventRow[]).map(fromOutboxEventRow);
+    }
+
+    async claim(event: OutboxEvent, lockedUntil: string): Promise<OutboxEvent | null> {
+        const claimed = toClaimedEvent(event, lockedUntil);
+
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .update({
+                status: claimed.status,
+                attempts: claimed.attempts,
+                locked_until: claimed.lockedUntil,
+                updated_at: claimed.updatedAt
+            })
+            .eq('id', event.id)
+            .eq('status', event.status)
+            .eq('attempts', event.attempts)
+            .select('id');
+
+        if (error) throw this.handleError(error);
+
+        return (data || []).length === 1 ? claimed : null;
+    }
+
+    async update(event: OutboxEvent): Promise<OutboxEvent> {
+        const { id, ...row } = toOutboxEventRow(event);
+
+        const { error } = await this.getClient()
+            .from(TABLE)
+            .update(row)
+            .eq('id', id);
+
+        if (error) throw this.handleError(error);
+
+        return event;
+    }
+
+    private handleError(error: PostgrestError): Error {
+        return new DatabaseError('Failed to persist outbox event', error.message);
+    }
+}
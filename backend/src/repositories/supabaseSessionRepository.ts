@@ -0,0 +1,94 @@
+// backend/src/repositories/supabaseSessionRepository.ts
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { AuthSession } from '../types/user';
+import { DatabaseError } from '../utils/errors';
+import {
+    SessionRepository,
+    SessionRow,
+    fromSessionRow,
+    toSessionRow
+} from './sessionRepository';
+
+const TABLE = 'app_auth_sessions';
+
+export class SupabaseSessionRepository implements SessionRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async create(session: AuthSession): Promise<AuthSession> {
+        const { error } = await this.getClient()
+            .from(TABLE)
+            .insert(toSessionRow(session));
+
+        if (error) throw this.handleError(error);
+
+        return session;
+    }
+
+    async findById(sessionId: string): Promise<AuthSession | null> {
+        return this.findOne('id', sessionId);
+    }
+
+    async findByRefreshTokenHash(tokenHash: string): Promise<AuthSession | null> {
+        return this.findOne('refresh_token_hash', tokenHash);
+    }
+
+    async findByPreviousRefreshTokenHash(tokenHash: string): Promise<AuthSession | null> {
+        return this.findOne('previous_refresh_token_hash', tokenHash);
+    }
+
+    async findActiveByUserId(userId: string): Promise<AuthSession[]> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .eq('user_id', userId)
+            .is('revoked_at', null)
+            .gt('expires_at', new Date().toISOString())
+            .order('created_at', { ascending: true });
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as SessionRow[]).map(fromSessionRow);
+    }
+
+    async update(session: AuthSession): Promise<AuthSession> {
+        const { id, ...row } = toSessionRow(session);
+
+        const { error } = await this.getClient()
+            .from(TABLE)
+            .update(row)
+            .eq('id', id);
+
+        if (error) throw this.handleError(error);
+
+        return session;
+    }
+
+    async revokeAllForUser(userId: string, revokedAt: string, reason: string): Promise<number> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .update({ revoked_at: revokedAt, revoked_reason: reason })
+            .eq('user_id', userId)
+            .is('revoked_at', null)
+            .select('id');
+
+        if (error) throw this.handleError(error);
+
+        return (data || []).length;
+    }
+
+    private async findOne(column: keyof SessionRow, value: string): Promise<AuthSession | null> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .eq(column, value)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromSessionRow(data as SessionRow) : null;
+    }
+
+    private handleError(error: PostgrestError): Error {
+        return new DatabaseError('Failed to persist auth session', error.message);
+    }
+}
@@ -0,0 +1,42 @@
+// backend/src/repositories/supabaseStatusHistoryRepository.ts
+import { SupabaseClient } from '@supabase/supabase-js';
+import { StatusHistoryEntry } from '../types/merchant';
+import { DatabaseError } from '../utils/errors';
+import {
+    StatusHistoryRepository,
+    StatusHistoryRow,
+    fromStatusHistoryRow,
+    toStatusHistoryRow
+} from './statusHistoryRepository';
+
+const TABLE = 'merchant_status_history';
+
+export class SupabaseStatusHistoryRepository implements StatusHistoryRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async append(entry: StatusHistoryEntry): Promise<StatusHistoryEntry> {
+        const { error } = await this.getClient()
+            .from(TABLE)
+            .insert(toStatusHistoryRow(entry));
+
+        if (error) {
+            throw new DatabaseError('Failed to record status history', error.message);
+        }
+
+        return entry;
+    }
+
+    async findByMerchantId(merchantId: string): Promise<StatusHistoryEntry[]> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .eq('merchant_id', merchantId)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            throw new DatabaseError('Failed to load status history', error.message);
+        }
+
+        return ((data || []) as StatusHistoryRow[]).map(fromStatusHistoryRow);
+    }
+}
@@ -0,0 +1,139 @@
+// backend/src/repositories/supabaseUserRepository.ts
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { User, UserToken, UserTokenType } from '../types/user';
+import { ConflictError, DatabaseError } from '../utils/errors';
+import {
+    UserRepository,
+    UserRow,
+    UserTokenRow,
+    fromUserRow,
+    fromUserTokenRow,
+    toUserRow,
+    toUserTokenRow
+} from './userRepository';
+
+const USERS_TABLE = 'app_users';
+const TOKENS_TABLE = 'app_user_tokens';
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export class SupabaseUserRepository implements UserRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async create(user: User): Promise<User> {
+        const { error } = await this.getClient()
+            .from(USERS_TABLE)
+            .insert(toUserRow(user));
+
+        if (error) throw this.handleError(error);
+
+        return user;
+    }
+
+    async findById(userId: string): Promise<User | null> {
+        const { data, error } = await this.getClient()
+            .from(USERS_TABLE)
+            .select('*')
+            .eq('id', userId)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromUserRow(data as UserRow) : null;
+    }
+
+    async findByEmail(email: string): Promise<User | null> {
+        const { data, error } = await this.getClient()
+            .from(USERS_TABLE)
+            .select('*')
+            .eq('email', email)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromUserRow(data as UserRow) : null;
+    }
+
+    async findAll(): Promise<User[]> {
+        const { data, error } = await this.getClient()
+            .from(USERS_TABLE)
+            .select('*')
+            .order('created_at', { ascending: true });
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as UserRow[]).map(fromUserRow);
+    }
+
+    async update(user: User): Promise<User> {
+        const { id, ...row } = toUserRow(user);
+
+        const { error } = await this.getClient()
+            .from(USERS_TABLE)
+            .update(row)
+            .eq('id', id);
+
+        if (error) throw this.handleError(error);
+
+        return user;
+    }
+
+    async createToken(token: UserToken): Promise<UserToken> {
+        const { error } = await this.getClient()
+            .from(TOKENS_TABLE)
+            .insert(toUserTokenRow(token));
+
+        if (error) throw this.handleError(error);
+
+        return token;
+    }
+
+    async findTokenByHash(tokenHash: string, type: UserTokenType): Promise<UserToken | null> {
+        const { data, error } = await this.getClient()
+            .from(TOKENS_TABLE)
+            .select('*')
+            .eq('token_hash', tokenHash)
+            .eq('type', type)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromUserTokenRow(data as UserTokenRow) : null;
+    }
+
+    async markTokenUsed(tokenId: string, usedAt: string): Promise<boolean> {
+        const { data, error } = await this.getClient()
+            .from(TOKENS_TABLE)
+            .update({ used_at: usedAt })
+            .eq('id', tokenId)
+            .is('used_at', null)
+            .select('id');
+
+        if (error) throw this.handleError(error);
+
+        return (data || []).length > 0;
+    }
+
+    async invalidateTokens(userId: string, type: UserTokenType): Promise<void> {
+        const { error } = await this.getClient()
+            .from(TOKENS_TABLE)
+            .update({ used_at: new Date().toISOString() })
+            .eq('user_id', userId)
+            .eq('type', type)
+            .is('used_at', null);
+
+        if (error) throw this.handleError(error);
+    }
+
+    private handleError(error: PostgrestError): Error {
+        if (error.code === UNIQUE_VIOLATION) {
+            return new ConflictError(
+                'User with this email already exists',
+                'USER_EXISTS'
+            );
+        }
+
+        return new DatabaseError('Failed to persist user', error.message);
+    }
+}
@@ -0,0 +1,133 @@
+// backend/src/repositories/supabaseWebhookEventRepository.ts
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { InboundWebhookEvent } from '../types/bank';
+import { ConflictError, DatabaseError } from '../utils/errors';
+import {
+    WebhookEventFilter,
+    WebhookEventRepository,
+    WebhookEventRow,
+    fromWebhookEventRow,
+    toClaimedEvent,
+    toWebhookEventRow
+} from './webhookEventRepository';
+
+const TABLE = 'bank_webhook_events';
+const UNIQUE_VIOLATION = '23505';
+
+export class SupabaseWebhookEventRepository implements WebhookEventRepository {
+    constructor(private readonly getClient: () => SupabaseClient) {}
+
+    async create(event: InboundWebhookEvent): Promise<InboundWebhookEvent> {
+        const { error } = await this.getClient()
+            .from(TABLE)
+            .insert(toWebhookEventRow(event));
+
+        if (error) throw this.handleError(error);
+
+        return event;
+    }
+
+    async findById(id: string): Promise<InboundWebhookEvent | null> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromWebhookEventRow(data as WebhookEventRow) : null;
+    }
+
+    async findByEventKey(applicationId: string, eventId: string): Promise<InboundWebhookEvent | null> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .select('*')
+            .eq('application_id', applicationId)
+            .eq('event_id', eventId)
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromWebhookEventRow(data as WebhookEventRow) : null;
+    }
+
+    async findAll(filter: WebhookEventFilter = {}): Promise<InboundWebhookEvent[]> {
+        let query = this.getClient()
+            .from(TABLE)
+            .select('*')
+            .order('received_at', { ascending: false });
+
+        if (filter.status) query = query.eq('status', filter.status);
+        if (filter.applicationId) query = query.eq('application_id', filter.applicationId);
+
+        const { data, error } = await query;
+
+        if (error) throw this.handleError(error);
+
+        return ((data || []) as WebhookEventRow[]).map(fromWebhookEventRow);
+    }
+
+    async claim(event: InboundWebhookEvent): Promise<InboundWebhookEvent | null> {
+        const claimed = toClaimedEvent(event);
+
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .update({
+                status: claimed.status,
+                attempts: claimed.attempts,
+                processing_started_at: claimed.processingStartedAt,
+                updated_at: claimed.updatedAt
+            })
+            .eq('id', event.id)
+            .eq('status', event.status)
+            .eq('attempts', event.attempts)
+            .select('id');
+
+        if (error) throw this.handleError(error);
+
+        return (data || []).length === 1 ? claimed : null;
+    }
+
+    // PostgREST cannot increment in place; a count lost to a concurrent redelivery is harmless
+    async recordDuplicate(event: InboundWebhookEvent, receivedAt: string): Promise<InboundWebhookEvent> {
+        const { data, error } = await this.getClient()
+            .from(TABLE)
+            .update({
+                duplicate_count: event.duplicateCount + 1,
+                last_received_at: receivedAt,
+                updated_at: receivedAt
+            })
+            .eq('id', event.id)
+            .select('*')
+            .maybeSingle();
+
+        if (error) throw this.handleError(error);
+
+        return data ? fromWebhookEventRow(data as WebhookEventRow) : event;
+    }
+
+    async update(event: InboundWebhookEvent): Promise<InboundWebhookEvent> {
+        const { id, ...row } = toWebhookEventRow(event);
+
+        const { error } = await this.getClient()
+            .from(TABLE)
+            .update(row)
+            .eq('id', id);
+
+        if (error) throw this.handleError(error);
+
+        return event;
+    }
+
+    private handleError(error: PostgrestError): Error {
+        if (error.code === UNIQUE_VIOLATION) {
+            return new ConflictError(
+                'Webhook event already recorded',
+                'WEBHOOK_EVENT_EXISTS'
+            );
+        }
+
+        return new DatabaseError('Failed to persist webhook event', error.message);
+    }
+}
@@ -0,0 +1,103 @@
+// backend/src/repositories/userRepository.ts
+import { User, UserRole, UserToken, UserTokenType } from '../types/user';
+
+/**
+ * Persistence contract for user accounts and their one-time tokens.
+ * Emails are unique and stored lower-cased.
+ */
+export interface UserRepository {
+    create(user: User): Promise<User>;
+    findById(userId: string): Promise<User | null>;
+    findByEmail(email: string): Promise<User | null>;
+    findAll(): Promise<User[]>;
+    update(user: User): Promise<User>;
+
+    createToken(token: UserToken): Promise<UserToken>;
+    findTokenByHash(tokenHash: string, type: UserTokenType): Promise<UserToken | null>;
+    // Only marks an unused token; returns false when another request used it first
+    markTokenUsed(tokenId: string, usedAt: string): Promise<boolean>;
+    invalidateTokens(userId: string, type: UserTokenType): Promise<void>;
+}
+
+export interface UserRow {
+    id: string;
+    email: string;
+    password_hash: string;
+    role: UserRole;
+    first_name: string;
+    last_name: string;
+    phone: string | null;
+    is_active: boolean;
+    email_verified: boolean;
+    last_login_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface UserTokenRow {
+    id: string;
+    user_id: string;
+    type: UserTokenType;
+    token_hash: string;
+    expires_at: string;
+    used_at: string | null;
+    created_at: string;
+}
+
+export function toUserRow(user: User): UserRow {
+    return {
+        id: user.id,
+        email: user.email,
+        password_hash: user.passwordHash,
+        role: user.role,
+        first_name: user.firstName,
+        last_name: user.lastName,
+        phone: user.phone ?? null,
+        is_active: user.isActive,
+        email_verified: user.emailVerified,
+        last_login_at: user.lastLoginAt ?? null,
+        created_at: user.createdAt,
+        updated_at: user.updatedAt
+    };
+}
+
+export function fromUserRow(row: UserRow): User {
+    return {
+        id: row.id,
+        email: row.email,
+        passwordHash: row.password_hash,
+        role: row.role,
+        firstName: row.first_name,
+        lastName: row.last_name,
+        phone: row.phone ?? undefined,
+        isActive: Boolean(row.is_active),
+        emailVerified: Boolean(row.email_verified),
+        lastLoginAt: row.last_login_at ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    };
+}
+
+export function toUserTokenRow(token: UserToken): UserTokenRow {
+    return {
+        id: token.id,
+        user_id: token.userId,
+        type: token.type,
+        token_hash: token.tokenHash,
+        expires_at: token.expiresAt,
+        used_at: token.usedAt ?? null,
+        created_at: token.createdAt
+    };
+}
+
+export function fromUserTokenRow(row: UserTokenRow): UserToken {
+    return {
+        id: row.id,
+        userId: row.user_id,
+        type: row.type,
+        tokenHash: row.token_hash,
+        expiresAt: row.expires_at,
+        usedAt: row.used_at ?? undefined,
+        createdAt: row.created_at
+    };
+}
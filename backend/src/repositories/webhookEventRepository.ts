@@ -0,0 +1,104 @@
+// backend/src/repositories/webhookEventRepository.ts
+import {
+    BankWebhookRoute,
+    InboundWebhookEvent,
+    InboundWebhookStatus
+} from '../types/bank';
+
+export interface WebhookEventFilter {
+    status?: InboundWebhookStatus;
+    applicationId?: string;
+}
+
+/**
+ * Ledger of inbound bank webhooks, unique on (application_id, event_id).
+ * create() throws a ConflictError when the event is already recorded.
+ * claim() must only succeed for one delivery, so it compares the status and
+ * attempt count the caller last saw before taking the event.
+ */
+export interface WebhookEventRepository {
+    create(event: InboundWebhookEvent): Promise<InboundWebhookEvent>;
+    findById(id: string): Promise<InboundWebhookEvent | null>;
+    findByEventKey(applicationId: string, eventId: string): Promise<InboundWebhookEvent | null>;
+    findAll(filter?: WebhookEventFilter): Promise<InboundWebhookEvent[]>;
+    claim(event: InboundWebhookEvent): Promise<InboundWebhookEvent | null>;
+    // Only touches the redelivery columns, so it cannot undo a status written meanwhile
+    recordDuplicate(event: InboundWebhookEvent, receivedAt: string): Promise<InboundWebhookEvent>;
+    update(event: InboundWebhookEvent): Promise<InboundWebhookEvent>;
+}
+
+export interface WebhookEventRow {
+    id: string;
+    route: BankWebhookRoute;
+    application_id: string;
+    event_id: string;
+    merchant_id: string | null;
+    status: InboundWebhookStatus;
+    payload: string;
+    attempts: number;
+    duplicate_count: number;
+    last_error: string | null;
+    last_error_code: string | null;
+    received_at: string;
+    last_received_at: string;
+    processing_started_at: string | null;
+    processed_at: string | null;
+    updated_at: string;
+}
+
+export function toWebhookEventRow(event: InboundWebhookEvent): WebhookEventRow {
+    return {
+        id: event.id,
+        route: event.route,
+        application_id: event.applicationId,
+        event_id: event.eventId,
+        merchant_id: event.merchantId ?? null,
+        status: event.status,
+        payload: event.payload,
+        attempts: event.attempts,
+        duplicate_count: event.duplicateCount,
+        last_error: event.lastError ?? null,
+        last_error_code: event.lastErrorCode ?? null,
+        received_at: event.receivedAt,
+        last_received_at: event.lastReceivedAt,
+        processing_started_at: event.processingStartedAt ?? null,
+        processed_at: event.processedAt ?? null,
+        updated_at: event.updatedAt
+    };
+}
+
+export function fromWebhookEventRow(row: WebhookEventRow): InboundWebhookEvent {
+    return {
+        id: row.id,
+        route: row.route,
+        applicationId: row.application_id,
+        eventId: row.event_id,
+        merchantId: row.merchant_id ?? undefined,
+        status: row.status,
+        payload: row.payload,
+        attempts: row.attempts,
+        duplicateCount: row.duplicate_count,
+        lastError: row.last_error ?? undefined,
+        lastErrorCode: row.last_error_code ?? undefined,
+        receivedAt: row.received_at,
+        lastReceivedAt: row.last_received_at,
+        processingStartedAt: row.processing_started_at ?? undefined,
+        processedAt: row.processed_at ?? undefined,
+        updatedAt: row.updated_at
+    };
+}
+
+/**
+ * The event as a delivery holds it: processing, one more attempt, started now
+ */
+export function toClaimedEvent(event: InboundWebhookEvent): InboundWebhookEvent {
+    const now = new Date().toISOString();
+
+    return {
+        ...event,
+        status: 'processing',
+        attempts: event.attempts + 1,
+        processingStartedAt: now,
+        updatedAt: now
+    };
+}
@@ -2,10 +2,21 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { merchantService } from '../services/merchantService';
 import { validationService } from '../services/validationService';
-import { bankApiService } from '../services/bankApiService';
+import { onboardingStateMachine } from '../services/onboardingStateMachine';
+import { userService } from '../services/userService';
+import { sessionService } from '../services/sessionService';
+import { bankSubmissionQueue } from '../services/bankSubmissionQueue';
+import { outboxDispatcher } from '../services/outboxDispatcher';
+import { webhookLedgerService } from '../services/webhookLedger';
 import { notificationService } from '../services/notifications';
+import { NOTIFICATION_CHANNELS } from '../services/notificationProviders';
+import { smsLengthLimit, toNotificationLocale } from '../services/notificationTemplates';
 import { authenticate, authorize } from '../middleware/auth';
 import { OnboardingStatus } from '../types/merchant';
+import { BankSubmissionJobStatus, InboundWebhookStatus } from '../types/bank';
+import { NotificationChannel, NotificationDeliveryStatus } from '../types/notification';
+import { OutboxEventStatus } from '../types/outbox';
+import { User } from '../types/user';
 import { BadRequestError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
@@ -18,6 +29,9 @@ interface ApiResponse<T = unknown> {
     count?: number;
 }
 
+// Never expose password hashes in admin responses
+const toPublicUser = ({ passwordHash: _passwordHash, ...user }: User): Omit<User, 'passwordHash'> => user;
+
 // Get all merchants with optional status filter
 router.get(
     '/merchants',
@@ -63,6 +77,29 @@ router.get(
     }
 );
 
+// Get status history timeline for a merchant
+router.get(
+    '/merchants/:merchantId/history',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { merchantId } = req.params;
+            const history = await merchantService.getStatusHistory(merchantId);
+
+            const response: ApiResponse = {
+                success: true,
+                data: history,
+                count: history.length
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
 // Validate merchant application
 router.post(
     '/merchants/:merchantId/validate',
@@ -73,31 +110,18 @@ router.post(
             const { merchantId } = req.params;
             const merchant = await merchantService.getMerchantById(merchantId);
 
-            if (merchant.onboardingStatus !== 'submitted') {
-                throw new BadRequestError(
-                    'Merchant must be in submitted status',
-                    'INVALID_STATUS'
-                );
-            }
+            onboardingStateMachine.assertCan(merchant.onboardingStatus, 'START_VALIDATION');
 
             // Perform validation using validation service
             await validationService.validateMerchantProfile(merchant);
 
-            // Update status to validating
-            const updated = await merchantService.updateStatus(merchantId, 'validating');
-
-            // Send notification
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                'submitted',
-                'validating'
-            );
-
-            logger.business(
-                'merchant_validated',
+            // Documents stay unverified until each one is reviewed
+            const updated = await merchantService.transition(
                 merchantId,
-                'merchant',
-                { adminUserId: req.user?.userId }
+                'START_VALIDATION',
+                undefined,
+                undefined,
+                { actorId: req.user?.userId, actorType: 'admin' }
             );
 
             const response: ApiResponse = {
@@ -113,67 +137,58 @@ router.post(
     }
 );
 
-// Submit to bank
+// Mark a document verified after reviewing it
 router.post(
-    '/merchants/:merchantId/submit-to-bank',
+    '/merchants/:merchantId/documents/:documentId/verify',
     authenticate,
     authorize('admin'),
     async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
-            const { merchantId } = req.params;
-            const merchant = await merchantService.getMerchantById(merchantId);
+            const { merchantId, documentId } = req.params;
 
-            if (merchant.onboardingStatus !== 'validating') {
-                throw new BadRequestError(
-                    'Merchant must be validated first',
-                    'INVALID_STATUS'
-                );
-            }
-
-            // Submit to bank API
-            const bankResponse = await bankApiService.submitMerchantApplication(merchant);
-
-            // Update merchant with bank response
-            const updated = await merchantService.updateStatus(
+            const updated = await merchantService.verifyDocument(
                 merchantId,
-                'pending_bank_approval',
-                undefined,
-                {
-                    ...merchant,
-                    bankApplicationId: bankResponse.applicationId,
-                    bankResponse: {
-                        success: bankResponse.success,
-                        applicationId: bankResponse.applicationId,
-                        message: bankResponse.message,
-                        estimatedProcessingTime: bankResponse.estimatedProcessingTime
-                    }
-                }
+                documentId,
+                { actorId: req.user?.userId, actorType: 'admin' }
             );
 
-            // Send notification
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                'validating',
-                'pending_bank_approval'
-            );
+            const response: ApiResponse = {
+                success: true,
+                data: updated,
+                message: 'Document verified'
+            };
 
-            logger.business(
-                'merchant_submitted_to_bank',
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Submit to bank (entering pending_bank_approval queues the bank call)
+router.post(
+    '/merchants/:merchantId/submit-to-bank',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { merchantId } = req.params;
+
+            const updated = await merchantService.transition(
                 merchantId,
-                'merchant',
-                {
-                    adminUserId: req.user?.userId,
-                    bankApplicationId: bankResponse.applicationId
-                }
+                'SUBMIT_TO_BANK',
+                undefined,
+                undefined,
+                { actorId: req.user?.userId, actorType: 'admin' }
             );
 
             const response: ApiResponse = {
                 success: true,
                 data: {
                     merchant: updated,
-                    bankResponse
+                    bankJob: await bankSubmissionQueue.getActiveJob(merchantId)
                 },
-                message: 'Application submitted to bank successfully'
+                message: 'Application queued for bank submission'
             };
 
             res.json(response);
@@ -191,28 +206,16 @@ router.post(
     async (req: Request, res: Response, next: NextFunction): Promise<void> => {
         try {
             const { merchantId } = req.params;
-            const merchant = await merchantService.getMerchantById(merchantId);
-            const oldStatus = merchant.onboardingStatus;
 
-            const updated = await merchantService.updateStatus(
+            const updated = await merchantService.transition(
                 merchantId,
-                'approved'
-            );
-
-            // Send notification
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                oldStatus,
-                'approved'
-            );
-
-            logger.business(
-                'merchant_approved',
-                merchantId,
-                'merchant',
+                'MANUAL_APPROVE',
+                undefined,
+                undefined,
                 {
-                    adminUserId: req.user?.userId,
-                    manualOverride: true
+                    actorId: req.user?.userId,
+                    actorType: 'admin',
+                    metadata: { manualOverride: true }
                 }
             );
 
@@ -246,30 +249,12 @@ router.post(
                 );
             }
 
-            const merchant = await merchantService.getMerchantById(merchantId);
-            const oldStatus = merchant.onboardingStatus;
-
-            const updated = await merchantService.updateStatus(
+            const updated = await merchantService.transition(
                 merchantId,
-                'rejected',
-                reason
-            );
-
-            // Send notification
-            await notificationService.notifyMerchantStatusChange(
-                updated,
-                oldStatus,
-                'rejected'
-            );
-
-            logger.business(
-                'merchant_rejected',
-                merchantId,
-                'merchant',
-                {
-                    adminUserId: req.user?.userId,
-                    reason
-                }
+                'REJECT',
+                reason,
+                undefined,
+                { actorId: req.user?.userId, actorType: 'admin' }
             );
 
             const response: ApiResponse = {
@@ -315,4 +300,453 @@ router.post(
     }
 );
 
+// List bank submission jobs (status=dead for the dead-letter list)
+router.get(
+    '/bank-jobs',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const status = req.query.status as BankSubmissionJobStatus | undefined;
+            const jobs = await bankSubmissionQueue.getJobs(status);
+
+            const response: ApiResponse = {
+                success: true,
+                data: jobs,
+                count: jobs.length
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Get a bank submission job
+router.get(
+    '/bank-jobs/:jobId',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const job = await bankSubmissionQueue.getJob(req.params.jobId);
+
+            const response: ApiResponse = {
+                success: true,
+                data: job
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Requeue a dead or cancelled bank submission job
+router.post(
+    '/bank-jobs/:jobId/retry',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const job = await bankSubmissionQueue.retry(req.params.jobId);
+
+            logger.business(
+                'bank_job_retried',
+                job.merchantId,
+                'merchant',
+                { adminUserId: req.user?.userId, jobId: job.id }
+            );
+
+            const response: ApiResponse = {
+                success: true,
+                data: job,
+                message: 'Bank submission job requeued'
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Cancel a waiting or dead bank submission job
+router.post(
+    '/bank-jobs/:jobId/cancel',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const job = await bankSubmissionQueue.cancel(req.params.jobId);
+
+            logger.business(
+                'bank_job_cancelled',
+                job.merchantId,
+                'merchant',
+                { adminUserId: req.user?.userId, jobId: job.id }
+            );
+
+            const response: ApiResponse = {
+                success: true,
+                data: job,
+                message: 'Bank submission job cancelled'
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// List outbox events (status "dead" is the dead-letter list)
+router.get(
+    '/outbox-events',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const status = req.query.status as OutboxEventStatus | undefined;
+            const events = await outboxDispatcher.getEvents(status);
+
+            const response: ApiResponse = {
+                success: true,
+                data: events,
+                count: events.length
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Get an outbox event
+router.get(
+    '/outbox-events/:eventId',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const event = await outboxDispatcher.getEvent(req.params.eventId);
+
+            const response: ApiResponse = {
+                success: true,
+                data: event
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Requeue a dead outbox event; handlers that already succeeded are skipped
+router.post(
+    '/outbox-events/:eventId/retry',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const event = await outboxDispatcher.retry(req.params.eventId);
+
+            logger.business(
+                'outbox_event_retried',
+                event.merchantId,
+                'merchant',
+                { adminUserId: req.user?.userId, eventId: event.id }
+            );
+
+            const response: ApiResponse = {
+                success: true,
+                data: event,
+                message: 'Outbox event requeued'
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// List recorded bank webhooks (optionally by status or application)
+router.get(
+    '/webhook-events',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const events = await webhookLedgerService.getEvents({
+                status: req.query.status as InboundWebhookStatus | undefined,
+                applicationId: req.query.applicationId as string | undefined
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: events,
+                count: events.length
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Get a recorded bank webhook with its raw payload
+router.get(
+    '/webhook-events/:eventId',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const event = await webhookLedgerService.getEvent(req.params.eventId);
+
+            const response: ApiResponse = {
+                success: true,
+                data: event
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Replay a failed or stuck bank webhook from its stored payload
+router.post(
+    '/webhook-events/:eventId/replay',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const event = await webhookLedgerService.replay(req.params.eventId, req.user?.userId);
+
+            const response: ApiResponse = {
+                success: true,
+                data: event,
+                message: 'Webhook event replayed'
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// List notification deliveries (optionally by merchant, status or channel)
+router.get(
+    '/notifications',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const deliveries = await notificationService.getDeliveries({
+                merchantId: req.query.merchantId as string | undefined,
+                status: req.query.status as NotificationDeliveryStatus | undefined,
+                channel: req.query.channel as NotificationChannel | undefined
+            });
+
+            const response: ApiResponse = {
+                success: true,
+                data: deliveries,
+                count: deliveries.length
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// List notification templates, every version (optionally by key, channel or locale)
+router.get(
+    '/notification-templates',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { key, channel, locale } = req.query;
+            const templates = notificationService.getTemplates().filter(template =>
+                (!key || template.key === key)
+                && (!channel || template.channel === channel)
+                && (!locale || template.locale === locale)
+            );
+
+            const response: ApiResponse = {
+                success: true,
+                data: templates,
+                count: templates.length
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Render a notification template against the sample merchant, or a real one with merchantId
+router.get(
+    '/notification-templates/preview',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const key = req.query.key as string | undefined;
+            const channel = req.query.channel as NotificationChannel | undefined;
+            const locale = toNotificationLocale((req.query.locale as string | undefined) ?? 'en');
+            const version = req.query.version === undefined ? undefined : Number(req.query.version);
+            const merchantId = req.query.merchantId as string | undefined;
+
+            if (!key || !channel || !NOTIFICATION_CHANNELS.includes(channel)) {
+                throw new BadRequestError('key and a valid channel are required', 'INVALID_TEMPLATE_PREVIEW');
+            }
+            if (!locale) {
+                throw new BadRequestError(`Notifications are not available in ${req.query.locale}`, 'UNSUPPORTED_NOTIFICATION_LOCALE');
+            }
+            if (version !== undefined && !Number.isInteger(version)) {
+                throw new BadRequestError('version must be a whole number', 'INVALID_TEMPLATE_PREVIEW');
+            }
+
+            const merchant = merchantId ? await merchantService.getMerchantById(merchantId) : undefined;
+            const rendered = notificationService.previewTemplate(key, channel, locale, merchant, version);
+
+            const response: ApiResponse = {
+                success: true,
+                data: {
+                    ...rendered,
+                    requestedLocale: locale,
+                    // How much of one SMS the message uses
+                    ...(channel === 'sms' && { length: rendered.body.length, limit: smsLengthLimit(rendered.body) })
+                }
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Get all user accounts
+router.get(
+    '/users',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const users = await userService.getAllUsers();
+
+            const response: ApiResponse = {
+                success: true,
+                data: users.map(toPublicUser),
+                count: users.length
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Disable user account
+router.post(
+    '/users/:userId/disable',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { userId } = req.params;
+
+            const updated = await userService.setActive(userId, false, req.user?.userId);
+
+            // A disabled account must not keep working tokens
+            await sessionService.revokeAllForUser(userId, 'account_disabled');
+
+            const response: ApiResponse = {
+                success: true,
+                data: toPublicUser(updated),
+                message: 'User account disabled'
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Enable user account
+router.post(
+    '/users/:userId/enable',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { userId } = req.params;
+
+            const updated = await userService.setActive(userId, true, req.user?.userId);
+
+            const response: ApiResponse = {
+                success: true,
+                data: toPublicUser(updated),
+                message: 'User account enabled'
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+// Revoke all sessions for a user (e.g. leaked token)
+router.post(
+    '/users/:userId/revoke-sessions',
+    authenticate,
+    authorize('admin'),
+    async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        try {
+            const { userId } = req.params;
+
+            // Ensure the user exists before revoking
+            await userService.getUserById(userId);
+
+            const revoked = await sessionService.revokeAllForUser(userId, 'admin_revoked');
+
+            logger.business(
+                'user_sessions_revoked',
+                userId,
+                'user',
+                {
+                    adminUserId: req.user?.userId,
+                    revoked
+                }
+            );
+
+            const response: ApiResponse = {
+                success: true,
+                data: { revoked },
+                message: 'All user sessions revoked'
+            };
+
+            res.json(response);
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
 export default router;
\ No newline at end of file
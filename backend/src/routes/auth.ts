@@ -1,76 +1,41 @@
 ﻿// src/routes/auth.ts
 import { Router, Request, Response, NextFunction } from 'express';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { v4 as uuidv4 } from 'uuid';
-import { ConflictError, UnauthorizedError, BadRequestError, ForbiddenError } from '../utils/errors';
+import { config } from '../config/env';
+import { authenticate } from '../middleware/auth';
+import {
+  authRateLimit,
+  byEmail,
+  loginAccountRateLimit,
+  refreshRateLimit,
+  registerRateLimit,
+  tooManyRequests
+} from '../middleware/rateLimit';
+import { loginLockout } from '../services/loginLockout';
+import { sessionService, SessionContext } from '../services/sessionService';
+import { userService } from '../services/userService';
+import { User } from '../types/user';
+import { BadRequestError, UnauthorizedError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
-// User type
-interface User {
-  id: string;
-  email: string;
-  passwordHash: string;
-  role: 'merchant' | 'admin' | 'distributor';
-  firstName: string;
-  lastName: string;
-  phone?: string;
-  isActive: boolean;
-  emailVerified: boolean;
-  lastLoginAt?: string;
-  createdAt: string;
-  updatedAt: string;
+// Seed demo users for local development only
+if (config.SEED_DEMO_USERS && config.NODE_ENV !== 'production') {
+  userService.seedDemoUsers().catch(error =>
+    logger.error('Failed to seed demo users', error instanceof Error ? error : undefined)
+  );
 }
 
-// In-memory user storage
-const users = new Map<string, User>();
-
-// Seed demo users
-const seedUsers = async (): Promise<void> => {
-  const demoUsers = [
-    {
-      email: 'admin@sabbpe.com',
-      password: 'admin123',
-      role: 'admin' as const,
-      firstName: 'Admin',
-      lastName: 'User'
-    },
-    {
-      email: 'merchant@sabbpe.com',
-      password: 'merchant123',
-      role: 'merchant' as const,
-      firstName: 'Merchant',
-      lastName: 'User'
-    }
-  ];
-
-  for (const userData of demoUsers) {
-    if (!users.has(userData.email)) {
-      const user: User = {
-        id: uuidv4(),
-        email: userData.email,
-        passwordHash: await bcrypt.hash(userData.password, 10),
-        role: userData.role,
-        firstName: userData.firstName,
-        lastName: userData.lastName,
-        isActive: true,
-        emailVerified: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-      users.set(user.email, user);
-    }
-  }
-};
-
-// Initialize demo users
-seedUsers();
+// Client details recorded on the session
+const getSessionContext = (req: Request): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
 
 // Register
 router.post(
   '/register',
+  registerRateLimit,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { email, password, firstName, lastName, role, phone } = req.body;
@@ -83,63 +48,28 @@ router.post(
         );
       }
 
-      // Check if user exists
-      if (users.has(email)) {
-        throw new ConflictError(
-          'User with this email already exists',
-          'USER_EXISTS'
+      if (typeof email !== 'string' || typeof password !== 'string') {
+        throw new BadRequestError(
+          'Email and password must be strings',
+          'INVALID_FIELDS'
         );
       }
 
-      // Hash password
-      const passwordHash = await bcrypt.hash(password, 10);
-
-      // Create user
-      const user: User = {
-        id: uuidv4(),
+      const user = await userService.register({
         email,
-        passwordHash,
-        role: role || 'merchant',
+        password,
         firstName,
         lastName,
-        phone,
-        isActive: true,
-        emailVerified: false,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      users.set(user.email, user);
-
-      // Generate token
-      const token = jwt.sign(
-        {
-          userId: user.id,
-          email: user.email,
-          role: user.role,
-          firstName: user.firstName,
-          lastName: user.lastName
-        },
-        process.env.JWT_SECRET || 'your-secret-key',
-        { expiresIn: '7d' }
-      );
+        role,
+        phone
+      });
 
       logger.auth('register', user.id, true);
 
       res.status(201).json({
         success: true,
-        data: {
-          token,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-          user: {
-            userId: user.id,
-            email: user.email,
-            role: user.role,
-            firstName: user.firstName,
-            lastName: user.lastName
-          }
-        },
-        message: 'User registered successfully'
+        data: await sessionService.createSession(user, getSessionContext(req)),
+        message: 'User registered successfully. Please check your email to verify your address.'
       });
     } catch (error) {
       next(error);
@@ -147,81 +77,228 @@ router.post(
   }
 );
 
-// Login
+// Login; limited per client and per account, with a lockout after repeated wrong passwords
 router.post(
   '/login',
+  authRateLimit,
+  loginAccountRateLimit,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { email, password } = req.body;
+      // Undefined unless the email is a non-empty string
+      const account = byEmail(req);
 
-      if (!email || !password) {
+      if (!account || !password || typeof password !== 'string') {
         throw new BadRequestError(
           'Email and password are required',
           'MISSING_CREDENTIALS'
         );
       }
 
-      // Find user
-      const user = users.get(email);
+      const lockedUntil = await loginLockout.getLockedUntil(account);
 
-      if (!user) {
-        throw new UnauthorizedError(
-          'Invalid email or password',
-          'INVALID_CREDENTIALS'
+      if (lockedUntil) {
+        throw tooManyRequests(
+          req,
+          res,
+          'login_lockout',
+          lockedUntil,
+          'Too many failed login attempts, please try again later',
+          'ACCOUNT_LOCKED'
         );
       }
 
-      // Verify password
-      const isValidPassword = await bcrypt.compare(password, user.passwordHash);
+      let user: User;
+
+      try {
+        user = await userService.authenticate({ email, password });
+      } catch (error) {
+        if (error instanceof UnauthorizedError && error.code === 'INVALID_CREDENTIALS') {
+          await loginLockout.recordFailure(account);
+        }
+        throw error;
+      }
+
+      await loginLockout.recordSuccess(account);
+
+      logger.auth('login', user.id, true);
+
+      res.json({
+        success: true,
+        data: await sessionService.createSession(user, getSessionContext(req)),
+        message: 'Login successful'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Exchange refresh token for a new token pair
+router.post(
+  '/refresh',
+  refreshRateLimit,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
 
-      if (!isValidPassword) {
-        throw new UnauthorizedError(
-          'Invalid email or password',
-          'INVALID_CREDENTIALS'
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        throw new BadRequestError(
+          'Refresh token is required',
+          'MISSING_REFRESH_TOKEN'
         );
       }
 
-      // Check if user is active
-      if (!user.isActive) {
-        throw new ForbiddenError(
-          'Account has been disabled',
-          'ACCOUNT_DISABLED'
+      const tokens = await sessionService.refresh(refreshToken, getSessionContext(req));
+
+      res.json({
+        success: true,
+        data: tokens,
+        message: 'Token refreshed'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Logout (revokes the current session)
+router.post(
+  '/logout',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { refreshToken } = req.body;
+
+      if (refreshToken && typeof refreshToken === 'string') {
+        await sessionService.revokeByRefreshToken(refreshToken);
+      }
+
+      if (req.user) {
+        await sessionService.revokeSession(req.user.sessionId, 'logout');
+      }
+
+      logger.auth('logout', req.user?.userId, true);
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Verify email address
+router.post(
+  '/verify-email',
+  authRateLimit,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== 'string') {
+        throw new BadRequestError(
+          'Verification token is required',
+          'MISSING_TOKEN'
         );
       }
 
-      // Update last login
-      user.lastLoginAt = new Date().toISOString();
-      users.set(user.email, user);
+      const user = await userService.verifyEmail(token);
 
-      // Generate token
-      const token = jwt.sign(
-        {
+      res.json({
+        success: true,
+        data: {
           userId: user.id,
           email: user.email,
-          role: user.role,
-          firstName: user.firstName,
-          lastName: user.lastName
+          emailVerified: user.emailVerified
         },
-        process.env.JWT_SECRET || 'your-secret-key',
-        { expiresIn: '7d' }
-      );
+        message: 'Email verified successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-      logger.auth('login', user.id, true);
+// Resend verification email
+router.post(
+  '/resend-verification',
+  authRateLimit,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== 'string') {
+        throw new BadRequestError(
+          'Email is required',
+          'MISSING_FIELDS'
+        );
+      }
+
+      await userService.resendVerification(email);
 
       res.json({
         success: true,
-        data: {
-          token,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-          user: {
-            userId: user.id,
-            email: user.email,
-            role: user.role,
-            firstName: user.firstName,
-            lastName: user.lastName
-          }
-        },
-        message: 'Login successful'
+        message: 'If the account exists and is unverified, a verification email has been sent'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Request password reset link
+router.post(
+  '/forgot-password',
+  authRateLimit,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== 'string') {
+        throw new BadRequestError(
+          'Email is required',
+          'MISSING_FIELDS'
+        );
+      }
+
+      await userService.requestPasswordReset(email);
+
+      res.json({
+        success: true,
+        message: 'If the account exists, a password reset link has been sent'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Reset password with one-time token
+router.post(
+  '/reset-password',
+  authRateLimit,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { token, password } = req.body;
+
+      if (!token || typeof token !== 'string' || !password) {
+        throw new BadRequestError(
+          'Token and new password are required',
+          'MISSING_FIELDS'
+        );
+      }
+
+      const user = await userService.resetPassword(token, password);
+
+      // Sign out everywhere after a password change
+      await sessionService.revokeAllForUser(user.id, 'password_reset');
+
+      res.json({
+        success: true,
+        message: 'Password has been reset. You can now log in.'
       });
     } catch (error) {
       next(error);
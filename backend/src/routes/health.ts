@@ -0,0 +1,45 @@
+// src/routes/health.ts
+import { Router, Request, Response, NextFunction } from 'express';
+import { bankApiService } from '../services/bankApiService';
+import { healthService } from '../services/healthService';
+
+const router = Router();
+
+// Summary for people; orchestration uses /live and /ready
+router.get('/', (req: Request, res: Response): void => {
+    res.json({
+        success: true,
+        message: 'Server is running',
+        timestamp: new Date().toISOString(),
+        uptime: process.uptime(),
+        // Circuit breaker and rate limit per acquiring bank
+        banks: bankApiService.getHealth()
+    });
+});
+
+// Liveness: the process is up and serving requests; no dependency is checked
+router.get('/live', (req: Request, res: Response): void => {
+    res.json({
+        success: true,
+        status: 'ok',
+        timestamp: new Date().toISOString(),
+        uptime: process.uptime(),
+        memoryRssBytes: process.memoryUsage().rss
+    });
+});
+
+// Readiness: 503 while a critical dependency is down
+router.get('/ready', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        const report = await healthService.checkReadiness();
+
+        res.status(report.status === 'down' ? 503 : 200).json({
+            success: report.status !== 'down',
+            ...report
+        });
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
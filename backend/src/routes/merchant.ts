@@ -20,6 +20,13 @@ router.post(
     (req, res, next) => merchantController.submitProfile(req, res, next)
 );
 
+router.post(
+    '/provide-info',
+    authenticate,
+    authorize('merchant'),
+    (req, res, next) => merchantController.provideInfo(req, res, next)
+);
+
 router.get(
     '/profile',
     authenticate,
@@ -27,6 +34,48 @@ router.get(
     (req, res, next) => merchantController.getProfile(req, res, next)
 );
 
+router.get(
+    '/profile/history',
+    authenticate,
+    authorize('merchant'),
+    (req, res, next) => merchantController.getProfileHistory(req, res, next)
+);
+
+router.get(
+    '/notification-preferences',
+    authenticate,
+    authorize('merchant'),
+    (req, res, next) => merchantController.getNotificationPreferences(req, res, next)
+);
+
+router.put(
+    '/notification-preferences',
+    authenticate,
+    authorize('merchant'),
+    (req, res, next) => merchantController.updateNotificationPreferences(req, res, next)
+);
+
+router.post(
+    '/push-subscriptions',
+    authenticate,
+    authorize('merchant'),
+    (req, res, next) => merchantController.addPushSubscription(req, res, next)
+);
+
+router.delete(
+    '/push-subscriptions',
+    authenticate,
+    authorize('merchant'),
+    (req, res, next) => merchantController.removePushSubscription(req, res, next)
+);
+
+router.get(
+    '/notifications',
+    authenticate,
+    authorize('merchant'),
+    (req, res, next) => merchantController.getNotifications(req, res, next)
+);
+
 // Admin routes
 router.get(
     '/all',
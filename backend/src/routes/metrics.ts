@@ -0,0 +1,32 @@
+// src/routes/metrics.ts
+import crypto from 'crypto';
+import { Router, Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
+import { UnauthorizedError } from '../utils/errors';
+import { METRICS_CONTENT_TYPE, metrics } from '../utils/metrics';
+
+const router = Router();
+
+// Hashing first gives equal lengths, so the comparison takes the same time for any token
+function tokenMatches(header: string | undefined, token: string): boolean {
+    const received = crypto.createHash('sha256').update(header?.replace(/^Bearer\s+/i, '') ?? '').digest();
+    const expected = crypto.createHash('sha256').update(token).digest();
+
+    return crypto.timingSafeEqual(received, expected);
+}
+
+// Prometheus scrape target; needs "Authorization: Bearer <METRICS_TOKEN>" when the token is set,
+// which config requires in production
+router.get('/', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        if (config.METRICS_TOKEN && !tokenMatches(req.get('authorization'), config.METRICS_TOKEN)) {
+            throw new UnauthorizedError('Invalid metrics token', 'INVALID_METRICS_TOKEN');
+        }
+
+        res.type(METRICS_CONTENT_TYPE).send(await metrics.render());
+    } catch (error) {
+        next(error);
+    }
+});
+
+export default router;
@@ -0,0 +1,40 @@
+// src/routes/onboarding.ts
+import { Router, Request, Response, NextFunction } from 'express';
+import { onboardingStateMachine } from '../services/onboardingStateMachine';
+import { BadRequestError } from '../utils/errors';
+
+const router = Router();
+
+// Onboarding state machine as JSON, or as a Mermaid / Graphviz diagram (?format=mermaid|dot)
+router.get(
+    '/state-machine',
+    (req: Request, res: Response, next: NextFunction): void => {
+        try {
+            const format = (req.query.format as string | undefined) || 'json';
+
+            switch (format) {
+                case 'json':
+                    res.json({
+                        success: true,
+                        data: onboardingStateMachine.toJSON()
+                    });
+                    return;
+                case 'mermaid':
+                    res.type('text/plain').send(onboardingStateMachine.toMermaid());
+                    return;
+                case 'dot':
+                    res.type('text/vnd.graphviz').send(onboardingStateMachine.toDot());
+                    return;
+                default:
+                    throw new BadRequestError(
+                        'format must be one of json, mermaid or dot',
+                        'INVALID_FORMAT'
+                    );
+            }
+        } catch (error) {
+            next(error);
+        }
+    }
+);
+
+export default router;
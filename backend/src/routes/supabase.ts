@@ -1,60 +1,38 @@
 ﻿// backend/src/routes/supabase.ts
 import { Router, Request, Response, NextFunction } from 'express';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseClient } from '../config/supabase';
 import { bankApiService } from '../services/bankApiService';
+import { BankWebhookOutcome, webhookLedgerService } from '../services/webhookLedger';
+import { verifyWebhookSignature } from '../middleware/webhookAuth';
+import { webhookRateLimit } from '../middleware/rateLimit';
+import { MerchantService } from '../services/merchantService';
+import { REQUIRED_DOCUMENT_TYPES, validationService } from '../services/validationService';
+import {
+    createMerchantRepository,
+    createStatusHistoryRepository
+} from '../repositories';
+import { MerchantProfileRow } from '../repositories/merchantRepository';
 import { logger } from '../utils/logger';
 import { BadRequestError } from '../utils/errors';
-import { OnboardingStatus, MerchantDocument as MerchantDocumentType } from '../types/merchant';
+import { BankWebhookPayload } from '../types/bank';
+import {
+    MerchantProfile,
+    StatusChangeContext
+} from '../types/merchant';
 
 const router = Router();
 
-// Lazy initialize Supabase client
-let supabaseClient: SupabaseClient | null = null;
+// The React app writes merchant_profiles directly, so this router always works on Supabase
+const supabaseMerchantService = new MerchantService(
+    createMerchantRepository('supabase'),
+    createStatusHistoryRepository('supabase'),
+    'supabase'
+);
 
-function getSupabaseClient(): SupabaseClient {
-    if (!supabaseClient) {
-        const supabaseUrl = process.env.SUPABASE_URL;
-        const supabaseKey = process.env.SUPABASE_SERVICE_KEY;
-
-        if (!supabaseUrl) {
-            throw new Error('SUPABASE_URL environment variable is not set');
-        }
-        if (!supabaseKey) {
-            throw new Error('SUPABASE_SERVICE_KEY environment variable is not set');
-        }
-
-        supabaseClient = createClient(supabaseUrl, supabaseKey, {
-            auth: {
-                autoRefreshToken: false,
-                persistSession: false
-            }
-        });
-
-        logger.info('Supabase client initialized', {
-            url: supabaseUrl.substring(0, 30) + '...'
-        });
-    }
-    return supabaseClient;
-}
+const SYSTEM_ACTOR: StatusChangeContext = { actorType: 'system', metadata: { source: 'supabase_webhook' } };
 
 // ----------------- Types -----------------
 
-interface MerchantProfile {
-    id: string;
-    user_id: string;
-    full_name: string;
-    mobile_number: string;
-    email: string;
-    pan_number: string | null;
-    aadhaar_number: string | null;
-    business_name: string | null;
-    gst_number: string | null;
-    onboarding_status: SupabaseOnboardingStatus;
-    submitted_at: string | null;
-    created_at: string;
-    updated_at: string;
-}
-
 interface BankDetails {
     id: string;
     merchant_id: string;
@@ -66,21 +44,6 @@ interface BankDetails {
     updated_at: string;
 }
 
-interface MerchantDocument {
-    id: string;
-    merchant_id: string;
-    document_type: string;
-    file_name: string;
-    file_path: string;
-    file_size: number | null;
-    mime_type: string | null;
-    status: string;
-    uploaded_at: string;
-    verified_at: string | null;
-    verified_by: string | null;
-    rejection_reason: string | null;
-}
-
 interface MerchantKYC {
     id: string;
     merchant_id: string;
@@ -102,17 +65,8 @@ interface MerchantKYC {
 interface WebhookPayload {
     type: 'INSERT' | 'UPDATE' | 'DELETE';
     table: string;
-    record: MerchantProfile;
-    old_record: MerchantProfile | null;
-}
-
-interface BankWebhookPayload {
-    applicationId: string;
-    merchantId: string;
-    decision: {
-        approved: boolean;
-        reason: string | null;
-    };
+    record: MerchantProfileRow;
+    old_record: MerchantProfileRow | null;
 }
 
 interface ValidationResult {
@@ -120,87 +74,23 @@ interface ValidationResult {
     errors: string[];
 }
 
-interface StatusUpdateData {
-    rejection_reason?: string;
-    bank_application_id?: string;
-    bank_response?: Record<string, unknown>;
-    decision_at?: string;
-}
-
-type SupabaseOnboardingStatus =
-    | 'approved'
-    | 'verified'
-    | 'submitted'
-    | 'pending'
-    | 'rejected'
-    | 'in_progress';
-
-// ----------------- Helper: Status mapping -----------------
-function mapInternalStatusToSupabase(status: string): SupabaseOnboardingStatus {
-    switch (status) {
-        case 'validating':
-        case 'pending_bank_approval':
-            return 'in_progress';
-        case 'validation_failed':
-        case 'bank_rejected':
-            return 'rejected';
-        default:
-            return status as SupabaseOnboardingStatus;
-    }
-}
-
-// ----------------- Update merchant status -----------------
-async function updateMerchantStatus(
-    merchantId: string,
-    status: SupabaseOnboardingStatus,
-    additionalData?: StatusUpdateData
-): Promise<void> {
-    const updateData: {
-        onboarding_status: SupabaseOnboardingStatus;
-        updated_at: string;
-        rejection_reason?: string;
-        bank_application_id?: string;
-        bank_response?: Record<string, unknown>;
-        decision_at?: string;
-    } = {
-        onboarding_status: status,
-        updated_at: new Date().toISOString()
-    };
-
-    if (additionalData?.rejection_reason) updateData.rejection_reason = additionalData.rejection_reason;
-    if (additionalData?.bank_application_id) updateData.bank_application_id = additionalData.bank_application_id;
-    if (additionalData?.bank_response) updateData.bank_response = additionalData.bank_response;
-    if (additionalData?.decision_at) updateData.decision_at = additionalData.decision_at;
-
-    const supabase = getSupabaseClient();
-    const { error } = await supabase
-        .from('merchant_profiles')
-        .update(updateData)
-        .eq('id', merchantId);
-
-    if (error) {
-        logger.error('Failed to update merchant status', error);
-        throw new Error(`Status update failed: ${error.message}`);
-    }
-
-    logger.info('Merchant status updated', { merchantId, status });
-}
-
 // ----------------- Validation -----------------
 function validateMerchantData(
     merchant: MerchantProfile,
     bankDetails: BankDetails | null,
-    documents: MerchantDocument[],
     kycData: MerchantKYC | null
 ): ValidationResult {
     const errors: string[] = [];
 
-    if (!merchant.full_name?.trim()) errors.push('Full name is required');
-    if (!merchant.mobile_number?.trim()) errors.push('Mobile number is required');
+    if (!merchant.fullName?.trim()) errors.push('Full name is required');
+    if (!merchant.phone?.trim()) errors.push('Mobile number is required');
     if (!merchant.email?.trim() || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(merchant.email)) errors.push('Valid email is required');
-    if (!merchant.business_name?.trim()) errors.push('Business name is required');
-    if (!merchant.pan_number?.trim()) errors.push('PAN number is required');
-    if (!merchant.aadhaar_number?.trim()) errors.push('Aadhaar number is required');
+    if (!merchant.businessName?.trim()) errors.push('Business name is required');
+    if (!merchant.registrationNumber?.trim()) errors.push('PAN number is required');
+    if (!merchant.aadhaarNumber?.trim()) errors.push('Aadhaar number is required');
+    if (!merchant.businessType?.trim()) errors.push('Business type is required');
+
+    validationService.getAddressErrors(merchant).forEach(error => errors.push(error.message));
 
     if (!bankDetails) {
         errors.push('Bank details are required');
@@ -211,12 +101,11 @@ function validateMerchantData(
         if (!bankDetails.account_holder_name?.trim()) errors.push('Account holder name is required');
     }
 
-    if (documents.length === 0) {
+    if (merchant.documents.length === 0) {
         errors.push('Documents are required');
     } else {
-        const requiredDocs = ['pan_card', 'aadhaar_card', 'cancelled_cheque'];
-        const uploadedTypes = documents.map(d => d.document_type);
-        requiredDocs.forEach(type => {
+        const uploadedTypes = merchant.documents.map(d => d.type);
+        REQUIRED_DOCUMENT_TYPES.forEach(type => {
             if (!uploadedTypes.includes(type)) errors.push(`${type.replace('_', ' ')} document is required`);
         });
     }
@@ -227,89 +116,81 @@ function validateMerchantData(
 }
 
 // ----------------- Process submitted merchant -----------------
-async function processSubmittedMerchant(merchant: MerchantProfile): Promise<void> {
-    const merchantId = merchant.id;
-
-    try {
-        logger.info('Processing merchant submission', { merchantId, businessName: merchant.business_name || 'Unknown' });
+// Validates the submission and queues it for the bank once an admin has verified every
+// required document. Bank failures are retried by the submission queue; anything else
+// leaves the merchant where it is and fails the webhook.
+async function processSubmittedMerchant(merchantId: string): Promise<void> {
+    const merchant = await supabaseMerchantService.getMerchantById(merchantId);
 
-        await updateMerchantStatus(merchantId, mapInternalStatusToSupabase('validating'));
+    logger.info('Processing merchant submission', { merchantId, businessName: merchant.businessName || 'Unknown' });
 
-        const supabase = getSupabaseClient();
-
-        const [bankResult, documentsResult, kycResult] = await Promise.all([
-            supabase.from('merchant_bank_details').select('*').eq('merchant_id', merchantId).single(),
-            supabase.from('merchant_documents').select('*').eq('merchant_id', merchantId),
-            supabase.from('merchant_kyc').select('*').eq('merchant_id', merchantId).single()
-        ]);
-
-        const bankDetails = bankResult.data as BankDetails | null;
-        const documents = (documentsResult.data || []) as MerchantDocument[];
-        const kycData = kycResult.data as MerchantKYC | null;
-
-        const validation = validateMerchantData(merchant, bankDetails, documents, kycData);
+    const supabase = getSupabaseClient();
 
-        if (!validation.isValid) {
-            await updateMerchantStatus(merchantId, mapInternalStatusToSupabase('validation_failed'), {
-                rejection_reason: validation.errors.join('; ')
-            });
+    const [bankResult, kycResult] = await Promise.all([
+        supabase.from('merchant_bank_details').select('*').eq('merchant_id', merchantId).single(),
+        supabase.from('merchant_kyc').select('*').eq('merchant_id', merchantId).single()
+    ]);
+
+    const validation = validateMerchantData(
+        merchant,
+        bankResult.data as BankDetails | null,
+        kycResult.data as MerchantKYC | null
+    );
+
+    if (!validation.isValid) {
+        await supabaseMerchantService.transition(
+            merchantId,
+            'VALIDATION_FAIL',
+            validation.errors.join('; '),
+            undefined,
+            SYSTEM_ACTOR
+        );
+
+        logger.warn('Merchant validation failed', { merchantId, errorCount: validation.errors.length });
+        return;
+    }
 
-            logger.warn('Merchant validation failed', { merchantId, errorCount: validation.errors.length });
-            return;
-        }
+    const validating = await supabaseMerchantService.transition(
+        merchantId,
+        'START_VALIDATION',
+        undefined,
+        undefined,
+        SYSTEM_ACTOR
+    );
 
-        logger.info('Calling Bank API', { merchantId });
-
-        const bankProfile = {
-            id: merchant.id,
-            userId: merchant.user_id,
-            businessName: merchant.business_name || '',
-            businessType: 'retail',
-            registrationNumber: merchant.pan_number || '',
-            taxId: merchant.gst_number || '',
-            email: merchant.email,
-            phone: merchant.mobile_number,
-            website: undefined,
-            addressLine1: 'TBD',
-            addressLine2: undefined,
-            city: 'TBD',
-            state: 'TBD',
-            postalCode: 'TBD',
-            country: 'India',
-            documents: documents.map(doc => ({
-                type: doc.document_type as 'business_license' | 'tax_certificate' | 'id_proof' | 'bank_statement' | 'other',
-                url: doc.file_path,
-                filename: doc.file_name,
-                uploadedAt: doc.uploaded_at
-            })),
-            onboardingStatus: 'validating' as OnboardingStatus,
-            createdAt: merchant.created_at,
-            updatedAt: new Date().toISOString()
-        };
-
-        const bankResponse = await bankApiService.submitMerchantApplication(bankProfile);
-
-        await updateMerchantStatus(merchantId, mapInternalStatusToSupabase('pending_bank_approval'), {
-            bank_application_id: bankResponse.applicationId,
-            bank_response: {
-                applicationId: bankResponse.applicationId,
-                estimatedProcessingTime: bankResponse.estimatedProcessingTime || 'Unknown'
-            }
-        });
+    // Passing validation does not verify documents; that takes an admin review of each one
+    const unverified = validationService.getUnverifiedRequiredDocuments(validating);
 
-        logger.info('Bank API submission successful', { merchantId, applicationId: bankResponse.applicationId });
+    if (unverified.length > 0) {
+        logger.info('Merchant awaiting document review', { merchantId, unverifiedDocuments: unverified.join(', ') });
+        return;
+    }
 
-    } catch (error) {
-        logger.error('Error processing merchant', error instanceof Error ? error : undefined);
+    await supabaseMerchantService.transition(merchantId, 'SUBMIT_TO_BANK', undefined, undefined, SYSTEM_ACTOR);
+}
 
-        await updateMerchantStatus(merchantId, mapInternalStatusToSupabase('validation_failed'), {
-            rejection_reason: error instanceof Error ? error.message : 'Processing error'
-        });
-    }
+// ----------------- Process provided information -----------------
+// The dashboard uploads the requested documents to merchant_documents and stamps
+// info_provided_at; the application goes back to the bank under the same application ID.
+async function processProvidedInfo(merchantId: string): Promise<void> {
+    const merchant = await supabaseMerchantService.getMerchantById(merchantId);
+
+    logger.info('Processing requested information', {
+        merchantId,
+        requestedDocuments: (merchant.requestedDocuments || []).join(', ')
+    });
+
+    await supabaseMerchantService.transition(
+        merchantId,
+        'PROVIDE_INFO',
+        undefined,
+        undefined,
+        { actorId: merchant.userId, actorType: 'merchant', metadata: { source: 'supabase_webhook' } }
+    );
 }
 
 // ----------------- Supabase webhook -----------------
-router.post('/merchant-webhook', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+router.post('/merchant-webhook', webhookRateLimit, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const payload = req.body as WebhookPayload;
 
@@ -326,8 +207,20 @@ router.post('/merchant-webhook', async (req: Request, res: Response, next: NextF
             payload.record.onboarding_status === 'submitted' &&
             payload.old_record?.onboarding_status !== 'submitted'
         ) {
-            processSubmittedMerchant(payload.record).catch(err => logger.error('Error processing merchant', err));
-            res.json({ success: true, message: 'Processing started' });
+            await processSubmittedMerchant(payload.record.id);
+            res.json({ success: true, message: 'Merchant processed' });
+            return;
+        }
+
+        if (
+            payload.type === 'UPDATE' &&
+            payload.table === 'merchant_profiles' &&
+            payload.record.onboarding_status === 'info_requested' &&
+            payload.record.info_provided_at &&
+            payload.record.info_provided_at !== payload.old_record?.info_provided_at
+        ) {
+            await processProvidedInfo(payload.record.id);
+            res.json({ success: true, message: 'Requested information processed' });
             return;
         }
 
@@ -338,28 +231,90 @@ router.post('/merchant-webhook', async (req: Request, res: Response, next: NextF
 });
 
 // ----------------- Bank webhook -----------------
-router.post('/bank-webhook', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+async function applyBankDecision(payload: BankWebhookPayload): Promise<BankWebhookOutcome> {
+    const merchant = await supabaseMerchantService.getMerchantById(payload.merchantId);
+
+    if (merchant.bankApplicationId !== payload.applicationId) {
+        throw new BadRequestError('Application ID mismatch', 'APPLICATION_ID_MISMATCH');
+    }
+
+    const event = bankApiService.getDecisionEvent(payload);
+
+    if (!(await supabaseMerchantService.acceptsBankDecision(merchant, event, payload.applicationId))) {
+        return 'ignored';
+    }
+
+    if (event === 'BANK_REQUEST_INFO') {
+        // The merchant re-uploads from the dashboard; see processProvidedInfo
+        await supabaseMerchantService.transition(
+            merchant.id,
+            'BANK_REQUEST_INFO',
+            undefined,
+            {
+                requestedDocuments: bankApiService.getRequestedDocuments(payload.decision),
+                infoRequestReason: payload.decision.reason || undefined,
+                bankResponse: {
+                    success: false,
+                    applicationId: payload.applicationId,
+                    message: payload.decision.reason || 'More information requested by bank'
+                }
+            },
+            { actorType: 'bank', metadata: { applicationId: payload.applicationId } }
+        );
+        return 'processed';
+    }
+
+    await supabaseMerchantService.transition(
+        merchant.id,
+        event,
+        payload.decision.approved ? undefined : payload.decision.reason || 'Rejected by bank',
+        {
+            bankResponse: {
+                success: payload.decision.approved,
+                applicationId: payload.applicationId,
+                message: payload.decision.reason || undefined
+            }
+        },
+        { actorType: 'bank', metadata: { applicationId: payload.applicationId } }
+    );
+
+    return 'processed';
+}
+
+webhookLedgerService.registerHandler('supabase', applyBankDecision);
+
+// Signed by the bank with the shared HMAC scheme, like /api/webhooks/bank;
+// /bank-webhook is the original bank's URL, /bank-webhook/:adapter any acquiring bank's
+router.post(['/bank-webhook', '/bank-webhook/:adapter'], webhookRateLimit, verifyWebhookSignature, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-        const payload = req.body as BankWebhookPayload;
+        const payload = bankApiService.parseWebhook(req.body, req.params.adapter);
 
         logger.info('Received bank webhook', {
+            adapter: req.params.adapter,
             applicationId: payload.applicationId,
             merchantId: payload.merchantId,
-            approved: payload.decision.approved
+            eventId: payload.eventId,
+            approved: payload.decision?.approved
         });
 
-        const isValid = await bankApiService.verifyWebhook(req.body);
-        if (!isValid) throw new BadRequestError('Invalid webhook signature', 'INVALID_WEBHOOK');
-
-        const newStatus = payload.decision.approved ? 'approved' : 'bank_rejected';
-
-        await updateMerchantStatus(payload.merchantId, mapInternalStatusToSupabase(newStatus), {
-            bank_response: { approved: payload.decision.approved, reason: payload.decision.reason },
-            decision_at: new Date().toISOString(),
-            rejection_reason: payload.decision.approved ? undefined : payload.decision.reason || undefined
+        const isValid = await bankApiService.verifyWebhook(payload);
+        if (!isValid) throw new BadRequestError('Invalid webhook payload', 'INVALID_WEBHOOK_PAYLOAD');
+
+        // Duplicates get a 200 so the bank stops redelivering
+        const { event, duplicate } = await webhookLedgerService.receive(
+            'supabase',
+            payload,
+            req.rawBody ?? JSON.stringify(req.body)
+        );
+
+        res.json({
+            success: true,
+            message: duplicate
+                ? 'Duplicate webhook ignored'
+                : event.status === 'ignored' ? 'Decision no longer applies, ignored' : 'Webhook processed',
+            duplicate,
+            eventId: event.eventId
         });
-
-        res.json({ success: true, message: 'Webhook processed' });
     } catch (error) {
         next(error);
     }
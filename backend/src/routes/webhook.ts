@@ -2,12 +2,22 @@
 import { Router } from 'express';
 import { webhookController } from '../controllers/webhookController';
 import { verifyWebhookSignature } from '../middleware/webhookAuth';
+import { webhookRateLimit } from '../middleware/rateLimit';
 
 const router = Router();
 
-// Bank webhook (with signature verification)
+// Bank webhook (with signature verification); /bank is the original bank's URL
 router.post(
     '/bank',
+    webhookRateLimit,
+    verifyWebhookSignature,
+    (req, res, next) => webhookController.handleBankWebhook(req, res, next)
+);
+
+// Bank webhook of one acquiring bank, parsed by its adapter
+router.post(
+    '/bank/:adapter',
+    webhookRateLimit,
     verifyWebhookSignature,
     (req, res, next) => webhookController.handleBankWebhook(req, res, next)
 );
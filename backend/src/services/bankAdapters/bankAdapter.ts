@@ -0,0 +1,39 @@
+// backend/src/services/bankAdapters/bankAdapter.ts
+import {
+    BankApiError,
+    BankApiResponse,
+    BankApplicationState,
+    BankApplicationStatus,
+    BankWebhookPayload
+} from '../../types/bank';
+import { MerchantProfile } from '../../types/merchant';
+
+/**
+ * What differs between acquiring banks. BankApiService does the HTTP calls,
+ * logging and error handling; an adapter only translates between the bank's
+ * API and our own types.
+ */
+export interface BankAdapter {
+    readonly id: string; // stored on the merchant as bankAdapter
+    readonly name: string;
+    readonly baseUrl: string;
+
+    // Endpoints: applications are created on one path and read or resubmitted on another
+    readonly applicationsPath: string;
+    applicationPath(applicationId: string): string;
+
+    // Auth scheme
+    getAuthHeaders(): Record<string, string>;
+
+    // Request mapping
+    buildApplicationRequest(merchant: MerchantProfile, callbackUrl: string): object;
+    parseApplicationResponse(data: unknown): BankApiResponse;
+    parseApplicationStatus(data: unknown): BankApplicationStatus;
+    parseError(data: unknown): BankApiError | undefined;
+
+    // Webhook parser: the bank's decision body in our BankWebhookPayload shape
+    parseWebhook(body: unknown): BankWebhookPayload;
+
+    // Status mapping: undefined for a status the adapter does not know
+    mapStatus(status: string): BankApplicationState | undefined;
+}
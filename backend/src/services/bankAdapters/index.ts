@@ -0,0 +1,80 @@
+// backend/src/services/bankAdapters/index.ts
+import { config } from '../../config/env';
+import { BankRoutingRule } from '../../types/bank';
+import { MerchantProfile } from '../../types/merchant';
+import { NotFoundError } from '../../utils/errors';
+import { BankAdapter } from './bankAdapter';
+import { MockAcquirerAdapter } from './mockAcquirerAdapter';
+import { MockBankAdapter } from './mockBankAdapter';
+
+export type { BankAdapter } from './bankAdapter';
+
+// Bank of the applications and webhook URLs that predate adapters
+export const LEGACY_BANK_ADAPTER = 'mock_bank';
+
+/**
+ * The acquiring banks we can submit to and the rules that pick one for a merchant.
+ * Merchants no rule matches go to the default adapter.
+ */
+export class BankAdapterRegistry {
+    private readonly adapters = new Map<string, BankAdapter>();
+
+    constructor(
+        adapters: BankAdapter[],
+        private readonly rules: BankRoutingRule[],
+        private readonly defaultAdapterId: string
+    ) {
+        adapters.forEach(adapter => this.adapters.set(adapter.id, adapter));
+
+        // A rule naming an unknown bank would only fail on the first submission it matches
+        const unknown = [defaultAdapterId, ...rules.map(rule => rule.adapter)]
+            .filter(id => !this.adapters.has(id));
+
+        if (unknown.length > 0) {
+            throw new Error(`Unknown bank adapter in bank routing: ${unknown.join(', ')}`);
+        }
+    }
+
+    get(adapterId: string): BankAdapter {
+        const adapter = this.adapters.get(adapterId);
+
+        if (!adapter) {
+            throw new NotFoundError(`Unknown bank adapter: ${adapterId}`, 'BANK_ADAPTER_NOT_FOUND');
+        }
+
+        return adapter;
+    }
+
+    list(): BankAdapter[] {
+        return Array.from(this.adapters.values());
+    }
+
+    /**
+     * Adapter for a merchant's first submission, by product and region
+     */
+    route(merchant: MerchantProfile): BankAdapter {
+        const rule = this.rules.find(candidate => this.matches(candidate, merchant));
+
+        return this.get(rule ? rule.adapter : this.defaultAdapterId);
+    }
+
+    private matches(rule: BankRoutingRule, merchant: MerchantProfile): boolean {
+        const products = merchant.products || [];
+        const regions = [merchant.state, merchant.country]
+            .filter(Boolean)
+            .map(region => region.trim().toLowerCase());
+
+        const productMatches = !rule.products?.length ||
+            rule.products.some(product => products.includes(product));
+        const regionMatches = !rule.regions?.length ||
+            rule.regions.some(region => regions.includes(region.trim().toLowerCase()));
+
+        return productMatches && regionMatches;
+    }
+}
+
+export const bankAdapterRegistry = new BankAdapterRegistry(
+    [new MockBankAdapter(), new MockAcquirerAdapter()],
+    config.BANK_ROUTING_RULES,
+    config.BANK_DEFAULT_ADAPTER
+);
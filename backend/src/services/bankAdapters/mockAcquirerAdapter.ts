@@ -0,0 +1,212 @@
+// backend/src/services/bankAdapters/mockAcquirerAdapter.ts
+import {
+    BankApiError,
+    BankApiResponse,
+    BankApplicationState,
+    BankApplicationStatus,
+    BankDecision,
+    BankWebhookPayload
+} from '../../types/bank';
+import { config } from '../../config/env';
+import { MerchantProfile } from '../../types/merchant';
+import { BadRequestError, ExternalApiError } from '../../utils/errors';
+import { BankAdapter } from './bankAdapter';
+
+type AcquirerState = 'UNDER_REVIEW' | 'ACTIVATED' | 'DECLINED' | 'DOCS_REQUIRED';
+
+// Application request of the acquirer's onboarding API
+interface AcquirerApplicationRequest {
+    merchant_ref: string;
+    legal_name: string;
+    business_category: string;
+    pan: string;
+    gstin: string;
+    contact: {
+        email: string;
+        mobile: string;
+    };
+    registered_address: {
+        line_1: string;
+        line_2?: string;
+        city: string;
+        state: string;
+        pin_code: string;
+        country: string;
+    };
+    kyc_documents: Array<{
+        doc_code: string;
+        file_url: string;
+    }>;
+    products: string[];
+    notify_url: string;
+}
+
+interface AcquirerApplicationResponse {
+    reference_no: string;
+    state: AcquirerState;
+    sla_hours?: number;
+}
+
+// Body of GET /v2/onboarding/:ref and of decision webhooks
+interface AcquirerApplicationRecord {
+    event_id?: string;
+    reference_no: string;
+    merchant_ref: string;
+    state: string;
+    remarks?: string | null;
+    required_docs?: string[];
+    mid?: string;
+    settlement_account?: string;
+    decided_at?: string;
+}
+
+interface AcquirerErrorBody {
+    error?: {
+        code?: string;
+        message?: string;
+    };
+}
+
+const STATE_MAP: Record<AcquirerState, BankApplicationState> = {
+    UNDER_REVIEW: 'pending_review',
+    ACTIVATED: 'approved',
+    DECLINED: 'rejected',
+    DOCS_REQUIRED: 'pending_info'
+};
+
+/**
+ * Second acquiring bank (mock-acquirer-api): snake_case JSON under /v2/onboarding,
+ * client id + API key headers, upper-case document codes and its own states.
+ */
+export class MockAcquirerAdapter implements BankAdapter {
+    readonly id = 'mock_acquirer';
+    readonly name = 'Mock Acquirer';
+    readonly baseUrl: string;
+    readonly applicationsPath = '/v2/onboarding';
+    private readonly clientId: string;
+    private readonly apiKey: string;
+
+    constructor() {
+        this.baseUrl = config.ACQUIRER_API_URL;
+        this.clientId = config.ACQUIRER_CLIENT_ID;
+        this.apiKey = config.ACQUIRER_API_KEY;
+    }
+
+    applicationPath(applicationId: string): string {
+        return `${this.applicationsPath}/${applicationId}`;
+    }
+
+    getAuthHeaders(): Record<string, string> {
+        return {
+            'X-Client-Id': this.clientId,
+            'X-Api-Key': this.apiKey
+        };
+    }
+
+    buildApplicationRequest(merchant: MerchantProfile, callbackUrl: string): AcquirerApplicationRequest {
+        return {
+            merchant_ref: merchant.id,
+            legal_name: merchant.businessName,
+            business_category: merchant.businessType,
+            pan: merchant.registrationNumber,
+            gstin: merchant.taxId,
+            contact: {
+                email: merchant.email,
+                mobile: merchant.phone
+            },
+            registered_address: {
+                line_1: merchant.addressLine1,
+                line_2: merchant.addressLine2,
+                city: merchant.city,
+                state: merchant.state,
+                pin_code: merchant.postalCode,
+                country: merchant.country
+            },
+            kyc_documents: merchant.documents.map(doc => ({
+                doc_code: doc.type.toUpperCase(),
+                file_url: doc.url
+            })),
+            products: merchant.products || [],
+            notify_url: callbackUrl
+        };
+    }
+
+    parseApplicationResponse(data: unknown): BankApiResponse {
+        const response = data as AcquirerApplicationResponse;
+
+        return {
+            success: Boolean(response.reference_no),
+            applicationId: response.reference_no,
+            message: `Application ${response.state?.toLowerCase().replace('_', ' ') || 'received'}`,
+            estimatedProcessingTime: response.sla_hours ? `${response.sla_hours} hours` : undefined
+        };
+    }
+
+    parseApplicationStatus(data: unknown): BankApplicationStatus {
+        const record = data as AcquirerApplicationRecord;
+        const status = this.mapStatus(record.state);
+
+        if (!status) {
+            throw new ExternalApiError(`Unknown acquirer state: ${record.state}`, 502, 'UNKNOWN_BANK_STATUS');
+        }
+
+        return {
+            applicationId: record.reference_no,
+            merchantId: record.merchant_ref,
+            status,
+            decision: status === 'pending_review' ? undefined : this.toDecision(record, status),
+            eventId: record.event_id,
+            processedAt: record.decided_at
+        };
+    }
+
+    parseError(data: unknown): BankApiError | undefined {
+        const body = data as AcquirerErrorBody | undefined;
+
+        if (!body?.error) {
+            return undefined;
+        }
+
+        return {
+            code: body.error.code || 'BANK_API_ERROR',
+            message: body.error.message || 'Acquirer API request failed'
+        };
+    }
+
+    parseWebhook(body: unknown): BankWebhookPayload {
+        const record = (body || {}) as AcquirerApplicationRecord;
+        const status = this.mapStatus(record.state);
+
+        // Only decisions are pushed; anything else is not a webhook we understand
+        if (!status || status === 'pending_review') {
+            throw new BadRequestError('Invalid webhook payload', 'INVALID_WEBHOOK_PAYLOAD');
+        }
+
+        return {
+            eventId: record.event_id,
+            applicationId: record.reference_no,
+            merchantId: record.merchant_ref,
+            status,
+            decision: this.toDecision(record, status),
+            processedAt: record.decided_at as string,
+            metadata: { adapter: this.id }
+        };
+    }
+
+    mapStatus(status: string): BankApplicationState | undefined {
+        return Object.prototype.hasOwnProperty.call(STATE_MAP, status)
+            ? STATE_MAP[status as AcquirerState]
+            : undefined;
+    }
+
+    private toDecision(record: AcquirerApplicationRecord, status: BankApplicationState): BankDecision {
+        return {
+            approved: status === 'approved',
+            reason: record.remarks || undefined,
+            // Requested documents come as our types in upper case
+            conditions: record.required_docs?.map(code => code.toLowerCase()),
+            accountNumber: record.settlement_account,
+            merchantCode: record.mid
+        };
+    }
+}
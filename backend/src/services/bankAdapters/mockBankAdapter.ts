@@ -0,0 +1,84 @@
+// backend/src/services/bankAdapters/mockBankAdapter.ts
+import {
+    BankApiError,
+    BankApiRequest,
+    BankApiResponse,
+    BankApplicationState,
+    BankApplicationStatus,
+    BankWebhookPayload
+} from '../../types/bank';
+import { config } from '../../config/env';
+import { MerchantProfile } from '../../types/merchant';
+import { BankAdapter } from './bankAdapter';
+
+const STATES: BankApplicationState[] = ['pending_review', 'approved', 'rejected', 'pending_info'];
+
+/**
+ * The original bank integration (mock-bank-api): camelCase JSON, bearer token,
+ * and webhooks that are already in our BankWebhookPayload shape.
+ */
+export class MockBankAdapter implements BankAdapter {
+    readonly id = 'mock_bank';
+    readonly name = 'Mock Bank';
+    readonly baseUrl: string;
+    readonly applicationsPath = '/merchant-applications';
+    private readonly apiKey: string;
+
+    constructor() {
+        this.baseUrl = config.BANK_API_URL;
+        this.apiKey = config.BANK_API_KEY;
+    }
+
+    applicationPath(applicationId: string): string {
+        return `${this.applicationsPath}/${applicationId}`;
+    }
+
+    getAuthHeaders(): Record<string, string> {
+        return { 'Authorization': `Bearer ${this.apiKey}` };
+    }
+
+    buildApplicationRequest(merchant: MerchantProfile, callbackUrl: string): BankApiRequest {
+        return {
+            merchantId: merchant.id,
+            businessName: merchant.businessName,
+            businessType: merchant.businessType,
+            registrationNumber: merchant.registrationNumber,
+            taxId: merchant.taxId,
+            email: merchant.email,
+            phone: merchant.phone,
+            address: {
+                line1: merchant.addressLine1,
+                line2: merchant.addressLine2,
+                city: merchant.city,
+                state: merchant.state,
+                postalCode: merchant.postalCode,
+                country: merchant.country
+            },
+            documents: merchant.documents.map(doc => ({
+                type: doc.type,
+                url: doc.url
+            })),
+            callbackUrl
+        };
+    }
+
+    parseApplicationResponse(data: unknown): BankApiResponse {
+        return data as BankApiResponse;
+    }
+
+    parseApplicationStatus(data: unknown): BankApplicationStatus {
+        return data as BankApplicationStatus;
+    }
+
+    parseError(data: unknown): BankApiError | undefined {
+        return data ? data as BankApiError : undefined;
+    }
+
+    parseWebhook(body: unknown): BankWebhookPayload {
+        return body as BankWebhookPayload;
+    }
+
+    mapStatus(status: string): BankApplicationState | undefined {
+        return STATES.find(state => state === status);
+    }
+}
@@ -1,81 +1,141 @@
 ﻿// src/services/bankApiService.ts
 import axios, { AxiosError } from 'axios';
 import {
-    BankApiRequest,
     BankApiResponse,
-    BankWebhookPayload,
-    BankApiError
+    BankApplicationStatus,
+    BankDecision,
+    BankWebhookPayload
 } from '../types/bank';
-import { MerchantProfile } from '../types/merchant';
-import { ExternalApiError, BadGatewayError } from '../utils/errors';
+import { MerchantDocumentType, MerchantProfile, OnboardingEvent } from '../types/merchant';
+import { config } from '../config/env';
+import {
+    AppError,
+    ExternalApiError,
+    BadGatewayError,
+    BadRequestError,
+    ServiceUnavailableError,
+    ValidationError,
+    ValidationErrorItem
+} from '../utils/errors';
 import { logger } from '../utils/logger';
+import {
+    CircuitBreaker,
+    CircuitBreakerOptions,
+    CircuitBreakerSnapshot,
+    CircuitState
+} from '../utils/circuitBreaker';
+import { TokenBucket, TokenBucketOptions } from '../utils/tokenBucket';
+import { getTraceHeaders, tracer } from '../utils/tracing';
+import { bankApiRequestDuration, bankApiRequests, metrics } from '../utils/metrics';
+import { MERCHANT_DOCUMENT_TYPES } from './validationService';
+import {
+    BankAdapter,
+    BankAdapterRegistry,
+    LEGACY_BANK_ADAPTER,
+    bankAdapterRegistry
+} from './bankAdapters';
+
+// Values that stand in for data the merchant never gave
+const PLACEHOLDER_VALUES = ['', 'TBD', 'TODO', 'N/A', 'NA', '-', 'UNKNOWN'];
+
+// Outbound protection for one bank
+interface BankGuard {
+    breaker: CircuitBreaker;
+    rateLimit: TokenBucket;
+}
+
+// Bank state as reported on /health
+export interface BankHealth {
+    adapter: string;
+    circuit: CircuitBreakerSnapshot;
+    availableTokens: number;
+}
+
+// Error code for bank API metrics: ours, the HTTP status, or the network error
+function getBankErrorCode(error: unknown): string {
+    if (error instanceof AppError) {
+        return error.code;
+    }
+    if (axios.isAxiosError(error)) {
+        return error.response ? `HTTP_${error.response.status}` : error.code ?? 'NETWORK_ERROR';
+    }
+
+    return 'UNKNOWN';
+}
+
+// No answer or a 5xx means the bank is down; any other answer, even an error, means it is up
+function isBankOutage(error: unknown): boolean {
+    return axios.isAxiosError(error) && (!error.response || error.response.status >= 500);
+}
 
 export class BankApiService {
-    private readonly apiUrl: string;
-    private readonly apiKey: string;
     private readonly timeout: number;
+    private readonly breakerOptions: CircuitBreakerOptions;
+    private readonly rateLimitOptions: TokenBucketOptions;
+    private readonly guards = new Map<string, BankGuard>();
+
+    constructor(private readonly adapters: BankAdapterRegistry = bankAdapterRegistry) {
+        this.timeout = config.BANK_API_TIMEOUT_MS;
+        this.breakerOptions = {
+            failureThreshold: config.BANK_CIRCUIT_FAILURE_THRESHOLD,
+            resetTimeoutMs: config.BANK_CIRCUIT_RESET_TIMEOUT_MS,
+            halfOpenMaxCalls: config.BANK_CIRCUIT_HALF_OPEN_MAX_CALLS
+        };
+        this.rateLimitOptions = {
+            capacity: config.BANK_RATE_LIMIT_BURST,
+            refillPerSecond: config.BANK_RATE_LIMIT_PER_SECOND
+        };
+    }
 
-    constructor() {
-        this.apiUrl = process.env.BANK_API_URL || 'https://bank-api.example.com';
-        this.apiKey = process.env.BANK_API_KEY || 'test-key';
-        this.timeout = 30000; // 30 seconds
+    /**
+     * Bank a merchant's application goes to: the one it already went to, or the routing rules' pick
+     */
+    selectAdapter(merchant: MerchantProfile): BankAdapter {
+        if (merchant.bankAdapter) {
+            return this.adapters.get(merchant.bankAdapter);
+        }
 
-        // DEBUG LOG
-        console.log('🔧 BankApiService initialized:');
-        console.log('   BANK_API_URL from process.env:', process.env.BANK_API_URL);
-        console.log('   Using apiUrl:', this.apiUrl);
-        console.log('   BANK_API_KEY:', this.apiKey ? 'Present' : 'Missing');
+        // Applications sent before adapters existed all went to the original bank
+        return merchant.bankApplicationId
+            ? this.adapters.get(LEGACY_BANK_ADAPTER)
+            : this.adapters.route(merchant);
     }
 
     /**
      * Submit merchant application to bank
      */
     async submitMerchantApplication(
-        merchant: MerchantProfile
+        merchant: MerchantProfile,
+        adapter: BankAdapter = this.selectAdapter(merchant)
     ): Promise<BankApiResponse> {
         const startTime = Date.now();
 
-        try {
-            const request: BankApiRequest = this.buildBankRequest(merchant);
+        // Incomplete profiles are a caller error, not a bank API failure
+        const request = this.buildBankRequest(merchant, adapter);
 
+        try {
             logger.info('Submitting merchant to bank API', {
                 merchantId: merchant.id,
                 businessName: merchant.businessName,
-                apiUrl: this.apiUrl
-            });
-
-            // DEBUG: Show exactly what we're calling
-            const fullUrl = `${this.apiUrl}/merchant-applications`;
-            console.log('\n🔍 DEBUG: About to call Bank API');
-            console.log('🔍 Full URL:', fullUrl);
-            console.log('🔍 Method: POST');
-            console.log('🔍 Headers:', {
-                'Authorization': `Bearer ${this.apiKey.substring(0, 10)}...`,
-                'Content-Type': 'application/json',
-                'X-Request-ID': merchant.id
+                adapter: adapter.id,
+                apiUrl: adapter.baseUrl
             });
-            console.log('🔍 Payload keys:', Object.keys(request));
-            console.log('🔍 merchantId:', request.merchantId);
-            console.log('🔍 businessName:', request.businessName);
 
-            const response = await axios.post<BankApiResponse>(
-                fullUrl,
+            const response = await this.callBank(adapter, 'submit_application', () => axios.post(
+                `${adapter.baseUrl}${adapter.applicationsPath}`,
                 request,
                 {
                     headers: {
-                        'Authorization': `Bearer ${this.apiKey}`,
-                        'Content-Type': 'application/json',
-                        'X-Request-ID': merchant.id
+                        ...adapter.getAuthHeaders(),
+                        ...getTraceHeaders(),
+                        'Content-Type': 'application/json'
                     },
                     timeout: this.timeout
                 }
-            );
+            ));
 
             const duration = Date.now() - startTime;
 
-            console.log('✅ Bank API call successful!');
-            console.log('✅ Response:', response.data);
-
             logger.bankApi(
                 'submit_merchant',
                 merchant.id,
@@ -83,18 +143,10 @@ export class BankApiService {
                 duration
             );
 
-            return response.data;
+            return adapter.parseApplicationResponse(response.data);
         } catch (error) {
             const duration = Date.now() - startTime;
 
-            console.log('❌ Bank API call failed');
-            if (axios.isAxiosError(error)) {
-                console.log('❌ Error code:', error.code);
-                console.log('❌ Error message:', error.message);
-                console.log('❌ Response status:', error.response?.status);
-                console.log('❌ Response data:', error.response?.data);
-            }
-
             logger.bankApi(
                 'submit_merchant',
                 merchant.id,
@@ -103,36 +155,145 @@ export class BankApiService {
                 error instanceof Error ? error : undefined
             );
 
-            throw this.handleBankApiError(error);
+            throw this.handleBankApiError(error, adapter);
+        }
+    }
+
+    /**
+     * Resubmit an application the bank asked more information for, under its existing application ID
+     */
+    async resubmitMerchantApplication(
+        applicationId: string,
+        merchant: MerchantProfile
+    ): Promise<BankApiResponse> {
+        const startTime = Date.now();
+        const adapter = this.selectAdapter(merchant);
+        const request = this.buildBankRequest(merchant, adapter);
+
+        try {
+            logger.info('Resubmitting merchant to bank API', {
+                merchantId: merchant.id,
+                applicationId,
+                adapter: adapter.id,
+                requestedDocuments: (merchant.requestedDocuments || []).join(', ')
+            });
+
+            const response = await this.callBank(adapter, 'resubmit_application', () => axios.put(
+                `${adapter.baseUrl}${adapter.applicationPath(applicationId)}`,
+                request,
+                {
+                    headers: {
+                        ...adapter.getAuthHeaders(),
+                        ...getTraceHeaders(),
+                        'Content-Type': 'application/json'
+                    },
+                    timeout: this.timeout
+                }
+            ));
+
+            logger.bankApi(
+                'resubmit_merchant',
+                merchant.id,
+                true,
+                Date.now() - startTime
+            );
+
+            return adapter.parseApplicationResponse(response.data);
+        } catch (error) {
+            logger.bankApi(
+                'resubmit_merchant',
+                merchant.id,
+                false,
+                Date.now() - startTime,
+                error instanceof Error ? error : undefined
+            );
+
+            throw this.handleBankApiError(error, adapter);
         }
     }
 
     /**
-     * Build bank API request from merchant profile
+     * Onboarding event a webhook's decision maps to
      */
-    private buildBankRequest(merchant: MerchantProfile): BankApiRequest {
-        return {
-            merchantId: merchant.id,
+    getDecisionEvent(payload: BankWebhookPayload): OnboardingEvent {
+        if (payload.status === 'pending_info') {
+            return 'BANK_REQUEST_INFO';
+        }
+
+        return payload.decision.approved ? 'BANK_APPROVE' : 'BANK_REJECT';
+    }
+
+    /**
+     * Document types a pending_info decision asks for (its conditions)
+     */
+    getRequestedDocuments(decision: BankDecision): MerchantDocumentType[] {
+        const conditions = decision.conditions || [];
+        const unknown = conditions.filter(
+            condition => !MERCHANT_DOCUMENT_TYPES.includes(condition as MerchantDocumentType)
+        );
+
+        if (conditions.length === 0 || unknown.length > 0) {
+            throw new BadRequestError(
+                unknown.length > 0
+                    ? `Unknown requested documents: ${unknown.join(', ')}`
+                    : 'Information request lists no documents',
+                'INVALID_INFO_REQUEST'
+            );
+        }
+
+        return Array.from(new Set(conditions as MerchantDocumentType[]));
+    }
+
+    /**
+     * Build the adapter's bank request from the merchant profile, refusing missing or placeholder values
+     */
+    private buildBankRequest(merchant: MerchantProfile, adapter: BankAdapter): object {
+        const required: Partial<Record<keyof MerchantProfile, string | undefined>> = {
             businessName: merchant.businessName,
             businessType: merchant.businessType,
             registrationNumber: merchant.registrationNumber,
-            taxId: merchant.taxId,
             email: merchant.email,
             phone: merchant.phone,
-            address: {
-                line1: merchant.addressLine1,
-                line2: merchant.addressLine2,
-                city: merchant.city,
-                state: merchant.state,
-                postalCode: merchant.postalCode,
-                country: merchant.country
-            },
-            documents: merchant.documents.map(doc => ({
-                type: doc.type,
-                url: doc.url
-            })),
-            callbackUrl: `${process.env.API_BASE_URL}/api/webhooks/bank`
+            addressLine1: merchant.addressLine1,
+            city: merchant.city,
+            state: merchant.state,
+            postalCode: merchant.postalCode,
+            country: merchant.country
         };
+
+        const errors: ValidationErrorItem[] = Object.entries(required)
+            .filter(([, value]) => !value || PLACEHOLDER_VALUES.includes(value.trim().toUpperCase()))
+            .map(([field, value]) => ({
+                field,
+                message: value ? `${field} is a placeholder (${value})` : `${field} is required`,
+                code: 'INCOMPLETE_BANK_REQUEST'
+            }));
+
+        if (errors.length > 0) {
+            logger.error('Refusing to submit incomplete merchant to bank', undefined, {
+                merchantId: merchant.id,
+                fields: errors.map(e => e.field).join(', ')
+            });
+
+            throw new ValidationError(
+                `Merchant profile is incomplete for bank submission: ${errors.map(e => e.field).join(', ')}`,
+                errors,
+                'INCOMPLETE_BANK_REQUEST'
+            );
+        }
+
+        // Each bank posts its decisions to its own webhook URL
+        return adapter.buildApplicationRequest(
+            merchant,
+            `${config.API_BASE_URL}/api/webhooks/bank/${adapter.id}`
+        );
+    }
+
+    /**
+     * Turn a bank's webhook body into our payload shape
+     */
+    parseWebhook(body: unknown, adapterId: string = LEGACY_BANK_ADAPTER): BankWebhookPayload {
+        return this.adapters.get(adapterId).parseWebhook(body);
     }
 
     /**
@@ -164,59 +325,149 @@ export class BankApiService {
      * Get application status from bank (polling)
      */
     async getApplicationStatus(
-        applicationId: string
-    ): Promise<BankApiResponse> {
+        applicationId: string,
+        adapterId?: string
+    ): Promise<BankApplicationStatus> {
         const startTime = Date.now();
+        const adapter = this.adapters.get(adapterId || LEGACY_BANK_ADAPTER);
+        const path = adapter.applicationPath(applicationId);
 
         try {
             logger.debug('Fetching application status from bank', {
-                applicationId
+                applicationId,
+                adapter: adapter.id
             });
 
-            const response = await axios.get<BankApiResponse>(
-                `${this.apiUrl}/merchant-applications/${applicationId}`,
+            const response = await this.callBank(adapter, 'get_application_status', () => axios.get(
+                `${adapter.baseUrl}${path}`,
                 {
                     headers: {
-                        'Authorization': `Bearer ${this.apiKey}`
+                        ...adapter.getAuthHeaders(),
+                        ...getTraceHeaders()
                     },
                     timeout: this.timeout
                 }
-            );
+            ));
 
             const duration = Date.now() - startTime;
 
             logger.externalApi(
-                'bank',
-                `/merchant-applications/${applicationId}`,
+                adapter.id,
+                path,
                 duration,
                 response.status
             );
 
-            return response.data;
+            return adapter.parseApplicationStatus(response.data);
         } catch (error) {
             const duration = Date.now() - startTime;
 
             logger.externalApi(
-                'bank',
-                `/merchant-applications/${applicationId}`,
+                adapter.id,
+                path,
                 duration,
                 0,
                 error instanceof Error ? error : undefined
             );
 
-            throw this.handleBankApiError(error);
+            throw this.handleBankApiError(error, adapter);
         }
     }
 
+    /**
+     * Circuit breaker and rate limit state of every bank
+     */
+    getHealth(): BankHealth[] {
+        return this.adapters.list().map(adapter => {
+            const guard = this.getGuard(adapter);
+
+            return {
+                adapter: adapter.id,
+                circuit: guard.breaker.getSnapshot(),
+                availableTokens: guard.rateLimit.getAvailable()
+            };
+        });
+    }
+
+    /**
+     * Make an outbound call within the bank's rate limit, failing fast while its circuit is open
+     */
+    private async callBank<T>(adapter: BankAdapter, operation: string, call: () => Promise<T>): Promise<T> {
+        const guard = this.getGuard(adapter);
+
+        // The client span is current while call() builds its trace headers
+        return tracer.withSpan(`${adapter.id} ${operation}`, {
+            kind: 'client',
+            attributes: { 'bank.adapter': adapter.id, 'bank.operation': operation }
+        }, async () => {
+            const start = process.hrtime.bigint();
+            let errorCode: string | undefined;
+
+            try {
+                if (!guard.rateLimit.tryRemove()) {
+                    throw new ServiceUnavailableError(
+                        `Too many calls to ${adapter.name}`,
+                        'BANK_RATE_LIMITED'
+                    );
+                }
+
+                return await guard.breaker.execute(call);
+            } catch (error) {
+                errorCode = getBankErrorCode(error);
+                throw error;
+            } finally {
+                const outcome = errorCode === undefined ? 'success' : 'failure';
+
+                bankApiRequests.inc({ adapter: adapter.id, operation, outcome, code: errorCode ?? '' });
+                bankApiRequestDuration.observe(
+                    { adapter: adapter.id, operation, outcome },
+                    Number(process.hrtime.bigint() - start) / 1e9
+                );
+            }
+        });
+    }
+
+    private getGuard(adapter: BankAdapter): BankGuard {
+        let guard = this.guards.get(adapter.id);
+
+        if (!guard) {
+            guard = {
+                breaker: new CircuitBreaker(adapter.name, this.breakerOptions, isBankOutage),
+                rateLimit: new TokenBucket(this.rateLimitOptions)
+            };
+            this.guards.set(adapter.id, guard);
+        }
+
+        return guard;
+    }
+
     /**
      * Handle bank API errors
      */
-    private handleBankApiError(error: unknown): never {
+    private handleBankApiError(error: unknown, adapter: BankAdapter): never {
         if (axios.isAxiosError(error)) {
-            const axiosError = error as AxiosError<BankApiError>;
+            const axiosError = error as AxiosError;
+
+            // Gateway errors are as transient as a refused connection, whatever the body says
+            const status = axiosError.response?.status;
 
-            if (axiosError.response?.data) {
-                const bankError = axiosError.response.data;
+            if (status === 504) {
+                throw new BadGatewayError(
+                    'Bank API gateway timeout',
+                    'BANK_API_TIMEOUT'
+                );
+            }
+
+            if (status === 502 || status === 503) {
+                throw new BadGatewayError(
+                    'Bank API is unavailable',
+                    'BANK_API_UNAVAILABLE'
+                );
+            }
+
+            const bankError = axiosError.response && adapter.parseError(axiosError.response.data);
+
+            if (axiosError.response && bankError) {
                 throw new ExternalApiError(
                     bankError.message || 'Bank API request failed',
                     axiosError.response.status,
@@ -225,7 +476,7 @@ export class BankApiService {
                 );
             }
 
-            if (axiosError.code === 'ECONNABORTED') {
+            if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
                 throw new BadGatewayError(
                     'Bank API request timeout',
                     'BANK_API_TIMEOUT'
@@ -245,6 +496,11 @@ export class BankApiService {
             );
         }
 
+        // Our own errors pass through: an open circuit, the rate limit, answers adapters cannot map
+        if (error instanceof AppError) {
+            throw error;
+        }
+
         throw new ExternalApiError(
             'Unknown bank API error',
             502,
@@ -253,4 +509,13 @@ export class BankApiService {
     }
 }
 
-export const bankApiService = new BankApiService();
\ No newline at end of file
+export const bankApiService = new BankApiService();
+
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half_open'];
+
+// One series per state, 1 for the current one
+metrics.gauge('bank_circuit_state', 'Circuit breaker state per bank adapter.', ['adapter', 'state'], gauge => {
+    bankApiService.getHealth().forEach(({ adapter, circuit }) => {
+        CIRCUIT_STATES.forEach(state => gauge.set({ adapter, state }, circuit.state === state ? 1 : 0));
+    });
+});
\ No newline at end of file
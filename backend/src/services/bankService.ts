@@ -1,5 +1,6 @@
 ﻿// src/services/bankService.ts
 import axios, { AxiosError } from 'axios';
+import { config } from '../config/env';
 import {
     BankApiRequest,
     BankApiResponse,
@@ -9,6 +10,7 @@ import {
 import { MerchantProfile } from '../types/merchant';
 import { ExternalApiError, BadGatewayError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { getTraceHeaders } from '../utils/tracing';
 
 export class BankApiService {
     private readonly apiUrl: string;
@@ -16,8 +18,8 @@ export class BankApiService {
     private readonly timeout: number;
 
     constructor() {
-        this.apiUrl = process.env.BANK_API_URL || 'https://bank-api.example.com';
-        this.apiKey = process.env.BANK_API_KEY || 'test-key';
+        this.apiUrl = config.BANK_API_URL;
+        this.apiKey = config.BANK_API_KEY;
         this.timeout = 30000; // 30 seconds
     }
 
@@ -45,7 +47,7 @@ export class BankApiService {
                     headers: {
                         'Authorization': `Bearer ${this.apiKey}`,
                         'Content-Type': 'application/json',
-                        'X-Request-ID': merchant.id
+                        ...getTraceHeaders()
                     },
                     timeout: this.timeout
                 }
@@ -100,7 +102,7 @@ export class BankApiService {
                 type: doc.type,
                 url: doc.url
             })),
-            callbackUrl: `${process.env.API_BASE_URL}/api/webhooks/bank`
+            callbackUrl: `${config.API_BASE_URL}/api/webhooks/bank`
         };
     }
 
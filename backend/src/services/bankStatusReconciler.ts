@@ -0,0 +1,281 @@
+// src/services/bankStatusReconciler.ts
+import { StorageDriver, getStorageDriver } from '../config/database';
+import { config } from '../config/env';
+import { MerchantRepository, createMerchantRepository } from '../repositories';
+import { BankWebhookPayload, BankWebhookRoute } from '../types/bank';
+import { MerchantProfile } from '../types/merchant';
+import { bankApiService } from './bankApiService';
+import { webhookLedgerService } from './webhookLedger';
+import { notificationService } from './notifications';
+import { ExternalApiError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { tracer } from '../utils/tracing';
+
+export interface BankStatusReconcilerOptions {
+    intervalMs: number;
+    minAgeMs: number;
+    stores: StorageDriver[];
+}
+
+// Ways the bank and our records can disagree; each raises an admin alert
+export type ReconciliationMismatch =
+    | 'BANK_APPLICATION_NOT_FOUND'
+    | 'BANK_MERCHANT_MISMATCH'
+    | 'BANK_DECISION_NOT_APPLIED';
+
+export type ReconciliationOutcome = 'pending' | 'applied' | 'mismatch' | 'failed';
+
+export interface ReconciliationSummary {
+    checked: number;
+    applied: number;
+    mismatches: number;
+    failed: number;
+}
+
+// The React app's merchants live in Supabase whatever the backend's own driver is
+function getDefaultStores(): StorageDriver[] {
+    const stores = new Set<StorageDriver>([getStorageDriver()]);
+
+    if (config.SUPABASE_URL) {
+        stores.add('supabase');
+    }
+
+    return Array.from(stores);
+}
+
+/**
+ * Polls the bank for applications that have waited in pending_bank_approval
+ * longer than expected, so a lost webhook does not leave a merchant stuck.
+ * Decisions found this way go through the webhook ledger and its handlers.
+ */
+export class BankStatusReconciler {
+    private readonly options: BankStatusReconcilerOptions;
+    private readonly merchantRepositories = new Map<StorageDriver, MerchantRepository>();
+    // Last alert per merchant, so an unresolved mismatch is reported once
+    private readonly alerted = new Map<string, ReconciliationMismatch>();
+    private timer: NodeJS.Timeout | null = null;
+    private running: Promise<ReconciliationSummary> | null = null;
+
+    constructor(options: Partial<BankStatusReconcilerOptions> = {}) {
+        this.options = {
+            intervalMs: config.BANK_RECONCILE_INTERVAL_MS,
+            minAgeMs: config.BANK_RECONCILE_MIN_AGE_MS,
+            stores: getDefaultStores(),
+            ...options
+        };
+    }
+
+    /**
+     * Start polling (an interval of 0 disables the reconciler)
+     */
+    start(): void {
+        if (this.timer || this.options.intervalMs <= 0) {
+            return;
+        }
+
+        this.timer = setInterval(() => void this.poll(), this.options.intervalMs);
+        this.timer.unref();
+
+        logger.info('Bank status reconciler started', {
+            intervalMs: this.options.intervalMs,
+            minAgeMs: this.options.minAgeMs,
+            stores: this.options.stores.join(', ')
+        });
+    }
+
+    /**
+     * Stop polling and wait for a run in progress
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        await this.running;
+    }
+
+    /**
+     * Check every stale pending_bank_approval application against the bank
+     */
+    async reconcile(): Promise<ReconciliationSummary> {
+        const summary: ReconciliationSummary = { checked: 0, applied: 0, mismatches: 0, failed: 0 };
+        const cutoff = Date.now() - this.options.minAgeMs;
+
+        for (const store of this.options.stores) {
+            const merchants = await this.getMerchantRepository(store).findAll('pending_bank_approval');
+
+            const stale = merchants.filter(merchant =>
+                merchant.bankApplicationId &&
+                // A resubmission the queue has not delivered yet is not the bank's to answer
+                !merchant.requestedDocuments?.length &&
+                Date.parse(merchant.bankSubmittedAt || merchant.updatedAt) <= cutoff
+            );
+
+            for (const merchant of stale) {
+                const outcome = await tracer.withSpan('bank_status.reconcile', {
+                    attributes: {
+                        'merchant.id': merchant.id,
+                        'bank.application_id': merchant.bankApplicationId
+                    }
+                }, () => this.reconcileMerchant(merchant, store));
+
+                summary.checked++;
+                if (outcome === 'applied') summary.applied++;
+                if (outcome === 'mismatch') summary.mismatches++;
+                if (outcome === 'failed') summary.failed++;
+            }
+        }
+
+        if (summary.checked > 0) {
+            logger.info('Bank status reconciliation finished', { ...summary });
+        }
+
+        return summary;
+    }
+
+    private async reconcileMerchant(
+        merchant: MerchantProfile,
+        store: StorageDriver
+    ): Promise<ReconciliationOutcome> {
+        const applicationId = merchant.bankApplicationId as string;
+        let status;
+
+        try {
+            status = await bankApiService.getApplicationStatus(applicationId, merchant.bankAdapter);
+        } catch (error) {
+            if (error instanceof ExternalApiError && error.statusCode === 404) {
+                return this.alert(
+                    merchant,
+                    'BANK_APPLICATION_NOT_FOUND',
+                    `The bank does not know application ${applicationId}.`
+                );
+            }
+
+            logger.warn('Bank status poll failed', {
+                merchantId: merchant.id,
+                applicationId,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+
+            return 'failed';
+        }
+
+        if (status.merchantId && status.merchantId !== merchant.id) {
+            return this.alert(
+                merchant,
+                'BANK_MERCHANT_MISMATCH',
+                `The bank has application ${applicationId} under merchant ${status.merchantId}.`
+            );
+        }
+
+        // A decision older than our latest (re)submission is not about it
+        const stale = status.processedAt && merchant.bankSubmittedAt &&
+            Date.parse(status.processedAt) < Date.parse(merchant.bankSubmittedAt);
+
+        if (status.status === 'pending_review' || !status.decision || stale) {
+            this.alerted.delete(merchant.id);
+            return 'pending';
+        }
+
+        const payload: BankWebhookPayload = {
+            eventId: status.eventId,
+            applicationId,
+            merchantId: merchant.id,
+            status: status.status,
+            decision: status.decision,
+            processedAt: status.processedAt || new Date().toISOString(),
+            metadata: { source: 'reconciler' }
+        };
+
+        try {
+            const { event, duplicate } = await webhookLedgerService.receive(
+                this.getRoute(store),
+                payload,
+                JSON.stringify(payload)
+            );
+
+            if (duplicate && event.status === 'processing') {
+                return 'pending';
+            }
+
+            if (duplicate) {
+                return this.alert(
+                    merchant,
+                    'BANK_DECISION_NOT_APPLIED',
+                    `The bank decided "${status.status}" (event ${event.eventId}), which is recorded as ${event.status}, but the merchant is still pending.`
+                );
+            }
+        } catch (error) {
+            return this.alert(
+                merchant,
+                'BANK_DECISION_NOT_APPLIED',
+                `The bank decided "${status.status}" but applying it failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+        }
+
+        this.alerted.delete(merchant.id);
+
+        logger.business('bank_decision_reconciled', merchant.id, 'merchant', {
+            applicationId,
+            bankStatus: status.status,
+            eventId: status.eventId
+        });
+
+        return 'applied';
+    }
+
+    private async alert(
+        merchant: MerchantProfile,
+        code: ReconciliationMismatch,
+        detail: string
+    ): Promise<ReconciliationOutcome> {
+        logger.error('Bank reconciliation mismatch', undefined, {
+            merchantId: merchant.id,
+            applicationId: merchant.bankApplicationId,
+            code,
+            detail
+        });
+
+        if (this.alerted.get(merchant.id) !== code) {
+            this.alerted.set(merchant.id, code);
+            await notificationService.notifyAdminReconciliationAlert(merchant, code, detail);
+        }
+
+        return 'mismatch';
+    }
+
+    // One run at a time; a slow bank must not stack up runs
+    private poll(): Promise<ReconciliationSummary> {
+        if (!this.running) {
+            this.running = this.reconcile()
+                .catch(error => {
+                    logger.error('Bank status reconciliation failed', error instanceof Error ? error : undefined);
+                    return { checked: 0, applied: 0, mismatches: 0, failed: 0 };
+                })
+                .finally(() => {
+                    this.running = null;
+                });
+        }
+
+        return this.running;
+    }
+
+    // Ledger route whose handler works on the given merchant store
+    private getRoute(store: StorageDriver): BankWebhookRoute {
+        return store === 'supabase' ? 'supabase' : 'webhooks';
+    }
+
+    private getMerchantRepository(store: StorageDriver): MerchantRepository {
+        let repository = this.merchantRepositories.get(store);
+
+        if (!repository) {
+            repository = createMerchantRepository(store);
+            this.merchantRepositories.set(store, repository);
+        }
+
+        return repository;
+    }
+}
+
+export const bankStatusReconciler = new BankStatusReconciler();
@@ -0,0 +1,137 @@
+// backend/src/services/bankSubmissionQueue.test.ts
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { createBankJobRepository } from '../repositories';
+import { MerchantProfile, MerchantSubmission } from '../types/merchant';
+import { BadGatewayError, BadRequestError } from '../utils/errors';
+import { bankApiService } from './bankApiService';
+import { BankSubmissionQueue } from './bankSubmissionQueue';
+import { merchantService } from './merchantService';
+import { notificationService } from './notifications';
+
+const submission = (): MerchantSubmission => ({
+    businessName: 'Sharma Stores',
+    businessType: 'retail',
+    registrationNumber: 'ABCDE1234F',
+    taxId: '27ABCDE1234F1Z5',
+    email: 'owner@example.com',
+    phone: '9876543210',
+    addressLine1: '12 MG Road',
+    city: 'Pune',
+    state: 'Maharashtra',
+    postalCode: '411001',
+    country: 'India',
+    documents: ['pan_card', 'aadhaar_card', 'cancelled_cheque'].map(type => ({
+        type,
+        url: `https://files.example.com/${type}.pdf`,
+        filename: `${type}.pdf`,
+        uploadedAt: '2025-10-19T10:00:00.000Z'
+    }))
+} as MerchantSubmission);
+
+// A merchant whose application was just sent to the bank queue
+async function awaitingBank(): Promise<MerchantProfile> {
+    const merchant = await merchantService.createMerchant(uuidv4(), submission());
+
+    await merchantService.transition(merchant.id, 'SUBMIT');
+    await merchantService.transition(merchant.id, 'START_VALIDATION');
+
+    for (const document of merchant.documents) {
+        await merchantService.verifyDocument(merchant.id, document.id as string, { actorType: 'admin' });
+    }
+
+    return merchantService.transition(merchant.id, 'SUBMIT_TO_BANK');
+}
+
+// A worker that retries without waiting; jobs keep the attempt limit they were queued with
+const createQueue = () => new BankSubmissionQueue(createBankJobRepository(), { baseDelayMs: 0 });
+
+describe('BankSubmissionQueue', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('records the application id the bank returns', async () => {
+        const merchant = await awaitingBank();
+        mock.method(bankApiService, 'submitMerchantApplication', async () => ({
+            success: true,
+            applicationId: 'APP-100',
+            message: 'Received'
+        }));
+
+        const queue = createQueue();
+
+        await queue.processDue();
+
+        const job = (await queue.getJobs()).find(candidate => candidate.merchantId === merchant.id);
+        assert.equal(job?.status, 'succeeded');
+        assert.equal(job?.bankApplicationId, 'APP-100');
+        assert.equal((await merchantService.getMerchantById(merchant.id)).bankApplicationId, 'APP-100');
+    });
+
+    it('retries a transient failure and dead-letters the job once its attempts run out', async () => {
+        const merchant = await awaitingBank();
+        const submit = mock.method(bankApiService, 'submitMerchantApplication', async () => {
+            throw new BadGatewayError('Bank API is unavailable', 'BANK_API_UNAVAILABLE');
+        });
+        const alert = mock.method(notificationService, 'notifyAdminBankSubmissionFailed', async () => undefined);
+        const queue = createQueue();
+
+        await queue.processDue();
+        let [job] = (await queue.getJobs()).filter(candidate => candidate.merchantId === merchant.id);
+        assert.equal(job.status, 'pending');
+        assert.equal(job.attempts, 1);
+        assert.equal(job.lastErrorCode, 'BANK_API_UNAVAILABLE');
+
+        const { maxAttempts } = job;
+        assert.ok(maxAttempts > 1);
+
+        for (let attempt = 2; attempt <= maxAttempts; attempt++) {
+            await queue.processDue();
+        }
+        [job] = (await queue.getJobs()).filter(candidate => candidate.merchantId === merchant.id);
+
+        assert.equal(job.status, 'dead');
+        assert.equal(job.attempts, maxAttempts);
+        assert.equal(submit.mock.callCount(), maxAttempts);
+        assert.equal(alert.mock.callCount(), 1);
+
+        // Nothing picks a dead job up again by itself
+        await queue.processDue();
+        assert.equal(submit.mock.callCount(), maxAttempts);
+    });
+
+    it('dead-letters a failure retrying cannot fix straight away', async () => {
+        const merchant = await awaitingBank();
+        mock.method(bankApiService, 'submitMerchantApplication', async () => {
+            throw new BadRequestError('Bank rejected the request', 'BANK_API_ERROR');
+        });
+        mock.method(notificationService, 'notifyAdminBankSubmissionFailed', async () => undefined);
+        const queue = createQueue();
+
+        await queue.processDue();
+
+        const [job] = (await queue.getJobs()).filter(candidate => candidate.merchantId === merchant.id);
+        assert.equal(job.status, 'dead');
+        assert.equal(job.attempts, 1);
+    });
+
+    it('requeues a dead job with fresh attempts', async () => {
+        const merchant = await awaitingBank();
+        mock.method(bankApiService, 'submitMerchantApplication', async () => {
+            throw new BadRequestError('Bank rejected the request', 'BANK_API_ERROR');
+        });
+        mock.method(notificationService, 'notifyAdminBankSubmissionFailed', async () => undefined);
+        const queue = createQueue();
+
+        await queue.processDue();
+        const [dead] = (await queue.getJobs('dead')).filter(candidate => candidate.merchantId === merchant.id);
+
+        const requeued = await queue.retry(dead.id);
+
+        assert.equal(requeued.status, 'pending');
+        assert.equal(requeued.attempts, 0);
+
+        assert.equal((await queue.cancel(dead.id)).status, 'cancelled');
+        await assert.rejects(queue.cancel(dead.id), { code: 'INVALID_BANK_JOB_STATUS' });
+    });
+});
@@ -0,0 +1,503 @@
+// src/services/bankSubmissionQueue.ts
+import { v4 as uuidv4 } from 'uuid';
+import { StorageDriver, getStorageDriver, isStorageConfigured } from '../config/database';
+import { config } from '../config/env';
+import {
+    BankJobRepository,
+    MerchantRepository,
+    createBankJobRepository,
+    createMerchantRepository
+} from '../repositories';
+import { BankSubmissionJob, BankSubmissionJobStatus } from '../types/bank';
+import { MerchantProfile } from '../types/merchant';
+import { bankApiService } from './bankApiService';
+import { notificationService } from './notifications';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+import { formatTraceparent, parseTraceparent, tracer } from '../utils/tracing';
+import { metrics } from '../utils/metrics';
+
+// Bank API failures worth another attempt; anything else is dead-lettered straight away
+export const TRANSIENT_BANK_ERROR_CODES = [
+    'BANK_API_TIMEOUT',
+    'BANK_API_UNAVAILABLE',
+    'BANK_RATE_LIMITED',
+    'CIRCUIT_OPEN'
+];
+
+export interface BankSubmissionQueueOptions {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    pollIntervalMs: number;
+    leaseMs: number;
+    batchSize: number;
+}
+
+/**
+ * Durable queue of bank submissions. Jobs survive restarts, transient bank
+ * failures are retried with exponential backoff and everything else ends up
+ * on the dead-letter list (status "dead") for an admin to retry or cancel.
+ * A job is written with the status change that asks for it, next to the
+ * merchant, so every merchant store in use is polled.
+ */
+export class BankSubmissionQueue {
+    private readonly options: BankSubmissionQueueOptions;
+    private readonly repositories = new Map<StorageDriver, BankJobRepository>();
+    private readonly merchantRepositories = new Map<StorageDriver, MerchantRepository>();
+    private timer: NodeJS.Timeout | null = null;
+    private polling: Promise<number> | null = null;
+
+    constructor(
+        repository: BankJobRepository = createBankJobRepository(),
+        options: Partial<BankSubmissionQueueOptions> = {}
+    ) {
+        this.repositories.set(getStorageDriver(), repository);
+        this.options = {
+            maxAttempts: config.BANK_JOB_MAX_ATTEMPTS,
+            baseDelayMs: config.BANK_JOB_BASE_DELAY_MS,
+            maxDelayMs: config.BANK_JOB_MAX_DELAY_MS,
+            pollIntervalMs: config.BANK_JOB_POLL_INTERVAL_MS,
+            leaseMs: 120000, // well above the bank API timeout
+            batchSize: 10,
+            ...options
+        };
+    }
+
+    /**
+     * A new bank submission job, for the merchant repository to write with the
+     * status change that asks for it (at most one active job per merchant)
+     */
+    createJob(merchantId: string, merchantStore: StorageDriver): BankSubmissionJob {
+        const now = new Date().toISOString();
+        const request = getRequestContext();
+
+        return {
+            id: uuidv4(),
+            merchantId,
+            merchantStore,
+            status: 'pending',
+            attempts: 0,
+            maxAttempts: this.options.maxAttempts,
+            nextRunAt: now,
+            requestId: request?.requestId,
+            traceParent: request ? formatTraceparent(request) : undefined,
+            createdAt: now,
+            updatedAt: now
+        };
+    }
+
+    /**
+     * Also poll the jobs of another merchant store, e.g. the Supabase store
+     * the React app's webhooks write to while the API itself runs on SQLite
+     */
+    watch(store: StorageDriver): void {
+        if (!this.repositories.has(store) && isStorageConfigured(store)) {
+            this.repositories.set(store, createBankJobRepository(store));
+        }
+    }
+
+    /**
+     * Start polling for due jobs
+     */
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+        this.timer.unref();
+
+        logger.info('Bank submission worker started', { pollIntervalMs: this.options.pollIntervalMs });
+
+        this.wake();
+    }
+
+    /**
+     * Stop polling and wait for the jobs in hand to finish
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        await this.polling;
+    }
+
+    /**
+     * Run due jobs soon rather than at the next poll, e.g. right after a status change commits
+     */
+    wake(): void {
+        if (this.timer) {
+            setImmediate(() => void this.poll());
+        }
+    }
+
+    /**
+     * Claim and run every job that is due now, returning how many were run
+     */
+    async processDue(): Promise<number> {
+        let processed = 0;
+
+        for (const repository of this.repositories.values()) {
+            processed += await this.processDueIn(repository);
+        }
+
+        return processed;
+    }
+
+    /**
+     * Delay before the next attempt after the given number of attempts
+     */
+    getRetryDelay(attempts: number): number {
+        return Math.min(this.options.baseDelayMs * 2 ** Math.max(attempts - 1, 0), this.options.maxDelayMs);
+    }
+
+    async getJobs(status?: BankSubmissionJobStatus): Promise<BankSubmissionJob[]> {
+        const jobs = await Promise.all([...this.repositories.values()].map(repository => repository.findAll(status)));
+
+        // Newest first, as each store lists them
+        return jobs.flat().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async getJob(jobId: string): Promise<BankSubmissionJob> {
+        const { job } = await this.locate(jobId);
+
+        return job;
+    }
+
+    async getActiveJob(merchantId: string): Promise<BankSubmissionJob | null> {
+        for (const repository of this.repositories.values()) {
+            const active = await repository.findActiveByMerchantId(merchantId);
+
+            if (active) {
+                return active;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Put a dead, cancelled or waiting job back at the front of the queue with fresh attempts
+     */
+    async retry(jobId: string): Promise<BankSubmissionJob> {
+        const { job, repository } = await this.locate(jobId);
+
+        if (job.status === 'running' || job.status === 'succeeded') {
+            throw new ConflictError(`A ${job.status} job cannot be retried`, 'INVALID_BANK_JOB_STATUS');
+        }
+
+        if (job.status !== 'pending') {
+            const active = await repository.findActiveByMerchantId(job.merchantId);
+
+            if (active) {
+                throw new ConflictError(
+                    'Merchant already has a bank submission in the queue',
+                    'BANK_JOB_ALREADY_QUEUED',
+                    active.id
+                );
+            }
+        }
+
+        const now = new Date().toISOString();
+
+        const updated = await repository.update({
+            ...job,
+            status: 'pending',
+            attempts: 0,
+            nextRunAt: now,
+            lockedUntil: undefined,
+            completedAt: undefined,
+            updatedAt: now
+        });
+
+        logger.info('Bank submission job requeued', { jobId, merchantId: job.merchantId });
+
+        this.wake();
+
+        return updated;
+    }
+
+    /**
+     * Cancel a job that is waiting or dead-lettered
+     */
+    async cancel(jobId: string): Promise<BankSubmissionJob> {
+        const { job, repository } = await this.locate(jobId);
+
+        if (job.status !== 'pending' && job.status !== 'dead') {
+            throw new ConflictError(`A ${job.status} job cannot be cancelled`, 'INVALID_BANK_JOB_STATUS');
+        }
+
+        const now = new Date().toISOString();
+
+        const updated = await repository.update({
+            ...job,
+            status: 'cancelled',
+            lockedUntil: undefined,
+            completedAt: now,
+            updatedAt: now
+        });
+
+        logger.info('Bank submission job cancelled', { jobId, merchantId: job.merchantId });
+
+        return updated;
+    }
+
+    private async processDueIn(repository: BankJobRepository): Promise<number> {
+        const now = Date.now();
+        const due = await repository.findDue(new Date(now).toISOString(), this.options.batchSize);
+        let processed = 0;
+
+        for (const job of due) {
+            const claimed = await repository.claim(job, new Date(now + this.options.leaseMs).toISOString());
+
+            // Another worker got there first
+            if (!claimed) {
+                continue;
+            }
+
+            // Each attempt continues the trace of the request that queued the job
+            await tracer.withSpan('bank_submission.run', {
+                kind: 'consumer',
+                parent: parseTraceparent(claimed.traceParent),
+                requestId: claimed.requestId ?? claimed.id,
+                attributes: {
+                    'job.id': claimed.id,
+                    'job.attempt': claimed.attempts,
+                    'merchant.id': claimed.merchantId
+                }
+            }, () => this.run(claimed, repository));
+            processed++;
+        }
+
+        return processed;
+    }
+
+    // One poll at a time; overlapping ticks share the running one
+    private poll(): Promise<number> {
+        if (!this.polling) {
+            this.polling = this.processDue()
+                .catch(error => {
+                    logger.error('Bank submission worker poll failed', error instanceof Error ? error : undefined);
+                    return 0;
+                })
+                .finally(() => {
+                    this.polling = null;
+                });
+        }
+
+        return this.polling;
+    }
+
+    private async run(job: BankSubmissionJob, repository: BankJobRepository): Promise<void> {
+        const merchants = this.getMerchantRepository(job.merchantStore);
+
+        try {
+            const merchant = await merchants.findById(job.merchantId);
+
+            // Rejected, approved or deleted while the job waited
+            if (!merchant || merchant.onboardingStatus !== 'pending_bank_approval') {
+                await this.finish(repository, job, 'cancelled', {
+                    lastError: 'Merchant is no longer awaiting bank submission',
+                    lastErrorCode: 'MERCHANT_NOT_PENDING_BANK'
+                });
+                return;
+            }
+
+            // Documents the bank asked for go back under the application it already has
+            if (merchant.bankApplicationId && merchant.requestedDocuments?.length) {
+                await this.resubmit(repository, job, merchants, merchant, merchant.bankApplicationId);
+                return;
+            }
+
+            if (merchant.bankApplicationId) {
+                await this.finish(repository, job, 'succeeded', { bankApplicationId: merchant.bankApplicationId });
+                return;
+            }
+
+            const adapter = bankApiService.selectAdapter(merchant);
+            const bankResponse = await bankApiService.submitMerchantApplication(merchant, adapter);
+
+            const recorded = await merchants.recordBankSubmission(merchant.id, {
+                bankApplicationId: bankResponse.applicationId,
+                bankAdapter: adapter.id,
+                bankResponse: {
+                    success: bankResponse.success,
+                    applicationId: bankResponse.applicationId,
+                    message: bankResponse.message,
+                    estimatedProcessingTime: bankResponse.estimatedProcessingTime
+                },
+                updatedAt: new Date().toISOString()
+            });
+
+            if (!recorded) {
+                await this.abandon(repository, job, bankResponse.applicationId);
+                return;
+            }
+
+            await this.finish(repository, job, 'succeeded', { bankApplicationId: bankResponse.applicationId });
+
+            logger.info('Bank submission succeeded', {
+                jobId: job.id,
+                merchantId: job.merchantId,
+                applicationId: bankResponse.applicationId,
+                adapter: adapter.id,
+                attempts: job.attempts
+            });
+        } catch (error) {
+            await this.fail(repository, job, error);
+        }
+    }
+
+    private async resubmit(
+        repository: BankJobRepository,
+        job: BankSubmissionJob,
+        merchants: MerchantRepository,
+        merchant: MerchantProfile,
+        applicationId: string
+    ): Promise<void> {
+        const bankResponse = await bankApiService.resubmitMerchantApplication(applicationId, merchant);
+
+        const recorded = await merchants.recordBankSubmission(merchant.id, {
+            bankApplicationId: applicationId,
+            bankResponse: {
+                success: bankResponse.success,
+                applicationId,
+                message: bankResponse.message,
+                estimatedProcessingTime: bankResponse.estimatedProcessingTime
+            },
+            clearInfoRequest: true,
+            updatedAt: new Date().toISOString()
+        });
+
+        if (!recorded) {
+            await this.abandon(repository, job, applicationId);
+            return;
+        }
+
+        await this.finish(repository, job, 'succeeded', { bankApplicationId: applicationId });
+
+        logger.info('Bank resubmission succeeded', {
+            jobId: job.id,
+            merchantId: job.merchantId,
+            applicationId,
+            attempts: job.attempts
+        });
+    }
+
+    private async fail(repository: BankJobRepository, job: BankSubmissionJob, error: unknown): Promise<void> {
+        const lastErrorCode = error instanceof AppError ? error.code : 'UNKNOWN_ERROR';
+        const lastError = error instanceof Error ? error.message : 'Unknown error';
+        const transient = TRANSIENT_BANK_ERROR_CODES.includes(lastErrorCode);
+
+        if (transient && job.attempts < job.maxAttempts) {
+            const delayMs = this.getRetryDelay(job.attempts);
+
+            await repository.update({
+                ...job,
+                status: 'pending',
+                nextRunAt: new Date(Date.now() + delayMs).toISOString(),
+                lockedUntil: undefined,
+                lastError,
+                lastErrorCode,
+                updatedAt: new Date().toISOString()
+            });
+
+            logger.warn('Bank submission failed, retry scheduled', {
+                jobId: job.id,
+                merchantId: job.merchantId,
+                attempts: job.attempts,
+                maxAttempts: job.maxAttempts,
+                delayMs,
+                code: lastErrorCode
+            });
+            return;
+        }
+
+        const dead = { ...job, lastError, lastErrorCode };
+
+        await this.finish(repository, dead, 'dead');
+
+        logger.error('Bank submission moved to dead-letter list', error instanceof Error ? error : undefined, {
+            jobId: job.id,
+            merchantId: job.merchantId,
+            attempts: job.attempts,
+            code: lastErrorCode
+        });
+
+        // Nothing retries a dead job by itself, so someone has to hear about it
+        await notificationService.notifyAdminBankSubmissionFailed(dead);
+    }
+
+    // The bank took the application, but the merchant left pending_bank_approval
+    // while the call was in flight; their newer status stands
+    private async abandon(repository: BankJobRepository, job: BankSubmissionJob, bankApplicationId?: string): Promise<void> {
+        await this.finish(repository, job, 'cancelled', {
+            bankApplicationId,
+            lastError: 'Merchant left pending_bank_approval during the bank call',
+            lastErrorCode: 'MERCHANT_NOT_PENDING_BANK'
+        });
+
+        logger.warn('Bank submission result not recorded, merchant status changed', {
+            jobId: job.id,
+            merchantId: job.merchantId,
+            applicationId: bankApplicationId
+        });
+    }
+
+    private async finish(
+        repository: BankJobRepository,
+        job: BankSubmissionJob,
+        status: BankSubmissionJobStatus,
+        changes: Partial<BankSubmissionJob> = {}
+    ): Promise<void> {
+        const now = new Date().toISOString();
+
+        await repository.update({
+            ...job,
+            ...changes,
+            status,
+            lockedUntil: undefined,
+            completedAt: now,
+            updatedAt: now
+        });
+    }
+
+    // The job and the queue it is stored in
+    private async locate(jobId: string): Promise<{ job: BankSubmissionJob; repository: BankJobRepository }> {
+        for (const repository of this.repositories.values()) {
+            const job = await repository.findById(jobId);
+
+            if (job) {
+                return { job, repository };
+            }
+        }
+
+        throw new NotFoundError('Bank submission job not found', 'BANK_JOB_NOT_FOUND');
+    }
+
+    private getMerchantRepository(store: StorageDriver): MerchantRepository {
+        let repository = this.merchantRepositories.get(store);
+
+        if (!repository) {
+            repository = createMerchantRepository(store);
+            this.merchantRepositories.set(store, repository);
+        }
+
+        return repository;
+    }
+}
+
+export const bankSubmissionQueue = new BankSubmissionQueue();
+
+// Finished jobs are left out; they only grow
+const GAUGED_JOB_STATUSES: BankSubmissionJobStatus[] = ['pending', 'running', 'dead'];
+
+metrics.gauge('bank_submission_jobs', 'Bank submission jobs waiting, running or dead-lettered.', ['status'], async gauge => {
+    const jobs = await Promise.all(GAUGED_JOB_STATUSES.map(status => bankSubmissionQueue.getJobs(status)));
+
+    GAUGED_JOB_STATUSES.forEach((status, index) => gauge.set({ status }, jobs[index].length));
+});
@@ -0,0 +1,188 @@
+// backend/src/services/healthService.ts
+import axios from 'axios';
+import { getSqliteDatabase, getStorageDriver } from '../config/database';
+import { config, configWarnings } from '../config/env';
+import { getSupabaseClient } from '../config/supabase';
+import { DependencyHealth, ReadinessReport } from '../types/health';
+import { BankSubmissionJobStatus } from '../types/bank';
+import { BankAdapter, bankAdapterRegistry } from './bankAdapters';
+import { bankApiService } from './bankApiService';
+import { bankSubmissionQueue } from './bankSubmissionQueue';
+import { logger } from '../utils/logger';
+
+type CheckResult = Pick<DependencyHealth, 'status' | 'message' | 'details'>;
+
+/**
+ * Dependency checks behind /health/ready. Each check is timed and bounded by
+ * HEALTH_CHECK_TIMEOUT_MS, so one hanging dependency cannot hang the probe.
+ */
+export class HealthService {
+    private readonly timeoutMs: number;
+    private readonly queueDepthWarning: number;
+    private readonly queueLagWarningMs: number;
+
+    constructor() {
+        this.timeoutMs = config.HEALTH_CHECK_TIMEOUT_MS;
+        this.queueDepthWarning = config.HEALTH_QUEUE_DEPTH_WARNING;
+        this.queueLagWarningMs = config.HEALTH_QUEUE_LAG_WARNING_MS;
+    }
+
+    async checkReadiness(): Promise<ReadinessReport> {
+        const driver = getStorageDriver();
+        // The React app's webhooks need Supabase even when the backend stores its own data in SQLite
+        const supabaseConfigured = Boolean(config.SUPABASE_URL);
+
+        const checks = await Promise.all([
+            driver === 'sqlite'
+                ? this.run('sqlite', true, () => this.checkSqlite())
+                : this.skip('sqlite', 'STORAGE_DRIVER is supabase'),
+            driver === 'supabase' || supabaseConfigured
+                ? this.run('supabase', driver === 'supabase', () => this.checkSupabase())
+                : this.skip('supabase', 'SUPABASE_URL is not set'),
+            ...bankAdapterRegistry.list().map(adapter =>
+                this.run(`bank:${adapter.id}`, false, () => this.checkBank(adapter))
+            ),
+            this.run('bank_queue', false, () => this.checkQueue()),
+            this.run('config', false, () => this.checkConfig())
+        ]);
+
+        const status = checks.some(check => check.critical && check.status === 'down')
+            ? 'down'
+            : checks.some(check => check.status !== 'ok' && check.status !== 'skipped')
+                ? 'degraded'
+                : 'ok';
+
+        if (status !== 'ok') {
+            logger.warn('Readiness check not ok', {
+                status,
+                failing: checks
+                    .filter(check => check.status === 'down' || check.status === 'degraded')
+                    .map(check => `${check.name}:${check.status}`)
+                    .join(', ')
+            });
+        }
+
+        return {
+            status,
+            timestamp: new Date().toISOString(),
+            uptime: process.uptime(),
+            checks
+        };
+    }
+
+    private async run(
+        name: string,
+        critical: boolean,
+        check: () => Promise<CheckResult>
+    ): Promise<DependencyHealth> {
+        const startTime = Date.now();
+        let timer: NodeJS.Timeout | undefined;
+
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+        });
+
+        try {
+            const result = await Promise.race([check(), timeout]);
+            return { name, critical, latencyMs: Date.now() - startTime, ...result };
+        } catch (error) {
+            return {
+                name,
+                critical,
+                status: 'down',
+                latencyMs: Date.now() - startTime,
+                message: error instanceof Error ? error.message : 'Unknown error'
+            };
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private async skip(name: string, message: string): Promise<DependencyHealth> {
+        return { name, critical: false, status: 'skipped', latencyMs: 0, message };
+    }
+
+    private async checkSqlite(): Promise<CheckResult> {
+        getSqliteDatabase().prepare('SELECT 1').get();
+        return { status: 'ok' };
+    }
+
+    private async checkSupabase(): Promise<CheckResult> {
+        const { error } = await getSupabaseClient()
+            .from('merchant_profiles')
+            .select('id', { head: true })
+            .limit(1);
+
+        if (error) {
+            throw new Error(error.message);
+        }
+
+        return { status: 'ok' };
+    }
+
+    // Any HTTP answer means the bank is reachable; health probes bypass its breaker and rate limit
+    private async checkBank(adapter: BankAdapter): Promise<CheckResult> {
+        const response = await axios.get(adapter.baseUrl, {
+            timeout: this.timeoutMs,
+            validateStatus: () => true
+        });
+        const guard = bankApiService.getHealth().find(bank => bank.adapter === adapter.id);
+        const circuit = guard?.circuit.state ?? 'closed';
+
+        return {
+            status: circuit === 'closed' ? 'ok' : 'degraded',
+            message: circuit === 'closed' ? undefined : `Circuit ${circuit}`,
+            details: {
+                url: adapter.baseUrl,
+                httpStatus: response.status,
+                circuit,
+                availableTokens: guard?.availableTokens ?? null
+            }
+        };
+    }
+
+    private async checkQueue(): Promise<CheckResult> {
+        const statuses: BankSubmissionJobStatus[] = ['pending', 'running', 'dead'];
+        const [pending, running, dead] = await Promise.all(
+            statuses.map(status => bankSubmissionQueue.getJobs(status))
+        );
+
+        const now = Date.now();
+        const lagMs = pending.reduce(
+            (max, job) => Math.max(max, now - Date.parse(job.nextRunAt)),
+            0
+        );
+
+        const problems = [
+            pending.length + running.length > this.queueDepthWarning
+                ? `${pending.length + running.length} jobs waiting` : null,
+            lagMs > this.queueLagWarningMs ? `oldest due job is ${Math.round(lagMs / 1000)}s late` : null,
+            dead.length > 0 ? `${dead.length} dead-lettered jobs` : null
+        ].filter((problem): problem is string => problem !== null);
+
+        return {
+            status: problems.length > 0 ? 'degraded' : 'ok',
+            message: problems.length > 0 ? problems.join('; ') : undefined,
+            details: {
+                pending: pending.length,
+                running: running.length,
+                dead: dead.length,
+                lagMs
+            }
+        };
+    }
+
+    // Production refuses to start with these, so warnings only appear in other environments
+    private async checkConfig(): Promise<CheckResult> {
+        if (configWarnings.length === 0) {
+            return { status: 'ok' };
+        }
+
+        return {
+            status: 'degraded',
+            message: configWarnings.join('; ')
+        };
+    }
+}
+
+export const healthService = new HealthService();
@@ -0,0 +1,86 @@
+// src/services/loginLockout.ts
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { RateLimitStore, rateLimitStore } from '../utils/rateLimitStore';
+
+export interface LoginLockoutOptions {
+    threshold: number; // failed logins in failureWindowMs that lock the account
+    failureWindowMs: number;
+    baseLockoutMs: number; // first lockout; each further one within a day doubles
+    maxLockoutMs: number;
+}
+
+// Lockouts within this period escalate
+const LOCKOUT_HISTORY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Progressive lockout after repeated INVALID_CREDENTIALS for one account:
+ * threshold failures lock it for baseLockoutMs, then 2x, 4x... up to
+ * maxLockoutMs. A successful login clears the history.
+ */
+export class LoginLockout {
+    constructor(
+        private readonly store: RateLimitStore = rateLimitStore,
+        private readonly options: LoginLockoutOptions = {
+            threshold: config.LOGIN_LOCKOUT_THRESHOLD,
+            failureWindowMs: config.AUTH_RATE_LIMIT_WINDOW_MS,
+            baseLockoutMs: config.LOGIN_LOCKOUT_BASE_MS,
+            maxLockoutMs: config.LOGIN_LOCKOUT_MAX_MS
+        }
+    ) {}
+
+    /**
+     * When the account's lockout ends (epoch ms), or null if it is not locked
+     */
+    async getLockedUntil(account: string): Promise<number | null> {
+        const lock = await this.store.get(this.key('lock', account));
+        return lock ? lock.resetAt : null;
+    }
+
+    /**
+     * Count a failed login; returns when the lockout it caused ends, if any
+     */
+    async recordFailure(account: string): Promise<number | null> {
+        const failures = await this.store.increment(this.key('failures', account), this.options.failureWindowMs);
+
+        if (failures.count < this.options.threshold) {
+            return null;
+        }
+
+        await this.store.reset(this.key('failures', account));
+
+        const lockouts = await this.store.increment(this.key('lockouts', account), LOCKOUT_HISTORY_MS);
+        const durationMs = Math.min(
+            this.options.baseLockoutMs * 2 ** (lockouts.count - 1),
+            this.options.maxLockoutMs
+        );
+        const lock = await this.store.increment(this.key('lock', account), durationMs);
+
+        logger.warn('Account locked after repeated failed logins', {
+            accountKey: this.accountKey(account),
+            lockouts: lockouts.count,
+            lockedUntil: new Date(lock.resetAt).toISOString()
+        });
+
+        return lock.resetAt;
+    }
+
+    async recordSuccess(account: string): Promise<void> {
+        await Promise.all([
+            this.store.reset(this.key('failures', account)),
+            this.store.reset(this.key('lockouts', account))
+        ]);
+    }
+
+    // Identifies the account across log lines without writing its email address
+    private accountKey(account: string): string {
+        return crypto.createHash('sha256').update(account).digest('hex').slice(0, 16);
+    }
+
+    private key(kind: 'failures' | 'lockouts' | 'lock', account: string): string {
+        return `login_${kind}:${account}`;
+    }
+}
+
+export const loginLockout = new LoginLockout();
@@ -0,0 +1,83 @@
+// backend/src/services/merchantService.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { merchantService } from './merchantService';
+import { MerchantSubmission } from '../types/merchant';
+import { AppError } from '../utils/errors';
+
+const submission = (): MerchantSubmission => ({
+    businessName: 'Sharma Stores',
+    businessType: 'retail',
+    registrationNumber: 'ABCDE1234F',
+    taxId: '27ABCDE1234F1Z5',
+    email: 'owner@example.com',
+    phone: '9876543210',
+    addressLine1: '12 MG Road',
+    city: 'Pune',
+    state: 'Maharashtra',
+    postalCode: '411001',
+    country: 'India',
+    documents: ['pan_card', 'aadhaar_card', 'cancelled_cheque'].map(type => ({
+        type,
+        url: `https://files.example.com/${type}.pdf`,
+        filename: `${type}.pdf`,
+        uploadedAt: '2025-10-19T10:00:00.000Z'
+    }))
+} as MerchantSubmission);
+
+describe('MerchantService.transition', () => {
+    it('holds a submission back until the required documents are uploaded', async () => {
+        const merchant = await merchantService.createMerchant(uuidv4(), {
+            ...submission(),
+            documents: submission().documents.slice(0, 2)
+        });
+
+        await assert.rejects(
+            merchantService.transition(merchant.id, 'SUBMIT'),
+            { code: 'TRANSITION_GUARD_FAILED' }
+        );
+        assert.equal((await merchantService.getMerchantById(merchant.id)).onboardingStatus, 'draft');
+    });
+
+    it('rejects only with a reason', async () => {
+        const merchant = await merchantService.createMerchant(uuidv4(), submission());
+        await merchantService.transition(merchant.id, 'SUBMIT');
+
+        await assert.rejects(
+            merchantService.transition(merchant.id, 'REJECT', '  '),
+            { code: 'TRANSITION_GUARD_FAILED' }
+        );
+
+        const rejected = await merchantService.transition(merchant.id, 'REJECT', 'PAN does not match the business name');
+        assert.equal(rejected.onboardingStatus, 'rejected');
+        assert.equal(rejected.rejectionReason, 'PAN does not match the business name');
+    });
+
+    it('refuses events the merchant\'s status does not allow', async () => {
+        const merchant = await merchantService.createMerchant(uuidv4(), submission());
+
+        await assert.rejects(
+            merchantService.transition(merchant.id, 'BANK_APPROVE'),
+            { code: 'INVALID_STATUS_TRANSITION' }
+        );
+    });
+
+    it('applies only one of two changes resolved from the same status', async () => {
+        const merchant = await merchantService.createMerchant(uuidv4(), submission());
+
+        const results = await Promise.allSettled([
+            merchantService.transition(merchant.id, 'SUBMIT'),
+            merchantService.transition(merchant.id, 'SUBMIT')
+        ]);
+
+        const rejected = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+
+        assert.equal(rejected.length, 1);
+        assert.equal((rejected[0].reason as AppError).code, 'STATUS_CHANGED_CONCURRENTLY');
+        assert.equal((rejected[0].reason as AppError).statusCode, 409);
+
+        const history = await merchantService.getStatusHistory(merchant.id);
+        assert.deepEqual(history.map(entry => entry.toStatus), ['submitted']);
+    });
+});
@@ -1,19 +1,51 @@
 ﻿// src/services/merchantService.ts
 import { v4 as uuidv4 } from 'uuid';
+import { StorageDriver, getStorageDriver } from '../config/database';
 import {
+    MerchantDocument,
     MerchantProfile,
     MerchantSubmission,
+    OnboardingEvent,
     OnboardingStatus,
-    StatusUpdate
+    StatusChangeContext,
+    StatusHistoryEntry
 } from '../types/merchant';
+import {
+    MerchantRepository,
+    StatusHistoryRepository,
+    createMerchantRepository,
+    createStatusHistoryRepository
+} from '../repositories';
+import { OutboxEvent, OutboxHandler } from '../types/outbox';
+import {
+    GuardImplementations,
+    OnboardingTransition,
+    onboardingStateMachine
+} from './onboardingStateMachine';
+import { REQUIRED_DOCUMENT_TYPES, validationService } from './validationService';
+import { bankSubmissionQueue } from './bankSubmissionQueue';
+import { outboxDispatcher } from './outboxDispatcher';
+import { notificationService } from './notifications';
 import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { metrics, onboardingTransitions } from '../utils/metrics';
 
-// In-memory storage (replace with database in production)
-const merchants = new Map<string, MerchantProfile>();
-const merchantsByUserId = new Map<string, string>(); // userId -> merchantId mapping
+interface MerchantGuardContext {
+    merchant: MerchantProfile;
+    reason?: string;
+}
 
 export class MerchantService {
+    constructor(
+        private readonly repository: MerchantRepository = createMerchantRepository(),
+        private readonly historyRepository: StatusHistoryRepository = createStatusHistoryRepository(),
+        // Recorded on outbox events and bank submission jobs so their workers read the same merchant store
+        private readonly merchantStore: StorageDriver = getStorageDriver()
+    ) {
+        outboxDispatcher.watch(merchantStore);
+        bankSubmissionQueue.watch(merchantStore);
+    }
+
     /**
      * Create a new merchant profile
      */
@@ -22,7 +54,7 @@ export class MerchantService {
         data: MerchantSubmission
     ): Promise<MerchantProfile> {
         // Check if user already has a merchant profile
-        if (merchantsByUserId.has(userId)) {
+        if (await this.repository.findByUserId(userId)) {
             throw new ConflictError(
                 'Merchant profile already exists for this user',
                 'MERCHANT_ALREADY_EXISTS'
@@ -34,6 +66,7 @@ export class MerchantService {
 
         const merchant: MerchantProfile = {
             ...data,
+            documents: this.reconcileDocuments(data.documents, []),
             id: merchantId,
             userId,
             onboardingStatus: 'draft',
@@ -41,8 +74,7 @@ export class MerchantService {
             updatedAt: now
         };
 
-        merchants.set(merchantId, merchant);
-        merchantsByUserId.set(userId, merchantId);
+        const created = await this.repository.create(merchant);
 
         logger.info('Merchant profile created', {
             merchantId,
@@ -50,14 +82,14 @@ export class MerchantService {
             businessName: data.businessName
         });
 
-        return merchant;
+        return created;
     }
 
     /**
      * Get merchant by ID
      */
     async getMerchantById(merchantId: string): Promise<MerchantProfile> {
-        const merchant = merchants.get(merchantId);
+        const merchant = await this.repository.findById(merchantId);
 
         if (!merchant) {
             throw new NotFoundError(
@@ -73,13 +105,7 @@ export class MerchantService {
      * Get merchant by user ID
      */
     async getMerchantByUserId(userId: string): Promise<MerchantProfile | null> {
-        const merchantId = merchantsByUserId.get(userId);
-
-        if (!merchantId) {
-            return null;
-        }
-
-        return merchants.get(merchantId) || null;
+        return this.repository.findByUserId(userId);
     }
 
     /**
@@ -91,8 +117,8 @@ export class MerchantService {
     ): Promise<MerchantProfile> {
         const merchant = await this.getMerchantById(merchantId);
 
-        // Only allow updates if status is draft or rejected
-        if (!['draft', 'rejected'].includes(merchant.onboardingStatus)) {
+        // Only allow updates while the merchant can still (re)submit
+        if (!onboardingStateMachine.can(merchant.onboardingStatus, 'SUBMIT')) {
             throw new BadRequestError(
                 'Cannot update merchant in current status',
                 'INVALID_STATUS_FOR_UPDATE'
@@ -102,62 +128,233 @@ export class MerchantService {
         const updated: MerchantProfile = {
             ...merchant,
             ...data,
+            documents: data.documents
+                ? this.reconcileDocuments(data.documents, merchant.documents)
+                : merchant.documents,
             id: merchant.id,
             userId: merchant.userId,
             onboardingStatus: merchant.onboardingStatus,
             updatedAt: new Date().toISOString()
         };
 
-        merchants.set(merchantId, updated);
+        const stored = await this.repository.update(updated);
 
         logger.info('Merchant profile updated', {
             merchantId,
             userId: merchant.userId
         });
 
-        return updated;
+        return stored;
     }
 
     /**
-     * Update merchant status
+     * Apply an onboarding event and record the transition. The entry actions of
+     * the new status are written to the outbox in the same transaction and run
+     * by the outbox dispatcher, so a failing notification cannot fail or undo
+     * the status change. Bank submissions are queued in the same transaction on
+     * their own durable queue.
      */
-    async updateStatus(
+    async transition(
         merchantId: string,
-        newStatus: OnboardingStatus,
+        event: OnboardingEvent,
         reason?: string,
-        additionalData?: Partial<MerchantProfile>
+        additionalData?: Partial<MerchantProfile>,
+        context: StatusChangeContext = { actorType: 'system' }
     ): Promise<MerchantProfile> {
         const merchant = await this.getMerchantById(merchantId);
-        const oldStatus = merchant.onboardingStatus;
+        const candidate: MerchantProfile = { ...merchant, ...additionalData };
 
-        // Validate status transition
-        this.validateStatusTransition(oldStatus, newStatus);
+        const transition = onboardingStateMachine.transition(
+            merchant.onboardingStatus,
+            event,
+            this.guards,
+            { merchant: candidate, reason }
+        );
 
         const now = new Date().toISOString();
-        const statusTimestampField = this.getStatusTimestampField(newStatus);
 
         const updated: MerchantProfile = {
-            ...merchant,
-            ...additionalData,
-            onboardingStatus: newStatus,
-            rejectionReason: newStatus === 'rejected' ? reason : undefined,
-            [statusTimestampField]: now,
+            ...candidate,
+            onboardingStatus: transition.to,
+            rejectionReason: transition.to === 'rejected' ? reason : undefined,
+            // An open information request ends with a decision on the application
+            ...(transition.to === 'approved' || transition.to === 'rejected'
+                ? { requestedDocuments: undefined, infoRequestReason: undefined }
+                : {}),
+            [onboardingStateMachine.getTimestampField(transition.to)]: now,
             updatedAt: now
         };
 
-        merchants.set(merchantId, updated);
+        const metadata = additionalData?.metadata || context.metadata
+            ? { ...additionalData?.metadata, ...context.metadata }
+            : undefined;
 
-        const statusUpdate: StatusUpdate = {
+        const historyEntry: StatusHistoryEntry = {
+            id: uuidv4(),
             merchantId,
-            fromStatus: oldStatus,
-            toStatus: newStatus,
+            fromStatus: transition.from,
+            toStatus: transition.to,
             reason,
-            metadata: additionalData?.metadata
+            metadata,
+            actorId: context.actorId,
+            actorType: context.actorType,
+            createdAt: now
+        };
+
+        const handlers = this.getOutboxHandlers(transition);
+        const events: OutboxEvent[] = handlers.length > 0
+            ? [outboxDispatcher.createStatusChangeEvent(merchantId, this.merchantStore, {
+                historyId: historyEntry.id,
+                event,
+                fromStatus: transition.from,
+                toStatus: transition.to,
+                reason,
+                metadata,
+                actorId: context.actorId,
+                actorType: context.actorType
+            }, handlers)]
+            : [];
+
+        // The queue worker calls the bank and records the application ID
+        const bankJob = transition.actions.includes('submitToBank')
+            ? bankSubmissionQueue.createJob(merchantId, this.merchantStore)
+            : undefined;
+
+        const stored = await this.repository.applyStatusChange(updated, historyEntry, events, bankJob);
+
+        // Another change got there first; this one was resolved from a status the merchant has left
+        if (!stored) {
+            throw new ConflictError(
+                `The merchant is no longer ${transition.from}, ${event} was not applied`,
+                'STATUS_CHANGED_CONCURRENTLY'
+            );
+        }
+
+        onboardingTransitions.inc({ from: transition.from, to: transition.to, event });
+
+        if (events.length > 0) {
+            outboxDispatcher.wake();
+        }
+
+        if (bankJob) {
+            bankSubmissionQueue.wake();
+        }
+
+        return stored;
+    }
+
+    /**
+     * Move a merchant to a status through the first event defined from its
+     * current status to that one. Kept for callers of the status-based API;
+     * where two events reach the same status (VALIDATION_FAIL and REJECT) it
+     * cannot tell which was meant.
+     * @deprecated Use transition() with an event
+     */
+    async updateStatus(
+        merchantId: string,
+        newStatus: OnboardingStatus,
+        reason?: string,
+        additionalData?: Partial<MerchantProfile>,
+        context?: StatusChangeContext
+    ): Promise<MerchantProfile> {
+        const merchant = await this.getMerchantById(merchantId);
+        const event = onboardingStateMachine.findEvent(merchant.onboardingStatus, newStatus);
+
+        if (!event) {
+            throw new BadRequestError(
+                `Invalid status transition: ${merchant.onboardingStatus} to ${newStatus}`,
+                'INVALID_STATUS_TRANSITION'
+            );
+        }
+
+        return this.transition(merchantId, event, reason, additionalData, context);
+    }
+
+    /**
+     * Add the documents the bank asked for and send the application back to the bank
+     */
+    async provideRequestedInfo(
+        merchantId: string,
+        documents: MerchantDocument[],
+        context: StatusChangeContext
+    ): Promise<MerchantProfile> {
+        const merchant = await this.getMerchantById(merchantId);
+
+        onboardingStateMachine.assertCan(merchant.onboardingStatus, 'PROVIDE_INFO');
+
+        const requested = merchant.requestedDocuments || [];
+        const unrequested = documents.filter(doc => !requested.includes(doc.type));
+
+        if (unrequested.length > 0) {
+            throw new BadRequestError(
+                `The bank did not ask for: ${unrequested.map(doc => doc.type).join(', ')}`,
+                'DOCUMENT_NOT_REQUESTED'
+            );
+        }
+
+        const now = new Date().toISOString();
+        const uploaded: MerchantDocument[] = documents.map(doc => ({
+            type: doc.type,
+            url: doc.url,
+            filename: doc.filename,
+            uploadedAt: now
+        }));
+
+        return this.transition(
+            merchantId,
+            'PROVIDE_INFO',
+            undefined,
+            { documents: [...merchant.documents, ...uploaded], infoProvidedAt: now },
+            context
+        );
+    }
+
+    /**
+     * Whether a bank decision can still be applied. A decision for a merchant
+     * that already left pending_bank_approval is acknowledged rather than
+     * failed, or the bank would redeliver it forever; one that contradicts
+     * the merchant's status is raised with the admin team.
+     */
+    async acceptsBankDecision(
+        merchant: MerchantProfile,
+        event: OnboardingEvent,
+        applicationId: string
+    ): Promise<boolean> {
+        if (onboardingStateMachine.can(merchant.onboardingStatus, event)) {
+            return true;
+        }
+
+        const details = {
+            merchantId: merchant.id,
+            applicationId,
+            event,
+            status: merchant.onboardingStatus
         };
 
-        logger.onboarding(merchantId, newStatus, oldStatus, merchant.userId);
+        // A redelivery of the decision that got the merchant here
+        if (onboardingStateMachine.findEvent('pending_bank_approval', merchant.onboardingStatus) === event) {
+            logger.info('Bank decision already applied', details);
+            return false;
+        }
+
+        logger.warn('Bank decision ignored, it does not apply from the merchant\'s status', details);
 
-        return updated;
+        await notificationService.notifyAdminReconciliationAlert(
+            merchant,
+            'BANK_DECISION_IGNORED',
+            `The bank sent ${event} for application ${applicationId}, but the merchant is already ${merchant.onboardingStatus}. The decision was not applied.`
+        );
+
+        return false;
+    }
+
+    /**
+     * Get the status history (oldest first) for a merchant
+     */
+    async getStatusHistory(merchantId: string): Promise<StatusHistoryEntry[]> {
+        await this.getMerchantById(merchantId);
+
+        return this.historyRepository.findByMerchantId(merchantId);
     }
 
     /**
@@ -166,13 +363,73 @@ export class MerchantService {
     async getAllMerchants(
         status?: OnboardingStatus
     ): Promise<MerchantProfile[]> {
-        let allMerchants = Array.from(merchants.values());
+        return this.repository.findAll(status);
+    }
+
+    /**
+     * Number of merchants in each onboarding status
+     */
+    async countByStatus(): Promise<Record<OnboardingStatus, number>> {
+        return this.repository.countByStatus();
+    }
+
+    /**
+     * Mark one document verified once an admin has reviewed it. This is the only
+     * way a document becomes verified, which the bank submission guard requires.
+     */
+    async verifyDocument(
+        merchantId: string,
+        documentId: string,
+        context: StatusChangeContext
+    ): Promise<MerchantProfile> {
+        const merchant = await this.getMerchantById(merchantId);
+        const document = merchant.documents.find(doc => doc.id === documentId);
+
+        if (!document) {
+            throw new NotFoundError(
+                'Document not found',
+                'DOCUMENT_NOT_FOUND'
+            );
+        }
 
-        if (status) {
-            allMerchants = allMerchants.filter(m => m.onboardingStatus === status);
+        if (document.verified) {
+            return merchant;
+        }
+
+        if (!await this.repository.verifyDocument(merchantId, documentId, new Date().toISOString())) {
+            throw new NotFoundError(
+                'Document not found',
+                'DOCUMENT_NOT_FOUND'
+            );
         }
 
-        return allMerchants;
+        logger.business('merchant_document_verified', merchantId, 'merchant', {
+            documentId,
+            documentType: document.type,
+            actorId: context.actorId,
+            actorType: context.actorType
+        });
+
+        return this.getMerchantById(merchantId);
+    }
+
+    /**
+     * The documents of a profile save. One the merchant already has (same id)
+     * is kept as stored, review status included; any other is a new, unverified
+     * upload, whatever the caller sent.
+     */
+    private reconcileDocuments(
+        documents: MerchantDocument[] = [],
+        stored: MerchantDocument[]
+    ): MerchantDocument[] {
+        const storedById = new Map(stored.filter(doc => doc.id).map(doc => [doc.id, doc]));
+
+        return documents.map(doc => storedById.get(doc.id) ?? {
+            type: doc.type,
+            url: doc.url,
+            filename: doc.filename,
+            uploadedAt: doc.uploadedAt || new Date().toISOString()
+        });
     }
 
     /**
@@ -181,8 +438,7 @@ export class MerchantService {
     async deleteMerchant(merchantId: string): Promise<void> {
         const merchant = await this.getMerchantById(merchantId);
 
-        merchants.delete(merchantId);
-        merchantsByUserId.delete(merchant.userId);
+        await this.repository.delete(merchantId);
 
         logger.info('Merchant profile deleted', {
             merchantId,
@@ -191,46 +447,46 @@ export class MerchantService {
     }
 
     /**
-     * Validate status transition
+     * Guards evaluated against the merchant profile
      */
-    private validateStatusTransition(
-        currentStatus: OnboardingStatus,
-        newStatus: OnboardingStatus
-    ): void {
-        const validTransitions: Record<OnboardingStatus, OnboardingStatus[]> = {
-            draft: ['submitted'],
-            submitted: ['validating', 'rejected'],
-            validating: ['pending_bank_approval', 'rejected'],
-            pending_bank_approval: ['approved', 'rejected'],
-            approved: [],
-            rejected: ['submitted'] // Allow resubmission
-        };
-
-        const allowedStatuses = validTransitions[currentStatus];
-
-        if (!allowedStatuses.includes(newStatus)) {
-            throw new BadRequestError(
-                `Invalid status transition from ${currentStatus} to ${newStatus}`,
-                'INVALID_STATUS_TRANSITION'
-            );
-        }
-    }
+    private readonly guards: GuardImplementations<MerchantGuardContext> = {
+        requiredDocumentsUploaded: ({ merchant }) =>
+            REQUIRED_DOCUMENT_TYPES.every(type => merchant.documents.some(doc => doc.type === type)),
+        requiredDocumentsVerified: ({ merchant }) =>
+            validationService.getUnverifiedRequiredDocuments(merchant).length === 0,
+        rejectionReasonProvided: ({ reason }) => Boolean(reason && reason.trim()),
+        bankSubmissionPending: ({ merchant }) =>
+            !merchant.bankApplicationId || Boolean(merchant.requestedDocuments?.length),
+        requestedDocumentsListed: ({ merchant }) => Boolean(merchant.requestedDocuments?.length),
+        requestedDocumentsUploaded: ({ merchant }) =>
+            validationService.getMissingRequestedDocuments(merchant).length === 0
+    };
 
     /**
-     * Get the timestamp field name for a given status
+     * The outbox handlers for a transition: the entry actions of the new status
+     * other than the bank submission, with the merchant told (by message and in
+     * the app) only when the status changed
      */
-    private getStatusTimestampField(status: OnboardingStatus): string {
-        const fieldMap: Record<OnboardingStatus, string> = {
-            draft: 'createdAt',
-            submitted: 'submittedAt',
-            validating: 'validatedAt',
-            pending_bank_approval: 'bankSubmittedAt',
-            approved: 'decisionAt',
-            rejected: 'decisionAt'
-        };
-
-        return fieldMap[status];
+    private getOutboxHandlers(transition: OnboardingTransition): OutboxHandler[] {
+        return transition.actions.flatMap((action): OutboxHandler[] => {
+            switch (action) {
+                case 'submitToBank':
+                    return [];
+                case 'notifyMerchant':
+                    // Retries within the same status are not a status change for the merchant
+                    return transition.from === transition.to ? [] : ['notifyMerchant', 'notifyInApp'];
+                default:
+                    return [action];
+            }
+        });
     }
 }
 
-export const merchantService = new MerchantService();
\ No newline at end of file
+export const merchantService = new MerchantService();
+
+// The onboarding funnel, counted from the merchant store at scrape time
+metrics.gauge('merchants_by_status', 'Merchants in each onboarding status.', ['status'], async gauge => {
+    const counts = await merchantService.countByStatus();
+
+    Object.entries(counts).forEach(([status, count]) => gauge.set({ status }, count));
+});
\ No newline at end of file
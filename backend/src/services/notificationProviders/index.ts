@@ -0,0 +1,102 @@
+// backend/src/services/notificationProviders/index.ts
+import { config } from '../../config/env';
+import { NotificationChannel } from '../../types/notification';
+import { NotificationProvider } from './notificationProvider';
+import { FileSinkProvider, MemorySinkProvider } from './sinkProviders';
+import { SmsGatewayProvider } from './smsGatewayProvider';
+import { SmtpEmailProvider } from './smtpEmailProvider';
+import { WebPushProvider } from './webPushProvider';
+import { WhatsAppProvider } from './whatsAppProvider';
+
+export type { NotificationProvider, ProviderReceipt } from './notificationProvider';
+export { FileSinkProvider, MemorySinkProvider } from './sinkProviders';
+export { PUSH_SUBSCRIPTION_GONE } from './webPushProvider';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'sms', 'whatsapp', 'push'];
+
+/**
+ * The provider that sends each channel
+ */
+export class NotificationProviderRegistry {
+    private readonly providers = new Map<NotificationChannel, NotificationProvider>();
+
+    constructor(providers: NotificationProvider[]) {
+        providers.forEach(provider => this.providers.set(provider.channel, provider));
+    }
+
+    get(channel: NotificationChannel): NotificationProvider {
+        const provider = this.providers.get(channel);
+
+        if (!provider) {
+            throw new Error(`No notification provider for ${channel}`);
+        }
+
+        return provider;
+    }
+
+    list(): NotificationProvider[] {
+        return Array.from(this.providers.values());
+    }
+}
+
+// loadConfig refuses to start when a selected gateway's settings are missing
+function createGatewayProvider(channel: NotificationChannel): NotificationProvider {
+    const timeoutMs = config.NOTIFICATION_TIMEOUT_MS;
+
+    switch (channel) {
+        case 'email':
+            return new SmtpEmailProvider({
+                host: config.SMTP_HOST ?? '',
+                port: config.SMTP_PORT,
+                secure: config.SMTP_SECURE,
+                user: config.SMTP_USER,
+                password: config.SMTP_PASSWORD,
+                from: config.EMAIL_FROM,
+                timeoutMs
+            });
+        case 'sms':
+            return new SmsGatewayProvider({
+                url: config.SMS_GATEWAY_URL ?? '',
+                apiKey: config.SMS_GATEWAY_API_KEY ?? '',
+                senderId: config.SMS_SENDER_ID,
+                timeoutMs
+            });
+        case 'whatsapp':
+            return new WhatsAppProvider({
+                apiUrl: config.WHATSAPP_API_URL,
+                phoneNumberId: config.WHATSAPP_PHONE_NUMBER_ID ?? '',
+                accessToken: config.WHATSAPP_ACCESS_TOKEN ?? '',
+                timeoutMs
+            });
+        case 'push':
+            return new WebPushProvider({
+                publicKey: config.VAPID_PUBLIC_KEY ?? '',
+                privateKey: config.VAPID_PRIVATE_KEY ?? '',
+                subject: config.VAPID_SUBJECT,
+                ttlSeconds: config.PUSH_TTL_SECONDS,
+                timeoutMs
+            });
+    }
+}
+
+const PROVIDER_SETTINGS: Record<NotificationChannel, 'smtp' | 'gateway' | 'cloud_api' | 'web_push' | 'file' | 'memory'> = {
+    email: config.NOTIFICATION_EMAIL_PROVIDER,
+    sms: config.NOTIFICATION_SMS_PROVIDER,
+    whatsapp: config.NOTIFICATION_WHATSAPP_PROVIDER,
+    push: config.NOTIFICATION_PUSH_PROVIDER
+};
+
+export function createNotificationProvider(channel: NotificationChannel): NotificationProvider {
+    switch (PROVIDER_SETTINGS[channel]) {
+        case 'file':
+            return new FileSinkProvider(channel, config.NOTIFICATION_SINK_DIR);
+        case 'memory':
+            return new MemorySinkProvider(channel);
+        default:
+            return createGatewayProvider(channel);
+    }
+}
+
+export const notificationProviderRegistry = new NotificationProviderRegistry(
+    NOTIFICATION_CHANNELS.map(createNotificationProvider)
+);
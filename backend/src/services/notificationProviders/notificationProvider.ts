@@ -0,0 +1,18 @@
+// backend/src/services/notificationProviders/notificationProvider.ts
+import { NotificationChannel, NotificationPayload } from '../../types/notification';
+
+export interface ProviderReceipt {
+    providerMessageId?: string;
+}
+
+/**
+ * Sends messages on one channel. NotificationService picks the recipients,
+ * records each delivery and handles errors; a provider only talks to its
+ * gateway and throws when the message was not accepted.
+ */
+export interface NotificationProvider {
+    readonly name: string; // recorded on each delivery
+    readonly channel: NotificationChannel;
+
+    send(message: NotificationPayload): Promise<ProviderReceipt>;
+}
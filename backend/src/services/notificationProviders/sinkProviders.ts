@@ -0,0 +1,53 @@
+// backend/src/services/notificationProviders/sinkProviders.ts
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { NotificationChannel, NotificationPayload } from '../../types/notification';
+import { NotificationProvider, ProviderReceipt } from './notificationProvider';
+
+// Push subscriptions carry the browser's keys; sinks keep only the endpoint
+const toSinkRecord = ({ pushSubscription: _pushSubscription, ...message }: NotificationPayload) => message;
+
+/**
+ * Appends each message as a JSON line to <directory>/<channel>.ndjson,
+ * for local development and end-to-end tests
+ */
+export class FileSinkProvider implements NotificationProvider {
+    readonly name = 'file';
+    private readonly filePath: string;
+
+    constructor(readonly channel: NotificationChannel, directory: string) {
+        fs.mkdirSync(directory, { recursive: true });
+        this.filePath = path.join(directory, `${channel}.ndjson`);
+    }
+
+    async send(message: NotificationPayload): Promise<ProviderReceipt> {
+        const providerMessageId = uuidv4();
+
+        await fs.promises.appendFile(
+            this.filePath,
+            `${JSON.stringify({ id: providerMessageId, sentAt: new Date().toISOString(), ...toSinkRecord(message) })}\n`
+        );
+
+        return { providerMessageId };
+    }
+}
+
+/**
+ * Keeps messages in memory, for tests that assert on what was sent
+ */
+export class MemorySinkProvider implements NotificationProvider {
+    readonly name = 'memory';
+    readonly sent: NotificationPayload[] = [];
+
+    constructor(readonly channel: NotificationChannel) {}
+
+    async send(message: NotificationPayload): Promise<ProviderReceipt> {
+        this.sent.push(message);
+        return { providerMessageId: uuidv4() };
+    }
+
+    clear(): void {
+        this.sent.length = 0;
+    }
+}
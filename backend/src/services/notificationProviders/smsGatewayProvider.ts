@@ -0,0 +1,67 @@
+// backend/src/services/notificationProviders/smsGatewayProvider.ts
+import axios from 'axios';
+import { NotificationPayload } from '../../types/notification';
+import { ExternalApiError } from '../../utils/errors';
+import { NotificationProvider, ProviderReceipt } from './notificationProvider';
+
+export interface SmsGatewayOptions {
+    url: string;
+    apiKey: string;
+    senderId: string; // DLT-registered header, e.g. SABBPE
+    timeoutMs: number;
+}
+
+/**
+ * Indian mobile numbers in E.164; 10-digit numbers get the +91 prefix
+ */
+export function toE164(phone: string): string {
+    const digits = phone.replace(/\D/g, '');
+
+    if (digits.length === 10) return `+91${digits}`;
+    if (digits.length === 12 && digits.startsWith('91')) return `+${digits}`;
+
+    return phone.trim().startsWith('+') ? `+${digits}` : phone;
+}
+
+/**
+ * SMS through an HTTP gateway that accepts { to, from, message } as JSON with
+ * a bearer API key and answers with the message id (MSG91, Gupshup, Kaleyra
+ * and Twilio all offer such an endpoint or a thin proxy for it)
+ */
+export class SmsGatewayProvider implements NotificationProvider {
+    readonly name = 'sms_gateway';
+    readonly channel = 'sms' as const;
+
+    constructor(private readonly options: SmsGatewayOptions) {}
+
+    async send(message: NotificationPayload): Promise<ProviderReceipt> {
+        try {
+            const response = await axios.post(
+                this.options.url,
+                {
+                    to: toE164(message.to),
+                    from: this.options.senderId,
+                    message: message.body
+                },
+                {
+                    headers: {
+                        Authorization: `Bearer ${this.options.apiKey}`,
+                        'Content-Type': 'application/json'
+                    },
+                    timeout: this.options.timeoutMs
+                }
+            );
+
+            const data = response.data as { id?: string; messageId?: string; message_id?: string } | undefined;
+
+            return { providerMessageId: data?.id ?? data?.messageId ?? data?.message_id };
+        } catch (error) {
+            throw new ExternalApiError(
+                'SMS gateway did not accept the message',
+                502,
+                'SMS_GATEWAY_ERROR',
+                axios.isAxiosError(error) ? error.response?.status?.toString() ?? error.code : undefined
+            );
+        }
+    }
+}
@@ -0,0 +1,267 @@
+// backend/src/services/notificationProviders/smtpEmailProvider.ts
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { v4 as uuidv4 } from 'uuid';
+import { NotificationPayload } from '../../types/notification';
+import { ExternalApiError } from '../../utils/errors';
+import { NotificationProvider, ProviderReceipt } from './notificationProvider';
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when the server offers it
+    user?: string;
+    password?: string;
+    from: string; // "Name <address>" or an address
+    timeoutMs: number;
+}
+
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+/**
+ * One SMTP session: writes commands and reads replies, which end at the
+ * first line with a space (not a dash) after the code
+ */
+class SmtpConnection {
+    private buffer = '';
+    private pendingLines: string[] = [];
+    private readonly replies: SmtpReply[] = [];
+    private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+    private error: Error | null = null;
+
+    constructor(private socket: net.Socket, private readonly timeoutMs: number) {
+        this.attach(socket);
+    }
+
+    get encrypted(): boolean {
+        return this.socket instanceof tls.TLSSocket;
+    }
+
+    async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+        if (line !== null) {
+            this.socket.write(`${line}\r\n`);
+        }
+
+        const reply = await this.read();
+
+        if (!expected.includes(reply.code)) {
+            throw new ExternalApiError(
+                `SMTP server replied ${reply.code}: ${reply.lines.join(' ')}`,
+                502,
+                'SMTP_ERROR'
+            );
+        }
+
+        return reply;
+    }
+
+    // STARTTLS: continue the session over TLS on the same socket
+    upgrade(servername: string): Promise<void> {
+        const plain = this.socket;
+
+        plain.removeAllListeners('data');
+        plain.removeAllListeners('error');
+        plain.removeAllListeners('close');
+        plain.setTimeout(0);
+
+        return new Promise((resolve, reject) => {
+            const secure = tls.connect({ socket: plain, servername }, () => resolve());
+
+            secure.once('error', reject);
+            this.socket = secure;
+            this.attach(secure);
+        });
+    }
+
+    close(): void {
+        this.socket.destroy();
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+        socket.on('error', error => this.fail(error));
+        socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+        socket.setTimeout(this.timeoutMs, () => {
+            this.fail(new Error('SMTP server timed out'));
+            socket.destroy();
+        });
+    }
+
+    private read(): Promise<SmtpReply> {
+        const reply = this.replies.shift();
+
+        if (reply) return Promise.resolve(reply);
+        if (this.error) return Promise.reject(this.error);
+
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+        });
+    }
+
+    private onData(chunk: string): void {
+        this.buffer += chunk;
+
+        let end = this.buffer.indexOf('\r\n');
+
+        while (end >= 0) {
+            const line = this.buffer.slice(0, end);
+
+            this.buffer = this.buffer.slice(end + 2);
+            this.pendingLines.push(line.slice(4));
+
+            if (line.charAt(3) !== '-') {
+                this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.pendingLines });
+                this.pendingLines = [];
+            }
+
+            end = this.buffer.indexOf('\r\n');
+        }
+
+        const reply = this.waiting && this.replies.shift();
+
+        if (this.waiting && reply) {
+            const { resolve } = this.waiting;
+
+            this.waiting = null;
+            resolve(reply);
+        }
+    }
+
+    private fail(error: Error): void {
+        this.error ??= error;
+
+        if (this.waiting) {
+            const { reject } = this.waiting;
+
+            this.waiting = null;
+            reject(error);
+        }
+    }
+}
+
+// Header values cannot span lines; non-ASCII text goes in an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+    const singleLine = value.replace(/[\r\n]+/g, ' ');
+
+    return /^[\x20-\x7e]*$/.test(singleLine)
+        ? singleLine
+        : `=?UTF-8?B?${Buffer.from(singleLine, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(text: string): string {
+    return (Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+function addressOf(mailbox: string): string {
+    const match = /<([^>]+)>/.exec(mailbox);
+    return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Email over SMTP (any relay: SES, SendGrid, Postfix, MailHog)
+ */
+export class SmtpEmailProvider implements NotificationProvider {
+    readonly name = 'smtp';
+    readonly channel = 'email' as const;
+
+    constructor(private readonly options: SmtpOptions) {}
+
+    async send(message: NotificationPayload): Promise<ProviderReceipt> {
+        const fromAddress = addressOf(this.options.from);
+        const messageId = `<${uuidv4()}@${fromAddress.split('@')[1] || os.hostname()}>`;
+        const connection = new SmtpConnection(await this.connect(), this.options.timeoutMs);
+
+        try {
+            await connection.command(null, [220]);
+            const hello = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+            if (!connection.encrypted && hello.lines.some(line => /^STARTTLS\b/i.test(line))) {
+                await connection.command('STARTTLS', [220]);
+                await connection.upgrade(this.options.host);
+                await connection.command(`EHLO ${os.hostname()}`, [250]);
+            }
+
+            if (this.options.user) {
+                if (!connection.encrypted) {
+                    throw new ExternalApiError(
+                        'SMTP server does not support TLS; credentials were not sent',
+                        502,
+                        'SMTP_TLS_REQUIRED'
+                    );
+                }
+
+                const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password ?? ''}`, 'utf8');
+                await connection.command(`AUTH PLAIN ${credentials.toString('base64')}`, [235]);
+            }
+
+            await connection.command(`MAIL FROM:<${fromAddress}>`, [250]);
+            await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+            await connection.command('DATA', [354]);
+            // Lines starting with a dot are escaped so they cannot end the message early
+            await connection.command(`${this.buildMessage(message, messageId).replace(/^\./gm, '..')}\r\n.`, [250]);
+            await connection.command('QUIT', [221]).catch(() => undefined);
+
+            return { providerMessageId: messageId };
+        } finally {
+            connection.close();
+        }
+    }
+
+    private connect(): Promise<net.Socket> {
+        const { host, port, secure, timeoutMs } = this.options;
+
+        return new Promise((resolve, reject) => {
+            const socket = secure
+                ? tls.connect({ host, port, servername: host })
+                : net.connect({ host, port });
+
+            socket.once(secure ? 'secureConnect' : 'connect', () => {
+                socket.removeListener('error', reject);
+                resolve(socket);
+            });
+            socket.once('error', reject);
+            socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+        });
+    }
+
+    private buildMessage(message: NotificationPayload, messageId: string): string {
+        const headers = [
+            `From: ${encodeHeader(this.options.from)}`,
+            `To: ${encodeHeader(message.to)}`,
+            `Subject: ${encodeHeader(message.subject)}`,
+            `Date: ${new Date().toUTCString()}`,
+            `Message-ID: ${messageId}`,
+            'MIME-Version: 1.0'
+        ];
+        const textPart = [
+            'Content-Type: text/plain; charset=utf-8',
+            'Content-Transfer-Encoding: base64',
+            '',
+            base64Lines(message.body)
+        ];
+
+        if (!message.html) {
+            return [...headers, ...textPart].join('\r\n');
+        }
+
+        const boundary = `=_${uuidv4()}`;
+
+        return [
+            ...headers,
+            `Content-Type: multipart/alternative; boundary="${boundary}"`,
+            '',
+            `--${boundary}`,
+            ...textPart,
+            `--${boundary}`,
+            'Content-Type: text/html; charset=utf-8',
+            'Content-Transfer-Encoding: base64',
+            '',
+            base64Lines(message.html),
+            `--${boundary}--`
+        ].join('\r\n');
+    }
+}
@@ -0,0 +1,147 @@
+// backend/src/services/notificationProviders/webPushProvider.ts
+import crypto from 'crypto';
+import axios from 'axios';
+import { NotificationPayload, WebPushSubscription } from '../../types/notification';
+import { ExternalApiError } from '../../utils/errors';
+import { NotificationProvider, ProviderReceipt } from './notificationProvider';
+
+export interface WebPushOptions {
+    publicKey: string; // base64url uncompressed P-256 point, as shared with the PWA
+    privateKey: string; // base64url 32-byte private scalar
+    subject: string; // mailto: or https: contact for push services
+    ttlSeconds: number;
+    timeoutMs: number;
+}
+
+// Thrown when the browser unsubscribed; the subscription should be dropped
+export const PUSH_SUBSCRIPTION_GONE = 'PUSH_SUBSCRIPTION_GONE';
+
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+const fromBase64Url = (value: string): Buffer => Buffer.from(value, 'base64url');
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+    return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Encrypt a payload for one subscription (RFC 8291, aes128gcm content coding)
+ */
+export function encryptPushPayload(subscription: WebPushSubscription, payload: Buffer): Buffer {
+    const clientPublicKey = fromBase64Url(subscription.keys.p256dh);
+    const authSecret = fromBase64Url(subscription.keys.auth);
+    const ecdh = crypto.createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(clientPublicKey);
+    const salt = crypto.randomBytes(16);
+
+    const ikm = hkdf(
+        sharedSecret,
+        authSecret,
+        Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]),
+        32
+    );
+    const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+    const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+    // A single record; the 0x02 delimiter marks it as the last one
+    const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+    const ciphertext = Buffer.concat([
+        cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+        cipher.final(),
+        cipher.getAuthTag()
+    ]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Web push to the PWA's service worker, signed with our VAPID key (RFC 8292)
+ */
+export class WebPushProvider implements NotificationProvider {
+    readonly name = 'web_push';
+    readonly channel = 'push' as const;
+    private readonly signingKey: crypto.KeyObject;
+
+    constructor(private readonly options: WebPushOptions) {
+        const publicKey = fromBase64Url(options.publicKey);
+
+        this.signingKey = crypto.createPrivateKey({
+            format: 'jwk',
+            key: {
+                kty: 'EC',
+                crv: 'P-256',
+                x: publicKey.subarray(1, 33).toString('base64url'),
+                y: publicKey.subarray(33, 65).toString('base64url'),
+                d: options.privateKey
+            }
+        });
+    }
+
+    async send(message: NotificationPayload): Promise<ProviderReceipt> {
+        const subscription = message.pushSubscription;
+
+        if (!subscription) {
+            throw new ExternalApiError('Push message has no subscription', 400, 'PUSH_SUBSCRIPTION_MISSING');
+        }
+
+        // What the service worker's push handler receives
+        const payload = Buffer.from(JSON.stringify({
+            title: message.subject,
+            body: message.body,
+            url: message.url
+        }), 'utf8');
+
+        try {
+            const response = await axios.post(subscription.endpoint, encryptPushPayload(subscription, payload), {
+                headers: {
+                    Authorization: `vapid t=${this.createToken(subscription.endpoint)}, k=${this.options.publicKey}`,
+                    'Content-Encoding': 'aes128gcm',
+                    'Content-Type': 'application/octet-stream',
+                    TTL: String(this.options.ttlSeconds),
+                    Urgency: 'normal'
+                },
+                timeout: this.options.timeoutMs
+            });
+
+            const location = response.headers.location as string | undefined;
+
+            return { providerMessageId: location?.split('/').pop() };
+        } catch (error) {
+            const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+            if (status === 404 || status === 410) {
+                throw new ExternalApiError('Push subscription has expired', 410, PUSH_SUBSCRIPTION_GONE);
+            }
+
+            throw new ExternalApiError(
+                'Push service did not accept the message',
+                502,
+                'PUSH_SERVICE_ERROR',
+                status?.toString()
+            );
+        }
+    }
+
+    // VAPID JWT for the push service's origin, signed ES256
+    private createToken(endpoint: string): string {
+        const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+            aud: new URL(endpoint).origin,
+            exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+            sub: this.options.subject
+        })}`;
+        const signature = crypto.sign('sha256', Buffer.from(unsigned), {
+            key: this.signingKey,
+            dsaEncoding: 'ieee-p1363'
+        });
+
+        return `${unsigned}.${signature.toString('base64url')}`;
+    }
+}
@@ -0,0 +1,62 @@
+// backend/src/services/notificationProviders/whatsAppProvider.ts
+import axios from 'axios';
+import { NotificationPayload } from '../../types/notification';
+import { ExternalApiError } from '../../utils/errors';
+import { NotificationProvider, ProviderReceipt } from './notificationProvider';
+import { toE164 } from './smsGatewayProvider';
+
+export interface WhatsAppOptions {
+    apiUrl: string; // Graph API base, e.g. https://graph.facebook.com/v19.0
+    phoneNumberId: string;
+    accessToken: string;
+    timeoutMs: number;
+}
+
+/**
+ * WhatsApp Business Cloud API text messages. Outside the 24-hour window after
+ * a merchant last wrote to us, Meta only delivers pre-approved templates.
+ */
+export class WhatsAppProvider implements NotificationProvider {
+    readonly name = 'whatsapp_cloud';
+    readonly channel = 'whatsapp' as const;
+
+    constructor(private readonly options: WhatsAppOptions) {}
+
+    async send(message: NotificationPayload): Promise<ProviderReceipt> {
+        try {
+            const response = await axios.post(
+                `${this.options.apiUrl.replace(/\/$/, '')}/${this.options.phoneNumberId}/messages`,
+                {
+                    messaging_product: 'whatsapp',
+                    recipient_type: 'individual',
+                    // Digits only, with the country code
+                    to: toE164(message.to).replace(/^\+/, ''),
+                    type: 'text',
+                    text: { preview_url: false, body: message.body }
+                },
+                {
+                    headers: {
+                        Authorization: `Bearer ${this.options.accessToken}`,
+                        'Content-Type': 'application/json'
+                    },
+                    timeout: this.options.timeoutMs
+                }
+            );
+
+            const data = response.data as { messages?: Array<{ id?: string }> } | undefined;
+
+            return { providerMessageId: data?.messages?.[0]?.id };
+        } catch (error) {
+            const apiError = axios.isAxiosError(error)
+                ? (error.response?.data as { error?: { message?: string; code?: number } } | undefined)?.error
+                : undefined;
+
+            throw new ExternalApiError(
+                apiError?.message ?? 'WhatsApp did not accept the message',
+                502,
+                'WHATSAPP_API_ERROR',
+                apiError?.code?.toString()
+            );
+        }
+    }
+}
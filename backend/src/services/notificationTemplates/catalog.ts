@@ -0,0 +1,77 @@
+// backend/src/services/notificationTemplates/catalog.ts
+import { OnboardingStatus } from '../../types/merchant';
+import { NotificationLocale, NotificationTemplate } from '../../types/notification';
+
+/**
+ * One version of the messages for a status in one language. Every channel is
+ * optional; a missing one falls back to the next locale in the chain.
+ */
+export interface StatusMessages {
+    version: number;
+    email?: {
+        subject: string;
+        paragraphs: string[]; // plain text; a paragraph that renders empty is dropped
+        action: string; // label of the button that opens the dashboard
+    };
+    sms?: string;
+    whatsapp?: string;
+    push?: { title: string; body: string };
+}
+
+const paragraphHtml = (paragraph: string): string =>
+    `<p style="margin:0 0 16px;line-height:1.5">${paragraph.replace(/\n/g, '<br>')}</p>`;
+
+// The email's HTML part: the same paragraphs in our layout, plus a dashboard button
+function emailHtml(locale: NotificationLocale, subject: string, paragraphs: string[], action: string): string {
+    return [
+        '<!DOCTYPE html>',
+        `<html lang="${locale}">`,
+        `<head><meta charset="utf-8"><title>${subject}</title></head>`,
+        '<body style="margin:0;padding:24px;background:#f4f6f8;font-family:Arial,\'Noto Sans\',sans-serif;color:#1f2933">',
+        '<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px">',
+        '<div style="font-size:20px;font-weight:bold;color:#0f766e;margin-bottom:24px">SabbPe</div>',
+        ...paragraphs.map(paragraphHtml),
+        `<a href="{{dashboardUrl}}" style="display:inline-block;background:#0f766e;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none">${action}</a>`,
+        '</div>',
+        '</body>',
+        '</html>'
+    ].join('\n');
+}
+
+/**
+ * Expand per-status messages into one template per channel
+ */
+export function statusTemplates(
+    locale: NotificationLocale,
+    messages: Array<[OnboardingStatus, StatusMessages]>
+): NotificationTemplate[] {
+    return messages.flatMap(([status, { version, email, sms, whatsapp, push }]) => {
+        const key = `status.${status}`;
+        // SMS and WhatsApp have no subject; the delivery log shows this one instead
+        const subject = push?.title ?? email?.subject ?? key;
+        const templates: NotificationTemplate[] = [];
+
+        if (email) {
+            templates.push({
+                key,
+                channel: 'email',
+                locale,
+                version,
+                subject: email.subject,
+                body: email.paragraphs.join('\n\n'),
+                html: emailHtml(locale, email.subject, email.paragraphs, email.action)
+            });
+        }
+        if (sms) {
+            templates.push({ key, channel: 'sms', locale, version, subject, body: sms });
+        }
+        if (whatsapp) {
+            templates.push({ key, channel: 'whatsapp', locale, version, subject, body: whatsapp });
+        }
+        if (push) {
+            templates.push({ key, channel: 'push', locale, version, subject: push.title, body: push.body });
+        }
+
+        return templates;
+    });
+}
@@ -0,0 +1,279 @@
+// backend/src/services/notificationTemplates/index.ts
+import { config } from '../../config/env';
+import { ONBOARDING_STATUSES } from '../../repositories/merchantRepository';
+import { MerchantProfile } from '../../types/merchant';
+import {
+    NotificationChannel,
+    NotificationLocale,
+    NotificationTemplate,
+    RenderedNotification
+} from '../../types/notification';
+import { NotFoundError } from '../../utils/errors';
+import { NOTIFICATION_CHANNELS } from '../notificationProviders';
+import { en } from './locales/en';
+import { hi } from './locales/hi';
+import { mr } from './locales/mr';
+import { ta } from './locales/ta';
+import {
+    TemplateToken,
+    TemplateVariables,
+    escapeHtml,
+    parseTemplate,
+    renderTemplate,
+    templateVariables
+} from './templateEngine';
+
+export type { TemplateVariables } from './templateEngine';
+
+export const NOTIFICATION_LOCALES: NotificationLocale[] = ['en', 'hi', 'mr', 'gu', 'bn', 'ta', 'te', 'kn'];
+
+export const DEFAULT_LOCALE: NotificationLocale = 'en';
+
+// Where to look when a language has no template for a message; English ends every chain
+export const LOCALE_FALLBACKS: Record<NotificationLocale, NotificationLocale[]> = {
+    en: [],
+    hi: ['en'],
+    mr: ['hi', 'en'],
+    gu: ['hi', 'en'],
+    bn: ['en'],
+    ta: ['en'],
+    te: ['en'],
+    kn: ['en']
+};
+
+export const STATUS_TEMPLATE_VARIABLES = [
+    'businessName',
+    'requestedDocuments',
+    'infoRequestReason',
+    'rejectionReason',
+    'dashboardUrl'
+] as const;
+
+// Every template key and the variables its templates may use
+const TEMPLATE_VARIABLES: Record<string, readonly string[]> = Object.fromEntries(
+    ONBOARDING_STATUSES.map(status => [`status.${status}`, STATUS_TEMPLATE_VARIABLES])
+);
+
+// One SMS holds 160 characters of the GSM 7-bit alphabet, or 70 of anything else (UCS-2)
+const GSM_SMS_LENGTH = 160;
+const UNICODE_SMS_LENGTH = 70;
+const GSM_TEXT = /^[\n\r @£$¥èéùìòÇØøÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ!"#¤%&'()*+,\-./0-9:;<=>?¡A-ZÄÖÑÜ§¿a-zäöñüà^{}\\[\]~|€]*$/;
+
+export function smsLengthLimit(text: string): number {
+    return GSM_TEXT.test(text) ? GSM_SMS_LENGTH : UNICODE_SMS_LENGTH;
+}
+
+/**
+ * Accepts a language tag such as hi-IN and returns the locale we send, if any
+ */
+export function toNotificationLocale(value: string): NotificationLocale | undefined {
+    const language = value.trim().toLowerCase().split(/[-_]/)[0];
+
+    return NOTIFICATION_LOCALES.find(locale => locale === language);
+}
+
+/**
+ * What status change templates are rendered against
+ */
+export function statusTemplateVariables(merchant: MerchantProfile): TemplateVariables {
+    return {
+        businessName: merchant.businessName,
+        requestedDocuments: (merchant.requestedDocuments || []).map(type => type.replace(/_/g, ' ')).join(', '),
+        infoRequestReason: merchant.infoRequestReason,
+        rejectionReason: merchant.rejectionReason,
+        dashboardUrl: `${config.APP_URL}/merchant-dashboard`
+    };
+}
+
+// Templates are checked against this merchant at load time and previewed with it
+export const SAMPLE_MERCHANT: MerchantProfile = {
+    id: '00000000-0000-4000-8000-000000000000',
+    userId: '00000000-0000-4000-8000-000000000001',
+    businessName: 'Sharma General Store',
+    businessType: 'retail',
+    registrationNumber: 'ABCPS1234K',
+    taxId: '27ABCPS1234K1Z5',
+    email: 'owner@sharmastore.example',
+    phone: '9876543210',
+    addressLine1: '12 MG Road',
+    city: 'Pune',
+    state: 'Maharashtra',
+    postalCode: '411001',
+    country: 'India',
+    documents: [],
+    onboardingStatus: 'info_requested',
+    requestedDocuments: ['bank_statement', 'business_proof'],
+    infoRequestReason: 'The bank statement must be from the last three months.',
+    rejectionReason: 'The name on the PAN card does not match the business name.',
+    createdAt: '2025-10-01T09:00:00.000Z',
+    updatedAt: '2025-10-03T11:30:00.000Z'
+};
+
+interface CompiledTemplate {
+    definition: NotificationTemplate;
+    subject: TemplateToken[];
+    body: TemplateToken[];
+    html?: TemplateToken[];
+}
+
+const slotOf = (key: string, channel: NotificationChannel, locale: NotificationLocale): string =>
+    `${key}/${channel}/${locale}`;
+
+const templateId = ({ key, channel, locale, version }: NotificationTemplate): string =>
+    `${slotOf(key, channel, locale)}/v${version}`;
+
+// Sections that render empty leave blank lines and paragraphs behind
+const renderText = (tokens: TemplateToken[], variables: TemplateVariables): string =>
+    renderTemplate(tokens, variables).replace(/\n{3,}/g, '\n\n').trim();
+
+const renderHtml = (tokens: TemplateToken[], variables: TemplateVariables): string =>
+    renderTemplate(tokens, variables, escapeHtml).replace(/<p[^>]*>\s*<\/p>\n?/g, '');
+
+/**
+ * Every version of every template, checked when loaded: placeholders must be
+ * known variables of their key, sections must balance, SMS must fit one
+ * message for the sample merchant and English must cover every key and
+ * channel. Any problem fails startup.
+ */
+export class NotificationTemplateRegistry {
+    // slot (key/channel/locale) -> versions, newest first
+    private readonly templates = new Map<string, CompiledTemplate[]>();
+
+    constructor(
+        definitions: NotificationTemplate[],
+        private readonly variables: Record<string, readonly string[]>,
+        sample: TemplateVariables
+    ) {
+        const problems: string[] = [];
+        const defined = new Set(definitions.map(({ key, channel, locale }) => slotOf(key, channel, locale)));
+
+        definitions.forEach(definition => {
+            try {
+                const slot = slotOf(definition.key, definition.channel, definition.locale);
+                const versions = this.templates.get(slot) ?? [];
+
+                if (versions.some(existing => existing.definition.version === definition.version)) {
+                    throw new Error('defined more than once');
+                }
+
+                versions.push(this.compile(definition, sample));
+                versions.sort((a, b) => b.definition.version - a.definition.version);
+                this.templates.set(slot, versions);
+            } catch (error) {
+                problems.push(`${templateId(definition)}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        });
+
+        Object.keys(variables).forEach(key => NOTIFICATION_CHANNELS.forEach(channel => {
+            if (!defined.has(slotOf(key, channel, DEFAULT_LOCALE))) {
+                problems.push(`${slotOf(key, channel, DEFAULT_LOCALE)}: missing`);
+            }
+        }));
+
+        if (problems.length > 0) {
+            throw new Error(`Invalid notification templates:\n  - ${problems.join('\n  - ')}`);
+        }
+    }
+
+    /**
+     * Every loaded template version
+     */
+    list(): NotificationTemplate[] {
+        return Array.from(this.templates.values())
+            .flatMap(versions => versions.map(template => template.definition));
+    }
+
+    /**
+     * Render a message in the first language of the locale's fallback chain
+     * that has it; the newest version unless a version is asked for
+     */
+    render(
+        key: string,
+        channel: NotificationChannel,
+        locale: NotificationLocale,
+        variables: TemplateVariables,
+        version?: number
+    ): RenderedNotification {
+        const template = this.resolve(key, channel, locale, version);
+        const { definition } = template;
+
+        return {
+            template: templateId(definition),
+            locale: definition.locale,
+            version: definition.version,
+            subject: renderText(template.subject, variables),
+            body: renderText(template.body, variables),
+            html: template.html && renderHtml(template.html, variables)
+        };
+    }
+
+    private resolve(
+        key: string,
+        channel: NotificationChannel,
+        locale: NotificationLocale,
+        version?: number
+    ): CompiledTemplate {
+        const versions = [locale, ...LOCALE_FALLBACKS[locale]]
+            .map(candidate => this.templates.get(slotOf(key, channel, candidate)))
+            .find(found => found !== undefined);
+
+        const template = version === undefined
+            ? versions?.[0]
+            : versions?.find(existing => existing.definition.version === version);
+
+        if (!template) {
+            throw new NotFoundError(
+                `No ${channel} template ${key}${version === undefined ? '' : ` version ${version}`} for ${locale}`,
+                'TEMPLATE_NOT_FOUND'
+            );
+        }
+
+        return template;
+    }
+
+    private compile(definition: NotificationTemplate, sample: TemplateVariables): CompiledTemplate {
+        const allowed = this.variables[definition.key];
+
+        if (!allowed) {
+            throw new Error(`unknown template key ${definition.key}`);
+        }
+        if (!Number.isInteger(definition.version) || definition.version < 1) {
+            throw new Error('version must be a positive integer');
+        }
+        if ((definition.channel === 'email') !== Boolean(definition.html)) {
+            throw new Error('email templates, and only email templates, have an HTML part');
+        }
+
+        const template: CompiledTemplate = {
+            definition,
+            subject: parseTemplate(definition.subject),
+            body: parseTemplate(definition.body),
+            html: definition.html === undefined ? undefined : parseTemplate(definition.html)
+        };
+
+        const unknown = [template.subject, template.body, template.html ?? []]
+            .reduce((names, tokens) => templateVariables(tokens, names), new Set<string>());
+        allowed.forEach(name => unknown.delete(name));
+
+        if (unknown.size > 0) {
+            throw new Error(`unknown variable ${Array.from(unknown).join(', ')}`);
+        }
+
+        if (definition.channel === 'sms') {
+            const text = renderText(template.body, sample);
+            const limit = smsLengthLimit(text);
+
+            if (text.length > limit) {
+                throw new Error(`renders to ${text.length} characters for the sample merchant; one SMS holds ${limit}`);
+            }
+        }
+
+        return template;
+    }
+}
+
+export const notificationTemplates = new NotificationTemplateRegistry(
+    [...en, ...hi, ...mr, ...ta],
+    TEMPLATE_VARIABLES,
+    statusTemplateVariables(SAMPLE_MERCHANT)
+);
@@ -0,0 +1,111 @@
+// backend/src/services/notificationTemplates/locales/en.ts
+import { statusTemplates } from '../catalog';
+
+// English is the end of every fallback chain, so every status has every channel here
+export const en = statusTemplates('en', [
+    ['draft', {
+        version: 1,
+        email: {
+            subject: 'Your application is saved',
+            paragraphs: [
+                'Hi {{businessName}},',
+                'Your merchant application has been saved as draft. You can continue editing and submit when ready.'
+            ],
+            action: 'Continue your application'
+        },
+        sms: 'SabbPe: Your merchant application is saved as a draft. Submit it when ready: {{dashboardUrl}}',
+        whatsapp: 'Hi {{businessName}}, your SabbPe merchant application is saved as a draft. You can continue editing and submit it when ready: {{dashboardUrl}}',
+        push: { title: 'Application saved', body: 'Your merchant application is saved as a draft.' }
+    }],
+    ['submitted', {
+        version: 1,
+        email: {
+            subject: 'Application submitted successfully',
+            paragraphs: [
+                'Hi {{businessName}},',
+                'Your merchant application has been submitted successfully. Our team will review it shortly.'
+            ],
+            action: 'View your application'
+        },
+        sms: 'SabbPe: Your merchant application has been submitted. Our team will review it shortly.',
+        whatsapp: 'Hi {{businessName}}, your SabbPe merchant application has been submitted. Our team will review it shortly.',
+        push: { title: 'Application submitted', body: 'Our team will review it shortly.' }
+    }],
+    ['validating', {
+        version: 1,
+        email: {
+            subject: 'Application under review',
+            paragraphs: [
+                'Hi {{businessName}},',
+                'Your application is currently under review by our team. We\'ll notify you once the review is complete.'
+            ],
+            action: 'View your application'
+        },
+        sms: 'SabbPe: Your merchant application is under review. We\'ll let you know once the review is complete.',
+        whatsapp: 'Hi {{businessName}}, our team is reviewing your SabbPe merchant application. We\'ll let you know once the review is complete.',
+        push: { title: 'Application under review', body: 'We\'ll let you know once the review is complete.' }
+    }],
+    ['pending_bank_approval', {
+        version: 1,
+        email: {
+            subject: 'Application sent to bank for approval',
+            paragraphs: [
+                'Hi {{businessName}},',
+                'Your application has been submitted to the bank for final approval. This typically takes 2-3 business days.'
+            ],
+            action: 'View your application'
+        },
+        sms: 'SabbPe: Your application has been sent to the bank for final approval. This typically takes 2-3 business days.',
+        whatsapp: 'Hi {{businessName}}, your SabbPe application has been sent to the bank for final approval. This typically takes 2-3 business days.',
+        push: { title: 'Sent to the bank', body: 'Final approval typically takes 2-3 business days.' }
+    }],
+    ['info_requested', {
+        version: 1,
+        email: {
+            subject: 'The bank needs more documents',
+            paragraphs: [
+                'Hi {{businessName}},',
+                'The bank needs more information to continue with your application. Please upload: {{requestedDocuments}}.',
+                '{{#infoRequestReason}}Note from the bank: {{infoRequestReason}}{{/infoRequestReason}}',
+                'Your application will be sent back to the bank once the documents are uploaded.'
+            ],
+            action: 'Upload documents'
+        },
+        sms: 'SabbPe: The bank needs more documents for your application. Please upload them: {{dashboardUrl}}',
+        whatsapp: 'Hi {{businessName}}, the bank needs more information for your SabbPe application. Please upload: {{requestedDocuments}}.{{#infoRequestReason}}\n\nNote from the bank: {{infoRequestReason}}{{/infoRequestReason}}\n\n{{dashboardUrl}}',
+        push: { title: 'More documents needed', body: 'Please upload: {{requestedDocuments}}' }
+    }],
+    ['approved', {
+        version: 1,
+        email: {
+            subject: 'Congratulations! Your application is approved',
+            paragraphs: [
+                'Hi {{businessName}},',
+                'Congratulations! Your merchant application has been approved. You can now start using our platform.',
+                'Welcome aboard!'
+            ],
+            action: 'Go to your dashboard'
+        },
+        sms: 'SabbPe: Congratulations! Your merchant application is approved. Start using SabbPe: {{dashboardUrl}}',
+        whatsapp: 'Congratulations {{businessName}}! Your SabbPe merchant application has been approved. You can now start using our platform: {{dashboardUrl}}',
+        push: { title: 'Application approved', body: 'You can now start using SabbPe.' }
+    }],
+    ['rejected', {
+        version: 1,
+        email: {
+            subject: 'Application update required',
+            paragraphs: [
+                'Hi {{businessName}},',
+                'Your application requires some updates. Reason: {{rejectionReason}}{{^rejectionReason}}Please review and resubmit.{{/rejectionReason}}',
+                'You can update your application and resubmit.'
+            ],
+            action: 'Update your application'
+        },
+        sms: 'SabbPe: Your merchant application needs updates before it can be approved. Details: {{dashboardUrl}}',
+        whatsapp: 'Hi {{businessName}}, your SabbPe application needs some updates. Reason: {{rejectionReason}}{{^rejectionReason}}Please review and resubmit.{{/rejectionReason}}\n\nYou can update it here: {{dashboardUrl}}',
+        push: {
+            title: 'Application update required',
+            body: '{{rejectionReason}}{{^rejectionReason}}Please review and resubmit.{{/rejectionReason}}'
+        }
+    }]
+]);
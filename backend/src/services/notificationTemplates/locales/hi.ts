@@ -0,0 +1,112 @@
+// backend/src/services/notificationTemplates/locales/hi.ts
+import { statusTemplates } from '../catalog';
+
+// Hindi; also the first fallback for Marathi and Gujarati readers.
+// Devanagari SMS are sent as Unicode, which fits 70 characters, so they carry no link.
+export const hi = statusTemplates('hi', [
+    ['draft', {
+        version: 1,
+        email: {
+            subject: 'आपका आवेदन सहेज लिया गया है',
+            paragraphs: [
+                'नमस्ते {{businessName}},',
+                'आपका मर्चेंट आवेदन ड्राफ्ट के रूप में सहेज लिया गया है। आप इसमें बदलाव जारी रख सकते हैं और तैयार होने पर जमा कर सकते हैं।'
+            ],
+            action: 'आवेदन जारी रखें'
+        },
+        sms: 'SabbPe: आपका आवेदन ड्राफ्ट में सहेज लिया गया है।',
+        whatsapp: 'नमस्ते {{businessName}}, आपका SabbPe मर्चेंट आवेदन ड्राफ्ट के रूप में सहेज लिया गया है। तैयार होने पर इसे यहाँ जमा करें: {{dashboardUrl}}',
+        push: { title: 'आवेदन सहेजा गया', body: 'आपका मर्चेंट आवेदन ड्राफ्ट में सहेज लिया गया है।' }
+    }],
+    ['submitted', {
+        version: 1,
+        email: {
+            subject: 'आवेदन सफलतापूर्वक जमा हुआ',
+            paragraphs: [
+                'नमस्ते {{businessName}},',
+                'आपका मर्चेंट आवेदन सफलतापूर्वक जमा हो गया है। हमारी टीम जल्द ही इसकी समीक्षा करेगी।'
+            ],
+            action: 'आवेदन देखें'
+        },
+        sms: 'SabbPe: आपका आवेदन जमा हो गया है। हम जल्द ही समीक्षा करेंगे।',
+        whatsapp: 'नमस्ते {{businessName}}, आपका SabbPe मर्चेंट आवेदन जमा हो गया है। हमारी टीम जल्द ही इसकी समीक्षा करेगी।',
+        push: { title: 'आवेदन जमा हुआ', body: 'हमारी टीम जल्द ही इसकी समीक्षा करेगी।' }
+    }],
+    ['validating', {
+        version: 1,
+        email: {
+            subject: 'आवेदन की समीक्षा जारी है',
+            paragraphs: [
+                'नमस्ते {{businessName}},',
+                'हमारी टीम आपके आवेदन की समीक्षा कर रही है। समीक्षा पूरी होते ही हम आपको सूचित करेंगे।'
+            ],
+            action: 'आवेदन देखें'
+        },
+        sms: 'SabbPe: आपके आवेदन की समीक्षा हो रही है।',
+        whatsapp: 'नमस्ते {{businessName}}, हमारी टीम आपके SabbPe आवेदन की समीक्षा कर रही है। समीक्षा पूरी होते ही हम आपको सूचित करेंगे।',
+        push: { title: 'समीक्षा जारी है', body: 'समीक्षा पूरी होते ही हम आपको सूचित करेंगे।' }
+    }],
+    ['pending_bank_approval', {
+        version: 1,
+        email: {
+            subject: 'आवेदन बैंक की मंज़ूरी के लिए भेजा गया',
+            paragraphs: [
+                'नमस्ते {{businessName}},',
+                'आपका आवेदन अंतिम मंज़ूरी के लिए बैंक को भेज दिया गया है। इसमें आमतौर पर 2-3 कार्यदिवस लगते हैं।'
+            ],
+            action: 'आवेदन देखें'
+        },
+        sms: 'SabbPe: आपका आवेदन बैंक को भेजा गया है। 2-3 कार्यदिवस लगेंगे।',
+        whatsapp: 'नमस्ते {{businessName}}, आपका SabbPe आवेदन अंतिम मंज़ूरी के लिए बैंक को भेज दिया गया है। इसमें आमतौर पर 2-3 कार्यदिवस लगते हैं।',
+        push: { title: 'बैंक को भेजा गया', body: 'अंतिम मंज़ूरी में आमतौर पर 2-3 कार्यदिवस लगते हैं।' }
+    }],
+    ['info_requested', {
+        version: 1,
+        email: {
+            subject: 'बैंक को और दस्तावेज़ चाहिए',
+            paragraphs: [
+                'नमस्ते {{businessName}},',
+                'आपके आवेदन को आगे बढ़ाने के लिए बैंक को और जानकारी चाहिए। कृपया ये दस्तावेज़ अपलोड करें: {{requestedDocuments}}।',
+                '{{#infoRequestReason}}बैंक की टिप्पणी: {{infoRequestReason}}{{/infoRequestReason}}',
+                'दस्तावेज़ अपलोड होते ही आपका आवेदन फिर से बैंक को भेज दिया जाएगा।'
+            ],
+            action: 'दस्तावेज़ अपलोड करें'
+        },
+        sms: 'SabbPe: बैंक को और दस्तावेज़ चाहिए। कृपया ऐप में अपलोड करें।',
+        whatsapp: 'नमस्ते {{businessName}}, आपके SabbPe आवेदन के लिए बैंक को और जानकारी चाहिए। कृपया अपलोड करें: {{requestedDocuments}}।{{#infoRequestReason}}\n\nबैंक की टिप्पणी: {{infoRequestReason}}{{/infoRequestReason}}\n\n{{dashboardUrl}}',
+        push: { title: 'और दस्तावेज़ चाहिए', body: 'कृपया अपलोड करें: {{requestedDocuments}}' }
+    }],
+    ['approved', {
+        version: 1,
+        email: {
+            subject: 'बधाई हो! आपका आवेदन स्वीकृत हो गया है',
+            paragraphs: [
+                'नमस्ते {{businessName}},',
+                'बधाई हो! आपका मर्चेंट आवेदन स्वीकृत हो गया है। अब आप हमारे प्लेटफ़ॉर्म का उपयोग शुरू कर सकते हैं।',
+                'SabbPe में आपका स्वागत है!'
+            ],
+            action: 'डैशबोर्ड खोलें'
+        },
+        sms: 'SabbPe: बधाई हो! आपका मर्चेंट आवेदन स्वीकृत हो गया है।',
+        whatsapp: 'बधाई हो {{businessName}}! आपका SabbPe मर्चेंट आवेदन स्वीकृत हो गया है। अब आप हमारे प्लेटफ़ॉर्म का उपयोग शुरू कर सकते हैं: {{dashboardUrl}}',
+        push: { title: 'आवेदन स्वीकृत', body: 'अब आप SabbPe का उपयोग शुरू कर सकते हैं।' }
+    }],
+    ['rejected', {
+        version: 1,
+        email: {
+            subject: 'आवेदन में सुधार ज़रूरी है',
+            paragraphs: [
+                'नमस्ते {{businessName}},',
+                'आपके आवेदन में कुछ सुधार ज़रूरी हैं। कारण: {{rejectionReason}}{{^rejectionReason}}कृपया समीक्षा करके दोबारा जमा करें।{{/rejectionReason}}',
+                'आप अपना आवेदन अपडेट करके दोबारा जमा कर सकते हैं।'
+            ],
+            action: 'आवेदन अपडेट करें'
+        },
+        sms: 'SabbPe: आपके आवेदन में सुधार ज़रूरी है। विवरण ऐप में देखें।',
+        whatsapp: 'नमस्ते {{businessName}}, आपके SabbPe आवेदन में कुछ सुधार ज़रूरी हैं। कारण: {{rejectionReason}}{{^rejectionReason}}कृपया समीक्षा करके दोबारा जमा करें।{{/rejectionReason}}\n\nआप इसे यहाँ अपडेट कर सकते हैं: {{dashboardUrl}}',
+        push: {
+            title: 'सुधार ज़रूरी है',
+            body: '{{rejectionReason}}{{^rejectionReason}}कृपया समीक्षा करके दोबारा जमा करें।{{/rejectionReason}}'
+        }
+    }]
+]);
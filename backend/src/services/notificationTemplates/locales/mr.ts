@@ -0,0 +1,44 @@
+// backend/src/services/notificationTemplates/locales/mr.ts
+import { statusTemplates } from '../catalog';
+
+// Marathi SMS and push; email and WhatsApp fall back to Hindi
+export const mr = statusTemplates('mr', [
+    ['draft', {
+        version: 1,
+        sms: 'SabbPe: तुमचा अर्ज ड्राफ्ट म्हणून जतन केला आहे.',
+        push: { title: 'अर्ज जतन केला', body: 'तुमचा मर्चंट अर्ज ड्राफ्ट म्हणून जतन केला आहे.' }
+    }],
+    ['submitted', {
+        version: 1,
+        sms: 'SabbPe: तुमचा अर्ज सादर झाला आहे. आम्ही लवकरच तपासणी करू.',
+        push: { title: 'अर्ज सादर झाला', body: 'आमची टीम लवकरच तुमचा अर्ज तपासेल.' }
+    }],
+    ['validating', {
+        version: 1,
+        sms: 'SabbPe: तुमच्या अर्जाची तपासणी सुरू आहे.',
+        push: { title: 'तपासणी सुरू आहे', body: 'तपासणी पूर्ण होताच आम्ही तुम्हाला कळवू.' }
+    }],
+    ['pending_bank_approval', {
+        version: 1,
+        sms: 'SabbPe: तुमचा अर्ज बँकेकडे पाठवला आहे. 2-3 कामकाजाचे दिवस लागतील.',
+        push: { title: 'बँकेकडे पाठवला', body: 'अंतिम मंजुरीसाठी साधारण 2-3 कामकाजाचे दिवस लागतात.' }
+    }],
+    ['info_requested', {
+        version: 1,
+        sms: 'SabbPe: बँकेला आणखी कागदपत्रे हवी आहेत. कृपया अपलोड करा.',
+        push: { title: 'आणखी कागदपत्रे हवी', body: 'कृपया अपलोड करा: {{requestedDocuments}}' }
+    }],
+    ['approved', {
+        version: 1,
+        sms: 'SabbPe: अभिनंदन! तुमचा मर्चंट अर्ज मंजूर झाला आहे.',
+        push: { title: 'अर्ज मंजूर', body: 'आता तुम्ही SabbPe वापरण्यास सुरुवात करू शकता.' }
+    }],
+    ['rejected', {
+        version: 1,
+        sms: 'SabbPe: तुमच्या अर्जात सुधारणा आवश्यक आहे. तपशील ॲपमध्ये पहा.',
+        push: {
+            title: 'सुधारणा आवश्यक',
+            body: '{{rejectionReason}}{{^rejectionReason}}कृपया तपासून पुन्हा सादर करा.{{/rejectionReason}}'
+        }
+    }]
+]);
@@ -0,0 +1,44 @@
+// backend/src/services/notificationTemplates/locales/ta.ts
+import { statusTemplates } from '../catalog';
+
+// Tamil SMS and push; email and WhatsApp fall back to English
+export const ta = statusTemplates('ta', [
+    ['draft', {
+        version: 1,
+        sms: 'SabbPe: உங்கள் விண்ணப்பம் வரைவாக சேமிக்கப்பட்டது.',
+        push: { title: 'விண்ணப்பம் சேமிக்கப்பட்டது', body: 'உங்கள் வணிகர் விண்ணப்பம் வரைவாக சேமிக்கப்பட்டது.' }
+    }],
+    ['submitted', {
+        version: 1,
+        sms: 'SabbPe: உங்கள் விண்ணப்பம் சமர்ப்பிக்கப்பட்டது.',
+        push: { title: 'விண்ணப்பம் சமர்ப்பிக்கப்பட்டது', body: 'எங்கள் குழு விரைவில் அதை பரிசீலிக்கும்.' }
+    }],
+    ['validating', {
+        version: 1,
+        sms: 'SabbPe: உங்கள் விண்ணப்பம் பரிசீலனையில் உள்ளது.',
+        push: { title: 'பரிசீலனையில் உள்ளது', body: 'பரிசீலனை முடிந்ததும் உங்களுக்கு தெரிவிப்போம்.' }
+    }],
+    ['pending_bank_approval', {
+        version: 1,
+        sms: 'SabbPe: உங்கள் விண்ணப்பம் வங்கிக்கு அனுப்பப்பட்டது.',
+        push: { title: 'வங்கிக்கு அனுப்பப்பட்டது', body: 'இறுதி ஒப்புதலுக்கு பொதுவாக 2-3 வேலை நாட்கள் ஆகும்.' }
+    }],
+    ['info_requested', {
+        version: 1,
+        sms: 'SabbPe: வங்கிக்கு கூடுதல் ஆவணங்கள் தேவை. பதிவேற்றவும்.',
+        push: { title: 'கூடுதல் ஆவணங்கள் தேவை', body: 'பதிவேற்றவும்: {{requestedDocuments}}' }
+    }],
+    ['approved', {
+        version: 1,
+        sms: 'SabbPe: வாழ்த்துகள்! உங்கள் விண்ணப்பம் அங்கீகரிக்கப்பட்டது.',
+        push: { title: 'விண்ணப்பம் அங்கீகரிக்கப்பட்டது', body: 'இப்போது நீங்கள் SabbPe-ஐ பயன்படுத்தத் தொடங்கலாம்.' }
+    }],
+    ['rejected', {
+        version: 1,
+        sms: 'SabbPe: உங்கள் விண்ணப்பத்தில் திருத்தங்கள் தேவை.',
+        push: {
+            title: 'திருத்தம் தேவை',
+            body: '{{rejectionReason}}{{^rejectionReason}}சரிபார்த்து மீண்டும் சமர்ப்பிக்கவும்.{{/rejectionReason}}'
+        }
+    }]
+]);
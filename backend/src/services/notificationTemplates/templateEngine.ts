@@ -0,0 +1,108 @@
+// backend/src/services/notificationTemplates/templateEngine.ts
+
+export type TemplateVariables = Record<string, string | undefined>;
+
+export type TemplateToken =
+    | { type: 'text'; value: string }
+    | { type: 'variable'; name: string }
+    | { type: 'section'; name: string; inverted: boolean; children: TemplateToken[] };
+
+// {{name}}, {{#name}}, {{^name}} and {{/name}}
+const TAG = /\{\{\s*([#^/]?)\s*([A-Za-z]\w*)\s*\}\}/g;
+
+/**
+ * Parse a template; throws on unbalanced sections and malformed placeholders
+ */
+export function parseTemplate(source: string): TemplateToken[] {
+    const root: TemplateToken[] = [];
+    const open: Array<{ name: string; parent: TemplateToken[] }> = [];
+    let current = root;
+    let last = 0;
+
+    const pushText = (value: string) => {
+        if (value.includes('{{') || value.includes('}}')) {
+            throw new Error(`Malformed placeholder near "${value.slice(0, 40)}"`);
+        }
+        if (value) current.push({ type: 'text', value });
+    };
+
+    for (const match of source.matchAll(TAG)) {
+        const [tag, sigil, name] = match;
+        const index = match.index ?? 0;
+
+        pushText(source.slice(last, index));
+        last = index + tag.length;
+
+        if (sigil === '#' || sigil === '^') {
+            const section: TemplateToken = { type: 'section', name, inverted: sigil === '^', children: [] };
+
+            current.push(section);
+            open.push({ name, parent: current });
+            current = section.children;
+        } else if (sigil === '/') {
+            const section = open.pop();
+
+            if (!section || section.name !== name) {
+                throw new Error(`{{/${name}}} does not close an open section`);
+            }
+
+            current = section.parent;
+        } else {
+            current.push({ type: 'variable', name });
+        }
+    }
+
+    pushText(source.slice(last));
+
+    if (open.length > 0) {
+        throw new Error(`{{#${open[open.length - 1].name}}} is never closed`);
+    }
+
+    return root;
+}
+
+/**
+ * Every variable a template refers to, including section names
+ */
+export function templateVariables(tokens: TemplateToken[], names = new Set<string>()): Set<string> {
+    tokens.forEach(token => {
+        if (token.type === 'variable') names.add(token.name);
+        if (token.type === 'section') {
+            names.add(token.name);
+            templateVariables(token.children, names);
+        }
+    });
+
+    return names;
+}
+
+export function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Fill in a parsed template; missing variables render as empty text
+ */
+export function renderTemplate(
+    tokens: TemplateToken[],
+    variables: TemplateVariables,
+    escape: (value: string) => string = value => value
+): string {
+    return tokens.map(token => {
+        switch (token.type) {
+            case 'text':
+                return token.value;
+            case 'variable':
+                return escape(variables[token.name] ?? '');
+            case 'section':
+                return Boolean(variables[token.name]) !== token.inverted
+                    ? renderTemplate(token.children, variables, escape)
+                    : '';
+        }
+    }).join('');
+}
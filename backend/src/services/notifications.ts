@@ -1,121 +1,398 @@
 ﻿// src/services/notifications.ts
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/env';
+import {
+    InAppNotificationRepository,
+    NotificationDeliveryRepository,
+    NotificationPreferenceRepository,
+    createInAppNotificationRepository,
+    createNotificationDeliveryRepository,
+    createNotificationPreferenceRepository
+} from '../repositories';
+import { NotificationDeliveryFilter } from '../repositories/notificationRepository';
+import { BankSubmissionJob } from '../types/bank';
 import { MerchantProfile, OnboardingStatus } from '../types/merchant';
+import {
+    InAppNotification,
+    NotificationChannel,
+    NotificationDelivery,
+    NotificationLocale,
+    NotificationPayload,
+    NotificationPreferences,
+    NotificationTemplate,
+    RenderedNotification,
+    WebPushSubscription
+} from '../types/notification';
+import { User } from '../types/user';
+import { AppError, BadRequestError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { notificationDeliveries } from '../utils/metrics';
+import {
+    NOTIFICATION_CHANNELS,
+    NotificationProviderRegistry,
+    PUSH_SUBSCRIPTION_GONE,
+    notificationProviderRegistry
+} from './notificationProviders';
+import {
+    DEFAULT_LOCALE,
+    NotificationTemplateRegistry,
+    SAMPLE_MERCHANT,
+    notificationTemplates,
+    statusTemplateVariables,
+    toNotificationLocale
+} from './notificationTemplates';
 
-export interface NotificationPayload {
-    to: string;
-    subject: string;
-    body: string;
-    type: 'email' | 'sms' | 'push';
+export type { NotificationPayload } from '../types/notification';
+
+// Until a merchant chooses, updates go by email and to any subscribed browser
+const DEFAULT_CHANNELS: Record<NotificationChannel, boolean> = {
+    email: true,
+    sms: false,
+    whatsapp: false,
+    push: true
+};
+
+// Where an in-app status notification takes the merchant: the onboarding
+// dashboard to upload what the bank asked for, otherwise the merchant dashboard
+function statusActionUrl(status: OnboardingStatus): string {
+    return status === 'info_requested' ? '/merchant-onboarding?step=dashboard' : '/merchant-dashboard';
+}
+
+interface DeliveryContext {
+    kind: string;
+    merchantId?: string;
+    userId?: string;
+    template?: string;
+}
+
+// What a merchant can change in their preferences
+export interface NotificationPreferencesUpdate {
+    channels?: Partial<Record<NotificationChannel, boolean>>;
+    locale?: string;
 }
 
 export class NotificationService {
+    constructor(
+        private readonly providers: NotificationProviderRegistry = notificationProviderRegistry,
+        private readonly deliveryRepository: NotificationDeliveryRepository = createNotificationDeliveryRepository(),
+        private readonly preferenceRepository: NotificationPreferenceRepository = createNotificationPreferenceRepository(),
+        private readonly templates: NotificationTemplateRegistry = notificationTemplates,
+        private readonly inAppRepository: InAppNotificationRepository = createInAppNotificationRepository()
+    ) {}
+
     /**
-     * Send notification to merchant about status change
+     * Send notification to merchant about status change, on every channel they
+     * chose and in their language
      */
     async notifyMerchantStatusChange(
         merchant: MerchantProfile,
         oldStatus: OnboardingStatus,
         newStatus: OnboardingStatus
     ): Promise<void> {
-        const notification = this.buildStatusChangeNotification(
-            merchant,
-            oldStatus,
-            newStatus
-        );
+        const preferences = await this.getPreferences(merchant.id);
+        const context: DeliveryContext = {
+            kind: 'status_change',
+            merchantId: merchant.id,
+            userId: merchant.userId
+        };
 
-        await this.sendNotification(notification);
+        const deliveries = await Promise.all(
+            this.buildStatusChangeMessages(merchant, preferences, newStatus)
+                .map(({ message, template }) => this.deliver(message, { ...context, template }))
+        );
 
         logger.info('Status change notification sent', {
             merchantId: merchant.id,
-            email: merchant.email,
             oldStatus,
-            newStatus
+            newStatus,
+            locale: preferences.locale,
+            channels: deliveries
+                .filter(delivery => delivery.status === 'sent')
+                .map(delivery => delivery.channel)
+                .join(',')
         });
     }
 
     /**
-     * Build notification for status change
+     * Add a status change to the merchant's notification center, worded like
+     * the push message in their language. Creating the same id twice adds nothing.
      */
-    private buildStatusChangeNotification(
+    async notifyMerchantInApp(
         merchant: MerchantProfile,
-        oldStatus: OnboardingStatus,
-        newStatus: OnboardingStatus
-    ): NotificationPayload {
-        const subject = this.getSubjectForStatus(newStatus);
-        const body = this.getBodyForStatus(merchant, newStatus);
-
-        return {
-            to: merchant.email,
-            subject,
-            body,
-            type: 'email'
-        };
+        status: OnboardingStatus,
+        notificationId: string
+    ): Promise<InAppNotification> {
+        const { locale } = await this.getPreferences(merchant.id);
+        const { subject, body } = this.templates.render(
+            `status.${status}`,
+            'push',
+            locale,
+            statusTemplateVariables(merchant)
+        );
+
+        return this.inAppRepository.create({
+            id: notificationId,
+            userId: merchant.userId,
+            type: 'status_update',
+            title: subject,
+            message: body,
+            actionUrl: statusActionUrl(status),
+            read: false,
+            createdAt: new Date().toISOString()
+        });
     }
 
     /**
-     * Get email subject for status
+     * One message per enabled channel; push goes to every subscribed browser
      */
-    private getSubjectForStatus(status: OnboardingStatus): string {
-        const subjects: Record<OnboardingStatus, string> = {
-            draft: 'Your application is saved',
-            submitted: 'Application submitted successfully',
-            validating: 'Application under review',
-            pending_bank_approval: 'Application sent to bank for approval',
-            approved: 'Congratulations! Your application is approved',
-            rejected: 'Application update required'
-        };
+    private buildStatusChangeMessages(
+        merchant: MerchantProfile,
+        preferences: NotificationPreferences,
+        status: OnboardingStatus
+    ): Array<{ message: NotificationPayload; template: string }> {
+        const { channels, pushSubscriptions, locale } = preferences;
+        const variables = statusTemplateVariables(merchant);
+        const render = (channel: NotificationChannel) =>
+            this.templates.render(`status.${status}`, channel, locale, variables);
+        const messages: Array<{ message: NotificationPayload; template: string }> = [];
+
+        if (channels.email) {
+            const { template, subject, body, html } = render('email');
+            messages.push({ template, message: { to: merchant.email, subject, body, html, type: 'email' } });
+        }
 
-        return subjects[status];
+        if (channels.sms) {
+            const { template, subject, body } = render('sms');
+            messages.push({ template, message: { to: merchant.phone, subject, body, type: 'sms' } });
+        }
+
+        if (channels.whatsapp) {
+            const { template, subject, body } = render('whatsapp');
+            messages.push({ template, message: { to: merchant.phone, subject, body, type: 'whatsapp' } });
+        }
+
+        if (channels.push && pushSubscriptions.length > 0) {
+            const { template, subject, body } = render('push');
+
+            pushSubscriptions.forEach(subscription => messages.push({
+                template,
+                message: {
+                    to: subscription.endpoint,
+                    subject,
+                    body,
+                    type: 'push',
+                    url: variables.dashboardUrl,
+                    pushSubscription: subscription
+                }
+            }));
+        }
+
+        return messages;
     }
 
     /**
-     * Get email body for status
+     * Render a template as a merchant would receive it (the sample merchant by default)
      */
-    private getBodyForStatus(
-        merchant: MerchantProfile,
-        status: OnboardingStatus
-    ): string {
-        const bodies: Record<OnboardingStatus, string> = {
-            draft: `Hi ${merchant.businessName},\n\nYour merchant application has been saved as draft. You can continue editing and submit when ready.`,
+    previewTemplate(
+        key: string,
+        channel: NotificationChannel,
+        locale: NotificationLocale,
+        merchant: MerchantProfile = SAMPLE_MERCHANT,
+        version?: number
+    ): RenderedNotification {
+        return this.templates.render(key, channel, locale, statusTemplateVariables(merchant), version);
+    }
 
-            submitted: `Hi ${merchant.businessName},\n\nYour merchant application has been submitted successfully. Our team will review it shortly.`,
+    /**
+     * Every loaded template version
+     */
+    getTemplates(): NotificationTemplate[] {
+        return this.templates.list();
+    }
 
-            validating: `Hi ${merchant.businessName},\n\nYour application is currently under review by our team. We'll notify you once the review is complete.`,
+    /**
+     * Send one message and record what became of it. Provider failures are
+     * logged and recorded rather than thrown, so a broken gateway never fails
+     * the status change that triggered the message.
+     */
+    async deliver(message: NotificationPayload, context: DeliveryContext): Promise<NotificationDelivery> {
+        const provider = this.providers.get(message.type);
+        const createdAt = new Date().toISOString();
 
-            pending_bank_approval: `Hi ${merchant.businessName},\n\nYour application has been submitted to the bank for final approval. This typically takes 2-3 business days.`,
+        const delivery = await this.deliveryRepository.create({
+            id: uuidv4(),
+            kind: context.kind,
+            channel: message.type,
+            provider: provider.name,
+            recipient: message.to,
+            subject: message.subject,
+            template: context.template,
+            status: 'pending',
+            merchantId: context.merchantId,
+            userId: context.userId,
+            createdAt,
+            updatedAt: createdAt
+        });
 
-            approved: `Hi ${merchant.businessName},\n\nCongratulations! Your merchant application has been approved. You can now start using our platform.\n\nWelcome aboard!`,
+        logger.debug('Sending notification', {
+            deliveryId: delivery.id,
+            channel: message.type,
+            provider: provider.name,
+            kind: context.kind
+        });
+
+        try {
+            const receipt = await provider.send(message);
+            const sentAt = new Date().toISOString();
+
+            notificationDeliveries.inc({ channel: message.type, provider: provider.name, status: 'sent' });
+
+            return await this.deliveryRepository.update({
+                ...delivery,
+                status: 'sent',
+                providerMessageId: receipt.providerMessageId,
+                sentAt,
+                updatedAt: sentAt
+            });
+        } catch (error) {
+            const code = error instanceof AppError ? error.code : undefined;
+
+            notificationDeliveries.inc({ channel: message.type, provider: provider.name, status: 'failed' });
+            logger.error('Notification delivery failed', error instanceof Error ? error : undefined, {
+                deliveryId: delivery.id,
+                channel: message.type,
+                provider: provider.name,
+                code
+            });
+
+            // The browser unsubscribed; stop pushing to it
+            if (code === PUSH_SUBSCRIPTION_GONE && context.merchantId) {
+                await this.removePushSubscription(context.merchantId, message.to);
+            }
+
+            return this.deliveryRepository.update({
+                ...delivery,
+                status: 'failed',
+                error: error instanceof Error ? error.message : String(error),
+                updatedAt: new Date().toISOString()
+            });
+        }
+    }
 
-            rejected: `Hi ${merchant.businessName},\n\nYour application requires some updates. Reason: ${merchant.rejectionReason || 'Please review and resubmit.'}\n\nYou can update your application and resubmit.`
+    /**
+     * Get a merchant's channel preferences (the defaults until they save any)
+     */
+    async getPreferences(merchantId: string): Promise<NotificationPreferences> {
+        const preferences = await this.preferenceRepository.findByMerchantId(merchantId);
+
+        return preferences ?? {
+            merchantId,
+            channels: { ...DEFAULT_CHANNELS },
+            locale: DEFAULT_LOCALE,
+            pushSubscriptions: [],
+            updatedAt: new Date().toISOString()
         };
+    }
+
+    /**
+     * Turn channels on or off and choose the language; anything left out keeps
+     * its current setting
+     */
+    async updatePreferences(
+        merchantId: string,
+        update: NotificationPreferencesUpdate
+    ): Promise<NotificationPreferences> {
+        const channels = update.channels ?? {};
+        const locale = update.locale === undefined ? undefined : toNotificationLocale(update.locale);
 
-        return bodies[status];
+        if (update.locale !== undefined && !locale) {
+            throw new BadRequestError(
+                `Notifications are not available in ${update.locale}`,
+                'UNSUPPORTED_NOTIFICATION_LOCALE'
+            );
+        }
+
+        const unknown = Object.keys(channels)
+            .filter(channel => !NOTIFICATION_CHANNELS.includes(channel as NotificationChannel));
+
+        if (unknown.length > 0) {
+            throw new BadRequestError(
+                `Unknown notification channel: ${unknown.join(', ')}`,
+                'INVALID_NOTIFICATION_CHANNEL'
+            );
+        }
+
+        if (Object.values(channels).some(enabled => typeof enabled !== 'boolean')) {
+            throw new BadRequestError('Channel settings must be true or false', 'INVALID_NOTIFICATION_PREFERENCES');
+        }
+
+        const current = await this.getPreferences(merchantId);
+
+        return this.preferenceRepository.save({
+            ...current,
+            channels: { ...current.channels, ...channels },
+            locale: locale ?? current.locale,
+            updatedAt: new Date().toISOString()
+        });
     }
 
     /**
-     * Send notification (mock implementation)
+     * Register a browser for web push; re-registering an endpoint replaces its keys
      */
-    private async sendNotification(notification: NotificationPayload): Promise<void> {
-        // In production, integrate with email service (SendGrid, AWS SES, etc.)
-        logger.debug('Sending notification', {
-            to: notification.to,
-            subject: notification.subject,
-            type: notification.type
+    async addPushSubscription(
+        merchantId: string,
+        subscription: WebPushSubscription
+    ): Promise<NotificationPreferences> {
+        if (
+            typeof subscription?.endpoint !== 'string' ||
+            !subscription.endpoint.startsWith('https://') ||
+            typeof subscription.keys?.p256dh !== 'string' ||
+            typeof subscription.keys?.auth !== 'string'
+        ) {
+            throw new BadRequestError(
+                'Push subscription needs an https endpoint and p256dh and auth keys',
+                'INVALID_PUSH_SUBSCRIPTION'
+            );
+        }
+
+        const current = await this.getPreferences(merchantId);
+        const { endpoint, keys } = subscription;
+
+        return this.preferenceRepository.save({
+            ...current,
+            pushSubscriptions: [
+                ...current.pushSubscriptions.filter(existing => existing.endpoint !== endpoint),
+                { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } }
+            ],
+            updatedAt: new Date().toISOString()
         });
+    }
 
-        // Mock send delay
-        await new Promise(resolve => setTimeout(resolve, 100));
+    /**
+     * Forget a browser's push subscription
+     */
+    async removePushSubscription(merchantId: string, endpoint: string): Promise<NotificationPreferences> {
+        const current = await this.getPreferences(merchantId);
 
-        // Log as sent
-        console.log(`📧 Email sent to ${notification.to}: ${notification.subject}`);
+        return this.preferenceRepository.save({
+            ...current,
+            pushSubscriptions: current.pushSubscriptions.filter(existing => existing.endpoint !== endpoint),
+            updatedAt: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Recorded deliveries, newest first
+     */
+    async getDeliveries(filter?: NotificationDeliveryFilter): Promise<NotificationDelivery[]> {
+        return this.deliveryRepository.findAll(filter);
     }
 
     /**
      * Send admin notification
      */
     async notifyAdminNewSubmission(merchant: MerchantProfile): Promise<void> {
-        const adminEmail = process.env.ADMIN_EMAIL || 'admin@sabbpe.com';
+        const adminEmail = config.ADMIN_EMAIL;
 
         const notification: NotificationPayload = {
             to: adminEmail,
@@ -124,13 +401,97 @@ export class NotificationService {
             type: 'email'
         };
 
-        await this.sendNotification(notification);
+        await this.deliver(notification, { kind: 'admin_new_submission', merchantId: merchant.id });
 
         logger.info('Admin notification sent', {
             merchantId: merchant.id,
             adminEmail
         });
     }
+
+    /**
+     * Alert the admin team that the bank and our records disagree about an application
+     */
+    async notifyAdminReconciliationAlert(
+        merchant: MerchantProfile,
+        code: string,
+        detail: string
+    ): Promise<void> {
+        const adminEmail = config.ADMIN_EMAIL;
+
+        const notification: NotificationPayload = {
+            to: adminEmail,
+            subject: `Bank reconciliation alert: ${code}`,
+            body: `The bank and our records disagree about a merchant application:\n\nBusiness: ${merchant.businessName}\nMerchant ID: ${merchant.id}\nBank application ID: ${merchant.bankApplicationId}\nStatus: ${merchant.onboardingStatus}\n\n${detail}`,
+            type: 'email'
+        };
+
+        await this.deliver(notification, { kind: 'admin_reconciliation_alert', merchantId: merchant.id });
+
+        logger.info('Admin reconciliation alert sent', {
+            merchantId: merchant.id,
+            code,
+            adminEmail
+        });
+    }
+
+    /**
+     * Tell the admin a bank submission was dead-lettered and needs a retry or cancel
+     */
+    async notifyAdminBankSubmissionFailed(job: BankSubmissionJob): Promise<void> {
+        const adminEmail = config.ADMIN_EMAIL;
+
+        const notification: NotificationPayload = {
+            to: adminEmail,
+            subject: `Bank submission failed: ${job.lastErrorCode ?? 'UNKNOWN_ERROR'}`,
+            body: `A bank submission gave up after ${job.attempts} attempt(s) and is on the dead-letter list:\n\nMerchant ID: ${job.merchantId}\nJob ID: ${job.id}\nError: ${job.lastError ?? 'Unknown error'}\n\nRetry or cancel it from the admin bank jobs list.`,
+            type: 'email'
+        };
+
+        await this.deliver(notification, { kind: 'admin_bank_submission_failed', merchantId: job.merchantId });
+
+        logger.info('Admin bank submission alert sent', {
+            merchantId: job.merchantId,
+            jobId: job.id,
+            adminEmail
+        });
+    }
+
+    /**
+     * Send email address verification link
+     */
+    async sendEmailVerification(user: User, link: string): Promise<void> {
+        const notification: NotificationPayload = {
+            to: user.email,
+            subject: 'Verify your email address',
+            body: `Hi ${user.firstName},\n\nPlease confirm your email address by opening the link below:\n\n${link}\n\nThis link expires in 24 hours.`,
+            type: 'email'
+        };
+
+        await this.deliver(notification, { kind: 'email_verification', userId: user.id });
+
+        logger.info('Email verification sent', {
+            userId: user.id
+        });
+    }
+
+    /**
+     * Send one-time password reset link
+     */
+    async sendPasswordReset(user: User, link: string): Promise<void> {
+        const notification: NotificationPayload = {
+            to: user.email,
+            subject: 'Reset your password',
+            body: `Hi ${user.firstName},\n\nWe received a request to reset your password. Use the link below to choose a new one:\n\n${link}\n\nThis link expires in 1 hour and can only be used once. If you did not request a reset, you can ignore this email.`,
+            type: 'email'
+        };
+
+        await this.deliver(notification, { kind: 'password_reset', userId: user.id });
+
+        logger.info('Password reset email sent', {
+            userId: user.id
+        });
+    }
 }
 
 export const notificationService = new NotificationService();
\ No newline at end of file
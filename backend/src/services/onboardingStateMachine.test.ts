@@ -0,0 +1,73 @@
+// backend/src/services/onboardingStateMachine.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    GuardImplementations,
+    OnboardingGuard,
+    OnboardingStateMachine,
+    onboardingMachineDefinition
+} from './onboardingStateMachine';
+
+interface TestContext {
+    passing: OnboardingGuard[];
+}
+
+// Each guard passes only when the context lists it
+const guards = Object.fromEntries(
+    (Object.keys(onboardingMachineDefinition.guards) as OnboardingGuard[])
+        .map(guard => [guard, ({ passing }: TestContext) => passing.includes(guard)])
+) as GuardImplementations<TestContext>;
+
+describe('OnboardingStateMachine', () => {
+    const machine = new OnboardingStateMachine();
+
+    it('refuses events the current status does not define', () => {
+        assert.throws(
+            () => machine.transition('draft', 'BANK_APPROVE', guards, { passing: [] }),
+            { code: 'INVALID_STATUS_TRANSITION' }
+        );
+        assert.throws(
+            () => machine.transition('approved', 'REJECT', guards, { passing: ['rejectionReasonProvided'] }),
+            { code: 'INVALID_STATUS_TRANSITION' }
+        );
+    });
+
+    it('refuses a transition whose guard fails', () => {
+        assert.throws(
+            () => machine.transition('draft', 'SUBMIT', guards, { passing: [] }),
+            { code: 'TRANSITION_GUARD_FAILED' }
+        );
+        assert.throws(
+            () => machine.transition('validating', 'SUBMIT_TO_BANK', guards, { passing: ['requiredDocumentsUploaded'] }),
+            { code: 'TRANSITION_GUARD_FAILED' }
+        );
+        assert.throws(
+            () => machine.transition('pending_bank_approval', 'BANK_REQUEST_INFO', guards, { passing: [] }),
+            { code: 'TRANSITION_GUARD_FAILED' }
+        );
+    });
+
+    it('resolves a guarded transition with the entry actions of the target', () => {
+        const transition = machine.transition('validating', 'SUBMIT_TO_BANK', guards, {
+            passing: ['requiredDocumentsVerified']
+        });
+
+        assert.deepEqual(transition, {
+            event: 'SUBMIT_TO_BANK',
+            from: 'validating',
+            to: 'pending_bank_approval',
+            actions: ['audit', 'notifyMerchant', 'submitToBank']
+        });
+    });
+
+    it('does not evaluate guards for unguarded transitions', () => {
+        const transition = machine.transition('pending_bank_approval', 'BANK_APPROVE', guards, { passing: [] });
+
+        assert.equal(transition.to, 'approved');
+    });
+
+    it('finds the event between two statuses', () => {
+        assert.equal(machine.findEvent('pending_bank_approval', 'info_requested'), 'BANK_REQUEST_INFO');
+        assert.equal(machine.findEvent('draft', 'approved'), undefined);
+    });
+});
@@ -0,0 +1,384 @@
+// src/services/onboardingStateMachine.ts
+import {
+    MerchantProfile,
+    OnboardingEvent,
+    OnboardingStatus
+} from '../types/merchant';
+import { BadRequestError } from '../utils/errors';
+
+export type OnboardingGuard =
+    | 'requiredDocumentsUploaded'
+    | 'requiredDocumentsVerified'
+    | 'rejectionReasonProvided'
+    | 'bankSubmissionPending'
+    | 'requestedDocumentsListed'
+    | 'requestedDocumentsUploaded';
+
+export type OnboardingAction =
+    | 'audit'
+    | 'notifyMerchant'
+    | 'notifyAdmin'
+    | 'submitToBank';
+
+export interface OnboardingTransitionDefinition {
+    target: OnboardingStatus;
+    guard?: OnboardingGuard;
+    description: string;
+}
+
+export interface OnboardingStateDefinition {
+    description: string;
+    timestampField: keyof MerchantProfile;
+    entry: OnboardingAction[];
+    on: Partial<Record<OnboardingEvent, OnboardingTransitionDefinition>>;
+}
+
+export interface OnboardingMachineDefinition {
+    id: string;
+    initial: OnboardingStatus;
+    guards: Record<OnboardingGuard, string>;
+    states: Record<OnboardingStatus, OnboardingStateDefinition>;
+}
+
+// A resolved transition, with the entry actions of the target state to run
+export interface OnboardingTransition {
+    event: OnboardingEvent;
+    from: OnboardingStatus;
+    to: OnboardingStatus;
+    actions: OnboardingAction[];
+}
+
+// Each caller evaluates guards and performs actions against its own data model
+export type GuardImplementations<TContext> = Record<OnboardingGuard, (context: TContext) => boolean>;
+
+export type ActionImplementations<TContext> = Record<
+    OnboardingAction,
+    (context: TContext, transition: OnboardingTransition) => Promise<void>
+>;
+
+export const onboardingMachineDefinition: OnboardingMachineDefinition = {
+    id: 'merchant-onboarding',
+    initial: 'draft',
+    guards: {
+        requiredDocumentsUploaded: 'PAN card, Aadhaar card and cancelled cheque are uploaded',
+        requiredDocumentsVerified: 'All required documents have been verified',
+        rejectionReasonProvided: 'A rejection reason is given',
+        bankSubmissionPending: 'The bank has not received the current application yet',
+        requestedDocumentsListed: 'The bank lists the documents it needs',
+        requestedDocumentsUploaded: 'Every document the bank asked for was uploaded after the request'
+    },
+    states: {
+        draft: {
+            description: 'Merchant is filling in the application',
+            timestampField: 'createdAt',
+            entry: [],
+            on: {
+                SUBMIT: {
+                    target: 'submitted',
+                    guard: 'requiredDocumentsUploaded',
+                    description: 'Merchant submits the application'
+                }
+            }
+        },
+        submitted: {
+            description: 'Waiting for review by the SabbPe team',
+            timestampField: 'submittedAt',
+            entry: ['audit', 'notifyMerchant', 'notifyAdmin'],
+            on: {
+                START_VALIDATION: {
+                    target: 'validating',
+                    guard: 'requiredDocumentsUploaded',
+                    description: 'Profile and documents pass validation'
+                },
+                VALIDATION_FAIL: {
+                    target: 'rejected',
+                    guard: 'rejectionReasonProvided',
+                    description: 'Automated validation fails'
+                },
+                REJECT: {
+                    target: 'rejected',
+                    guard: 'rejectionReasonProvided',
+                    description: 'Admin rejects the application'
+                }
+            }
+        },
+        validating: {
+            description: 'Validated and ready for bank submission',
+            timestampField: 'validatedAt',
+            entry: ['audit', 'notifyMerchant'],
+            on: {
+                SUBMIT_TO_BANK: {
+                    target: 'pending_bank_approval',
+                    guard: 'requiredDocumentsVerified',
+                    description: 'Application is sent to the partner bank'
+                },
+                VALIDATION_FAIL: {
+                    target: 'rejected',
+                    guard: 'rejectionReasonProvided',
+                    description: 'Automated validation fails'
+                },
+                REJECT: {
+                    target: 'rejected',
+                    guard: 'rejectionReasonProvided',
+                    description: 'Admin rejects the application'
+                }
+            }
+        },
+        pending_bank_approval: {
+            description: 'Waiting for the partner bank decision',
+            timestampField: 'bankSubmittedAt',
+            entry: ['audit', 'notifyMerchant', 'submitToBank'],
+            on: {
+                SUBMIT_TO_BANK: {
+                    target: 'pending_bank_approval',
+                    guard: 'bankSubmissionPending',
+                    description: 'Retry a bank submission that did not go through'
+                },
+                BANK_APPROVE: {
+                    target: 'approved',
+                    description: 'Bank approves the application'
+                },
+                BANK_REJECT: {
+                    target: 'rejected',
+                    description: 'Bank rejects the application'
+                },
+                BANK_REQUEST_INFO: {
+                    target: 'info_requested',
+                    guard: 'requestedDocumentsListed',
+                    description: 'Bank asks for more documents'
+                },
+                MANUAL_APPROVE: {
+                    target: 'approved',
+                    description: 'Admin approves the application (override)'
+                },
+                REJECT: {
+                    target: 'rejected',
+                    guard: 'rejectionReasonProvided',
+                    description: 'Admin rejects the application'
+                }
+            }
+        },
+        info_requested: {
+            description: 'Waiting for the merchant to upload the documents the bank asked for',
+            timestampField: 'infoRequestedAt',
+            entry: ['audit', 'notifyMerchant'],
+            on: {
+                PROVIDE_INFO: {
+                    target: 'pending_bank_approval',
+                    guard: 'requestedDocumentsUploaded',
+                    description: 'Merchant uploads the requested documents; resubmitted under the same application ID'
+                },
+                REJECT: {
+                    target: 'rejected',
+                    guard: 'rejectionReasonProvided',
+                    description: 'Admin rejects the application'
+                }
+            }
+        },
+        approved: {
+            description: 'Merchant is live',
+            timestampField: 'decisionAt',
+            entry: ['audit', 'notifyMerchant'],
+            on: {}
+        },
+        rejected: {
+            description: 'Rejected, the merchant may correct and resubmit',
+            timestampField: 'decisionAt',
+            entry: ['audit', 'notifyMerchant'],
+            on: {
+                SUBMIT: {
+                    target: 'submitted',
+                    guard: 'requiredDocumentsUploaded',
+                    description: 'Merchant resubmits the corrected application'
+                }
+            }
+        }
+    }
+};
+
+export class OnboardingStateMachine {
+    constructor(
+        private readonly definition: OnboardingMachineDefinition = onboardingMachineDefinition
+    ) {}
+
+    /**
+     * Whether the event is defined for the status (guards are not evaluated)
+     */
+    can(status: OnboardingStatus, event: OnboardingEvent): boolean {
+        return Boolean(this.definition.states[status].on[event]);
+    }
+
+    /**
+     * Throw if the event is not defined for the status
+     */
+    assertCan(status: OnboardingStatus, event: OnboardingEvent): void {
+        if (!this.can(status, event)) {
+            throw new BadRequestError(
+                `Invalid status transition: ${event} is not allowed from ${status}`,
+                'INVALID_STATUS_TRANSITION'
+            );
+        }
+    }
+
+    /**
+     * The first event defined from one status to another, if any
+     */
+    findEvent(from: OnboardingStatus, to: OnboardingStatus): OnboardingEvent | undefined {
+        const transitions = Object.entries(this.definition.states[from].on) as Array<
+            [OnboardingEvent, OnboardingTransitionDefinition]
+        >;
+
+        return transitions.find(([, transition]) => transition.target === to)?.[0];
+    }
+
+    /**
+     * Resolve an event from the current status, evaluating the transition guard
+     */
+    transition<TContext>(
+        status: OnboardingStatus,
+        event: OnboardingEvent,
+        guards: GuardImplementations<TContext>,
+        context: TContext
+    ): OnboardingTransition {
+        this.assertCan(status, event);
+
+        const transition = this.definition.states[status].on[event] as OnboardingTransitionDefinition;
+
+        if (transition.guard && !guards[transition.guard](context)) {
+            throw new BadRequestError(
+                `${event} from ${status} requires: ${this.definition.guards[transition.guard]}`,
+                'TRANSITION_GUARD_FAILED'
+            );
+        }
+
+        return {
+            event,
+            from: status,
+            to: transition.target,
+            actions: [...this.definition.states[transition.target].entry]
+        };
+    }
+
+    /**
+     * Run the entry actions of a resolved transition in order
+     */
+    async runActions<TContext>(
+        transition: OnboardingTransition,
+        actions: Partial<ActionImplementations<TContext>>,
+        context: TContext
+    ): Promise<void> {
+        for (const action of transition.actions) {
+            const handler = actions[action];
+
+            if (handler) {
+                await handler(context, transition);
+            }
+        }
+    }
+
+    /**
+     * Events available from a status
+     */
+    getAvailableEvents(status: OnboardingStatus): OnboardingEvent[] {
+        return Object.keys(this.definition.states[status].on) as OnboardingEvent[];
+    }
+
+    /**
+     * Timestamp field set on the merchant when entering a status
+     */
+    getTimestampField(status: OnboardingStatus): keyof MerchantProfile {
+        return this.definition.states[status].timestampField;
+    }
+
+    /**
+     * Serializable description of the machine
+     */
+    toJSON() {
+        const { id, initial, guards, states } = this.definition;
+
+        return {
+            id,
+            initial,
+            guards,
+            states: (Object.keys(states) as OnboardingStatus[]).map(status => ({
+                status,
+                description: states[status].description,
+                entry: states[status].entry,
+                final: this.getAvailableEvents(status).length === 0,
+                transitions: this.getAvailableEvents(status).map(event => {
+                    const transition = states[status].on[event] as OnboardingTransitionDefinition;
+
+                    return {
+                        event,
+                        target: transition.target,
+                        guard: transition.guard,
+                        description: transition.description
+                    };
+                })
+            }))
+        };
+    }
+
+    /**
+     * Mermaid stateDiagram-v2 source
+     */
+    toMermaid(): string {
+        const { states } = this.toJSON();
+        const lines = ['stateDiagram-v2', `    [*] --> ${this.definition.initial}`];
+
+        states.forEach(state => {
+            lines.push(`    ${state.status} : ${state.description}`);
+
+            if (state.entry.length > 0) {
+                lines.push(`    ${state.status} : entry / ${state.entry.join(', ')}`);
+            }
+        });
+
+        states.forEach(state => {
+            state.transitions.forEach(transition => {
+                const guard = transition.guard ? ` [${transition.guard}]` : '';
+                lines.push(`    ${state.status} --> ${transition.target} : ${transition.event}${guard}`);
+            });
+
+            if (state.final) {
+                lines.push(`    ${state.status} --> [*]`);
+            }
+        });
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Graphviz DOT source
+     */
+    toDot(): string {
+        const { states } = this.toJSON();
+        const graphName = this.definition.id.replace(/-/g, '_');
+        const lines = [
+            `digraph ${graphName} {`,
+            '    rankdir=LR;',
+            '    node [shape=box, style=rounded];',
+            '    start [shape=point];',
+            `    start -> ${this.definition.initial};`
+        ];
+
+        states.forEach(state => {
+            const entry = state.entry.length > 0 ? `\\nentry / ${state.entry.join(', ')}` : '';
+            const shape = state.final ? ', peripheries=2' : '';
+            lines.push(`    ${state.status} [label="${state.status}\\n${state.description}${entry}"${shape}];`);
+        });
+
+        states.forEach(state => {
+            state.transitions.forEach(transition => {
+                const guard = transition.guard ? `\\n[${transition.guard}]` : '';
+                lines.push(`    ${state.status} -> ${transition.target} [label="${transition.event}${guard}"];`);
+            });
+        });
+
+        lines.push('}');
+
+        return lines.join('\n');
+    }
+}
+
+export const onboardingStateMachine = new OnboardingStateMachine();
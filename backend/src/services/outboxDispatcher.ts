@@ -0,0 +1,424 @@
+// src/services/outboxDispatcher.ts
+import { v4 as uuidv4 } from 'uuid';
+import { StorageDriver, getStorageDriver, isStorageConfigured } from '../config/database';
+import { config } from '../config/env';
+import {
+    MerchantRepository,
+    OutboxRepository,
+    createMerchantRepository,
+    createOutboxRepository
+} from '../repositories';
+import { MerchantProfile } from '../types/merchant';
+import {
+    MerchantStatusChangedPayload,
+    OutboxEvent,
+    OutboxEventStatus,
+    OutboxHandler,
+    OutboxMerchantStore
+} from '../types/outbox';
+import { notificationService } from './notifications';
+import { AppError, ConflictError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+import { formatTraceparent, parseTraceparent, tracer } from '../utils/tracing';
+import { metrics } from '../utils/metrics';
+
+export interface OutboxDispatcherOptions {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    pollIntervalMs: number;
+    leaseMs: number;
+    batchSize: number;
+}
+
+interface OutboxHandlerContext {
+    event: OutboxEvent;
+    payload: MerchantStatusChangedPayload;
+    merchant: MerchantProfile;
+}
+
+type OutboxHandlerImplementations = Record<OutboxHandler, (context: OutboxHandlerContext) => Promise<void>>;
+
+/**
+ * Delivers the transactional outbox. A status change commits together with an
+ * event listing the work it triggers (audit entry, notifications); the
+ * dispatcher runs that work until each handler has succeeded
+ * once. Delivery is at-least-once: a handler that succeeded just before a
+ * crash runs again. Events that run out of attempts are dead-lettered for an
+ * admin to retry. Events live next to the merchant that wrote them, so every
+ * merchant store in use is polled.
+ */
+export class OutboxDispatcher {
+    private readonly options: OutboxDispatcherOptions;
+    private readonly repositories = new Map<StorageDriver, OutboxRepository>();
+    private readonly merchantRepositories = new Map<StorageDriver, MerchantRepository>();
+    private timer: NodeJS.Timeout | null = null;
+    private polling: Promise<number> | null = null;
+
+    constructor(
+        repository: OutboxRepository = createOutboxRepository(),
+        options: Partial<OutboxDispatcherOptions> = {}
+    ) {
+        this.repositories.set(getStorageDriver(), repository);
+        this.options = {
+            maxAttempts: config.OUTBOX_MAX_ATTEMPTS,
+            baseDelayMs: config.OUTBOX_BASE_DELAY_MS,
+            maxDelayMs: config.OUTBOX_MAX_DELAY_MS,
+            pollIntervalMs: config.OUTBOX_POLL_INTERVAL_MS,
+            leaseMs: 60000,
+            batchSize: 20,
+            ...options
+        };
+    }
+
+    /**
+     * A new event for a status change, for the merchant repository to write
+     * with the change itself
+     */
+    createStatusChangeEvent(
+        merchantId: string,
+        merchantStore: OutboxMerchantStore,
+        payload: MerchantStatusChangedPayload,
+        handlers: OutboxHandler[]
+    ): OutboxEvent {
+        const now = new Date().toISOString();
+        const request = getRequestContext();
+
+        return {
+            id: uuidv4(),
+            type: 'merchant.status_changed',
+            merchantId,
+            merchantStore,
+            payload,
+            handlers,
+            completedHandlers: [],
+            status: 'pending',
+            attempts: 0,
+            maxAttempts: this.options.maxAttempts,
+            nextRunAt: now,
+            requestId: request?.requestId,
+            traceParent: request ? formatTraceparent(request) : undefined,
+            createdAt: now,
+            updatedAt: now
+        };
+    }
+
+    /**
+     * Also poll the outbox of another merchant store, e.g. the Supabase store
+     * the React app's webhooks write to while the API itself runs on SQLite
+     */
+    watch(store: StorageDriver): void {
+        if (!this.repositories.has(store) && isStorageConfigured(store)) {
+            this.repositories.set(store, createOutboxRepository(store));
+        }
+    }
+
+    /**
+     * Start polling for due events
+     */
+    start(): void {
+        if (this.timer) {
+            return;
+        }
+
+        this.timer = setInterval(() => void this.poll(), this.options.pollIntervalMs);
+        this.timer.unref();
+
+        logger.info('Outbox dispatcher started', { pollIntervalMs: this.options.pollIntervalMs });
+
+        this.wake();
+    }
+
+    /**
+     * Stop polling and wait for the events in hand to finish
+     */
+    async stop(): Promise<void> {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+
+        await this.polling;
+    }
+
+    /**
+     * Dispatch soon rather than at the next poll, e.g. right after a status change commits
+     */
+    wake(): void {
+        if (this.timer) {
+            setImmediate(() => void this.poll());
+        }
+    }
+
+    /**
+     * Claim and dispatch every event that is due now, returning how many were dispatched
+     */
+    async processDue(): Promise<number> {
+        let processed = 0;
+
+        for (const repository of this.repositories.values()) {
+            processed += await this.processDueIn(repository);
+        }
+
+        return processed;
+    }
+
+    /**
+     * Delay before the next attempt after the given number of attempts
+     */
+    getRetryDelay(attempts: number): number {
+        return Math.min(this.options.baseDelayMs * 2 ** Math.max(attempts - 1, 0), this.options.maxDelayMs);
+    }
+
+    async getEvents(status?: OutboxEventStatus): Promise<OutboxEvent[]> {
+        const events = await Promise.all([...this.repositories.values()].map(repository => repository.findAll(status)));
+
+        // Newest first, as each store lists them
+        return events.flat().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    async getEvent(eventId: string): Promise<OutboxEvent> {
+        const { event } = await this.locate(eventId);
+
+        return event;
+    }
+
+    /**
+     * Put a dead or waiting event back at the front of the queue with fresh
+     * attempts; handlers that already succeeded are not run again
+     */
+    async retry(eventId: string): Promise<OutboxEvent> {
+        const { event, repository } = await this.locate(eventId);
+
+        if (event.status === 'running' || event.status === 'delivered') {
+            throw new ConflictError(`A ${event.status} event cannot be retried`, 'INVALID_OUTBOX_EVENT_STATUS');
+        }
+
+        const now = new Date().toISOString();
+
+        const updated = await repository.update({
+            ...event,
+            status: 'pending',
+            attempts: 0,
+            nextRunAt: now,
+            lockedUntil: undefined,
+            updatedAt: now
+        });
+
+        logger.info('Outbox event requeued', { eventId, merchantId: event.merchantId });
+
+        this.wake();
+
+        return updated;
+    }
+
+    private async processDueIn(repository: OutboxRepository): Promise<number> {
+        const now = Date.now();
+        const due = await repository.findDue(new Date(now).toISOString(), this.options.batchSize);
+        let processed = 0;
+
+        for (const event of due) {
+            const claimed = await repository.claim(event, new Date(now + this.options.leaseMs).toISOString());
+
+            // Another dispatcher got there first
+            if (!claimed) {
+                continue;
+            }
+
+            // Each attempt continues the trace of the request that changed the status
+            await tracer.withSpan('outbox.dispatch', {
+                kind: 'consumer',
+                parent: parseTraceparent(claimed.traceParent),
+                requestId: claimed.requestId ?? claimed.id,
+                attributes: {
+                    'outbox.event_id': claimed.id,
+                    'outbox.event_type': claimed.type,
+                    'outbox.attempt': claimed.attempts,
+                    'merchant.id': claimed.merchantId
+                }
+            }, () => this.dispatch(claimed, repository));
+            processed++;
+        }
+
+        return processed;
+    }
+
+    // One poll at a time; overlapping ticks share the running one
+    private poll(): Promise<number> {
+        if (!this.polling) {
+            this.polling = this.processDue()
+                .catch(error => {
+                    logger.error('Outbox dispatcher poll failed', error instanceof Error ? error : undefined);
+                    return 0;
+                })
+                .finally(() => {
+                    this.polling = null;
+                });
+        }
+
+        return this.polling;
+    }
+
+    private async dispatch(event: OutboxEvent, repository: OutboxRepository): Promise<void> {
+        let current = event;
+
+        try {
+            const merchant = await this.getMerchantRepository(event.merchantStore).findById(event.merchantId);
+
+            // Deleted since the status change; nothing left to notify or submit
+            if (!merchant) {
+                await this.finish(repository, current, 'dead', {
+                    lastError: 'Merchant no longer exists',
+                    lastErrorCode: 'MERCHANT_NOT_FOUND'
+                });
+                return;
+            }
+
+            const pending = event.handlers.filter(handler => !event.completedHandlers.includes(handler));
+
+            // Progress is saved after each handler so a retry picks up where this attempt stopped
+            for (const handler of pending) {
+                await this.handlers[handler]({ event: current, payload: current.payload, merchant });
+
+                current = await repository.update({
+                    ...current,
+                    completedHandlers: [...current.completedHandlers, handler],
+                    updatedAt: new Date().toISOString()
+                });
+            }
+
+            await this.finish(repository, current, 'delivered');
+        } catch (error) {
+            await this.fail(repository, current, error);
+        }
+    }
+
+    private async fail(repository: OutboxRepository, event: OutboxEvent, error: unknown): Promise<void> {
+        const lastErrorCode = error instanceof AppError ? error.code : 'UNKNOWN_ERROR';
+        const lastError = error instanceof Error ? error.message : 'Unknown error';
+
+        if (event.attempts < event.maxAttempts) {
+            const delayMs = this.getRetryDelay(event.attempts);
+
+            await repository.update({
+                ...event,
+                status: 'pending',
+                nextRunAt: new Date(Date.now() + delayMs).toISOString(),
+                lockedUntil: undefined,
+                lastError,
+                lastErrorCode,
+                updatedAt: new Date().toISOString()
+            });
+
+            logger.warn('Outbox event failed, retry scheduled', {
+                eventId: event.id,
+                merchantId: event.merchantId,
+                completedHandlers: event.completedHandlers.join(','),
+                attempts: event.attempts,
+                maxAttempts: event.maxAttempts,
+                delayMs,
+                code: lastErrorCode
+            });
+            return;
+        }
+
+        await this.finish(repository, event, 'dead', { lastError, lastErrorCode });
+
+        logger.error('Outbox event moved to dead-letter list', error instanceof Error ? error : undefined, {
+            eventId: event.id,
+            merchantId: event.merchantId,
+            completedHandlers: event.completedHandlers.join(','),
+            attempts: event.attempts,
+            code: lastErrorCode
+        });
+    }
+
+    private async finish(
+        repository: OutboxRepository,
+        event: OutboxEvent,
+        status: OutboxEventStatus,
+        changes: Partial<OutboxEvent> = {}
+    ): Promise<void> {
+        const now = new Date().toISOString();
+
+        await repository.update({
+            ...event,
+            ...changes,
+            status,
+            lockedUntil: undefined,
+            deliveredAt: status === 'delivered' ? now : undefined,
+            updatedAt: now
+        });
+    }
+
+    // The event and the outbox it is stored in
+    private async locate(eventId: string): Promise<{ event: OutboxEvent; repository: OutboxRepository }> {
+        for (const repository of this.repositories.values()) {
+            const event = await repository.findById(eventId);
+
+            if (event) {
+                return { event, repository };
+            }
+        }
+
+        throw new NotFoundError('Outbox event not found', 'OUTBOX_EVENT_NOT_FOUND');
+    }
+
+    private getMerchantRepository(store: StorageDriver): MerchantRepository {
+        let repository = this.merchantRepositories.get(store);
+
+        if (!repository) {
+            repository = createMerchantRepository(store);
+            this.merchantRepositories.set(store, repository);
+        }
+
+        return repository;
+    }
+
+    /**
+     * The work a status change can ask for
+     */
+    private readonly handlers: OutboxHandlerImplementations = {
+        audit: async ({ merchant, payload }) => {
+            logger.onboarding(merchant.id, payload.toStatus, payload.fromStatus, merchant.userId);
+
+            logger.business(
+                'merchant_status_transition',
+                merchant.id,
+                'merchant',
+                {
+                    ...payload.metadata,
+                    event: payload.event,
+                    fromStatus: payload.fromStatus,
+                    toStatus: payload.toStatus,
+                    actorId: payload.actorId,
+                    actorType: payload.actorType,
+                    reason: payload.reason,
+                    historyId: payload.historyId
+                }
+            );
+        },
+        notifyMerchant: async ({ merchant, payload }) => {
+            await notificationService.notifyMerchantStatusChange(merchant, payload.fromStatus, payload.toStatus);
+        },
+        notifyInApp: async ({ event, merchant, payload }) => {
+            // The event id doubles as the notification id, so redelivery adds no second row
+            await notificationService.notifyMerchantInApp(merchant, payload.toStatus, event.id);
+        },
+        notifyAdmin: async ({ merchant }) => {
+            await notificationService.notifyAdminNewSubmission(merchant);
+        }
+    };
+}
+
+export const outboxDispatcher = new OutboxDispatcher();
+
+// Delivered events are left out; they only grow
+const GAUGED_EVENT_STATUSES: OutboxEventStatus[] = ['pending', 'running', 'dead'];
+
+metrics.gauge('outbox_events', 'Outbox events waiting, being dispatched or dead-lettered.', ['status'], async gauge => {
+    const events = await Promise.all(GAUGED_EVENT_STATUSES.map(status => outboxDispatcher.getEvents(status)));
+
+    GAUGED_EVENT_STATUSES.forEach((status, index) => gauge.set({ status }, events[index].length));
+});
@@ -0,0 +1,43 @@
+// backend/src/services/sessionService.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { sessionService } from './sessionService';
+import { userService } from './userService';
+
+const signUp = () => userService.register({
+    email: `owner-${uuidv4()}@example.com`,
+    password: 'first-password',
+    firstName: 'Asha',
+    lastName: 'Verma'
+});
+
+describe('SessionService.refresh', () => {
+    it('rotates the refresh token and keeps the session', async () => {
+        const first = await sessionService.createSession(await signUp());
+
+        const second = await sessionService.refresh(first.refreshToken);
+        const third = await sessionService.refresh(second.refreshToken);
+
+        assert.notEqual(second.refreshToken, first.refreshToken);
+        assert.notEqual(third.refreshToken, second.refreshToken);
+
+        const session = await sessionService.verifyAccessToken(third.token);
+        assert.equal((await sessionService.verifyAccessToken(first.token)).sessionId, session.sessionId);
+    });
+
+    it('revokes the session when a retired refresh token is presented again', async () => {
+        const first = await sessionService.createSession(await signUp());
+        const second = await sessionService.refresh(first.refreshToken);
+
+        await assert.rejects(sessionService.refresh(first.refreshToken), { code: 'INVALID_REFRESH_TOKEN' });
+
+        // The holder of the current token is logged out too: either one may be the thief
+        await assert.rejects(sessionService.refresh(second.refreshToken), { code: 'SESSION_REVOKED' });
+        await assert.rejects(sessionService.verifyAccessToken(second.token), { code: 'SESSION_REVOKED' });
+    });
+
+    it('refuses a refresh token it never issued', async () => {
+        await assert.rejects(sessionService.refresh('not-a-refresh-token'), { code: 'INVALID_REFRESH_TOKEN' });
+    });
+});
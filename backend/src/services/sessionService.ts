@@ -0,0 +1,243 @@
+// src/services/sessionService.ts
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/env';
+import { AuthSession, AuthToken, User, UserSession } from '../types/user';
+import { SessionRepository, createSessionRepository } from '../repositories';
+import { userService } from './userService';
+import { ForbiddenError, TokenError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+interface AccessTokenPayload extends Omit<UserSession, 'sessionId'> {
+    sid: string;
+    iat: number;
+    exp: number;
+}
+
+export interface SessionContext {
+    userAgent?: string;
+    ipAddress?: string;
+}
+
+export class SessionService {
+    private readonly accessTokenTtlSeconds: number;
+    private readonly refreshTokenTtlMs: number;
+
+    constructor(
+        private readonly repository: SessionRepository = createSessionRepository()
+    ) {
+        this.accessTokenTtlSeconds = config.ACCESS_TOKEN_TTL_SECONDS;
+        this.refreshTokenTtlMs = config.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
+    }
+
+    /**
+     * Start a new session and issue the first token pair
+     */
+    async createSession(user: User, context: SessionContext = {}): Promise<AuthToken> {
+        const refreshToken = this.generateRefreshToken();
+        const now = new Date();
+
+        const session: AuthSession = {
+            id: uuidv4(),
+            userId: user.id,
+            refreshTokenHash: this.hashToken(refreshToken),
+            expiresAt: new Date(now.getTime() + this.refreshTokenTtlMs).toISOString(),
+            userAgent: context.userAgent,
+            ipAddress: context.ipAddress,
+            createdAt: now.toISOString()
+        };
+
+        await this.repository.create(session);
+
+        return this.buildAuthToken(user, session, refreshToken);
+    }
+
+    /**
+     * Exchange a refresh token for a new token pair. The presented token is
+     * retired; presenting it again revokes the whole session (reuse detection).
+     */
+    async refresh(refreshToken: string, context: SessionContext = {}): Promise<AuthToken> {
+        const tokenHash = this.hashToken(refreshToken);
+        const session = await this.repository.findByRefreshTokenHash(tokenHash);
+
+        if (!session) {
+            const reused = await this.repository.findByPreviousRefreshTokenHash(tokenHash);
+
+            if (reused && !reused.revokedAt) {
+                await this.revokeSession(reused.id, 'refresh_token_reuse');
+
+                logger.warn('Refresh token reuse detected, session revoked', {
+                    sessionId: reused.id,
+                    userId: reused.userId
+                });
+            }
+
+            throw new TokenError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+        }
+
+        if (session.revokedAt) {
+            throw new TokenError('Session has been revoked', 'SESSION_REVOKED');
+        }
+
+        if (new Date(session.expiresAt).getTime() < Date.now()) {
+            throw new TokenError('Refresh token expired', 'REFRESH_TOKEN_EXPIRED');
+        }
+
+        const user = await userService.getUserById(session.userId);
+
+        if (!user.isActive) {
+            await this.revokeSession(session.id, 'account_disabled');
+
+            throw new ForbiddenError(
+                'Account has been disabled',
+                'ACCOUNT_DISABLED'
+            );
+        }
+
+        const nextRefreshToken = this.generateRefreshToken();
+
+        const updated = await this.repository.update({
+            ...session,
+            refreshTokenHash: this.hashToken(nextRefreshToken),
+            previousRefreshTokenHash: tokenHash,
+            lastRefreshedAt: new Date().toISOString(),
+            userAgent: context.userAgent ?? session.userAgent,
+            ipAddress: context.ipAddress ?? session.ipAddress
+        });
+
+        logger.auth('token_refresh', user.id, true);
+
+        return this.buildAuthToken(user, updated, nextRefreshToken);
+    }
+
+    /**
+     * Verify an access token and check its session has not been revoked
+     */
+    async verifyAccessToken(token: string): Promise<UserSession> {
+        const decoded = jwt.verify(token, this.getJwtSecret()) as AccessTokenPayload;
+
+        if (!decoded.sid) {
+            throw new TokenError('Invalid or expired token', 'INVALID_TOKEN');
+        }
+
+        const session = await this.repository.findById(decoded.sid);
+
+        if (!session || session.revokedAt) {
+            throw new TokenError('Session has been revoked', 'SESSION_REVOKED');
+        }
+
+        return {
+            sessionId: decoded.sid,
+            userId: decoded.userId,
+            email: decoded.email,
+            role: decoded.role,
+            firstName: decoded.firstName,
+            lastName: decoded.lastName
+        };
+    }
+
+    /**
+     * Revoke the session a refresh token belongs to (logout)
+     */
+    async revokeByRefreshToken(refreshToken: string): Promise<void> {
+        const session = await this.repository.findByRefreshTokenHash(this.hashToken(refreshToken));
+
+        if (session && !session.revokedAt) {
+            await this.revokeSession(session.id, 'logout');
+        }
+    }
+
+    /**
+     * Revoke a single session
+     */
+    async revokeSession(sessionId: string, reason: string): Promise<void> {
+        const session = await this.repository.findById(sessionId);
+
+        if (!session || session.revokedAt) {
+            return;
+        }
+
+        await this.repository.update({
+            ...session,
+            revokedAt: new Date().toISOString(),
+            revokedReason: reason
+        });
+
+        logger.info('Session revoked', {
+            sessionId,
+            userId: session.userId,
+            reason
+        });
+    }
+
+    /**
+     * Revoke every active session of a user
+     */
+    async revokeAllForUser(userId: string, reason: string): Promise<number> {
+        const revoked = await this.repository.revokeAllForUser(
+            userId,
+            new Date().toISOString(),
+            reason
+        );
+
+        logger.info('All user sessions revoked', {
+            userId,
+            reason,
+            revoked
+        });
+
+        return revoked;
+    }
+
+    /**
+     * List active sessions of a user
+     */
+    async getActiveSessions(userId: string): Promise<AuthSession[]> {
+        return this.repository.findActiveByUserId(userId);
+    }
+
+    private buildAuthToken(user: User, session: AuthSession, refreshToken: string): AuthToken {
+        const token = jwt.sign(
+            {
+                sid: session.id,
+                userId: user.id,
+                email: user.email,
+                role: user.role,
+                firstName: user.firstName,
+                lastName: user.lastName
+            },
+            this.getJwtSecret(),
+            { expiresIn: this.accessTokenTtlSeconds }
+        );
+
+        return {
+            token,
+            expiresAt: new Date(Date.now() + this.accessTokenTtlSeconds * 1000).toISOString(),
+            refreshToken,
+            refreshTokenExpiresAt: session.expiresAt,
+            user: {
+                userId: user.id,
+                email: user.email,
+                role: user.role,
+                firstName: user.firstName,
+                lastName: user.lastName,
+                emailVerified: user.emailVerified
+            }
+        };
+    }
+
+    private generateRefreshToken(): string {
+        return crypto.randomBytes(48).toString('base64url');
+    }
+
+    private hashToken(rawToken: string): string {
+        return crypto.createHash('sha256').update(rawToken).digest('hex');
+    }
+
+    private getJwtSecret(): string {
+        return config.JWT_SECRET;
+    }
+}
+
+export const sessionService = new SessionService();
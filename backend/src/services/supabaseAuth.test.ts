@@ -0,0 +1,65 @@
+// backend/src/services/supabaseAuth.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseAuthService } from './supabaseAuth';
+
+const SECRET = 'test-supabase-jwt-secret-at-least-32-chars';
+const ISSUER = 'https://project.supabase.test/auth/v1';
+
+// user_roles rows the React app wrote for the user
+const withRoles = (roles: string[]) => (() => ({
+    from: () => ({
+        select: () => ({
+            eq: async () => ({ data: roles.map(role => ({ role })), error: null })
+        })
+    })
+})) as unknown as () => SupabaseClient;
+
+const supabaseToken = (secret = SECRET) => jwt.sign(
+    {
+        sub: '1a8847b8-720b-45fe-8729-cfc37151560c',
+        email: 'admin@example.com',
+        session_id: 'e7c1d0a4-5b7f-4f4b-9d8a-2f1c3b4a5d6e',
+        user_metadata: { full_name: 'Asha Rani Verma' }
+    },
+    secret,
+    { audience: 'authenticated', issuer: ISSUER, expiresIn: 60 }
+);
+
+describe('SupabaseAuthService', () => {
+    it('recognises tokens from the project by issuer only', () => {
+        const service = new SupabaseAuthService(withRoles([]));
+
+        assert.equal(service.isSupabaseToken(supabaseToken()), true);
+        assert.equal(service.isSupabaseToken(jwt.sign({ sid: 's', userId: 'u' }, 'backend-secret')), false);
+        assert.equal(service.isSupabaseToken('not-a-jwt'), false);
+    });
+
+    it('maps a verified token to a session with the most privileged role', async () => {
+        const service = new SupabaseAuthService(withRoles(['merchant', 'admin']));
+
+        assert.deepEqual(await service.verifyAccessToken(supabaseToken()), {
+            sessionId: 'e7c1d0a4-5b7f-4f4b-9d8a-2f1c3b4a5d6e',
+            userId: '1a8847b8-720b-45fe-8729-cfc37151560c',
+            email: 'admin@example.com',
+            role: 'admin',
+            firstName: 'Asha',
+            lastName: 'Rani Verma'
+        });
+    });
+
+    it('treats a user without a role as a merchant', async () => {
+        const session = await new SupabaseAuthService(withRoles([])).verifyAccessToken(supabaseToken());
+
+        assert.equal(session.role, 'merchant');
+    });
+
+    it('rejects a token signed with another secret', async () => {
+        await assert.rejects(
+            new SupabaseAuthService(withRoles(['admin'])).verifyAccessToken(supabaseToken('another-secret-of-some-32-characters')),
+            jwt.JsonWebTokenError
+        );
+    });
+});
@@ -0,0 +1,85 @@
+// src/services/supabaseAuth.ts
+import jwt from 'jsonwebtoken';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { config } from '../config/env';
+import { getSupabaseClient } from '../config/supabase';
+import { UserRole, UserSession } from '../types/user';
+import { DatabaseError, TokenError } from '../utils/errors';
+
+interface SupabaseAccessTokenPayload {
+    sub: string;
+    email?: string;
+    session_id?: string;
+    user_metadata?: { full_name?: string };
+}
+
+const USER_ROLES_TABLE = 'user_roles';
+
+// A user can hold several roles; the most privileged one applies
+const ROLE_PRECEDENCE: UserRole[] = ['admin', 'distributor', 'merchant'];
+
+/**
+ * Accepts the Supabase Auth access tokens the React app holds, so the
+ * dashboards call the backend with the session they already have. The role
+ * comes from the user_roles table the React app maintains.
+ */
+export class SupabaseAuthService {
+    constructor(
+        private readonly getClient: () => SupabaseClient = getSupabaseClient
+    ) {}
+
+    /**
+     * Whether the token claims to come from this project's Supabase Auth
+     * (the signature is checked by verifyAccessToken)
+     */
+    isSupabaseToken(token: string): boolean {
+        const issuer = this.getIssuer();
+        const decoded = jwt.decode(token);
+
+        return Boolean(issuer) && typeof decoded === 'object' && decoded?.iss === issuer;
+    }
+
+    async verifyAccessToken(token: string): Promise<UserSession> {
+        if (!config.SUPABASE_JWT_SECRET) {
+            throw new TokenError('Supabase sessions are not accepted', 'SUPABASE_AUTH_DISABLED');
+        }
+
+        const payload = jwt.verify(token, config.SUPABASE_JWT_SECRET, {
+            audience: 'authenticated',
+            issuer: this.getIssuer()
+        }) as SupabaseAccessTokenPayload;
+
+        const [firstName = '', ...lastNames] = (payload.user_metadata?.full_name ?? '').trim().split(/\s+/);
+
+        return {
+            sessionId: payload.session_id ?? payload.sub,
+            userId: payload.sub,
+            email: payload.email ?? '',
+            role: await this.getRole(payload.sub),
+            firstName,
+            lastName: lastNames.join(' ')
+        };
+    }
+
+    // Users the React app has not given a role yet are merchants, as it does on sign-up
+    private async getRole(userId: string): Promise<UserRole> {
+        const { data, error } = await this.getClient()
+            .from(USER_ROLES_TABLE)
+            .select('role')
+            .eq('user_id', userId);
+
+        if (error) {
+            throw new DatabaseError('Failed to read user roles', error.message);
+        }
+
+        const roles = ((data || []) as Array<{ role: string }>).map(row => row.role);
+
+        return ROLE_PRECEDENCE.find(role => roles.includes(role)) ?? 'merchant';
+    }
+
+    private getIssuer(): string | undefined {
+        return config.SUPABASE_URL ? `${config.SUPABASE_URL.replace(/\/$/, '')}/auth/v1` : undefined;
+    }
+}
+
+export const supabaseAuthService = new SupabaseAuthService();
@@ -0,0 +1,39 @@
+// backend/src/services/userService.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { createUserRepository } from '../repositories';
+import { userService } from './userService';
+import { AppError } from '../utils/errors';
+
+describe('UserService.resetPassword', () => {
+    it('accepts a reset link only once when it is used twice at the same time', async () => {
+        const user = await userService.register({
+            email: `owner-${uuidv4()}@example.com`,
+            password: 'first-password',
+            firstName: 'Asha',
+            lastName: 'Verma'
+        });
+
+        const rawToken = crypto.randomBytes(32).toString('hex');
+        await createUserRepository().createToken({
+            id: uuidv4(),
+            userId: user.id,
+            type: 'password_reset',
+            tokenHash: crypto.createHash('sha256').update(rawToken).digest('hex'),
+            expiresAt: new Date(Date.now() + 60000).toISOString(),
+            createdAt: new Date().toISOString()
+        });
+
+        const results = await Promise.allSettled([
+            userService.resetPassword(rawToken, 'second-password'),
+            userService.resetPassword(rawToken, 'third-password')
+        ]);
+
+        const rejected = results.filter(result => result.status === 'rejected') as PromiseRejectedResult[];
+
+        assert.equal(rejected.length, 1);
+        assert.equal((rejected[0].reason as AppError).code, 'INVALID_OR_EXPIRED_TOKEN');
+    });
+});
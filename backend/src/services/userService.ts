@@ -0,0 +1,392 @@
+// src/services/userService.ts
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/env';
+import {
+    LoginCredentials,
+    RegisterData,
+    User,
+    UserRole,
+    UserToken,
+    UserTokenType
+} from '../types/user';
+import { UserRepository, createUserRepository } from '../repositories';
+import { notificationService } from './notifications';
+import {
+    BadRequestError,
+    ConflictError,
+    ForbiddenError,
+    NotFoundError,
+    UnauthorizedError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const BCRYPT_ROUNDS = 10;
+// Admin and distributor accounts are created by an admin, never through sign-up
+const SELF_REGISTRABLE_ROLES: UserRole[] = ['merchant'];
+const MIN_PASSWORD_LENGTH = 8;
+
+const TOKEN_TTL_MS: Record<UserTokenType, number> = {
+    email_verification: 24 * 60 * 60 * 1000, // 24 hours
+    password_reset: 60 * 60 * 1000 // 1 hour
+};
+
+export class UserService {
+    constructor(
+        private readonly repository: UserRepository = createUserRepository()
+    ) {}
+
+    /**
+     * Register a new account and email a verification link
+     */
+    async register(data: RegisterData): Promise<User> {
+        const email = this.normalizeEmail(data.email);
+
+        if (data.role && !SELF_REGISTRABLE_ROLES.includes(data.role)) {
+            throw new ForbiddenError(
+                'Only merchant accounts can be self-registered',
+                'ROLE_NOT_ALLOWED'
+            );
+        }
+
+        this.validatePassword(data.password);
+
+        if (await this.repository.findByEmail(email)) {
+            throw new ConflictError(
+                'User with this email already exists',
+                'USER_EXISTS'
+            );
+        }
+
+        const now = new Date().toISOString();
+
+        const user: User = {
+            id: uuidv4(),
+            email,
+            passwordHash: await bcrypt.hash(data.password, BCRYPT_ROUNDS),
+            role: 'merchant',
+            firstName: data.firstName,
+            lastName: data.lastName,
+            phone: data.phone,
+            isActive: true,
+            emailVerified: false,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await this.repository.create(user);
+
+        // The account exists now, so a failed send must not fail the sign-up:
+        // registering again would get USER_EXISTS, while resend-verification retries it
+        try {
+            await this.sendVerificationEmail(user);
+        } catch (error) {
+            logger.error('Verification email not sent after registration', error instanceof Error ? error : undefined, {
+                userId: user.id
+            });
+        }
+
+        logger.info('User registered', {
+            userId: user.id,
+            role: user.role
+        });
+
+        return user;
+    }
+
+    /**
+     * Check credentials and record the login
+     */
+    async authenticate(credentials: LoginCredentials): Promise<User> {
+        const user = await this.repository.findByEmail(
+            this.normalizeEmail(credentials.email)
+        );
+
+        if (!user) {
+            throw new UnauthorizedError(
+                'Invalid email or password',
+                'INVALID_CREDENTIALS'
+            );
+        }
+
+        const isValidPassword = await bcrypt.compare(credentials.password, user.passwordHash);
+
+        if (!isValidPassword) {
+            throw new UnauthorizedError(
+                'Invalid email or password',
+                'INVALID_CREDENTIALS'
+            );
+        }
+
+        if (!user.isActive) {
+            throw new ForbiddenError(
+                'Account has been disabled',
+                'ACCOUNT_DISABLED'
+            );
+        }
+
+        const now = new Date().toISOString();
+
+        return this.repository.update({
+            ...user,
+            lastLoginAt: now,
+            updatedAt: now
+        });
+    }
+
+    /**
+     * Get user by ID
+     */
+    async getUserById(userId: string): Promise<User> {
+        const user = await this.repository.findById(userId);
+
+        if (!user) {
+            throw new NotFoundError(
+                'User not found',
+                'USER_NOT_FOUND'
+            );
+        }
+
+        return user;
+    }
+
+    /**
+     * Get all users (admin)
+     */
+    async getAllUsers(): Promise<User[]> {
+        return this.repository.findAll();
+    }
+
+    /**
+     * Re-send the verification link. Unknown or already verified
+     * addresses are ignored so the endpoint cannot be used to probe accounts.
+     */
+    async resendVerification(email: string): Promise<void> {
+        const user = await this.repository.findByEmail(this.normalizeEmail(email));
+
+        if (!user || user.emailVerified) {
+            return;
+        }
+
+        await this.sendVerificationEmail(user);
+    }
+
+    /**
+     * Mark the email address as verified using a one-time token
+     */
+    async verifyEmail(rawToken: string): Promise<User> {
+        const token = await this.consumeToken(rawToken, 'email_verification');
+        const user = await this.getUserById(token.userId);
+
+        const updated = await this.repository.update({
+            ...user,
+            emailVerified: true,
+            updatedAt: new Date().toISOString()
+        });
+
+        logger.info('Email verified', { userId: user.id });
+
+        return updated;
+    }
+
+    /**
+     * Email a password reset link. Always succeeds silently for unknown
+     * or disabled accounts.
+     */
+    async requestPasswordReset(email: string): Promise<void> {
+        const user = await this.repository.findByEmail(this.normalizeEmail(email));
+
+        if (!user || !user.isActive) {
+            logger.debug('Password reset requested for unknown or disabled account');
+            return;
+        }
+
+        await this.repository.invalidateTokens(user.id, 'password_reset');
+
+        const rawToken = await this.issueToken(user.id, 'password_reset');
+
+        await notificationService.sendPasswordReset(
+            user,
+            `${this.getAppUrl()}/reset-password?token=${rawToken}`
+        );
+    }
+
+    /**
+     * Set a new password using a one-time reset token
+     */
+    async resetPassword(rawToken: string, newPassword: string): Promise<User> {
+        this.validatePassword(newPassword);
+
+        const token = await this.consumeToken(rawToken, 'password_reset');
+        const user = await this.getUserById(token.userId);
+
+        if (!user.isActive) {
+            throw new ForbiddenError(
+                'Account has been disabled',
+                'ACCOUNT_DISABLED'
+            );
+        }
+
+        const updated = await this.repository.update({
+            ...user,
+            passwordHash: await bcrypt.hash(newPassword, BCRYPT_ROUNDS),
+            // Receiving the reset link proves ownership of the address
+            emailVerified: true,
+            updatedAt: new Date().toISOString()
+        });
+
+        logger.info('Password reset completed', { userId: user.id });
+
+        return updated;
+    }
+
+    /**
+     * Enable or disable an account (admin)
+     */
+    async setActive(userId: string, isActive: boolean, actorId?: string): Promise<User> {
+        const user = await this.getUserById(userId);
+
+        if (!isActive && userId === actorId) {
+            throw new BadRequestError(
+                'You cannot disable your own account',
+                'CANNOT_DISABLE_SELF'
+            );
+        }
+
+        const updated = await this.repository.update({
+            ...user,
+            isActive,
+            updatedAt: new Date().toISOString()
+        });
+
+        logger.business(
+            isActive ? 'user_enabled' : 'user_disabled',
+            userId,
+            'user',
+            { adminUserId: actorId }
+        );
+
+        return updated;
+    }
+
+    /**
+     * Create demo accounts for local development
+     */
+    async seedDemoUsers(): Promise<void> {
+        const demoUsers = [
+            {
+                email: 'admin@sabbpe.com',
+                password: 'admin123',
+                role: 'admin' as const,
+                firstName: 'Admin',
+                lastName: 'User'
+            },
+            {
+                email: 'merchant@sabbpe.com',
+                password: 'merchant123',
+                role: 'merchant' as const,
+                firstName: 'Merchant',
+                lastName: 'User'
+            }
+        ];
+
+        for (const userData of demoUsers) {
+            if (await this.repository.findByEmail(userData.email)) {
+                continue;
+            }
+
+            const now = new Date().toISOString();
+
+            await this.repository.create({
+                id: uuidv4(),
+                email: userData.email,
+                passwordHash: await bcrypt.hash(userData.password, BCRYPT_ROUNDS),
+                role: userData.role,
+                firstName: userData.firstName,
+                lastName: userData.lastName,
+                isActive: true,
+                emailVerified: true,
+                createdAt: now,
+                updatedAt: now
+            });
+
+            logger.info('Demo user seeded', { email: userData.email });
+        }
+    }
+
+    private async sendVerificationEmail(user: User): Promise<void> {
+        await this.repository.invalidateTokens(user.id, 'email_verification');
+
+        const rawToken = await this.issueToken(user.id, 'email_verification');
+
+        await notificationService.sendEmailVerification(
+            user,
+            `${this.getAppUrl()}/verify-email?token=${rawToken}`
+        );
+    }
+
+    /**
+     * Create a token and return the raw value; only its hash is persisted
+     */
+    private async issueToken(userId: string, type: UserTokenType): Promise<string> {
+        const rawToken = crypto.randomBytes(32).toString('hex');
+        const now = Date.now();
+
+        const token: UserToken = {
+            id: uuidv4(),
+            userId,
+            type,
+            tokenHash: this.hashToken(rawToken),
+            expiresAt: new Date(now + TOKEN_TTL_MS[type]).toISOString(),
+            createdAt: new Date(now).toISOString()
+        };
+
+        await this.repository.createToken(token);
+
+        return rawToken;
+    }
+
+    private async consumeToken(rawToken: string, type: UserTokenType): Promise<UserToken> {
+        const token = await this.repository.findTokenByHash(this.hashToken(rawToken), type);
+
+        const invalid = () => new BadRequestError(
+            'Link is invalid or has expired',
+            'INVALID_OR_EXPIRED_TOKEN'
+        );
+
+        if (!token || token.usedAt || new Date(token.expiresAt).getTime() < Date.now()) {
+            throw invalid();
+        }
+
+        // Two requests with the same link can both get here; only one marks it used
+        if (!(await this.repository.markTokenUsed(token.id, new Date().toISOString()))) {
+            throw invalid();
+        }
+
+        return token;
+    }
+
+    private hashToken(rawToken: string): string {
+        return crypto.createHash('sha256').update(rawToken).digest('hex');
+    }
+
+    private validatePassword(password: string): void {
+        if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+            throw new BadRequestError(
+                `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+                'WEAK_PASSWORD'
+            );
+        }
+    }
+
+    private normalizeEmail(email: string): string {
+        return email.trim().toLowerCase();
+    }
+
+    private getAppUrl(): string {
+        return config.APP_URL;
+    }
+}
+
+export const userService = new UserService();
@@ -1,10 +1,38 @@
 ﻿// src/services/validationService.ts
-import { MerchantProfile } from '../types/merchant';
+import { MerchantDocumentType, MerchantProductType, MerchantProfile } from '../types/merchant';
 import {
     ValidationError as ValidationErrorClass,
     ValidationErrorItem
 } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { isIndianState, isPinCodeInState, isValidPinCode } from '../utils/pinCode';
+
+// Documents every application must include before it can be submitted
+export const REQUIRED_DOCUMENT_TYPES: MerchantDocumentType[] = [
+    'pan_card',
+    'aadhaar_card',
+    'cancelled_cheque'
+];
+
+// Every document_type value; the bank may ask for any of them
+export const MERCHANT_DOCUMENT_TYPES: MerchantDocumentType[] = [
+    'pan_card',
+    'aadhaar_card',
+    'business_proof',
+    'bank_statement',
+    'cancelled_cheque',
+    'video_kyc',
+    'selfie'
+];
+
+// Every product_type value of merchant_products
+export const MERCHANT_PRODUCT_TYPES: MerchantProductType[] = [
+    'upi_qr',
+    'upi_qr_soundbox',
+    'pos',
+    'payment_gateway',
+    'current_account'
+];
 
 export class ValidationService {
     async validateMerchantProfile(merchant: MerchantProfile): Promise<void> {
@@ -34,6 +62,37 @@ export class ValidationService {
         });
     }
 
+    /**
+     * Address problems of a profile, without throwing
+     */
+    getAddressErrors(merchant: MerchantProfile): ValidationErrorItem[] {
+        const errors: ValidationErrorItem[] = [];
+
+        this.validateAddress(merchant, errors);
+
+        return errors;
+    }
+
+    /**
+     * Documents the bank asked for that have not been uploaded since the request
+     */
+    getMissingRequestedDocuments(merchant: MerchantProfile): MerchantDocumentType[] {
+        const requestedAt = merchant.infoRequestedAt ? Date.parse(merchant.infoRequestedAt) : 0;
+
+        return (merchant.requestedDocuments || []).filter(type =>
+            !merchant.documents.some(doc => doc.type === type && Date.parse(doc.uploadedAt) >= requestedAt)
+        );
+    }
+
+    /**
+     * Required documents that no admin review has verified yet
+     */
+    getUnverifiedRequiredDocuments(merchant: MerchantProfile): MerchantDocumentType[] {
+        return REQUIRED_DOCUMENT_TYPES.filter(type =>
+            !merchant.documents.some(doc => doc.type === type && doc.verified === true)
+        );
+    }
+
     private validateBusinessInfo(
         merchant: MerchantProfile,
         errors: ValidationErrorItem[]
@@ -137,6 +196,34 @@ export class ValidationService {
                 code: 'MISSING_COUNTRY'
             });
         }
+
+        if (merchant.country?.trim().toLowerCase() !== 'india') {
+            return;
+        }
+
+        if (merchant.state?.trim() && !isIndianState(merchant.state)) {
+            errors.push({
+                field: 'state',
+                message: `${merchant.state} is not an Indian state or union territory`,
+                code: 'INVALID_STATE'
+            });
+        }
+
+        if (merchant.postalCode?.trim()) {
+            if (!isValidPinCode(merchant.postalCode)) {
+                errors.push({
+                    field: 'postalCode',
+                    message: 'Postal code must be a valid 6-digit PIN code',
+                    code: 'INVALID_PIN_CODE'
+                });
+            } else if (merchant.state?.trim() && !isPinCodeInState(merchant.postalCode, merchant.state)) {
+                errors.push({
+                    field: 'postalCode',
+                    message: `PIN code ${merchant.postalCode} does not belong to ${merchant.state}`,
+                    code: 'PIN_CODE_STATE_MISMATCH'
+                });
+            }
+        }
     }
 
     private validateDocuments(
@@ -178,15 +265,9 @@ export class ValidationService {
             }
         });
 
-        const requiredTypes: Array<'business_license' | 'tax_certificate' | 'id_proof'> = [
-            'business_license',
-            'tax_certificate',
-            'id_proof'
-        ];
-
         const providedTypes = merchant.documents.map(d => d.type);
 
-        requiredTypes.forEach(requiredType => {
+        REQUIRED_DOCUMENT_TYPES.forEach(requiredType => {
             if (!providedTypes.includes(requiredType)) {
                 errors.push({
                     field: 'documents',
@@ -0,0 +1,153 @@
+// backend/src/services/webhookLedger.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import { createWebhookEventRepository } from '../repositories';
+import { BankWebhookPayload } from '../types/bank';
+import { MerchantProfile } from '../types/merchant';
+import { BankWebhookOutcome, WebhookLedgerService } from './webhookLedger';
+import { merchantService } from './merchantService';
+
+const decision = (): BankWebhookPayload => ({
+    eventId: uuidv4(),
+    applicationId: `APP-${uuidv4()}`,
+    merchantId: uuidv4(),
+    status: 'approved',
+    decision: { approved: true },
+    processedAt: '2025-10-19T10:00:00.000Z'
+});
+
+// A ledger whose 'webhooks' handler counts its runs and fails while `failing` is set
+function createLedger(outcome: BankWebhookOutcome = 'processed') {
+    const ledger = new WebhookLedgerService(createWebhookEventRepository());
+    const state = { runs: 0, failing: false };
+
+    ledger.registerHandler('webhooks', async () => {
+        state.runs++;
+
+        if (state.failing) {
+            throw new Error('Bank decision could not be applied');
+        }
+
+        return outcome;
+    });
+
+    return { ledger, state };
+}
+
+describe('WebhookLedgerService', () => {
+    it('acknowledges a redelivered event without running it again', async () => {
+        const { ledger, state } = createLedger();
+        const payload = decision();
+
+        const first = await ledger.receive('webhooks', payload, JSON.stringify(payload));
+        const second = await ledger.receive('webhooks', payload, JSON.stringify(payload));
+
+        assert.equal(first.duplicate, false);
+        assert.equal(first.event.status, 'processed');
+        assert.equal(second.duplicate, true);
+        assert.equal(second.event.duplicateCount, 1);
+        assert.equal(state.runs, 1);
+    });
+
+    it('keys events without an id on a digest of the body', async () => {
+        const { ledger, state } = createLedger();
+        const payload = { ...decision(), eventId: undefined };
+
+        await ledger.receive('webhooks', payload, JSON.stringify(payload));
+        const redelivery = await ledger.receive('webhooks', payload, JSON.stringify(payload));
+
+        assert.equal(redelivery.duplicate, true);
+        assert.match(redelivery.event.eventId, /^sha256:/);
+        assert.equal(state.runs, 1);
+    });
+
+    it('runs a failed event again on the next delivery', async () => {
+        const { ledger, state } = createLedger();
+        const payload = decision();
+
+        state.failing = true;
+        await assert.rejects(ledger.receive('webhooks', payload, JSON.stringify(payload)));
+
+        state.failing = false;
+        const retry = await ledger.receive('webhooks', payload, JSON.stringify(payload));
+
+        assert.equal(retry.duplicate, false);
+        assert.equal(retry.event.status, 'processed');
+        assert.equal(retry.event.attempts, 2);
+        assert.equal(state.runs, 2);
+    });
+
+    it('takes over an event only once its processing lease ran out', async () => {
+        const repository = createWebhookEventRepository();
+        const { ledger, state } = createLedger();
+        const payload = decision();
+        const startedAt = new Date(Date.now() - 5 * 60000).toISOString();
+
+        // A delivery that crashed while processing
+        await repository.create({
+            id: uuidv4(),
+            route: 'webhooks',
+            applicationId: payload.applicationId,
+            eventId: payload.eventId as string,
+            merchantId: payload.merchantId,
+            status: 'processing',
+            payload: JSON.stringify(payload),
+            attempts: 1,
+            duplicateCount: 0,
+            receivedAt: startedAt,
+            lastReceivedAt: startedAt,
+            processingStartedAt: startedAt,
+            updatedAt: startedAt
+        });
+
+        const takeover = await ledger.receive('webhooks', payload, JSON.stringify(payload));
+        assert.equal(takeover.duplicate, false);
+        assert.equal(takeover.event.status, 'processed');
+        assert.equal(state.runs, 1);
+
+        const inProgress = decision();
+        const blocked = new WebhookLedgerService(createWebhookEventRepository());
+        blocked.registerHandler('webhooks', () => new Promise<BankWebhookOutcome>(() => undefined));
+        void blocked.receive('webhooks', inProgress, JSON.stringify(inProgress));
+
+        const concurrent = await ledger.receive('webhooks', inProgress, JSON.stringify(inProgress));
+        assert.equal(concurrent.duplicate, true);
+        assert.equal(concurrent.event.status, 'processing');
+        assert.equal(state.runs, 1);
+    });
+
+    it('records an ignored decision and does not retry it', async () => {
+        const { ledger, state } = createLedger('ignored');
+        const payload = decision();
+
+        const first = await ledger.receive('webhooks', payload, JSON.stringify(payload));
+        const second = await ledger.receive('webhooks', payload, JSON.stringify(payload));
+
+        assert.equal(first.event.status, 'ignored');
+        assert.ok(first.event.processedAt);
+        assert.equal(second.duplicate, true);
+        assert.equal(state.runs, 1);
+        await assert.rejects(ledger.replay(first.event.id), { code: 'WEBHOOK_ALREADY_PROCESSED' });
+    });
+});
+
+describe('MerchantService.acceptsBankDecision', () => {
+    const merchant = (onboardingStatus: MerchantProfile['onboardingStatus']) => ({
+        id: uuidv4(),
+        businessName: 'Sharma Stores',
+        bankApplicationId: 'APP-1',
+        onboardingStatus
+    }) as MerchantProfile;
+
+    it('accepts decisions while the merchant awaits the bank', async () => {
+        assert.equal(await merchantService.acceptsBankDecision(merchant('pending_bank_approval'), 'BANK_APPROVE', 'APP-1'), true);
+        assert.equal(await merchantService.acceptsBankDecision(merchant('pending_bank_approval'), 'BANK_REJECT', 'APP-1'), true);
+    });
+
+    it('ignores a decision that was already applied or contradicts a later one', async () => {
+        assert.equal(await merchantService.acceptsBankDecision(merchant('approved'), 'BANK_APPROVE', 'APP-1'), false);
+        assert.equal(await merchantService.acceptsBankDecision(merchant('approved'), 'BANK_REJECT', 'APP-1'), false);
+        assert.equal(await merchantService.acceptsBankDecision(merchant('rejected'), 'BANK_REQUEST_INFO', 'APP-1'), false);
+    });
+});
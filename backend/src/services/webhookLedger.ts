@@ -0,0 +1,227 @@
+// src/services/webhookLedger.ts
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookEventRepository, createWebhookEventRepository } from '../repositories';
+import { WebhookEventFilter } from '../repositories/webhookEventRepository';
+import {
+    BankWebhookPayload,
+    BankWebhookRoute,
+    InboundWebhookEvent
+} from '../types/bank';
+import { AppError, ConflictError, InternalServerError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { webhookEvents } from '../utils/metrics';
+
+// ignored: the handler acknowledged the event without acting on it
+export type BankWebhookOutcome = 'processed' | 'ignored';
+
+export type BankWebhookHandler = (payload: BankWebhookPayload) => Promise<BankWebhookOutcome>;
+
+export interface WebhookReceipt {
+    event: InboundWebhookEvent;
+    duplicate: boolean;
+}
+
+/**
+ * Records every bank webhook before acting on it, so redeliveries of an event
+ * that was already handled are acknowledged without running it twice.
+ */
+export class WebhookLedgerService {
+    private readonly handlers = new Map<BankWebhookRoute, BankWebhookHandler>();
+
+    constructor(
+        private readonly repository: WebhookEventRepository = createWebhookEventRepository(),
+        // Well above a handler's run time; an event processing for longer was abandoned by a crash
+        private readonly leaseMs = 60000
+    ) {}
+
+    /**
+     * Register the handler a route uses, so stored events can be replayed through it
+     */
+    registerHandler(route: BankWebhookRoute, handler: BankWebhookHandler): void {
+        this.handlers.set(route, handler);
+    }
+
+    /**
+     * Record and process a delivery. Events already processed, ignored or in
+     * progress are duplicates; a failed event, or one whose processing outlived its
+     * lease, is processed again.
+     */
+    async receive(
+        route: BankWebhookRoute,
+        payload: BankWebhookPayload,
+        rawBody: string
+    ): Promise<WebhookReceipt> {
+        const eventId = this.getEventId(payload, rawBody);
+        const existing = await this.repository.findByEventKey(payload.applicationId, eventId);
+
+        if (existing) {
+            // Another delivery may take it over at the same moment; only one claim wins
+            const claimed = this.canTakeOver(existing) ? await this.repository.claim(existing) : null;
+
+            if (!claimed) {
+                return { event: await this.recordDuplicate(existing), duplicate: true };
+            }
+
+            if (existing.status === 'processing') {
+                logger.warn('Taking over a bank webhook whose processing lease ran out', {
+                    applicationId: existing.applicationId,
+                    eventId: existing.eventId,
+                    processingStartedAt: existing.processingStartedAt
+                });
+            }
+
+            return { event: await this.process(claimed), duplicate: false };
+        }
+
+        const now = new Date().toISOString();
+        let event: InboundWebhookEvent;
+
+        try {
+            event = await this.repository.create({
+                id: uuidv4(),
+                route,
+                applicationId: payload.applicationId,
+                eventId,
+                merchantId: payload.merchantId,
+                status: 'processing',
+                // Stored in our shape so replays do not depend on the bank's format
+                payload: JSON.stringify(payload),
+                attempts: 1,
+                duplicateCount: 0,
+                receivedAt: now,
+                lastReceivedAt: now,
+                processingStartedAt: now,
+                updatedAt: now
+            });
+        } catch (error) {
+            // A concurrent delivery of the same event got there first
+            const recorded = error instanceof ConflictError
+                ? await this.repository.findByEventKey(payload.applicationId, eventId)
+                : null;
+
+            if (!recorded) throw error;
+
+            return { event: await this.recordDuplicate(recorded), duplicate: true };
+        }
+
+        return { event: await this.process(event), duplicate: false };
+    }
+
+    /**
+     * Run a stored event through its route's handler again (admin)
+     */
+    async replay(id: string, actorId?: string): Promise<InboundWebhookEvent> {
+        const event = await this.getEvent(id);
+
+        if (event.status === 'processed' || event.status === 'ignored') {
+            throw new ConflictError(`Webhook event was already ${event.status}`, 'WEBHOOK_ALREADY_PROCESSED');
+        }
+
+        const claimed = this.canTakeOver(event) ? await this.repository.claim(event) : null;
+
+        if (!claimed) {
+            throw new ConflictError('Webhook event is being processed', 'WEBHOOK_IN_PROGRESS');
+        }
+
+        logger.business('bank_webhook_replayed', event.id, 'webhook_event', {
+            adminUserId: actorId,
+            applicationId: event.applicationId,
+            eventId: event.eventId
+        });
+
+        return this.process(claimed);
+    }
+
+    async getEvents(filter: WebhookEventFilter = {}): Promise<InboundWebhookEvent[]> {
+        return this.repository.findAll(filter);
+    }
+
+    async getEvent(id: string): Promise<InboundWebhookEvent> {
+        const event = await this.repository.findById(id);
+
+        if (!event) {
+            throw new NotFoundError('Webhook event not found', 'WEBHOOK_EVENT_NOT_FOUND');
+        }
+
+        return event;
+    }
+
+    /**
+     * The bank's event id, or a digest of the body for senders that do not send one
+     */
+    getEventId(payload: BankWebhookPayload, rawBody: string): string {
+        return payload.eventId || `sha256:${crypto.createHash('sha256').update(rawBody).digest('hex')}`;
+    }
+
+    /**
+     * Whether a delivery may process the event: it failed, or the attempt
+     * processing it did not finish within the lease
+     */
+    private canTakeOver(event: InboundWebhookEvent): boolean {
+        if (event.status === 'failed') {
+            return true;
+        }
+
+        const startedAt = Date.parse(event.processingStartedAt ?? event.updatedAt);
+
+        return event.status === 'processing' && Date.now() - startedAt > this.leaseMs;
+    }
+
+    // Runs an event this delivery has claimed
+    private async process(processing: InboundWebhookEvent): Promise<InboundWebhookEvent> {
+        const handler = this.handlers.get(processing.route);
+
+        if (!handler) {
+            throw new InternalServerError(`No webhook handler registered for ${processing.route}`, 'WEBHOOK_HANDLER_MISSING');
+        }
+
+        let outcome: BankWebhookOutcome;
+
+        try {
+            outcome = await handler(JSON.parse(processing.payload) as BankWebhookPayload);
+        } catch (error) {
+            webhookEvents.inc({ route: processing.route, outcome: 'failed' });
+
+            await this.repository.update({
+                ...processing,
+                status: 'failed',
+                lastError: error instanceof Error ? error.message : 'Unknown error',
+                lastErrorCode: error instanceof AppError ? error.code : undefined,
+                updatedAt: new Date().toISOString()
+            });
+
+            throw error;
+        }
+
+        webhookEvents.inc({ route: processing.route, outcome });
+
+        const now = new Date().toISOString();
+
+        return this.repository.update({
+            ...processing,
+            status: outcome,
+            lastError: undefined,
+            lastErrorCode: undefined,
+            processedAt: now,
+            updatedAt: now
+        });
+    }
+
+    private async recordDuplicate(event: InboundWebhookEvent): Promise<InboundWebhookEvent> {
+        const now = new Date().toISOString();
+
+        webhookEvents.inc({ route: event.route, outcome: 'duplicate' });
+
+        logger.info('Duplicate bank webhook acknowledged', {
+            applicationId: event.applicationId,
+            eventId: event.eventId,
+            status: event.status,
+            duplicateCount: event.duplicateCount + 1
+        });
+
+        return this.repository.recordDuplicate(event, now);
+    }
+}
+
+export const webhookLedgerService = new WebhookLedgerService();
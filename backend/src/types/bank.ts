@@ -1,5 +1,7 @@
 ﻿// backend/src/types/bank.ts
+import { MerchantProductType } from './merchant';
 
+// Application request of the mock_bank adapter
 export interface BankApiRequest {
     merchantId: string;
     businessName: string;
@@ -40,7 +42,20 @@ export interface BankDecision {
     merchantCode?: string;
 }
 
+// Application state reported by GET /merchant-applications/:id
+export type BankApplicationState = 'pending_review' | BankDecisionStatus;
+
+export interface BankApplicationStatus {
+    applicationId: string;
+    merchantId?: string;
+    status: BankApplicationState;
+    decision?: BankDecision;
+    eventId?: string; // event id of the decision webhook, once one was sent
+    processedAt?: string;
+}
+
 export interface BankWebhookPayload {
+    eventId?: string; // unique per decision; redeliveries reuse it
     applicationId: string;
     merchantId: string;
     status: BankDecisionStatus;
@@ -54,4 +69,67 @@ export interface BankApiError {
     code: string;
     message: string;
     details?: string;
+}
+
+// Picks the acquiring bank for a merchant; the first matching rule wins
+export interface BankRoutingRule {
+    adapter: string;
+    products?: MerchantProductType[]; // matches if the merchant has any of them
+    regions?: string[]; // state or country, case-insensitive
+}
+
+export type BankSubmissionJobStatus =
+    | 'pending'
+    | 'running'
+    | 'succeeded'
+    | 'dead'
+    | 'cancelled';
+
+// Which merchant store the job's merchant lives in
+export type BankSubmissionMerchantStore = 'sqlite' | 'supabase';
+
+// A queued bank submission; dead jobs form the dead-letter list
+export interface BankSubmissionJob {
+    id: string;
+    merchantId: string;
+    merchantStore: BankSubmissionMerchantStore;
+    status: BankSubmissionJobStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextRunAt: string;
+    lockedUntil?: string;
+    lastError?: string;
+    lastErrorCode?: string;
+    bankApplicationId?: string;
+    requestId?: string; // correlation id of the request that queued the job
+    traceParent?: string; // W3C traceparent of that request, so the bank call joins its trace
+    createdAt: string;
+    updatedAt: string;
+    completedAt?: string;
+}
+
+// Route that received a bank webhook; replays go back through the same handler
+export type BankWebhookRoute = 'webhooks' | 'supabase';
+
+// ignored: acknowledged without a change, the decision no longer applied to the merchant
+export type InboundWebhookStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+// Ledger entry for one bank webhook event (applicationId + eventId)
+export interface InboundWebhookEvent {
+    id: string;
+    route: BankWebhookRoute;
+    applicationId: string;
+    eventId: string;
+    merchantId?: string;
+    status: InboundWebhookStatus;
+    payload: string; // BankWebhookPayload JSON, as parsed by the bank's adapter
+    attempts: number;
+    duplicateCount: number;
+    lastError?: string;
+    lastErrorCode?: string;
+    receivedAt: string;
+    lastReceivedAt: string;
+    processingStartedAt?: string; // when the current attempt took the event; later ones may take over once it is stale
+    processedAt?: string;
+    updatedAt: string;
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+// backend/src/types/health.ts
+
+// skipped: the dependency is not configured and nothing needs it
+export type HealthStatus = 'ok' | 'degraded' | 'down' | 'skipped';
+
+// Result of checking one dependency
+export interface DependencyHealth {
+    name: string;
+    status: HealthStatus;
+    critical: boolean; // a critical dependency that is down makes the server not ready
+    latencyMs: number;
+    message?: string;
+    details?: Record<string, string | number | boolean | null>;
+}
+
+export interface ReadinessReport {
+    status: Exclude<HealthStatus, 'skipped'>;
+    timestamp: string;
+    uptime: number;
+    checks: DependencyHealth[];
+}
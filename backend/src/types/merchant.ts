@@ -5,22 +5,59 @@ export type OnboardingStatus =
     | 'submitted'
     | 'validating'
     | 'pending_bank_approval'
+    | 'info_requested'
     | 'approved'
     | 'rejected';
 
+// Events that move a merchant through the onboarding state machine
+export type OnboardingEvent =
+    | 'SUBMIT'
+    | 'START_VALIDATION'
+    | 'VALIDATION_FAIL'
+    | 'SUBMIT_TO_BANK'
+    | 'BANK_APPROVE'
+    | 'BANK_REJECT'
+    | 'BANK_REQUEST_INFO'
+    | 'PROVIDE_INFO'
+    | 'MANUAL_APPROVE'
+    | 'REJECT';
+
+// Same values as the document_type enum of merchant_documents
+export type MerchantDocumentType =
+    | 'pan_card'
+    | 'aadhaar_card'
+    | 'business_proof'
+    | 'bank_statement'
+    | 'cancelled_cheque'
+    | 'video_kyc'
+    | 'selfie';
+
+// Same values as the product_type enum of merchant_products
+export type MerchantProductType =
+    | 'upi_qr'
+    | 'upi_qr_soundbox'
+    | 'pos'
+    | 'payment_gateway'
+    | 'current_account';
+
 export interface MerchantDocument {
-    type: 'business_license' | 'tax_certificate' | 'id_proof' | 'bank_statement' | 'other';
+    id?: string;
+    type: MerchantDocumentType;
     url: string;
     filename: string;
     uploadedAt: string;
     verified?: boolean;
+    verifiedAt?: string;
 }
 
 export interface MerchantSubmission {
     businessName: string;
     businessType: string;
-    registrationNumber: string;
-    taxId: string;
+    entityType?: string;
+    registrationNumber: string; // PAN
+    taxId: string; // GSTIN
+    fullName?: string;
+    aadhaarNumber?: string;
     email: string;
     phone: string;
     website?: string;
@@ -31,6 +68,7 @@ export interface MerchantSubmission {
     postalCode: string;
     country: string;
     documents: MerchantDocument[];
+    products?: MerchantProductType[]; // picks the acquiring bank, see BankRoutingRule
     metadata?: Record<string, string | number | boolean | null>;
 }
 
@@ -47,8 +85,15 @@ export interface MerchantProfile extends MerchantSubmission {
     userId: string;
     onboardingStatus: OnboardingStatus;
     bankApplicationId?: string;
+    // Adapter of the acquiring bank the application went to; later calls go to the same bank
+    bankAdapter?: string;
     bankResponse?: BankResponseData;
     rejectionReason?: string;
+    // Documents the bank asked for; kept until the application is resubmitted
+    requestedDocuments?: MerchantDocumentType[];
+    infoRequestReason?: string;
+    infoRequestedAt?: string;
+    infoProvidedAt?: string;
     submittedAt?: string;
     validatedAt?: string;
     bankSubmittedAt?: string;
@@ -63,4 +108,20 @@ export interface StatusUpdate {
     toStatus: OnboardingStatus;
     reason?: string;
     metadata?: Record<string, string | number | boolean | null>;
+}
+
+export type StatusActorType = 'merchant' | 'admin' | 'bank' | 'system';
+
+// Who triggered a status change, recorded in the status history
+export interface StatusChangeContext {
+    actorId?: string;
+    actorType: StatusActorType;
+    metadata?: Record<string, string | number | boolean | null>;
+}
+
+export interface StatusHistoryEntry extends StatusUpdate {
+    id: string;
+    actorId?: string;
+    actorType: StatusActorType;
+    createdAt: string;
 }
\ No newline at end of file
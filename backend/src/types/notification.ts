@@ -0,0 +1,93 @@
+// src/types/notification.ts
+
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp' | 'push';
+
+export type NotificationDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+// Languages merchants can receive notifications in (ISO 639-1)
+export type NotificationLocale = 'en' | 'hi' | 'mr' | 'gu' | 'bn' | 'ta' | 'te' | 'kn';
+
+// A browser's PushSubscription, as serialized by PushSubscription.toJSON()
+export interface WebPushSubscription {
+    endpoint: string;
+    keys: {
+        p256dh: string; // base64url P-256 public key
+        auth: string; // base64url auth secret
+    };
+}
+
+// One message to one recipient on one channel
+export interface NotificationPayload {
+    to: string; // email, phone number or push endpoint
+    subject: string;
+    body: string;
+    type: NotificationChannel;
+    html?: string; // email alternative to body
+    url?: string; // opened when a push notification is clicked
+    pushSubscription?: WebPushSubscription; // push only
+}
+
+// Which channels a merchant receives onboarding updates on, and in which language
+export interface NotificationPreferences {
+    merchantId: string;
+    channels: Record<NotificationChannel, boolean>;
+    locale: NotificationLocale;
+    pushSubscriptions: WebPushSubscription[];
+    updatedAt: string;
+}
+
+// One message on one channel, and what became of it
+export interface NotificationDelivery {
+    id: string;
+    kind: string; // e.g. status_change, email_verification
+    channel: NotificationChannel;
+    provider: string;
+    recipient: string; // email, phone number or push endpoint
+    subject: string;
+    template?: string; // e.g. status.approved/sms/hi/v1
+    status: NotificationDeliveryStatus;
+    merchantId?: string;
+    userId?: string;
+    providerMessageId?: string;
+    error?: string;
+    createdAt: string;
+    updatedAt: string;
+    sentAt?: string;
+}
+
+// One version of a message for one channel and language. Placeholders are
+// {{name}}; {{#name}}...{{/name}} renders only when name has a value and
+// {{^name}}...{{/name}} only when it has none.
+export interface NotificationTemplate {
+    key: string; // e.g. status.approved
+    channel: NotificationChannel;
+    locale: NotificationLocale;
+    version: number;
+    subject: string; // email subject, push title
+    body: string; // plain text (the SMS, WhatsApp message or push body)
+    html?: string; // email only
+}
+
+// A template filled in for one recipient
+export interface RenderedNotification {
+    template: string; // key/channel/locale/vversion, as recorded on the delivery
+    locale: NotificationLocale; // after falling back
+    version: number;
+    subject: string;
+    body: string;
+    html?: string;
+}
+
+// An entry in a user's notification center (the notifications table the React app reads)
+export interface InAppNotification {
+    id: string;
+    userId: string;
+    type: string; // e.g. status_update
+    title: string;
+    message: string;
+    actionUrl?: string;
+    actionLabel?: string;
+    read: boolean;
+    readAt?: string;
+    createdAt: string;
+}
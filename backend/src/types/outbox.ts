@@ -0,0 +1,51 @@
+// src/types/outbox.ts
+import { OnboardingEvent, OnboardingStatus, StatusActorType } from './merchant';
+
+export type OutboxEventType = 'merchant.status_changed';
+
+export type OutboxEventStatus = 'pending' | 'running' | 'delivered' | 'dead';
+
+// The work an event asks for; the dispatcher runs each one until it succeeds once
+export type OutboxHandler =
+    | 'audit'
+    | 'notifyMerchant'
+    | 'notifyInApp'
+    | 'notifyAdmin';
+
+// Which merchant store wrote the event; the outbox lives next to the merchant
+export type OutboxMerchantStore = 'sqlite' | 'supabase';
+
+// A recorded status change, as its history entry has it
+export interface MerchantStatusChangedPayload {
+    historyId: string;
+    event: OnboardingEvent;
+    fromStatus: OnboardingStatus;
+    toStatus: OnboardingStatus;
+    reason?: string;
+    metadata?: Record<string, string | number | boolean | null>;
+    actorId?: string;
+    actorType: StatusActorType;
+}
+
+// Written in the same transaction as the change it describes; dead events form the dead-letter list
+export interface OutboxEvent {
+    id: string;
+    type: OutboxEventType;
+    merchantId: string;
+    merchantStore: OutboxMerchantStore;
+    payload: MerchantStatusChangedPayload;
+    handlers: OutboxHandler[];
+    completedHandlers: OutboxHandler[];
+    status: OutboxEventStatus;
+    attempts: number;
+    maxAttempts: number;
+    nextRunAt: string;
+    lockedUntil?: string;
+    lastError?: string;
+    lastErrorCode?: string;
+    requestId?: string; // correlation id of the request that changed the status
+    traceParent?: string; // W3C traceparent of that request
+    createdAt: string;
+    updatedAt: string;
+    deliveredAt?: string;
+}
@@ -17,7 +17,36 @@ export interface User {
     updatedAt: string;
 }
 
+export type UserTokenType = 'email_verification' | 'password_reset';
+
+// One-time token emailed to a user; only the hash is stored
+export interface UserToken {
+    id: string;
+    userId: string;
+    type: UserTokenType;
+    tokenHash: string;
+    expiresAt: string;
+    usedAt?: string;
+    createdAt: string;
+}
+
+// Server-side login session backing a refresh token
+export interface AuthSession {
+    id: string;
+    userId: string;
+    refreshTokenHash: string;
+    previousRefreshTokenHash?: string;
+    expiresAt: string;
+    revokedAt?: string;
+    revokedReason?: string;
+    lastRefreshedAt?: string;
+    userAgent?: string;
+    ipAddress?: string;
+    createdAt: string;
+}
+
 export interface UserSession {
+    sessionId: string;
     userId: string;
     email: string;
     role: UserRole;
@@ -42,5 +71,7 @@ export interface RegisterData {
 export interface AuthToken {
     token: string;
     expiresAt: string;
-    user: UserSession;
+    refreshToken: string;
+    refreshTokenExpiresAt: string;
+    user: Omit<UserSession, 'sessionId'> & { emailVerified: boolean };
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+// backend/src/utils/circuitBreaker.ts
+import { ServiceUnavailableError } from './errors';
+import { logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number; // consecutive failures that open the circuit
+    resetTimeoutMs: number; // time open before trial calls are let through
+    halfOpenMaxCalls: number; // trial calls in flight while half-open
+}
+
+// Breaker state as reported on /health
+export interface CircuitBreakerSnapshot {
+    name: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt?: string;
+    retryAt?: string;
+}
+
+/**
+ * Fails calls fast while a dependency is down. After failureThreshold
+ * consecutive failures the circuit opens; once resetTimeoutMs has passed it
+ * lets trial calls through (half-open) and closes again on the first success.
+ * Errors isFailure rejects, e.g. a 4xx answer, prove the dependency is up.
+ */
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt = 0;
+    private trialCalls = 0;
+
+    constructor(
+        readonly name: string,
+        private readonly options: CircuitBreakerOptions,
+        private readonly isFailure: (error: unknown) => boolean = () => true
+    ) {}
+
+    async execute<T>(call: () => Promise<T>): Promise<T> {
+        this.admit();
+
+        try {
+            const result = await call();
+            this.onSuccess();
+            return result;
+        } catch (error) {
+            if (this.isFailure(error)) {
+                this.onFailure(error);
+            } else {
+                this.onSuccess();
+            }
+
+            throw error;
+        }
+    }
+
+    getSnapshot(): CircuitBreakerSnapshot {
+        return {
+            name: this.name,
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            openedAt: this.state === 'closed' ? undefined : new Date(this.openedAt).toISOString(),
+            retryAt: this.state === 'open'
+                ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString()
+                : undefined
+        };
+    }
+
+    private admit(): void {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+            this.transition('half_open');
+        }
+
+        if (this.state === 'open' || (this.state === 'half_open' && this.trialCalls >= this.options.halfOpenMaxCalls)) {
+            throw new ServiceUnavailableError(
+                `${this.name} is unavailable`,
+                'CIRCUIT_OPEN',
+                `Circuit open since ${new Date(this.openedAt).toISOString()}`
+            );
+        }
+
+        if (this.state === 'half_open') {
+            this.trialCalls++;
+        }
+    }
+
+    private onSuccess(): void {
+        this.consecutiveFailures = 0;
+
+        if (this.state !== 'closed') {
+            this.transition('closed');
+        }
+    }
+
+    private onFailure(error: unknown): void {
+        this.consecutiveFailures++;
+
+        // A failed trial call reopens the circuit straight away
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+            this.openedAt = Date.now();
+            this.transition('open', error);
+        }
+    }
+
+    private transition(state: CircuitState, error?: unknown): void {
+        const previous = this.state;
+
+        this.state = state;
+        this.trialCalls = 0;
+
+        const context = {
+            circuit: this.name,
+            from: previous,
+            to: state,
+            consecutiveFailures: this.consecutiveFailures,
+            error: error instanceof Error ? error.message : undefined
+        };
+
+        if (state === 'open') {
+            logger.warn('Circuit breaker opened', context);
+        } else {
+            logger.info('Circuit breaker state changed', context);
+        }
+    }
+}
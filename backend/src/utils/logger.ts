@@ -1,4 +1,7 @@
 // backend/src/utils/logger.ts
+import { config } from '../config/env';
+import { Redactor } from './redaction';
+import { getRequestContext } from './requestContext';
 
 export enum LogLevel {
     ERROR = 'ERROR',
@@ -35,16 +38,21 @@ export interface ErrorDetails {
 class Logger {
     private readonly isDevelopment: boolean;
     private readonly logLevel: LogLevel;
+    private readonly redactor: Redactor | null;
 
     constructor() {
-        this.isDevelopment = process.env.NODE_ENV !== 'production';
+        this.isDevelopment = config.NODE_ENV !== 'production';
         this.logLevel = this.getLogLevel();
+        this.redactor = config.LOG_REDACTION === 'off'
+            ? null
+            : new Redactor({
+                patterns: config.LOG_REDACTION === 'full',
+                extraKeys: config.LOG_REDACT_KEYS
+            });
     }
 
     private getLogLevel(): LogLevel {
-        const level = process.env.LOG_LEVEL?.toUpperCase();
-
-        switch (level) {
+        switch (config.LOG_LEVEL) {
             case 'ERROR':
                 return LogLevel.ERROR;
             case 'WARN':
@@ -92,24 +100,37 @@ class Logger {
         return log;
     }
 
+    /**
+     * Build the entry with PAN, Aadhaar, bank account, credential and token
+     * values masked (LOG_REDACTION), whether they arrive as context keys or
+     * inside the message and error text. Inside a request the correlation and
+     * trace ids are added to the context.
+     */
     private createLogEntry(
         level: LogLevel,
         message: string,
         context?: LogContext,
         error?: Error
     ): LogEntry {
+        const redact = (text: string): string => this.redactor?.redactText(text) ?? text;
+        const request = getRequestContext();
+
+        if (request) {
+            context = { requestId: request.requestId, traceId: request.traceId, spanId: request.spanId, ...context };
+        }
+
         const entry: LogEntry = {
             timestamp: new Date().toISOString(),
             level,
-            message,
-            context
+            message: redact(message),
+            context: context && this.redactor ? this.redactor.redactRecord(context) : context
         };
 
         if (error) {
             entry.error = {
                 name: error.name,
-                message: error.message,
-                stack: this.isDevelopment ? error.stack : undefined,
+                message: redact(error.message),
+                stack: this.isDevelopment && error.stack ? redact(error.stack) : undefined,
                 code: 'code' in error ? String(error.code) : undefined
             };
         }
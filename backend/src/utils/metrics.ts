@@ -0,0 +1,280 @@
+// backend/src/utils/metrics.ts
+import { logger } from './logger';
+
+type Labels = Record<string, string | number | undefined>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+// Seconds; from fast local routes up to the bank API timeout
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+function formatLabels(names: readonly string[], values: readonly string[], extra = ''): string {
+    const pairs = names.map((name, index) => `${name}="${escapeLabel(values[index])}"`);
+
+    if (extra) {
+        pairs.push(extra);
+    }
+
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+// What the registry needs from a metric
+interface RegisteredMetric {
+    readonly name: string;
+    collect(): Promise<void>;
+    render(): string;
+}
+
+abstract class Metric<TSeries> implements RegisteredMetric {
+    protected readonly series = new Map<string, { labels: string[]; value: TSeries }>();
+
+    constructor(
+        readonly name: string,
+        readonly help: string,
+        readonly labelNames: readonly string[],
+        readonly type: MetricType
+    ) {}
+
+    protected getSeries(labels: Labels, create: () => TSeries): TSeries {
+        const values = this.labelNames.map(name => String(labels[name] ?? ''));
+        const key = values.join('\u0000');
+        let entry = this.series.get(key);
+
+        if (!entry) {
+            entry = { labels: values, value: create() };
+            this.series.set(key, entry);
+        }
+
+        return entry.value;
+    }
+
+    // Refresh values that are read at scrape time rather than recorded
+    async collect(): Promise<void> {}
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+
+        this.series.forEach(({ labels, value }) => lines.push(...this.renderSeries(labels, value)));
+
+        return lines.join('\n');
+    }
+
+    protected abstract renderSeries(labels: string[], value: TSeries): string[];
+}
+
+export class Counter extends Metric<{ value: number }> {
+    constructor(name: string, help: string, labelNames: readonly string[] = []) {
+        super(name, help, labelNames, 'counter');
+    }
+
+    inc(labels: Labels = {}, amount = 1): void {
+        this.getSeries(labels, () => ({ value: 0 })).value += amount;
+    }
+
+    protected renderSeries(labels: string[], series: { value: number }): string[] {
+        return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(series.value)}`];
+    }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+    constructor(
+        name: string,
+        help: string,
+        labelNames: readonly string[] = [],
+        private readonly collector?: (gauge: Gauge) => Promise<void> | void
+    ) {
+        super(name, help, labelNames, 'gauge');
+    }
+
+    set(labels: Labels, value: number): void {
+        this.getSeries(labels, () => ({ value: 0 })).value = value;
+    }
+
+    // Series not set by the next collect disappear, e.g. a removed bank adapter
+    async collect(): Promise<void> {
+        if (this.collector) {
+            this.series.clear();
+            await this.collector(this);
+        }
+    }
+
+    protected renderSeries(labels: string[], series: { value: number }): string[] {
+        return [`${this.name}${formatLabels(this.labelNames, labels)} ${formatValue(series.value)}`];
+    }
+}
+
+interface HistogramSeries {
+    buckets: number[]; // non-cumulative counts per upper bound
+    sum: number;
+    count: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+    private readonly buckets: number[];
+
+    constructor(name: string, help: string, labelNames: readonly string[] = [], buckets = DEFAULT_BUCKETS) {
+        super(name, help, labelNames, 'histogram');
+        this.buckets = [...buckets].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const series = this.getSeries(labels, () => ({
+            buckets: this.buckets.map(() => 0),
+            sum: 0,
+            count: 0
+        }));
+        const index = this.buckets.findIndex(bound => value <= bound);
+
+        if (index >= 0) {
+            series.buckets[index] += 1;
+        }
+        series.sum += value;
+        series.count += 1;
+    }
+
+    protected renderSeries(labels: string[], series: HistogramSeries): string[] {
+        const lines: string[] = [];
+        let cumulative = 0;
+
+        this.buckets.forEach((bound, index) => {
+            cumulative += series.buckets[index];
+            lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, `le="${formatValue(bound)}"`)} ${cumulative}`);
+        });
+        lines.push(`${this.name}_bucket${formatLabels(this.labelNames, labels, 'le="+Inf"')} ${series.count}`);
+        lines.push(`${this.name}_sum${formatLabels(this.labelNames, labels)} ${formatValue(series.sum)}`);
+        lines.push(`${this.name}_count${formatLabels(this.labelNames, labels)} ${series.count}`);
+
+        return lines;
+    }
+}
+
+/**
+ * Holds every metric and renders them in the Prometheus text format (0.0.4)
+ */
+export class MetricsRegistry {
+    private readonly metrics = new Map<string, RegisteredMetric>();
+
+    constructor(private readonly prefix = '') {}
+
+    counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+        return this.register(new Counter(this.prefix + name, help, labelNames));
+    }
+
+    gauge(
+        name: string,
+        help: string,
+        labelNames: readonly string[] = [],
+        collector?: (gauge: Gauge) => Promise<void> | void
+    ): Gauge {
+        return this.register(new Gauge(this.prefix + name, help, labelNames, collector));
+    }
+
+    histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: number[]): Histogram {
+        return this.register(new Histogram(this.prefix + name, help, labelNames, buckets));
+    }
+
+    /**
+     * Collect scrape-time gauges, then render. A failing collector leaves its
+     * gauge empty rather than failing the scrape.
+     */
+    async render(): Promise<string> {
+        const metrics = [...this.metrics.values()];
+
+        await Promise.all(metrics.map(metric => metric.collect().catch(error => {
+            logger.warn('Metric collection failed', {
+                metric: metric.name,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        })));
+
+        return `${metrics.map(metric => metric.render()).join('\n')}\n`;
+    }
+
+    private register<T extends RegisteredMetric>(metric: T): T {
+        if (this.metrics.has(metric.name)) {
+            throw new Error(`Metric ${metric.name} is already registered`);
+        }
+
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metrics = new MetricsRegistry();
+
+// Process metrics, named as the standard Node.js client names them
+const processStart = Date.now() / 1000;
+
+metrics.gauge('process_start_time_seconds', 'Start time of the process since unix epoch in seconds.', [], gauge => {
+    gauge.set({}, processStart);
+});
+metrics.gauge('process_resident_memory_bytes', 'Resident memory size in bytes.', [], gauge => {
+    gauge.set({}, process.memoryUsage().rss);
+});
+metrics.gauge('nodejs_heap_size_used_bytes', 'Process heap size used from Node.js in bytes.', [], gauge => {
+    gauge.set({}, process.memoryUsage().heapUsed);
+});
+
+/**
+ * Request latency per route template; unmatched paths share one series
+ */
+export const httpRequestDuration = metrics.histogram(
+    'http_request_duration_seconds',
+    'HTTP request latency by route template and status code.',
+    ['method', 'route', 'status_code']
+);
+
+export const bankApiRequests = metrics.counter(
+    'bank_api_requests_total',
+    'Bank API calls by adapter, operation, outcome and error code.',
+    ['adapter', 'operation', 'outcome', 'code']
+);
+
+export const bankApiRequestDuration = metrics.histogram(
+    'bank_api_request_duration_seconds',
+    'Bank API call latency by adapter and operation.',
+    ['adapter', 'operation', 'outcome']
+);
+
+export const webhookEvents = metrics.counter(
+    'webhook_events_total',
+    'Inbound bank webhooks by route and outcome (processed, ignored, duplicate, failed).',
+    ['route', 'outcome']
+);
+
+export const webhookRejections = metrics.counter(
+    'webhook_rejections_total',
+    'Inbound webhooks refused before processing, by error code (missing, expired or invalid signature).',
+    ['code']
+);
+
+export const rateLimitRejections = metrics.counter(
+    'rate_limit_rejections_total',
+    'Requests refused with 429, by limiter (including login lockouts).',
+    ['limiter']
+);
+
+export const onboardingTransitions = metrics.counter(
+    'onboarding_transitions_total',
+    'Onboarding status transitions applied.',
+    ['from', 'to', 'event']
+);
+
+export const notificationDeliveries = metrics.counter(
+    'notification_deliveries_total',
+    'Notification messages by channel, provider and delivery status (sent or failed).',
+    ['channel', 'provider', 'status']
+);
@@ -0,0 +1,133 @@
+// backend/src/utils/pinCode.ts
+
+// States and union territories, spelled as the onboarding form offers them
+export const INDIAN_STATES = [
+    'Andaman and Nicobar Islands',
+    'Andhra Pradesh',
+    'Arunachal Pradesh',
+    'Assam',
+    'Bihar',
+    'Chandigarh',
+    'Chhattisgarh',
+    'Dadra and Nagar Haveli and Daman and Diu',
+    'Delhi',
+    'Goa',
+    'Gujarat',
+    'Haryana',
+    'Himachal Pradesh',
+    'Jammu and Kashmir',
+    'Jharkhand',
+    'Karnataka',
+    'Kerala',
+    'Ladakh',
+    'Lakshadweep',
+    'Madhya Pradesh',
+    'Maharashtra',
+    'Manipur',
+    'Meghalaya',
+    'Mizoram',
+    'Nagaland',
+    'Odisha',
+    'Puducherry',
+    'Punjab',
+    'Rajasthan',
+    'Sikkim',
+    'Tamil Nadu',
+    'Telangana',
+    'Tripura',
+    'Uttar Pradesh',
+    'Uttarakhand',
+    'West Bengal'
+] as const;
+
+// States served by each two-digit PIN prefix (postal circle)
+const PIN_PREFIX_STATES: Record<string, readonly string[]> = {
+    '11': ['Delhi'],
+    '12': ['Haryana'],
+    '13': ['Haryana', 'Punjab'],
+    '14': ['Punjab'],
+    '15': ['Punjab'],
+    '16': ['Punjab', 'Chandigarh', 'Haryana'],
+    '17': ['Himachal Pradesh'],
+    '18': ['Jammu and Kashmir'],
+    '19': ['Jammu and Kashmir', 'Ladakh'],
+    '20': ['Uttar Pradesh'],
+    '21': ['Uttar Pradesh'],
+    '22': ['Uttar Pradesh'],
+    '23': ['Uttar Pradesh'],
+    '24': ['Uttar Pradesh', 'Uttarakhand'],
+    '25': ['Uttar Pradesh'],
+    '26': ['Uttar Pradesh', 'Uttarakhand'],
+    '27': ['Uttar Pradesh'],
+    '28': ['Uttar Pradesh'],
+    '30': ['Rajasthan'],
+    '31': ['Rajasthan'],
+    '32': ['Rajasthan'],
+    '33': ['Rajasthan'],
+    '34': ['Rajasthan'],
+    '36': ['Gujarat'],
+    '37': ['Gujarat'],
+    '38': ['Gujarat'],
+    '39': ['Gujarat', 'Dadra and Nagar Haveli and Daman and Diu'],
+    '40': ['Maharashtra', 'Goa'],
+    '41': ['Maharashtra'],
+    '42': ['Maharashtra'],
+    '43': ['Maharashtra'],
+    '44': ['Maharashtra'],
+    '45': ['Madhya Pradesh'],
+    '46': ['Madhya Pradesh'],
+    '47': ['Madhya Pradesh'],
+    '48': ['Madhya Pradesh'],
+    '49': ['Chhattisgarh'],
+    '50': ['Telangana'],
+    '51': ['Andhra Pradesh'],
+    '52': ['Andhra Pradesh'],
+    '53': ['Andhra Pradesh'],
+    '56': ['Karnataka'],
+    '57': ['Karnataka'],
+    '58': ['Karnataka'],
+    '59': ['Karnataka'],
+    '60': ['Tamil Nadu', 'Puducherry'],
+    '61': ['Tamil Nadu'],
+    '62': ['Tamil Nadu'],
+    '63': ['Tamil Nadu'],
+    '64': ['Tamil Nadu'],
+    '67': ['Kerala', 'Puducherry'],
+    '68': ['Kerala', 'Lakshadweep'],
+    '69': ['Kerala'],
+    '70': ['West Bengal'],
+    '71': ['West Bengal'],
+    '72': ['West Bengal'],
+    '73': ['West Bengal', 'Sikkim'],
+    '74': ['West Bengal', 'Andaman and Nicobar Islands'],
+    '75': ['Odisha'],
+    '76': ['Odisha'],
+    '77': ['Odisha'],
+    '78': ['Assam'],
+    '79': ['Arunachal Pradesh', 'Meghalaya', 'Manipur', 'Mizoram', 'Nagaland', 'Tripura'],
+    '80': ['Bihar'],
+    '81': ['Bihar', 'Jharkhand'],
+    '82': ['Bihar', 'Jharkhand'],
+    '83': ['Jharkhand'],
+    '84': ['Bihar'],
+    '85': ['Bihar']
+};
+
+const PIN_CODE_PATTERN = /^[1-9]\d{5}$/;
+
+export function isValidPinCode(pinCode: string): boolean {
+    return PIN_CODE_PATTERN.test(pinCode.trim()) && Boolean(PIN_PREFIX_STATES[pinCode.trim().slice(0, 2)]);
+}
+
+export function isIndianState(state: string): boolean {
+    return INDIAN_STATES.some(name => name.toLowerCase() === state.trim().toLowerCase());
+}
+
+/**
+ * Whether the PIN code belongs to a postal circle that serves the state
+ */
+export function isPinCodeInState(pinCode: string, state: string): boolean {
+    const states = PIN_PREFIX_STATES[pinCode.trim().slice(0, 2)] || [];
+
+    return states.some(name => name.toLowerCase() === state.trim().toLowerCase());
+}
\ No newline at end of file
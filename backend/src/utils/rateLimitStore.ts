@@ -0,0 +1,78 @@
+// backend/src/utils/rateLimitStore.ts
+import { config } from '../config/env';
+
+// Hits counted for one key in the current window
+export interface RateLimitCounter {
+    count: number;
+    resetAt: number; // epoch ms when the window ends
+}
+
+/**
+ * Where rate limit counters live. The in-memory store is per process; a
+ * shared store (e.g. Redis) lets several instances enforce one limit.
+ */
+export interface RateLimitStore {
+    // Count a hit; the first hit of a key starts a window of windowMs
+    increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+    get(key: string): Promise<RateLimitCounter | null>;
+    reset(key: string): Promise<void>;
+}
+
+// Expired windows are swept after this many increments
+const SWEEP_EVERY = 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+    private readonly counters = new Map<string, RateLimitCounter>();
+    private incrementsSinceSweep = 0;
+
+    async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+        const now = Date.now();
+        let counter = this.counters.get(key);
+
+        if (!counter || counter.resetAt <= now) {
+            counter = { count: 0, resetAt: now + windowMs };
+            this.counters.set(key, counter);
+        }
+
+        counter.count += 1;
+
+        if (++this.incrementsSinceSweep >= SWEEP_EVERY) {
+            this.sweep(now);
+        }
+
+        return { ...counter };
+    }
+
+    async get(key: string): Promise<RateLimitCounter | null> {
+        const counter = this.counters.get(key);
+
+        if (!counter || counter.resetAt <= Date.now()) {
+            return null;
+        }
+
+        return { ...counter };
+    }
+
+    async reset(key: string): Promise<void> {
+        this.counters.delete(key);
+    }
+
+    private sweep(now: number): void {
+        this.incrementsSinceSweep = 0;
+        this.counters.forEach((counter, key) => {
+            if (counter.resetAt <= now) {
+                this.counters.delete(key);
+            }
+        });
+    }
+}
+
+export function createRateLimitStore(): RateLimitStore {
+    switch (config.RATE_LIMIT_STORE) {
+        case 'memory':
+        default:
+            return new MemoryRateLimitStore();
+    }
+}
+
+export const rateLimitStore = createRateLimitStore();
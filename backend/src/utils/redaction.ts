@@ -0,0 +1,150 @@
+// backend/src/utils/redaction.ts
+
+const REDACTED = '[REDACTED]';
+
+// Keys are compared lower-cased with separators removed, so pan_number matches panNumber
+const normalizeKey = (key: string): string => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Credentials: the whole value is replaced
+const SECRET_KEYS = [
+    'password', 'passwordHash', 'token', 'accessToken', 'refreshToken', 'idToken',
+    'authorization', 'cookie', 'apiKey', 'secret', 'clientSecret', 'signature'
+];
+
+// Identity and bank details: the last four characters are kept for support
+const PII_KEYS = [
+    'pan', 'panNumber', 'registrationNumber', 'taxId', 'gstin', 'gstNumber',
+    'aadhaar', 'aadhaarNumber', 'accountNumber', 'bankAccountNumber'
+];
+
+/**
+ * Replace all but the last `visible` characters with '*'
+ */
+export function mask(value: string, visible = 4): string {
+    if (value.length <= visible * 2) {
+        return REDACTED;
+    }
+
+    return '*'.repeat(value.length - visible) + value.slice(-visible);
+}
+
+interface RedactionPattern {
+    name: string;
+    pattern: RegExp;
+    replace: (match: string, ...groups: string[]) => string;
+}
+
+/**
+ * Sensitive values found inside free text (messages, error text, JSON strings).
+ * Order matters: account numbers next to an IFSC are masked before the
+ * 12-digit Aadhaar pattern could claim them.
+ */
+export const REDACTION_PATTERNS: RedactionPattern[] = [
+    {
+        name: 'bearer_token',
+        pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+        replace: () => `Bearer ${REDACTED}`
+    },
+    {
+        // IFSC (4 letters, 0, 6 alphanumerics) followed by an account number
+        name: 'ifsc_account',
+        pattern: /\b([A-Z]{4}0[A-Z0-9]{6})(\D{1,40}?)(\d{9,18})(?![\w-])/g,
+        replace: (_match, ifsc, separator, account) => `${ifsc}${separator}${mask(account)}`
+    },
+    {
+        // Account number followed by an IFSC
+        name: 'account_ifsc',
+        pattern: /(?<![\w-])(\d{9,18})(\D{1,40}?)([A-Z]{4}0[A-Z0-9]{6})\b/g,
+        replace: (_match, account, separator, ifsc) => `${mask(account)}${separator}${ifsc}`
+    },
+    {
+        // GSTIN embeds the PAN: state code, PAN, entity number, 'Z', check digit
+        name: 'gstin',
+        pattern: /\b\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]\b/g,
+        replace: match => mask(match)
+    },
+    {
+        // 5 letters, 4 digits, 1 letter
+        name: 'pan',
+        pattern: /\b[A-Z]{5}\d{4}[A-Z]\b/g,
+        replace: match => mask(match)
+    },
+    {
+        // 12 digits, optionally grouped 4-4-4; never starts with 0 or 1. Not part of
+        // a longer token, so the last group of a UUID is left alone
+        name: 'aadhaar',
+        pattern: /(?<![\w-])[2-9]\d{3}([ -]?)\d{4}\1\d{4}(?![\w-])/g,
+        replace: match => mask(match)
+    }
+];
+
+export interface RedactorOptions {
+    patterns: boolean; // scan string values and messages as well as keys
+    extraKeys: readonly string[]; // treated as credentials
+}
+
+// Nested objects deeper than this are not logged
+const MAX_DEPTH = 8;
+
+/**
+ * Masks sensitive log data by key name and by value pattern
+ */
+export class Redactor {
+    private readonly secretKeys: Set<string>;
+    private readonly piiKeys: Set<string>;
+
+    constructor(private readonly options: RedactorOptions) {
+        this.secretKeys = new Set([...SECRET_KEYS, ...options.extraKeys].map(normalizeKey));
+        this.piiKeys = new Set(PII_KEYS.map(normalizeKey));
+    }
+
+    redactText(text: string): string {
+        if (!this.options.patterns) {
+            return text;
+        }
+
+        return REDACTION_PATTERNS.reduce(
+            (result, { pattern, replace }) => result.replace(pattern, replace),
+            text
+        );
+    }
+
+    /**
+     * Redact a value logged under key; objects and arrays (e.g. a request body)
+     * are walked so nested sensitive keys are caught too
+     */
+    redactValue(key: string, value: unknown, depth = 0): unknown {
+        if (value === undefined || value === null || value === '') {
+            return value;
+        }
+
+        const normalized = normalizeKey(key);
+
+        if (this.secretKeys.has(normalized)) {
+            return REDACTED;
+        }
+        if (this.piiKeys.has(normalized) && typeof value !== 'object') {
+            return mask(String(value));
+        }
+        if (typeof value === 'string') {
+            return this.redactText(value);
+        }
+        if (typeof value !== 'object') {
+            return value;
+        }
+        if (depth >= MAX_DEPTH) {
+            return '[Truncated]';
+        }
+        if (Array.isArray(value)) {
+            return value.map(item => this.redactValue(key, item, depth + 1));
+        }
+
+        return this.redactRecord(value as Record<string, unknown>, depth + 1);
+    }
+
+    redactRecord<T extends object>(record: T, depth = 0): T {
+        return Object.fromEntries(
+            Object.entries(record).map(([key, value]) => [key, this.redactValue(key, value, depth)])
+        ) as T;
+    }
+}
@@ -0,0 +1,22 @@
+// backend/src/utils/requestContext.ts
+import { AsyncLocalStorage } from 'async_hooks';
+
+// What every log line and outbound call made on behalf of a request carries
+export interface RequestContext {
+    requestId: string; // correlation id: the caller's X-Request-ID, or generated
+    traceId: string; // W3C trace id, 32 hex characters
+    spanId: string; // current span, 16 hex characters
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+/**
+ * Run fn, and everything it awaits, with the given context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
@@ -0,0 +1,47 @@
+// backend/src/utils/tokenBucket.ts
+
+export interface TokenBucketOptions {
+    capacity: number; // burst size
+    refillPerSecond: number; // sustained rate
+}
+
+/**
+ * Token-bucket rate limit: up to capacity calls at once, then refillPerSecond
+ */
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+
+    constructor(private readonly options: TokenBucketOptions) {
+        this.tokens = options.capacity;
+    }
+
+    /**
+     * Take a token if one is available
+     */
+    tryRemove(): boolean {
+        this.refill();
+
+        if (this.tokens < 1) {
+            return false;
+        }
+
+        this.tokens -= 1;
+        return true;
+    }
+
+    getAvailable(): number {
+        this.refill();
+        return Math.floor(this.tokens);
+    }
+
+    private refill(): void {
+        const now = Date.now();
+
+        this.tokens = Math.min(
+            this.options.capacity,
+            this.tokens + ((now - this.lastRefill) / 1000) * this.options.refillPerSecond
+        );
+        this.lastRefill = now;
+    }
+}
@@ -0,0 +1,280 @@
+// backend/src/utils/tracing.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/env';
+import { getRequestContext, runWithRequestContext } from './requestContext';
+import { logger } from './logger';
+
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+export const TRACEPARENT_HEADER = 'traceparent';
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+
+// OTLP enum values
+const SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+type AttributeValue = string | number | boolean | undefined;
+
+export interface TraceParent {
+    traceId: string;
+    spanId: string;
+}
+
+export interface SpanOptions {
+    kind?: SpanKind;
+    attributes?: Record<string, AttributeValue>;
+    // Remote parent (traceparent header, queued job); defaults to the current span
+    parent?: TraceParent | null;
+    // Correlation id to use instead of the current request's, e.g. a queued job's
+    requestId?: string;
+}
+
+// Correlation ids from callers are echoed and logged, so only plain tokens are accepted
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+export function parseRequestId(header: string | undefined): string | undefined {
+    return header && REQUEST_ID_PATTERN.test(header) ? header : undefined;
+}
+
+/**
+ * W3C trace context: 00-<trace id>-<parent span id>-<flags>
+ */
+export function parseTraceparent(header: string | undefined): TraceParent | null {
+    const match = header ? TRACEPARENT_PATTERN.exec(header.trim()) : null;
+
+    if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+        return null;
+    }
+
+    return { traceId: match[1], spanId: match[2] };
+}
+
+export function formatTraceparent({ traceId, spanId }: TraceParent): string {
+    return `00-${traceId}-${spanId}-01`;
+}
+
+/**
+ * Headers that carry the current request's correlation id and trace to another service
+ */
+export function getTraceHeaders(): Record<string, string> {
+    const context = getRequestContext();
+
+    if (!context) {
+        return {};
+    }
+
+    return {
+        [REQUEST_ID_HEADER]: context.requestId,
+        [TRACEPARENT_HEADER]: formatTraceparent(context)
+    };
+}
+
+export class Span {
+    readonly traceId: string;
+    readonly spanId: string;
+    readonly parentSpanId?: string;
+    private readonly startTime = Date.now();
+    private endTime?: number;
+    private readonly attributes: Record<string, AttributeValue>;
+    private status?: { code: number; message?: string };
+
+    constructor(
+        private name: string,
+        readonly kind: SpanKind,
+        parent: TraceParent | null,
+        attributes: Record<string, AttributeValue>,
+        private readonly onEnd: (span: Span) => void
+    ) {
+        this.traceId = parent?.traceId ?? crypto.randomBytes(16).toString('hex');
+        this.spanId = crypto.randomBytes(8).toString('hex');
+        this.parentSpanId = parent?.spanId;
+        this.attributes = { ...attributes };
+    }
+
+    updateName(name: string): void {
+        this.name = name;
+    }
+
+    setAttribute(key: string, value: AttributeValue): void {
+        this.attributes[key] = value;
+    }
+
+    setError(error: unknown): void {
+        this.status = { code: STATUS_ERROR, message: error instanceof Error ? error.message : String(error) };
+    }
+
+    end(): void {
+        if (this.endTime !== undefined) {
+            return;
+        }
+
+        this.endTime = Date.now();
+        this.status ??= { code: STATUS_OK };
+        this.onEnd(this);
+    }
+
+    /**
+     * The span in OTLP/JSON form
+     */
+    toOtlp(): Record<string, unknown> {
+        return {
+            traceId: this.traceId,
+            spanId: this.spanId,
+            parentSpanId: this.parentSpanId,
+            name: this.name,
+            kind: SPAN_KIND[this.kind],
+            startTimeUnixNano: `${this.startTime}000000`,
+            endTimeUnixNano: `${this.endTime ?? Date.now()}000000`,
+            attributes: toOtlpAttributes(this.attributes),
+            status: this.status
+        };
+    }
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>): Array<Record<string, unknown>> {
+    return Object.entries(attributes)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ({
+            key,
+            value: typeof value === 'string'
+                ? { stringValue: value }
+                : typeof value === 'boolean'
+                    ? { boolValue: value }
+                    : Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+        }));
+}
+
+export interface SpanExporter {
+    export(payload: Record<string, unknown>): Promise<void>;
+}
+
+// One OTLP/JSON export request per line, for an OpenTelemetry collector's file receiver
+export class FileSpanExporter implements SpanExporter {
+    constructor(private readonly filePath: string) {
+        fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+    }
+
+    async export(payload: Record<string, unknown>): Promise<void> {
+        await fs.promises.appendFile(this.filePath, `${JSON.stringify(payload)}\n`);
+    }
+}
+
+// OTLP/HTTP with JSON encoding, e.g. a local collector on :4318
+export class OtlpHttpSpanExporter implements SpanExporter {
+    constructor(private readonly endpoint: string) {}
+
+    async export(payload: Record<string, unknown>): Promise<void> {
+        await axios.post(`${this.endpoint.replace(/\/$/, '')}/v1/traces`, payload, {
+            headers: { 'Content-Type': 'application/json' },
+            timeout: 5000
+        });
+    }
+}
+
+/**
+ * Creates spans, keeps the current one in the request context so logs and
+ * outbound calls pick it up, and exports finished spans in batches
+ */
+export class Tracer {
+    private buffer: Span[] = [];
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly serviceName: string,
+        private readonly exporter: SpanExporter | null,
+        private readonly flushIntervalMs = 2000,
+        private readonly maxBatchSize = 512
+    ) {}
+
+    startSpan(name: string, options: SpanOptions = {}): Span {
+        const current = getRequestContext();
+        const parent = options.parent === undefined ? current ?? null : options.parent;
+
+        return new Span(name, options.kind ?? 'internal', parent, options.attributes ?? {}, span => this.onEnd(span));
+    }
+
+    /**
+     * Run fn inside a new span; logs and outbound calls made by fn carry its ids
+     */
+    async withSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+        const span = this.startSpan(name, options);
+        const requestId = options.requestId ?? getRequestContext()?.requestId ?? uuidv4();
+
+        try {
+            return await runWithRequestContext(
+                { requestId, traceId: span.traceId, spanId: span.spanId },
+                () => fn(span)
+            );
+        } catch (error) {
+            span.setError(error);
+            throw error;
+        } finally {
+            span.end();
+        }
+    }
+
+    async flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        if (!this.exporter || this.buffer.length === 0) {
+            return;
+        }
+
+        const spans = this.buffer.splice(0, this.buffer.length);
+
+        try {
+            await this.exporter.export({
+                resourceSpans: [{
+                    resource: { attributes: toOtlpAttributes({ 'service.name': this.serviceName }) },
+                    scopeSpans: [{
+                        scope: { name: this.serviceName },
+                        spans: spans.map(span => span.toOtlp())
+                    }]
+                }]
+            });
+        } catch (error) {
+            // Tracing never fails a request; the batch is dropped
+            logger.warn('Trace export failed', {
+                spans: spans.length,
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    }
+
+    private onEnd(span: Span): void {
+        if (!this.exporter) {
+            return;
+        }
+
+        this.buffer.push(span);
+
+        if (this.buffer.length >= this.maxBatchSize) {
+            void this.flush();
+        } else if (!this.timer) {
+            this.timer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+            this.timer.unref();
+        }
+    }
+}
+
+function createExporter(): SpanExporter | null {
+    switch (config.OTEL_TRACES_EXPORTER) {
+        case 'file':
+            return new FileSpanExporter(config.OTEL_TRACES_FILE);
+        case 'otlp':
+            return new OtlpHttpSpanExporter(config.OTEL_EXPORTER_OTLP_ENDPOINT);
+        default:
+            return null;
+    }
+}
+
+export const tracer = new Tracer(config.OTEL_SERVICE_NAME, createExporter());
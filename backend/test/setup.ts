@@ -0,0 +1,13 @@
+// Loaded before every test file: an in-memory store, in-memory notification
+// sinks and quiet logs, so tests touch nothing on disk
+process.env.SQLITE_PATH = ':memory:';
+process.env.STORAGE_DRIVER = 'sqlite';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'ERROR';
+process.env.BANK_RECONCILE_INTERVAL_MS = '0';
+process.env.NOTIFICATION_EMAIL_PROVIDER = 'memory';
+process.env.NOTIFICATION_SMS_PROVIDER = 'memory';
+process.env.NOTIFICATION_WHATSAPP_PROVIDER = 'memory';
+process.env.NOTIFICATION_PUSH_PROVIDER = 'memory';
+// Supabase Auth tokens are verified locally; no Supabase client is configured
+process.env.SUPABASE_URL = 'https://project.supabase.test';
+process.env.SUPABASE_JWT_SECRET = 'test-supabase-jwt-secret-at-least-32-chars';
@@ -0,0 +1,27 @@
+// Web push handlers, imported into the generated service worker (see vite.config.ts)
+self.addEventListener('push', (event) => {
+    const data = event.data ? event.data.json() : {};
+
+    event.waitUntil(
+        self.registration.showNotification(data.title || 'SabbPe', {
+            body: data.body,
+            icon: '/pwa-192x192.png',
+            badge: '/pwa-192x192.png',
+            data: { url: data.url || '/' }
+        })
+    );
+});
+
+self.addEventListener('notificationclick', (event) => {
+    event.notification.close();
+
+    const url = event.notification.data && event.notification.data.url;
+
+    event.waitUntil(
+        self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+            const open = windows.find((client) => client.url === url);
+
+            return open ? open.focus() : self.clients.openWindow(url || '/');
+        })
+    );
+});
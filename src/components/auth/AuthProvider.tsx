@@ -100,7 +100,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
                                         full_name: session.user.user_metadata.full_name || session.user.email?.split('@')[0] || '',
                                         mobile_number: session.user.user_metadata.mobile_number || '',
                                         email: session.user.email || '',
-                                        onboarding_status: 'pending'
+                                        onboarding_status: 'draft'
                                     });
 
                                 if (profileError) {
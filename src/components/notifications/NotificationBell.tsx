@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell, CheckCheck, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useNotifications } from '@/hooks/useNotifications';
+import { getNotificationLink, type InAppNotification } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+
+const typeColors: Record<string, string> = {
+    success: 'bg-green-500',
+    error: 'bg-red-500',
+    warning: 'bg-orange-500',
+};
+
+export const NotificationBell: React.FC = () => {
+    const navigate = useNavigate();
+    const [open, setOpen] = useState(false);
+    const { notifications, unreadCount, loading, error, live, markAsRead, markAllAsRead } = useNotifications();
+
+    const handleSelect = (notification: InAppNotification) => {
+        if (!notification.read) {
+            markAsRead(notification.id);
+        }
+
+        const link = getNotificationLink(notification);
+        if (link) {
+            setOpen(false);
+            navigate(link);
+        }
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="outline"
+                    size="icon"
+                    className="relative"
+                    aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+                >
+                    <Bell className="h-4 w-4" />
+                    {unreadCount > 0 && (
+                        <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-xs font-semibold flex items-center justify-center">
+                            {unreadCount > 99 ? '99+' : unreadCount}
+                        </span>
+                    )}
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 p-0">
+                <div className="flex items-center justify-between px-4 py-3 border-b">
+                    <div>
+                        <h4 className="font-semibold">Notifications</h4>
+                        {!live && (
+                            <p className="text-xs text-muted-foreground">Live updates paused, checking periodically</p>
+                        )}
+                    </div>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={markAllAsRead}
+                        disabled={unreadCount === 0}
+                    >
+                        <CheckCheck className="h-4 w-4 mr-1" />
+                        Mark all read
+                    </Button>
+                </div>
+
+                {loading ? (
+                    <p className="px-4 py-6 text-sm text-muted-foreground text-center">Loading notifications...</p>
+                ) : error ? (
+                    <p className="px-4 py-6 text-sm text-destructive text-center">Could not load notifications</p>
+                ) : notifications.length === 0 ? (
+                    <p className="px-4 py-6 text-sm text-muted-foreground text-center">You're all caught up</p>
+                ) : (
+                    <ul className="max-h-96 overflow-y-auto divide-y">
+                        {notifications.map(notification => {
+                            const link = getNotificationLink(notification);
+
+                            return (
+                                <li key={notification.id}>
+                                    <button
+                                        type="button"
+                                        onClick={() => handleSelect(notification)}
+                                        className={cn(
+                                            'w-full text-left px-4 py-3 flex gap-3 hover:bg-accent/50 transition-colors',
+                                            !notification.read && 'bg-primary/5'
+                                        )}
+                                    >
+                                        <span
+                                            className={cn(
+                                                'mt-1.5 h-2 w-2 shrink-0 rounded-full',
+                                                notification.read ? 'bg-transparent' : typeColors[notification.type] || 'bg-primary'
+                                            )}
+                                        />
+                                        <div className="flex-1 min-w-0">
+                                            <p className={cn('text-sm', !notification.read && 'font-semibold')}>
+                                                {notification.title}
+                                            </p>
+                                            <p className="text-sm text-muted-foreground line-clamp-2">{notification.message}</p>
+                                            <div className="flex items-center justify-between mt-1 text-xs text-muted-foreground">
+                                                <span>
+                                                    {notification.created_at &&
+                                                        formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                                                </span>
+                                                {link && (
+                                                    <span className="flex items-center text-primary">
+                                                        {notification.action_label || 'View'}
+                                                        <ChevronRight className="h-3 w-3" />
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </PopoverContent>
+        </Popover>
+    );
+};
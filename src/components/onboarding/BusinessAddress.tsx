@@ -0,0 +1,228 @@
+// src/components/onboarding/BusinessAddress.tsx
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Building, MapPin } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { BUSINESS_TYPES, INDIAN_STATES, validatePinCode } from '@/lib/business-address';
+import { OnboardingData } from '@/pages/EnhancedMerchantOnboarding';
+
+type BusinessAddressField = 'businessType' | keyof OnboardingData['address'];
+
+interface BusinessAddressProps {
+    onNext: () => void;
+    onPrev: () => void;
+    data?: OnboardingData;
+    onDataChange?: (data: Partial<OnboardingData>) => void;
+}
+
+export const BusinessAddress: React.FC<BusinessAddressProps> = ({
+    onNext,
+    onPrev,
+    data,
+    onDataChange
+}) => {
+    const { toast } = useToast();
+    const [businessType, setBusinessType] = useState(data?.businessType || '');
+    const [address, setAddress] = useState<OnboardingData['address']>({
+        addressLine1: data?.address?.addressLine1 || '',
+        addressLine2: data?.address?.addressLine2 || '',
+        city: data?.address?.city || '',
+        state: data?.address?.state || '',
+        postalCode: data?.address?.postalCode || ''
+    });
+    const [errors, setErrors] = useState<Partial<Record<BusinessAddressField, string>>>({});
+
+    const clearError = (field: BusinessAddressField) => {
+        if (errors[field]) {
+            setErrors(prev => ({ ...prev, [field]: '' }));
+        }
+    };
+
+    const updateAddress = (field: keyof OnboardingData['address'], value: string) => {
+        const newAddress = { ...address, [field]: value };
+        setAddress(newAddress);
+        clearError(field);
+        onDataChange?.({ address: newAddress });
+    };
+
+    const handleBusinessTypeChange = (value: string) => {
+        setBusinessType(value);
+        clearError('businessType');
+        onDataChange?.({ businessType: value });
+    };
+
+    const validateForm = (): boolean => {
+        const newErrors: Partial<Record<BusinessAddressField, string>> = {};
+
+        if (!businessType) newErrors.businessType = 'Please select a business type';
+        if (!address.addressLine1.trim()) newErrors.addressLine1 = 'Address line 1 is required';
+        if (!address.city.trim()) newErrors.city = 'City is required';
+        if (!address.state) newErrors.state = 'State is required';
+
+        if (!address.postalCode.trim()) {
+            newErrors.postalCode = 'PIN code is required';
+        } else {
+            const pinError = validatePinCode(address.postalCode, address.state);
+            if (pinError) newErrors.postalCode = pinError;
+        }
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleNext = () => {
+        if (!validateForm()) {
+            toast({
+                variant: "destructive",
+                title: "Validation Error",
+                description: "Please fix the errors in the form.",
+            });
+            return;
+        }
+
+        onNext();
+    };
+
+    const renderError = (field: BusinessAddressField) => errors[field] && (
+        <div className="flex items-center gap-1 mt-1">
+            <AlertCircle className="h-4 w-4 text-red-500" />
+            <p className="text-sm text-red-500">{errors[field]}</p>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="text-center">
+                <h2 className="text-2xl font-bold text-gray-900">Business Address</h2>
+                <p className="text-gray-600 mt-2">
+                    Tell us what your business does and where it operates
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Building className="h-5 w-5" />
+                            Business Type
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div>
+                            <Label htmlFor="businessType">Type of Business *</Label>
+                            <Select value={businessType} onValueChange={handleBusinessTypeChange}>
+                                <SelectTrigger
+                                    id="businessType"
+                                    className={errors.businessType ? 'border-red-500' : ''}
+                                >
+                                    <SelectValue placeholder="Select business type" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {BUSINESS_TYPES.map(type => (
+                                        <SelectItem key={type.value} value={type.value}>
+                                            {type.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {renderError('businessType')}
+                        </div>
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <MapPin className="h-5 w-5" />
+                            Registered Address
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div>
+                            <Label htmlFor="addressLine1">Address Line 1 *</Label>
+                            <Input
+                                id="addressLine1"
+                                value={address.addressLine1}
+                                onChange={e => updateAddress('addressLine1', e.target.value)}
+                                placeholder="Shop / building number and street"
+                                className={errors.addressLine1 ? 'border-red-500' : ''}
+                            />
+                            {renderError('addressLine1')}
+                        </div>
+
+                        <div>
+                            <Label htmlFor="addressLine2">Address Line 2</Label>
+                            <Input
+                                id="addressLine2"
+                                value={address.addressLine2}
+                                onChange={e => updateAddress('addressLine2', e.target.value)}
+                                placeholder="Area, landmark (optional)"
+                            />
+                        </div>
+
+                        <div>
+                            <Label htmlFor="city">City *</Label>
+                            <Input
+                                id="city"
+                                value={address.city}
+                                onChange={e => updateAddress('city', e.target.value)}
+                                placeholder="City"
+                                className={errors.city ? 'border-red-500' : ''}
+                            />
+                            {renderError('city')}
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="state">State *</Label>
+                                <Select value={address.state} onValueChange={value => updateAddress('state', value)}>
+                                    <SelectTrigger
+                                        id="state"
+                                        className={errors.state ? 'border-red-500' : ''}
+                                    >
+                                        <SelectValue placeholder="Select state" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {INDIAN_STATES.map(state => (
+                                            <SelectItem key={state} value={state}>
+                                                {state}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                {renderError('state')}
+                            </div>
+
+                            <div>
+                                <Label htmlFor="postalCode">PIN Code *</Label>
+                                <Input
+                                    id="postalCode"
+                                    value={address.postalCode}
+                                    onChange={e => updateAddress('postalCode', e.target.value.replace(/\D/g, ''))}
+                                    placeholder="e.g., 411001"
+                                    inputMode="numeric"
+                                    maxLength={6}
+                                    className={errors.postalCode ? 'border-red-500' : ''}
+                                />
+                                {renderError('postalCode')}
+                            </div>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+
+            <div className="flex justify-between pt-6">
+                <Button variant="outline" onClick={onPrev}>
+                    Back
+                </Button>
+                <Button onClick={handleNext} className="min-w-[120px]">
+                    Next: KYC
+                </Button>
+            </div>
+        </div>
+    );
+};
@@ -1,4 +1,4 @@
-﻿import React, { useEffect } from 'react';
+﻿import React, { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -10,25 +10,91 @@ import {
     Mail,
     Upload,
     RefreshCw,
-    ArrowLeft
+    ArrowLeft,
+    FileText
 } from 'lucide-react';
 import { Logo } from '@/components/ui/logo';
-import { useMerchantData } from '@/hooks/useMerchantData';
+import { useMerchantData, type DocumentUpload } from '@/hooks/useMerchantData';
+import { useToast } from '@/hooks/use-toast';
+import { formatStatusLabel } from '@/lib/onboarding-machine';
+import { DOCUMENT_TYPE_LABELS, getMissingRequestedDocuments } from '@/lib/requested-documents';
 import { useNavigate } from 'react-router-dom';
 
-type KYCStatus = 'pending' | 'verified' | 'approved' | 'rejected';
+type KYCStatus = 'pending' | 'verified' | 'info_requested' | 'approved' | 'rejected';
+
+interface ObservedStatuses {
+    profile: string;
+    kyc?: string;
+    documents: Record<string, DocumentUpload['status']>;
+}
+
+const documentBadgeVariants: Record<DocumentUpload['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    pending: 'outline',
+    uploaded: 'secondary',
+    verified: 'default',
+    rejected: 'destructive',
+};
 
 export const OnboardingDashboard: React.FC = () => {
     const navigate = useNavigate();
-    const { merchantProfile, kycData, loading, refetch } = useMerchantData();
+    const {
+        merchantProfile,
+        kycData,
+        documents,
+        loading,
+        refetch,
+        uploadDocument,
+        submitRequestedInfo
+    } = useMerchantData({ live: true });
+    const { toast } = useToast();
+    const [uploadingType, setUploadingType] = useState<DocumentUpload['document_type'] | null>(null);
+    const [resubmitting, setResubmitting] = useState(false);
+
+    // Toast every status change the live subscription brings in; the first load only records where we start
+    const observed = useRef<ObservedStatuses | null>(null);
 
-    // Debug log
     useEffect(() => {
-        console.log('🔍 Dashboard Status Check:', {
-            status: merchantProfile?.onboarding_status,
-            fullProfile: merchantProfile
+        if (loading || !merchantProfile) return;
+
+        const previous = observed.current;
+        observed.current = {
+            profile: merchantProfile.onboarding_status,
+            kyc: kycData?.kyc_status,
+            documents: Object.fromEntries(documents.filter(doc => doc.id).map(doc => [doc.id, doc.status])),
+        };
+
+        if (!previous) return;
+
+        if (previous.profile !== merchantProfile.onboarding_status) {
+            const rejected = merchantProfile.onboarding_status === 'rejected';
+            toast({
+                variant: rejected ? 'destructive' : 'default',
+                title: `Application ${formatStatusLabel(merchantProfile.onboarding_status)}`,
+                description: rejected && merchantProfile.rejection_reason
+                    ? merchantProfile.rejection_reason
+                    : 'Your application status has been updated.',
+            });
+        }
+
+        documents.forEach(doc => {
+            const before = doc.id ? previous.documents[doc.id] : undefined;
+            if (!before || before === doc.status) return;
+
+            toast({
+                variant: doc.status === 'rejected' ? 'destructive' : 'default',
+                title: `${DOCUMENT_TYPE_LABELS[doc.document_type]} ${formatStatusLabel(doc.status)}`,
+                description: doc.rejection_reason || undefined,
+            });
         });
-    }, [merchantProfile]);
+
+        if (previous.kyc && kycData?.kyc_status && previous.kyc !== kycData.kyc_status) {
+            toast({
+                variant: kycData.kyc_status === 'rejected' ? 'destructive' : 'default',
+                title: `KYC ${formatStatusLabel(kycData.kyc_status)}`,
+                description: kycData.rejection_reason || undefined,
+            });
+        }
+    }, [loading, merchantProfile, documents, kycData, toast]);
 
     const getStatusInfo = (status: KYCStatus) => {
         switch (status) {
@@ -50,6 +116,15 @@ export const OnboardingDashboard: React.FC = () => {
                     description: 'Your documents have been verified. Awaiting admin approval for account activation.',
                     timeframe: 'Admin review in progress'
                 };
+            case 'info_requested':
+                return {
+                    icon: FileText,
+                    color: 'bg-orange-500',
+                    badgeVariant: 'secondary' as const,
+                    title: 'More Information Needed',
+                    description: 'The bank needs a few more documents before it can decide on your application.',
+                    timeframe: 'Upload the requested documents below to resubmit'
+                };
             case 'approved':
                 return {
                     icon: CheckCircle,
@@ -72,13 +147,64 @@ export const OnboardingDashboard: React.FC = () => {
     };
 
     // Map database status to dashboard status
-    const kycStatus: KYCStatus = merchantProfile?.onboarding_status === 'verified' ? 'verified' :
+    const kycStatus: KYCStatus =
+        merchantProfile?.onboarding_status === 'validating' || merchantProfile?.onboarding_status === 'pending_bank_approval' ? 'verified' :
+        merchantProfile?.onboarding_status === 'info_requested' ? 'info_requested' :
         merchantProfile?.onboarding_status === 'approved' ? 'approved' :
             merchantProfile?.onboarding_status === 'rejected' ? 'rejected' :
                 'pending';
 
     const applicationId = merchantProfile?.id?.slice(-6).toUpperCase() || 'LOADING';
 
+    // Only the documents the bank asked for; the application keeps its bank application ID
+    const requestedDocuments = merchantProfile?.requested_documents || [];
+    const missingDocuments = getMissingRequestedDocuments(merchantProfile, documents);
+    const infoProvided = Boolean(
+        merchantProfile?.info_provided_at &&
+        merchantProfile?.info_requested_at &&
+        Date.parse(merchantProfile.info_provided_at) >= Date.parse(merchantProfile.info_requested_at)
+    );
+
+    // Latest upload of each type; earlier ones were replaced
+    const latestDocuments = Object.values(
+        documents.reduce<Partial<Record<DocumentUpload['document_type'], DocumentUpload>>>((latest, doc) => {
+            const current = latest[doc.document_type];
+            if (!current || (doc.uploaded_at || '') >= (current.uploaded_at || '')) {
+                latest[doc.document_type] = doc;
+            }
+            return latest;
+        }, {})
+    ) as DocumentUpload[];
+
+    const handleRequestedUpload = async (
+        documentType: DocumentUpload['document_type'],
+        event: React.ChangeEvent<HTMLInputElement>
+    ) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setUploadingType(documentType);
+        try {
+            await uploadDocument(file, documentType);
+        } catch {
+            // uploadDocument reports the error
+        } finally {
+            setUploadingType(null);
+        }
+    };
+
+    const handleResubmit = async () => {
+        setResubmitting(true);
+        try {
+            await submitRequestedInfo();
+        } catch {
+            // submitRequestedInfo reports the error
+        } finally {
+            setResubmitting(false);
+        }
+    };
+
     const statusInfo = getStatusInfo(kycStatus);
     const StatusIcon = statusInfo.icon;
 
@@ -159,6 +285,11 @@ export const OnboardingDashboard: React.FC = () => {
                                         <p className="text-muted-foreground mb-2">
                                             {statusInfo.description}
                                         </p>
+                                        {kycStatus === 'rejected' && merchantProfile?.rejection_reason && (
+                                            <p className="text-sm text-destructive mb-2">
+                                                <span className="font-medium">Reason:</span> {merchantProfile.rejection_reason}
+                                            </p>
+                                        )}
                                         <p className="text-sm font-medium text-primary">
                                             {statusInfo.timeframe}
                                         </p>
@@ -206,6 +337,107 @@ export const OnboardingDashboard: React.FC = () => {
                                     </div>
                                 </div>
 
+                                {/* Document verification */}
+                                {(latestDocuments.length > 0 || kycData) && (
+                                    <div className="mt-6">
+                                        <h4 className="font-semibold text-foreground mb-4">Documents</h4>
+                                        <div className="space-y-3">
+                                            {latestDocuments.map(doc => (
+                                                <div key={doc.document_type}>
+                                                    <div className="flex items-center justify-between gap-3">
+                                                        <span className="text-foreground">
+                                                            {DOCUMENT_TYPE_LABELS[doc.document_type]}
+                                                        </span>
+                                                        <Badge variant={documentBadgeVariants[doc.status]}>
+                                                            {formatStatusLabel(doc.status)}
+                                                        </Badge>
+                                                    </div>
+                                                    {doc.status === 'rejected' && doc.rejection_reason && (
+                                                        <p className="text-sm text-destructive mt-1">{doc.rejection_reason}</p>
+                                                    )}
+                                                </div>
+                                            ))}
+                                            {kycData && (
+                                                <div>
+                                                    <div className="flex items-center justify-between gap-3">
+                                                        <span className="text-foreground">Video KYC</span>
+                                                        <Badge variant={documentBadgeVariants[kycData.kyc_status]}>
+                                                            {formatStatusLabel(kycData.kyc_status)}
+                                                        </Badge>
+                                                    </div>
+                                                    {kycData.kyc_status === 'rejected' && kycData.rejection_reason && (
+                                                        <p className="text-sm text-destructive mt-1">{kycData.rejection_reason}</p>
+                                                    )}
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* Documents requested by the bank */}
+                                {kycStatus === 'info_requested' && (
+                                    <div className="mt-6 p-4 border border-orange-200 bg-orange-50 rounded-xl">
+                                        <h4 className="font-semibold text-foreground mb-1">Requested Documents</h4>
+                                        {merchantProfile?.info_request_reason && (
+                                            <p className="text-sm text-muted-foreground mb-4">
+                                                {merchantProfile.info_request_reason}
+                                            </p>
+                                        )}
+                                        <div className="space-y-3">
+                                            {requestedDocuments.map(documentType => {
+                                                const uploaded = !missingDocuments.includes(documentType);
+                                                const inputId = `requested-${documentType}`;
+
+                                                return (
+                                                    <div key={documentType} className="flex items-center justify-between gap-3">
+                                                        <div className="flex items-center gap-2">
+                                                            {uploaded ? (
+                                                                <CheckCircle className="h-4 w-4 text-green-600" />
+                                                            ) : (
+                                                                <Clock className="h-4 w-4 text-orange-500" />
+                                                            )}
+                                                            <span className="text-foreground">
+                                                                {DOCUMENT_TYPE_LABELS[documentType]}
+                                                            </span>
+                                                        </div>
+                                                        {!infoProvided && (
+                                                            <>
+                                                                <input
+                                                                    type="file"
+                                                                    id={inputId}
+                                                                    accept="image/*,.pdf"
+                                                                    onChange={(e) => handleRequestedUpload(documentType, e)}
+                                                                    className="hidden"
+                                                                    disabled={uploadingType !== null}
+                                                                />
+                                                                <Button variant="outline" size="sm" asChild disabled={uploadingType !== null}>
+                                                                    <label htmlFor={inputId} className="cursor-pointer">
+                                                                        <Upload className="h-4 w-4 mr-2" />
+                                                                        {uploadingType === documentType ? 'Uploading...' : uploaded ? 'Replace' : 'Upload'}
+                                                                    </label>
+                                                                </Button>
+                                                            </>
+                                                        )}
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                        {infoProvided ? (
+                                            <p className="mt-4 text-sm font-medium text-primary">
+                                                Documents submitted. Your application is being sent back to the bank.
+                                            </p>
+                                        ) : (
+                                            <Button
+                                                className="w-full mt-4"
+                                                onClick={handleResubmit}
+                                                disabled={missingDocuments.length > 0 || resubmitting || uploadingType !== null}
+                                            >
+                                                {resubmitting ? 'Submitting...' : 'Submit Documents to Bank'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                )}
+
                                 {/* Action Buttons */}
                                 {kycStatus === 'rejected' && (
                                     <div className="mt-6">
@@ -233,10 +465,7 @@ export const OnboardingDashboard: React.FC = () => {
                                 <Button
                                     variant="outline"
                                     className="w-full justify-start"
-                                    onClick={() => {
-                                        refetch();
-                                        window.location.reload();
-                                    }}
+                                    onClick={() => refetch()}
                                 >
                                     <RefreshCw className="h-4 w-4 mr-2" />
                                     Refresh Status
@@ -11,6 +11,7 @@ import {
   CheckCircle, 
   Shield 
 } from 'lucide-react';
+import { getBusinessTypeLabel } from '@/lib/business-address';
 import { OnboardingData } from '@/pages/EnhancedMerchantOnboarding';
 
 interface ReviewSubmitProps {
@@ -110,6 +111,20 @@ export const ReviewSubmit: React.FC<ReviewSubmitProps> = ({
               <span className="text-muted-foreground">GST Number:</span>
               <span className="font-medium">{data.gstNumber}</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Business Type:</span>
+              <span className="font-medium">{getBusinessTypeLabel(data.businessType)}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Address:</span>
+              <span className="font-medium text-right">
+                {[data.address.addressLine1, data.address.addressLine2, data.address.city]
+                  .filter(Boolean)
+                  .join(', ')}
+                <br />
+                {data.address.state} - {data.address.postalCode}
+              </span>
+            </div>
           </CardContent>
         </Card>
 
@@ -0,0 +1,83 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Building2, CheckCircle, Clock, Shield, User, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { StatusHistoryEntry } from '@/lib/api-client';
+import { formatStatusLabel } from '@/lib/onboarding-machine';
+
+interface StatusTimelineProps {
+    entries: StatusHistoryEntry[];
+    loading?: boolean;
+    error?: string | null;
+    emptyMessage?: string;
+}
+
+const actorLabels: Record<StatusHistoryEntry['actorType'], { label: string; icon: React.ElementType }> = {
+    merchant: { label: 'Merchant', icon: User },
+    admin: { label: 'SabbPe team', icon: Shield },
+    bank: { label: 'Bank', icon: Building2 },
+    system: { label: 'System', icon: Clock }
+};
+
+const getStatusIcon = (status: string) => {
+    if (status === 'approved') return <CheckCircle className="w-4 h-4 text-green-600" />;
+    if (status === 'rejected') return <XCircle className="w-4 h-4 text-red-600" />;
+    return <Clock className="w-4 h-4 text-blue-600" />;
+};
+
+export const StatusTimeline: React.FC<StatusTimelineProps> = ({
+    entries,
+    loading = false,
+    error = null,
+    emptyMessage = 'No status changes yet'
+}) => {
+    if (loading) {
+        return <p className="text-sm text-muted-foreground">Loading history...</p>;
+    }
+
+    if (error) {
+        return <p className="text-sm text-destructive">{error}</p>;
+    }
+
+    if (entries.length === 0) {
+        return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+    }
+
+    // Newest first
+    const ordered = [...entries].reverse();
+
+    return (
+        <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+            {ordered.map(entry => {
+                const actor = actorLabels[entry.actorType] || actorLabels.system;
+                const ActorIcon = actor.icon;
+
+                return (
+                    <li key={entry.id} className="ml-6">
+                        <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white rounded-full ring-4 ring-white">
+                            {getStatusIcon(entry.toStatus)}
+                        </span>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="outline">{formatStatusLabel(entry.fromStatus)}</Badge>
+                            <span className="text-muted-foreground">→</span>
+                            <Badge>{formatStatusLabel(entry.toStatus)}</Badge>
+                        </div>
+                        <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                            <time dateTime={entry.createdAt}>
+                                {format(new Date(entry.createdAt), 'dd MMM yyyy, HH:mm')}
+                            </time>
+                            <span>·</span>
+                            <ActorIcon className="w-3 h-3" />
+                            <span>{actor.label}</span>
+                        </div>
+                        {entry.reason && (
+                            <p className="mt-2 text-sm text-gray-700">
+                                <strong>Reason:</strong> {entry.reason}
+                            </p>
+                        )}
+                    </li>
+                );
+            })}
+        </ol>
+    );
+};
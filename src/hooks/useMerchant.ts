@@ -1,5 +1,5 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiClient } from '@/lib/api-client';
+import { apiClient, OnboardingMachine, StatusHistoryEntry } from '@/lib/api-client';
 import { MerchantFormData } from '@/schemas/merchantValidation';
 import { toast } from 'sonner';
 
@@ -49,7 +49,7 @@ export const useMerchantStatus = (enablePolling = false) => {
 };
 
 export const useStatusHistory = () => {
-    return useQuery({
+    return useQuery<StatusHistoryEntry[]>({
         queryKey: ['statusHistory'],
         queryFn: async () => {
             const response = await apiClient.getStatusHistory();
@@ -58,4 +58,28 @@ export const useStatusHistory = () => {
         retry: false,
         staleTime: 1000 * 60 * 5,
     });
-};
\ No newline at end of file
+};
+
+export const useMerchantHistory = (merchantId: string | undefined) => {
+    return useQuery<StatusHistoryEntry[]>({
+        queryKey: ['merchantHistory', merchantId],
+        queryFn: async () => {
+            const response = await apiClient.getMerchantHistory(merchantId as string);
+            return response?.data || [];
+        },
+        enabled: !!merchantId,
+        retry: false,
+        staleTime: 1000 * 30,
+    });
+};
+export const useOnboardingStateMachine = () => {
+    return useQuery<OnboardingMachine | null>({
+        queryKey: ['onboardingStateMachine'],
+        queryFn: async () => {
+            const response = await apiClient.getOnboardingStateMachine();
+            return response?.data || null;
+        },
+        retry: false,
+        staleTime: Infinity,
+    });
+};
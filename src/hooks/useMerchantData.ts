@@ -3,6 +3,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { useToast } from '@/hooks/use-toast';
+import type { OnboardingStatus } from '@/lib/api-client';
 
 // Types - match your DB schema
 export interface MerchantProfile {
@@ -16,7 +17,20 @@ export interface MerchantProfile {
     business_name?: string;
     gst_number?: string;
     entity_type?: string | null;
-    onboarding_status: 'approved' | 'verified' | 'submitted' | 'validating' | 'pending_bank_approval' | 'validation_failed' | 'bank_rejected' | 'rejected'| 'in_progress'| 'pending';
+    business_type?: string | null;
+    address_line1?: string | null;
+    address_line2?: string | null;
+    city?: string | null;
+    state?: string | null;
+    postal_code?: string | null;
+    country?: string | null;
+    onboarding_status: OnboardingStatus;
+    rejection_reason?: string | null;
+    // Set while the bank waits for more documents (info_requested)
+    requested_documents?: DocumentUpload['document_type'][] | null;
+    info_request_reason?: string | null;
+    info_requested_at?: string | null;
+    info_provided_at?: string | null;
     created_at: string;
     updated_at: string;
 }
@@ -40,6 +54,7 @@ export interface DocumentUpload {
     mime_type?: string;
     status: 'pending' | 'uploaded' | 'verified' | 'rejected';
     rejection_reason?: string;
+    uploaded_at?: string;
 }
 
 export interface KYCData {
@@ -55,7 +70,12 @@ export interface KYCData {
     rejection_reason?: string;
 }
 
-export const useMerchantData = () => {
+interface UseMerchantDataOptions {
+    // Keep the profile, documents and KYC row in step with the database over Supabase realtime
+    live?: boolean;
+}
+
+export const useMerchantData = ({ live = false }: UseMerchantDataOptions = {}) => {
     const { user } = useAuth();
     const { toast } = useToast();
     const [merchantProfile, setMerchantProfile] = useState<MerchantProfile | null>(null);
@@ -148,36 +168,59 @@ export const useMerchantData = () => {
         return () => { if (cleanup) cleanup(); };
     }, [user, fetchMerchantProfile]);
 
+    const merchantId = merchantProfile?.id;
+
+    useEffect(() => {
+        if (!live || !merchantId) return;
+
+        const channel = supabase
+            .channel(`merchant-live-${merchantId}`)
+            .on(
+                'postgres_changes',
+                { event: 'UPDATE', schema: 'public', table: 'merchant_profiles', filter: `id=eq.${merchantId}` },
+                (payload) => setMerchantProfile(payload.new as MerchantProfile)
+            )
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'merchant_documents', filter: `merchant_id=eq.${merchantId}` },
+                (payload) => {
+                    if (payload.eventType === 'DELETE') {
+                        const { id } = payload.old as Partial<DocumentUpload>;
+                        setDocuments(prev => prev.filter(doc => doc.id !== id));
+                        return;
+                    }
+
+                    // Our own uploads arrive here too; replace rather than add them twice
+                    const document = payload.new as DocumentUpload;
+                    setDocuments(prev => prev.some(doc => doc.id === document.id)
+                        ? prev.map(doc => doc.id === document.id ? document : doc)
+                        : [...prev, document]);
+                }
+            )
+            .on(
+                'postgres_changes',
+                { event: '*', schema: 'public', table: 'merchant_kyc', filter: `merchant_id=eq.${merchantId}` },
+                (payload) => {
+                    if (payload.eventType !== 'DELETE') setKycData(payload.new as KYCData);
+                }
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [live, merchantId]);
+
     const updateMerchantProfile = async (updates: Partial<MerchantProfile>) => {
         if (!merchantProfile && !user) return;
 
         try {
-            // Map internal statuses to database-allowed statuses
-            const mapStatus = (status?: string): 'approved' | 'verified' | 'submitted' | 'rejected' | 'in_progress' | 'pending' | undefined => {
-                if (!status) return undefined;
-
-                const statusMap: Record<string, 'approved' | 'verified' | 'submitted' | 'rejected' | 'in_progress' | 'pending'> = {
-                    'validating': 'in_progress',
-                    'pending_bank_approval': 'in_progress',
-                    'validation_failed': 'rejected',
-                    'bank_rejected': 'rejected',
-                    'approved': 'approved',
-                    'verified': 'verified',
-                    'submitted': 'submitted',
-                    'rejected': 'rejected',
-                    'in_progress': 'in_progress',
-                    'pending': 'pending'
-                };
-
-                return statusMap[status] || 'pending';
-            };
-
             const payload = {
                 user_id: merchantProfile?.user_id || user!.id,
                 full_name: updates.full_name || merchantProfile?.full_name || user?.user_metadata?.full_name || 'Unknown',
                 email: updates.email || merchantProfile?.email || user?.email || '',
                 mobile_number: updates.mobile_number || merchantProfile?.mobile_number || user?.phone || '',
-                onboarding_status: mapStatus(updates.onboarding_status),
+                onboarding_status: updates.onboarding_status,
                 pan_number: updates.pan_number,
                 aadhaar_number: updates.aadhaar_number,
                 business_name: updates.business_name,
@@ -273,6 +316,27 @@ export const useMerchantData = () => {
         }
     };
 
+    // The backend picks up info_provided_at and resubmits the application to the bank
+    const submitRequestedInfo = async () => {
+        if (!merchantProfile) throw new Error('Merchant profile not found');
+        try {
+            const { data, error } = await supabase
+                .from('merchant_profiles')
+                .update({ info_provided_at: new Date().toISOString() })
+                .eq('id', merchantProfile.id)
+                .select()
+                .single();
+            if (error) throw error;
+            setMerchantProfile(data as MerchantProfile);
+            toast({ title: 'Documents submitted', description: 'Your application is being sent back to the bank.' });
+            return data;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Failed to submit documents';
+            toast({ variant: 'destructive', title: 'Error submitting documents', description: message });
+            throw error;
+        }
+    };
+
     const updateKYCData = async (updates: Partial<KYCData>) => {
         if (!merchantProfile) throw new Error('Merchant profile not found');
         try {
@@ -302,6 +366,7 @@ export const useMerchantData = () => {
         updateMerchantProfile,
         saveBankDetails,
         uploadDocument,
+        submitRequestedInfo,
         updateKYCData,
         refetch: fetchMerchantProfile,
     };
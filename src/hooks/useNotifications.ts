@@ -0,0 +1,150 @@
+// src/hooks/useNotifications.ts
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/components/auth/AuthProvider';
+import type { InAppNotification } from '@/lib/notifications';
+
+const INBOX_SIZE = 50;
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * The signed-in user's notifications inbox. Changes arrive over a Supabase
+ * realtime subscription; while that channel is down (offline, timed out,
+ * realtime unavailable) the inbox and unread count are polled instead.
+ */
+export const useNotifications = () => {
+    const { user } = useAuth();
+    const userId = user?.id;
+    const queryClient = useQueryClient();
+    const [live, setLive] = useState(false);
+
+    const refetchInterval = live ? false : POLL_INTERVAL_MS;
+
+    const inbox = useQuery<InAppNotification[]>({
+        queryKey: ['notifications', userId, 'inbox'],
+        queryFn: async () => {
+            const { data, error } = await supabase
+                .from('notifications')
+                .select('*')
+                .eq('user_id', userId as string)
+                .order('created_at', { ascending: false })
+                .limit(INBOX_SIZE);
+
+            if (error) throw error;
+            return data || [];
+        },
+        enabled: !!userId,
+        refetchInterval,
+        refetchIntervalInBackground: false,
+    });
+
+    // Counted separately so unread rows older than the inbox page still count
+    const unread = useQuery<number>({
+        queryKey: ['notifications', userId, 'unread'],
+        queryFn: async () => {
+            const { count, error } = await supabase
+                .from('notifications')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', userId as string)
+                .not('read', 'is', true);
+
+            if (error) throw error;
+            return count || 0;
+        },
+        enabled: !!userId,
+        refetchInterval,
+        refetchIntervalInBackground: false,
+    });
+
+    useEffect(() => {
+        if (!userId) return;
+
+        const refresh = () => queryClient.invalidateQueries({ queryKey: ['notifications', userId] });
+
+        const channel = supabase
+            .channel(`notifications-${userId}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'notifications',
+                    filter: `user_id=eq.${userId}`
+                },
+                refresh
+            )
+            .subscribe((status) => {
+                const subscribed = status === 'SUBSCRIBED';
+                setLive(subscribed);
+
+                // Catch up on anything written while the channel was down
+                if (subscribed) refresh();
+            });
+
+        // The socket can take a while to notice; start polling straight away
+        const handleOffline = () => setLive(false);
+        window.addEventListener('offline', handleOffline);
+
+        return () => {
+            window.removeEventListener('offline', handleOffline);
+            supabase.removeChannel(channel);
+            setLive(false);
+        };
+    }, [userId, queryClient]);
+
+    const markRead = async (id: string) => {
+        const readAt = new Date().toISOString();
+
+        queryClient.setQueryData<InAppNotification[]>(['notifications', userId, 'inbox'], (current) =>
+            current?.map(notification =>
+                notification.id === id ? { ...notification, read: true, read_at: readAt } : notification
+            )
+        );
+        queryClient.setQueryData<number>(['notifications', userId, 'unread'], (current) =>
+            Math.max((current || 0) - 1, 0)
+        );
+
+        const { error } = await supabase
+            .from('notifications')
+            .update({ read: true, read_at: readAt })
+            .eq('id', id);
+
+        if (error) throw error;
+    };
+
+    const markAllRead = async () => {
+        const readAt = new Date().toISOString();
+
+        queryClient.setQueryData<InAppNotification[]>(['notifications', userId, 'inbox'], (current) =>
+            current?.map(notification => notification.read ? notification : { ...notification, read: true, read_at: readAt })
+        );
+        queryClient.setQueryData<number>(['notifications', userId, 'unread'], 0);
+
+        const { error } = await supabase
+            .from('notifications')
+            .update({ read: true, read_at: readAt })
+            .eq('user_id', userId as string)
+            .not('read', 'is', true);
+
+        if (error) throw error;
+    };
+
+    const settle = {
+        // Put back what the server has, whether or not the write went through
+        onSettled: () => queryClient.invalidateQueries({ queryKey: ['notifications', userId] }),
+    };
+
+    const markAsRead = useMutation({ mutationFn: markRead, ...settle });
+    const markAllAsRead = useMutation({ mutationFn: markAllRead, ...settle });
+
+    return {
+        notifications: inbox.data || [],
+        unreadCount: unread.data || 0,
+        loading: inbox.isLoading,
+        error: inbox.error,
+        live,
+        markAsRead: (id: string) => markAsRead.mutate(id),
+        markAllAsRead: () => markAllAsRead.mutate(),
+    };
+};
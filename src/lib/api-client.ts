@@ -3,6 +3,63 @@ import { MerchantFormData } from '@/schemas/merchantValidation';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000';
 
+export interface StatusHistoryEntry {
+    id: string;
+    merchantId: string;
+    fromStatus: string;
+    toStatus: string;
+    reason?: string;
+    metadata?: Record<string, string | number | boolean | null>;
+    actorId?: string;
+    actorType: 'merchant' | 'admin' | 'bank' | 'system';
+    createdAt: string;
+}
+
+// Same vocabulary as merchant_profiles.onboarding_status and the backend state machine
+export type OnboardingStatus =
+    | 'draft'
+    | 'submitted'
+    | 'validating'
+    | 'pending_bank_approval'
+    | 'info_requested'
+    | 'approved'
+    | 'rejected';
+
+export type NotificationChannel = 'email' | 'sms' | 'whatsapp' | 'push';
+
+export type NotificationLocale = 'en' | 'hi' | 'mr' | 'gu' | 'bn' | 'ta' | 'te' | 'kn';
+
+export interface NotificationPreferences {
+    merchantId: string;
+    channels: Record<NotificationChannel, boolean>;
+    locale: NotificationLocale;
+    pushSubscriptions: Array<{ endpoint: string }>;
+    updatedAt: string;
+    vapidPublicKey?: string;
+}
+
+export interface OnboardingMachineTransition {
+    event: string;
+    target: OnboardingStatus;
+    guard?: string;
+    description: string;
+}
+
+export interface OnboardingMachineState {
+    status: OnboardingStatus;
+    description: string;
+    entry: string[];
+    final: boolean;
+    transitions: OnboardingMachineTransition[];
+}
+
+export interface OnboardingMachine {
+    id: string;
+    initial: OnboardingStatus;
+    guards: Record<string, string>;
+    states: OnboardingMachineState[];
+}
+
 class ApiClient {
     private async getAuthHeader(): Promise<HeadersInit> {
         const { data: { session } } = await supabase.auth.getSession();
@@ -73,20 +130,144 @@ class ApiClient {
         return response.json();
     }
 
-    async getStatusHistory() {
+    async getStatusHistory(): Promise<{ success: boolean; data: StatusHistoryEntry[] }> {
         const headers = await this.getAuthHeader();
 
-        const response = await fetch(`${API_BASE_URL}/api/merchant/status-history`, {
+        const response = await fetch(`${API_BASE_URL}/api/merchants/profile/history`, {
             method: 'GET',
             headers
         });
 
+        if (response.status === 404) {
+            return { success: true, data: [] };
+        }
+
         if (!response.ok) {
             throw new Error('Failed to fetch status history');
         }
 
         return response.json();
     }
+
+    async getMerchantHistory(merchantId: string): Promise<{ success: boolean; data: StatusHistoryEntry[] }> {
+        const headers = await this.getAuthHeader();
+
+        const response = await fetch(`${API_BASE_URL}/api/admin/merchants/${merchantId}/history`, {
+            method: 'GET',
+            headers
+        });
+
+        if (response.status === 404) {
+            return { success: true, data: [] };
+        }
+
+        if (!response.ok) {
+            throw new Error('Failed to fetch merchant history');
+        }
+
+        return response.json();
+    }
+
+    async getNotificationPreferences(): Promise<{ success: boolean; data: NotificationPreferences }> {
+        const headers = await this.getAuthHeader();
+
+        const response = await fetch(`${API_BASE_URL}/api/merchants/notification-preferences`, {
+            method: 'GET',
+            headers
+        });
+
+        if (!response.ok) {
+            throw new Error('Failed to fetch notification preferences');
+        }
+
+        return response.json();
+    }
+
+    async updateNotificationPreferences(update: {
+        channels?: Partial<Record<NotificationChannel, boolean>>;
+        locale?: NotificationLocale;
+    }): Promise<{ success: boolean; data: NotificationPreferences }> {
+        const headers = await this.getAuthHeader();
+
+        const response = await fetch(`${API_BASE_URL}/api/merchants/notification-preferences`, {
+            method: 'PUT',
+            headers,
+            body: JSON.stringify(update)
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+            throw new Error(result.error?.message || 'Failed to update notification preferences');
+        }
+
+        return result;
+    }
+
+    /**
+     * Subscribe this browser to web push through the PWA's service worker
+     */
+    async subscribeToPush(vapidPublicKey: string) {
+        const registration = await navigator.serviceWorker.ready;
+        const key = Uint8Array.from(
+            atob(vapidPublicKey.replace(/-/g, '+').replace(/_/g, '/')),
+            char => char.charCodeAt(0)
+        );
+        const subscription = await registration.pushManager.subscribe({
+            userVisibleOnly: true,
+            applicationServerKey: key
+        });
+        const headers = await this.getAuthHeader();
+
+        const response = await fetch(`${API_BASE_URL}/api/merchants/push-subscriptions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(subscription.toJSON())
+        });
+
+        const result = await response.json();
+
+        if (!response.ok) {
+            throw new Error(result.error?.message || 'Failed to save push subscription');
+        }
+
+        return result;
+    }
+
+    async unsubscribeFromPush() {
+        const registration = await navigator.serviceWorker.ready;
+        const subscription = await registration.pushManager.getSubscription();
+
+        if (!subscription) {
+            return { success: true };
+        }
+
+        await subscription.unsubscribe();
+
+        const headers = await this.getAuthHeader();
+
+        const response = await fetch(`${API_BASE_URL}/api/merchants/push-subscriptions`, {
+            method: 'DELETE',
+            headers,
+            body: JSON.stringify({ endpoint: subscription.endpoint })
+        });
+
+        if (!response.ok) {
+            throw new Error('Failed to remove push subscription');
+        }
+
+        return response.json();
+    }
+
+    async getOnboardingStateMachine(): Promise<{ success: boolean; data: OnboardingMachine }> {
+        const response = await fetch(`${API_BASE_URL}/api/onboarding/state-machine`);
+
+        if (!response.ok) {
+            throw new Error('Failed to fetch onboarding state machine');
+        }
+
+        return response.json();
+    }
 }
 
 export const apiClient = new ApiClient();
\ No newline at end of file
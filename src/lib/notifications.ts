@@ -0,0 +1,29 @@
+import type { Database } from './database.types';
+
+export type InAppNotification = Database['public']['Tables']['notifications']['Row'];
+
+// Same rule as statusActionUrl in the backend's notification service: a bank
+// request for documents is answered from the onboarding dashboard, every other
+// status change is read on the merchant dashboard
+export const getStatusActionUrl = (status: string): string =>
+    status === 'info_requested' ? '/merchant-onboarding?step=dashboard' : '/merchant-dashboard';
+
+// Links written before the routes settled; rows already stored still carry them
+const LEGACY_ACTION_URLS: Record<string, string> = {
+    '/merchant/dashboard': '/merchant-dashboard',
+    '/distributor/merchants': '/distributor',
+};
+
+/**
+ * In-app path a notification opens, or null when it has none. Only paths
+ * inside the app are followed; anything else is ignored.
+ */
+export const getNotificationLink = (notification: InAppNotification): string | null => {
+    const url = notification.action_url;
+
+    if (!url || !url.startsWith('/') || url.startsWith('//')) {
+        return null;
+    }
+
+    return LEGACY_ACTION_URLS[url] || url;
+};
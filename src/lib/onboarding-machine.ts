@@ -0,0 +1,19 @@
+import type { OnboardingMachine, OnboardingStatus } from './api-client';
+
+// Onboarding statuses in state machine order
+export const getMachineStatuses = (machine?: OnboardingMachine | null): OnboardingStatus[] =>
+    machine ? machine.states.map(state => state.status) : [];
+
+// Status an event leads to from the given status, or null when the machine does not allow it
+export const getEventTarget = (
+    machine: OnboardingMachine | null | undefined,
+    status: OnboardingStatus,
+    event: string
+): OnboardingStatus | null => {
+    const state = machine?.states.find(s => s.status === status);
+
+    return state?.transitions.find(t => t.event === event)?.target ?? null;
+};
+
+export const formatStatusLabel = (status: string) =>
+    status.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
@@ -0,0 +1,28 @@
+import type { DocumentUpload, MerchantProfile } from '@/hooks/useMerchantData';
+
+type DocumentType = DocumentUpload['document_type'];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+    pan_card: 'PAN Card',
+    aadhaar_card: 'Aadhaar Card',
+    business_proof: 'Business Proof',
+    bank_statement: 'Bank Statement',
+    cancelled_cheque: 'Cancelled Cheque',
+    video_kyc: 'Video KYC',
+    selfie: 'Selfie',
+};
+
+// Same rule as ValidationService.getMissingRequestedDocuments in the backend:
+// a requested document counts once it was uploaded after the bank asked for it
+export const getMissingRequestedDocuments = (
+    profile: MerchantProfile | null,
+    documents: DocumentUpload[]
+): DocumentType[] => {
+    const requestedAt = profile?.info_requested_at ? Date.parse(profile.info_requested_at) : 0;
+
+    return (profile?.requested_documents || []).filter(type =>
+        !documents.some(doc =>
+            doc.document_type === type && doc.uploaded_at !== undefined && Date.parse(doc.uploaded_at) >= requestedAt
+        )
+    );
+};
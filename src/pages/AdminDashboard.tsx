@@ -12,6 +12,11 @@ import {
     Eye,
     AlertCircle
 } from 'lucide-react';
+import { StatusTimeline } from '../components/onboarding/StatusTimeline';
+import { useMerchantHistory, useOnboardingStateMachine } from '../hooks/useMerchant';
+import type { OnboardingMachine, OnboardingStatus } from '../lib/api-client';
+import { formatStatusLabel, getEventTarget, getMachineStatuses } from '../lib/onboarding-machine';
+import { getStatusActionUrl } from '../lib/notifications';
 
 // FIXED: Updated type to include entity_type and proper status values
 interface MerchantApplication {
@@ -22,7 +27,8 @@ interface MerchantApplication {
     business_name: string;
     gst_number: string;
     aadhaar_number: string;
-    onboarding_status: 'pending' | 'in_progress' | 'verified' | 'rejected' | 'approved'; // FIXED: Added 'approved'
+    user_id: string;
+    onboarding_status: OnboardingStatus;
     entity_type: string; // FIXED: Added entity_type
     created_at: string;
     updated_at: string;
@@ -40,6 +46,7 @@ export default function AdminDashboard() {
     const [searchTerm, setSearchTerm] = useState('');
     const [statusFilter, setStatusFilter] = useState<string>('all');
     const [selectedApp, setSelectedApp] = useState<MerchantApplication | null>(null);
+    const { data: machine } = useOnboardingStateMachine();
 
     useEffect(() => {
         fetchApplications();
@@ -105,7 +112,7 @@ export default function AdminDashboard() {
 
     const updateApplicationStatus = async (
         appId: string,
-        newStatus: 'approved' | 'rejected' | 'verified' | 'pending' | 'in_progress' // FIXED: Proper type
+        newStatus: OnboardingStatus
     ) => {
         try {
             const { error } = await supabase
@@ -115,16 +122,16 @@ export default function AdminDashboard() {
 
             if (error) throw error;
 
-            // Send notification to merchant
+            // Send notification to merchant; notifications belong to the auth user, not the profile
             await supabase
                 .from('notifications')
                 .insert({
-                    user_id: appId,
+                    user_id: applications.find(app => app.id === appId)?.user_id,
                     type: 'status_update',
                     title: 'Application Status Updated',
                     message: `Your merchant application has been ${newStatus}`,
-                    action_url: '/merchant/dashboard',
-                    action_label: 'View Dashboard',
+                    action_url: getStatusActionUrl(newStatus),
+                    action_label: newStatus === 'info_requested' ? 'Upload Documents' : 'View Dashboard',
                     read: false
                 });
 
@@ -152,17 +159,19 @@ export default function AdminDashboard() {
 
     // FIXED: Replaced 'any' with proper type
     const getStatusBadge = (status: MerchantApplication['onboarding_status']) => {
-        const styles = {
-            pending: 'bg-yellow-100 text-yellow-800',
-            in_progress: 'bg-blue-100 text-blue-800',
-            verified: 'bg-green-100 text-green-800',
+        const styles: Record<OnboardingStatus, string> = {
+            draft: 'bg-gray-100 text-gray-800',
+            submitted: 'bg-yellow-100 text-yellow-800',
+            validating: 'bg-blue-100 text-blue-800',
+            pending_bank_approval: 'bg-blue-100 text-blue-800',
+            info_requested: 'bg-orange-100 text-orange-800',
             approved: 'bg-green-100 text-green-800',
             rejected: 'bg-red-100 text-red-800'
         };
 
         return (
             <span className={`px-2 py-1 rounded-full text-xs font-medium ${styles[status]}`}>
-                {status.replace('_', ' ').toUpperCase()}
+                {status.replace(/_/g, ' ').toUpperCase()}
             </span>
         );
     };
@@ -218,13 +227,13 @@ export default function AdminDashboard() {
                     />
                     <StatCard
                         title="Pending"
-                        value={applications.filter(a => a.onboarding_status === 'pending').length}
+                        value={applications.filter(a => a.onboarding_status === 'submitted').length}
                         icon={<Clock className="w-6 h-6" />}
                         color="yellow"
                     />
                     <StatCard
                         title="Approved"
-                        value={applications.filter(a => a.onboarding_status === 'approved' || a.onboarding_status === 'verified').length}
+                        value={applications.filter(a => a.onboarding_status === 'approved').length}
                         icon={<CheckCircle className="w-6 h-6" />}
                         color="green"
                     />
@@ -258,11 +267,9 @@ export default function AdminDashboard() {
                                 className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none"
                             >
                                 <option value="all">All Status</option>
-                                <option value="pending">Pending</option>
-                                <option value="in_progress">In Progress</option>
-                                <option value="verified">Verified</option>
-                                <option value="approved">Approved</option>
-                                <option value="rejected">Rejected</option>
+                                {getMachineStatuses(machine).map(status => (
+                                    <option key={status} value={status}>{formatStatusLabel(status)}</option>
+                                ))}
                             </select>
                         </div>
 
@@ -331,24 +338,11 @@ export default function AdminDashboard() {
                                                 >
                                                     <Eye className="w-5 h-5" />
                                                 </button>
-                                                {app.onboarding_status === 'pending' && (
-                                                    <>
-                                                        <button
-                                                            onClick={() => updateApplicationStatus(app.id, 'approved')}
-                                                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
-                                                            title="Approve"
-                                                        >
-                                                            <CheckCircle className="w-5 h-5" />
-                                                        </button>
-                                                        <button
-                                                            onClick={() => updateApplicationStatus(app.id, 'rejected')}
-                                                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                                                            title="Reject"
-                                                        >
-                                                            <XCircle className="w-5 h-5" />
-                                                        </button>
-                                                    </>
-                                                )}
+                                                <AdminActions
+                                                    machine={machine}
+                                                    status={app.onboarding_status}
+                                                    onUpdateStatus={(status) => updateApplicationStatus(app.id, status)}
+                                                />
                                             </div>
                                         </td>
                                     </tr>
@@ -362,6 +356,7 @@ export default function AdminDashboard() {
                 {selectedApp && (
                     <ApplicationDetailModal
                         application={selectedApp}
+                        machine={machine}
                         onClose={() => setSelectedApp(null)}
                         onUpdateStatus={updateApplicationStatus}
                     />
@@ -402,13 +397,53 @@ function StatCard({ title, value, icon, color }: StatCardProps) {
     );
 }
 
+// Approve / reject buttons, shown only when the onboarding state machine allows the event
+interface AdminActionsProps {
+    machine: OnboardingMachine | null | undefined;
+    status: OnboardingStatus;
+    onUpdateStatus: (status: OnboardingStatus) => void;
+}
+
+function AdminActions({ machine, status, onUpdateStatus }: AdminActionsProps) {
+    const approveTarget = getEventTarget(machine, status, 'MANUAL_APPROVE');
+    const rejectTarget = getEventTarget(machine, status, 'REJECT');
+
+    return (
+        <>
+            {approveTarget && (
+                <button
+                    onClick={() => onUpdateStatus(approveTarget)}
+                    className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                    title="Approve"
+                >
+                    <CheckCircle className="w-5 h-5" />
+                </button>
+            )}
+            {rejectTarget && (
+                <button
+                    onClick={() => onUpdateStatus(rejectTarget)}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Reject"
+                >
+                    <XCircle className="w-5 h-5" />
+                </button>
+            )}
+        </>
+    );
+}
+
 interface ApplicationDetailModalProps {
     application: MerchantApplication;
+    machine: OnboardingMachine | null | undefined;
     onClose: () => void;
-    onUpdateStatus: (id: string, status: 'approved' | 'rejected' | 'verified' | 'pending' | 'in_progress') => void;
+    onUpdateStatus: (id: string, status: OnboardingStatus) => void;
 }
 
-function ApplicationDetailModal({ application, onClose, onUpdateStatus }: ApplicationDetailModalProps) {
+function ApplicationDetailModal({ application, machine, onClose, onUpdateStatus }: ApplicationDetailModalProps) {
+    const { data: history = [], isLoading: historyLoading, error: historyError } = useMerchantHistory(application.id);
+    const approveTarget = getEventTarget(machine, application.onboarding_status, 'MANUAL_APPROVE');
+    const rejectTarget = getEventTarget(machine, application.onboarding_status, 'REJECT');
+
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
             <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
@@ -435,6 +470,15 @@ function ApplicationDetailModal({ application, onClose, onUpdateStatus }: Applic
                         <DetailItem label="Account Number" value={application.merchant_bank_details?.account_number || 'N/A'} />
                         <DetailItem label="IFSC Code" value={application.merchant_bank_details?.ifsc_code || 'N/A'} />
                     </DetailSection>
+
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900 mb-4">Status History</h3>
+                        <StatusTimeline
+                            entries={history}
+                            loading={historyLoading}
+                            error={historyError ? 'Could not load status history' : null}
+                        />
+                    </div>
                 </div>
 
                 <div className="p-6 border-t border-gray-200 flex justify-end gap-4">
@@ -444,27 +488,27 @@ function ApplicationDetailModal({ application, onClose, onUpdateStatus }: Applic
                     >
                         Close
                     </button>
-                    {application.onboarding_status === 'pending' && (
-                        <>
-                            <button
-                                onClick={() => {
-                                    onUpdateStatus(application.id, 'approved');
-                                    onClose();
-                                }}
-                                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                            >
-                                Approve
-                            </button>
-                            <button
-                                onClick={() => {
-                                    onUpdateStatus(application.id, 'rejected');
-                                    onClose();
-                                }}
-                                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-                            >
-                                Reject
-                            </button>
-                        </>
+                    {approveTarget && (
+                        <button
+                            onClick={() => {
+                                onUpdateStatus(application.id, approveTarget);
+                                onClose();
+                            }}
+                            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                        >
+                            Approve
+                        </button>
+                    )}
+                    {rejectTarget && (
+                        <button
+                            onClick={() => {
+                                onUpdateStatus(application.id, rejectTarget);
+                                onClose();
+                            }}
+                            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                        >
+                            Reject
+                        </button>
                     )}
                 </div>
             </div>
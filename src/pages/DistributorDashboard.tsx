@@ -9,6 +9,8 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
+import { formatStatusLabel } from '@/lib/onboarding-machine';
 import { Send, Users, CheckCircle, XCircle, Clock, Search, LogOut } from 'lucide-react';
 
 interface MerchantData {
@@ -143,18 +145,21 @@ export default function DistributorDashboard() {
 
     const getStatusBadge = (status: string) => {
         const variants: Record<string, { color: string; icon: React.ReactNode }> = {
-            'pending': { color: 'bg-yellow-100 text-yellow-800', icon: <Clock className="w-3 h-3" /> },
-            'submitted': { color: 'bg-blue-100 text-blue-800', icon: <Clock className="w-3 h-3" /> },
+            'draft': { color: 'bg-gray-100 text-gray-800', icon: <Clock className="w-3 h-3" /> },
+            'submitted': { color: 'bg-yellow-100 text-yellow-800', icon: <Clock className="w-3 h-3" /> },
+            'validating': { color: 'bg-blue-100 text-blue-800', icon: <Clock className="w-3 h-3" /> },
+            'pending_bank_approval': { color: 'bg-blue-100 text-blue-800', icon: <Clock className="w-3 h-3" /> },
+            'info_requested': { color: 'bg-orange-100 text-orange-800', icon: <Clock className="w-3 h-3" /> },
             'approved': { color: 'bg-green-100 text-green-800', icon: <CheckCircle className="w-3 h-3" /> },
             'rejected': { color: 'bg-red-100 text-red-800', icon: <XCircle className="w-3 h-3" /> }
         };
 
-        const variant = variants[status] || variants['pending'];
+        const variant = variants[status] || variants['draft'];
 
         return (
             <Badge className={`${variant.color} flex items-center gap-1`}>
                 {variant.icon}
-                {status}
+                {formatStatusLabel(status)}
             </Badge>
         );
     };
@@ -183,6 +188,7 @@ export default function DistributorDashboard() {
                     <p className="text-muted-foreground">Manage your merchant network</p>
                 </div>
                 <div className="flex gap-3">
+                    <NotificationBell />
                     <Dialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen}>
                         <DialogTrigger asChild>
                             <Button>
@@ -291,8 +297,11 @@ export default function DistributorDashboard() {
                     className="px-4 py-2 border rounded-md"
                 >
                     <option value="all">All Status</option>
-                    <option value="pending">Pending</option>
+                    <option value="draft">Draft</option>
                     <option value="submitted">Submitted</option>
+                    <option value="validating">Validating</option>
+                    <option value="pending_bank_approval">Pending Bank Approval</option>
+                    <option value="info_requested">Info Requested</option>
                     <option value="approved">Approved</option>
                     <option value="rejected">Rejected</option>
                 </select>
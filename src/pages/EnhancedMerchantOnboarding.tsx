@@ -9,8 +9,10 @@ import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/components/auth/AuthProvider';
 import { supabase } from '@/lib/supabase';
+import { validatePinCode } from '@/lib/business-address';
 import { WelcomeScreen } from '@/components/onboarding/WelcomeScreen';
 import { MerchantRegistration } from '@/components/onboarding/MerchantRegistration';
+import { BusinessAddress } from '@/components/onboarding/BusinessAddress';
 import { KYCVerification } from '@/components/onboarding/KYCVerification';
 import { BankDetails } from '@/components/onboarding/BankDetails';
 import { ReviewSubmit } from '@/components/onboarding/ReviewSubmit';
@@ -25,6 +27,14 @@ export interface OnboardingData {
     businessName: string;
     gstNumber: string;
     hasGST: boolean;
+    businessType: string;
+    address: {
+        addressLine1: string;
+        addressLine2: string;
+        city: string;
+        state: string;
+        postalCode: string;
+    };
     bankDetails: {
         accountNumber: string;
         ifscCode: string;
@@ -59,6 +69,12 @@ interface MerchantProfile {
     aadhaar_number?: string;
     business_name?: string;
     gst_number?: string;
+    business_type?: string | null;
+    address_line1?: string | null;
+    address_line2?: string | null;
+    city?: string | null;
+    state?: string | null;
+    postal_code?: string | null;
     onboarding_status?: string;
     user_id?: string;
 }
@@ -86,6 +102,7 @@ interface StepInfo {
 const ONBOARDING_STEPS: StepInfo[] = [
     { id: 'welcome', title: 'Welcome', description: 'Introduction to SabbPe', component: WelcomeScreen as unknown as React.ComponentType<BaseStepProps> },
     { id: 'registration', title: 'Registration', description: 'Personal & Business Details', component: MerchantRegistration as unknown as React.ComponentType<BaseStepProps> },
+    { id: 'business-address', title: 'Business Address', description: 'Business Type & Location', component: BusinessAddress as unknown as React.ComponentType<BaseStepProps> },
     { id: 'kyc', title: 'KYC Verification', description: 'Identity Verification', component: KYCVerification as unknown as React.ComponentType<BaseStepProps> },
     { id: 'bank-details', title: 'Bank Details', description: 'Payment Settlement Setup', component: BankDetails as unknown as React.ComponentType<BaseStepProps> },
     { id: 'review', title: 'Review & Submit', description: 'Final Review', component: ReviewSubmit as unknown as React.ComponentType<BaseStepProps> },
@@ -157,6 +174,14 @@ const EnhancedOnboardingFlow: React.FC = () => {
         businessName: '',
         gstNumber: '',
         hasGST: true,
+        businessType: '',
+        address: {
+            addressLine1: '',
+            addressLine2: '',
+            city: '',
+            state: '',
+            postalCode: ''
+        },
         bankDetails: {
             accountNumber: '',
             ifscCode: '',
@@ -174,7 +199,7 @@ const EnhancedOnboardingFlow: React.FC = () => {
     const { currentStep, currentStepIndex, totalSteps, progress, nextStep, prevStep, goToStep } = useOnboardingFlow();
     const { merchantProfile, bankDetails, documents, kycData, loading: profileLoading } = useMerchantData();
 
-    type OnboardingStep = 'welcome' | 'registration' | 'kyc' | 'bank-details' | 'review' | 'dashboard';
+    type OnboardingStep = 'welcome' | 'registration' | 'business-address' | 'kyc' | 'bank-details' | 'review' | 'dashboard';
 
     useEffect(() => {
         if (merchantProfile) {
@@ -188,6 +213,14 @@ const EnhancedOnboardingFlow: React.FC = () => {
                 aadhaarNumber: merchantProfile.aadhaar_number || '',
                 businessName: merchantProfile.business_name || '',
                 gstNumber: merchantProfile.gst_number || '',
+                businessType: merchantProfile.business_type || '',
+                address: {
+                    addressLine1: merchantProfile.address_line1 || '',
+                    addressLine2: merchantProfile.address_line2 || '',
+                    city: merchantProfile.city || '',
+                    state: merchantProfile.state || '',
+                    postalCode: merchantProfile.postal_code || ''
+                },
             }));
         }
     }, [merchantProfile]);
@@ -225,7 +258,14 @@ const EnhancedOnboardingFlow: React.FC = () => {
                     aadhaar_number: onboardingData.aadhaarNumber,
                     business_name: onboardingData.businessName,
                     gst_number: onboardingData.gstNumber,
-                    onboarding_status: 'in_progress',
+                    business_type: onboardingData.businessType || null,
+                    address_line1: onboardingData.address.addressLine1 || null,
+                    address_line2: onboardingData.address.addressLine2 || null,
+                    city: onboardingData.address.city || null,
+                    state: onboardingData.address.state || null,
+                    postal_code: onboardingData.address.postalCode || null,
+                    country: 'India',
+                    onboarding_status: 'draft',
                     updated_at: new Date().toISOString(),
                 }, {
                     onConflict: 'user_id'
@@ -250,7 +290,7 @@ const EnhancedOnboardingFlow: React.FC = () => {
     };
 
     const handleNextStep = async () => {
-        if (currentStep === 'registration') {
+        if (currentStep === 'registration' || currentStep === 'business-address') {
             const saved = await saveRegistrationData();
             if (!saved) {
                 return;
@@ -282,11 +322,11 @@ const EnhancedOnboardingFlow: React.FC = () => {
 
         const status = merchantProfile.onboarding_status;
 
-        if (status === 'approved' || status === 'verified') {
+        if (status === 'approved') {
             goToStep('dashboard');
-        } else if (status === 'submitted' || status === 'in_progress' || status === 'validating' || status === 'pending_bank_approval') {
+        } else if (status === 'submitted' || status === 'validating' || status === 'pending_bank_approval' || status === 'info_requested') {
             goToStep('dashboard');
-        } else if (status === 'validation_failed' || status === 'rejected' || status === 'bank_rejected') {
+        } else if (status === 'rejected') {
             goToStep('review');
         } else {
             const hasPersonalInfo = Boolean(
@@ -294,11 +334,20 @@ const EnhancedOnboardingFlow: React.FC = () => {
                 merchantProfile.aadhaar_number &&
                 merchantProfile.business_name
             );
+            const hasBusinessAddress = Boolean(
+                merchantProfile.business_type &&
+                merchantProfile.address_line1 &&
+                merchantProfile.city &&
+                merchantProfile.state &&
+                merchantProfile.postal_code
+            );
 
             const hasKYC = Boolean(kycData?.kyc_status === 'verified' || documents.length > 0);
             const hasBankDetails = Boolean(bankDetails?.account_number);
 
-            if (hasBankDetails && hasKYC && hasPersonalInfo) {
+            if (hasPersonalInfo && !hasBusinessAddress) {
+                goToStep('business-address');
+            } else if (hasBankDetails && hasKYC && hasPersonalInfo) {
                 goToStep('review');
             } else if (hasBankDetails && hasPersonalInfo) {
                 goToStep('bank-details');
@@ -351,6 +400,13 @@ const EnhancedOnboardingFlow: React.FC = () => {
             if (!onboardingData.panNumber) validationErrors.push('PAN number is required');
             if (!onboardingData.aadhaarNumber) validationErrors.push('Aadhaar number is required');
             if (!onboardingData.businessName) validationErrors.push('Business name is required');
+            if (!onboardingData.businessType) validationErrors.push('Business type is required');
+            if (!onboardingData.address.addressLine1.trim()) validationErrors.push('Business address is required');
+            if (!onboardingData.address.city.trim()) validationErrors.push('City is required');
+            if (!onboardingData.address.state) validationErrors.push('State is required');
+
+            const pinCodeError = validatePinCode(onboardingData.address.postalCode, onboardingData.address.state);
+            if (pinCodeError) validationErrors.push(pinCodeError);
 
             if (!onboardingData.bankDetails.accountNumber || onboardingData.bankDetails.accountNumber.trim() === '') {
                 validationErrors.push('Bank account number is required');
@@ -410,7 +466,14 @@ const EnhancedOnboardingFlow: React.FC = () => {
                     gst_number: onboardingData.gstNumber,
                     email: onboardingData.email,
                     mobile_number: onboardingData.mobileNumber,
-                    onboarding_status: 'pending',
+                    business_type: onboardingData.businessType,
+                    address_line1: onboardingData.address.addressLine1,
+                    address_line2: onboardingData.address.addressLine2 || null,
+                    city: onboardingData.address.city,
+                    state: onboardingData.address.state,
+                    postal_code: onboardingData.address.postalCode,
+                    country: 'India',
+                    onboarding_status: 'draft',
                     updated_at: new Date().toISOString(),
                 }, {
                     onConflict: 'user_id'
@@ -545,7 +608,8 @@ const EnhancedOnboardingFlow: React.FC = () => {
     };
 
     useEffect(() => {
-        if (!user?.id || !merchantProfile?.id) return;
+        // The dashboard step follows the application live and toasts its own transitions
+        if (!user?.id || !merchantProfile?.id || currentStep === 'dashboard') return;
 
         const channel = supabase
             .channel('merchant-status-changes')
@@ -573,7 +637,7 @@ const EnhancedOnboardingFlow: React.FC = () => {
         return () => {
             supabase.removeChannel(channel);
         };
-    }, [user?.id, merchantProfile?.id, toast]);
+    }, [user?.id, merchantProfile?.id, currentStep, toast]);
 
     if (profileLoading) {
         return (
@@ -602,6 +666,7 @@ const EnhancedOnboardingFlow: React.FC = () => {
         switch (stepId) {
             case 'welcome': return true;
             case 'registration': return Boolean(onboardingData.fullName && onboardingData.businessName && onboardingData.panNumber);
+            case 'business-address': return Boolean(onboardingData.businessType && onboardingData.address.addressLine1 && onboardingData.address.city && onboardingData.address.state && onboardingData.address.postalCode);
             case 'kyc': return onboardingData.kycData.isVideoCompleted;
             case 'bank-details': return Boolean(onboardingData.bankDetails.accountNumber && onboardingData.bankDetails.ifscCode);
             case 'review': return onboardingData.agreementAccepted;
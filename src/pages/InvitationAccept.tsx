@@ -108,7 +108,7 @@ export default function InvitationAccept() {
                         distributor_id: invitation.distributor_id,
                         invited_via: 'whatsapp',
                         invitation_token: token,
-                        onboarding_status: 'pending'
+                        onboarding_status: 'draft'
                     });
 
                 await supabase
@@ -126,7 +126,7 @@ export default function InvitationAccept() {
                         type: 'success',
                         title: 'Invitation Accepted',
                         message: `${invitation.merchant_name} has accepted your invitation and joined the platform`,
-                        action_url: '/distributor/merchants',
+                        action_url: '/distributor',
                         action_label: 'View Merchants'
                     });
 
@@ -5,6 +5,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { CreditCard, FileText, Gift, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { StatusTimeline } from '@/components/onboarding/StatusTimeline';
+import { NotificationBell } from '@/components/notifications/NotificationBell';
+import { useStatusHistory } from '@/hooks/useMerchant';
+import { formatStatusLabel } from '@/lib/onboarding-machine';
 
 interface MerchantProfile {
     id: string;
@@ -26,6 +30,7 @@ interface MerchantProfile {
 export default function MerchantDashboard() {
     const [profile, setProfile] = useState<MerchantProfile | null>(null);
     const [loading, setLoading] = useState(true);
+    const { data: history = [], isLoading: historyLoading, error: historyError } = useStatusHistory();
 
     useEffect(() => {
         fetchProfile();
@@ -47,16 +52,19 @@ export default function MerchantDashboard() {
 
     const getStatusBadge = (status: string) => {
         const config: Record<string, { color: string; icon: React.ElementType }> = {
-            pending: { color: 'bg-yellow-100 text-yellow-800', icon: Clock },
-            submitted: { color: 'bg-blue-100 text-blue-800', icon: Clock },
+            draft: { color: 'bg-gray-100 text-gray-800', icon: Clock },
+            submitted: { color: 'bg-yellow-100 text-yellow-800', icon: Clock },
+            validating: { color: 'bg-blue-100 text-blue-800', icon: Clock },
+            pending_bank_approval: { color: 'bg-blue-100 text-blue-800', icon: Clock },
+            info_requested: { color: 'bg-orange-100 text-orange-800', icon: Clock },
             approved: { color: 'bg-green-100 text-green-800', icon: CheckCircle },
             rejected: { color: 'bg-red-100 text-red-800', icon: XCircle }
         };
-        const { color, icon: Icon } = config[status] || config.pending;
+        const { color, icon: Icon } = config[status] || config.draft;
         return (
             <Badge className={`${color} flex items-center gap-1`}>
                 <Icon className="w-3 h-3" />
-                {status}
+                {formatStatusLabel(status)}
             </Badge>
         );
     };
@@ -70,7 +78,10 @@ export default function MerchantDashboard() {
     if (profile?.onboarding_status === 'approved') {
         return (
             <div className="container mx-auto p-6">
-                <h1 className="text-3xl font-bold mb-6">Merchant Dashboard</h1>
+                <div className="flex justify-between items-center mb-6">
+                    <h1 className="text-3xl font-bold">Merchant Dashboard</h1>
+                    <NotificationBell />
+                </div>
 
                 <div className="grid md:grid-cols-3 gap-4">
                     <Card className="hover:shadow-lg transition-shadow cursor-pointer">
@@ -115,6 +126,11 @@ export default function MerchantDashboard() {
 
     return (
         <div className="container mx-auto p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h1 className="text-3xl font-bold">Merchant Dashboard</h1>
+                <NotificationBell />
+            </div>
+
             <Card>
                 <CardHeader>
                     <CardTitle>Application Status</CardTitle>
@@ -142,6 +158,19 @@ export default function MerchantDashboard() {
                     )}
                 </CardContent>
             </Card>
+
+            <Card className="mt-6">
+                <CardHeader>
+                    <CardTitle>Application Timeline</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    <StatusTimeline
+                        entries={history}
+                        loading={historyLoading}
+                        error={historyError ? 'Could not load application history' : null}
+                    />
+                </CardContent>
+            </Card>
         </div>
     );
 }
\ No newline at end of file
@@ -28,7 +28,7 @@ export const addressInfoSchema = z.object({
 // Step 4: Documents
 export const documentsSchema = z.object({
     documents: z.array(z.object({
-        type: z.enum(['business_license', 'tax_certificate', 'id_proof', 'bank_statement', 'other']),
+        type: z.enum(['pan_card', 'aadhaar_card', 'business_proof', 'bank_statement', 'cancelled_cheque', 'video_kyc', 'selfie']),
         url: z.string().url(),
         filename: z.string(),
         uploadedAt: z.string(),
@@ -44,11 +44,14 @@ export const completeApplicationSchema = businessInfoSchema
 export type MerchantFormData = z.infer<typeof completeApplicationSchema>;
 
 export const documentTypeLabels: Record<string, string> = {
-    business_license: 'Business License',
-    tax_certificate: 'Tax Certificate',
-    id_proof: 'ID Proof',
+    pan_card: 'PAN Card',
+    aadhaar_card: 'Aadhaar Card',
+    business_proof: 'Business Proof',
     bank_statement: 'Bank Statement',
-    other: 'Other Document'
+    cancelled_cheque: 'Cancelled Cheque',
+    video_kyc: 'Video KYC',
+    selfie: 'Selfie'
 };
 
-export const requiredDocumentTypes = ['business_license', 'tax_certificate', 'id_proof'];
\ No newline at end of file
+// Same as REQUIRED_DOCUMENT_TYPES in the backend
+export const requiredDocumentTypes = ['pan_card', 'aadhaar_card', 'cancelled_cheque'];
\ No newline at end of file
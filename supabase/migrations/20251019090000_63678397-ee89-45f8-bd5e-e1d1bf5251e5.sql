@@ -0,0 +1,36 @@
+-- Backend merchant store used by the Express MerchantService (STORAGE_DRIVER=supabase)
+CREATE TABLE public.merchants (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  business_name TEXT NOT NULL,
+  business_type TEXT NOT NULL,
+  registration_number TEXT NOT NULL,
+  tax_id TEXT NOT NULL,
+  email TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  website TEXT,
+  address_line1 TEXT NOT NULL,
+  address_line2 TEXT,
+  city TEXT NOT NULL,
+  state TEXT NOT NULL,
+  postal_code TEXT NOT NULL,
+  country TEXT NOT NULL,
+  documents JSONB NOT NULL DEFAULT '[]'::jsonb,
+  metadata JSONB,
+  onboarding_status TEXT NOT NULL DEFAULT 'draft',
+  bank_application_id TEXT,
+  bank_response JSONB,
+  rejection_reason TEXT,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  validated_at TIMESTAMP WITH TIME ZONE,
+  bank_submitted_at TIMESTAMP WITH TIME ZONE,
+  decision_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id)
+);
+
+CREATE INDEX idx_merchants_onboarding_status ON public.merchants(onboarding_status);
+
+-- Only the backend (service role) reads and writes this table
+ALTER TABLE public.merchants ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,32 @@
+-- Backend user accounts and one-time tokens (STORAGE_DRIVER=supabase)
+CREATE TABLE public.app_users (
+  id UUID NOT NULL PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('merchant', 'admin', 'distributor')),
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  phone TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  email_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Email verification and password reset tokens (hash only)
+CREATE TABLE public.app_user_tokens (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.app_users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('email_verification', 'password_reset')),
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_app_user_tokens_user ON public.app_user_tokens(user_id, type);
+
+-- Only the backend (service role) reads and writes these tables
+ALTER TABLE public.app_users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.app_user_tokens ENABLE ROW LEVEL SECURITY;
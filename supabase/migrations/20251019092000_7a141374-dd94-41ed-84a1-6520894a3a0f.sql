@@ -0,0 +1,20 @@
+-- Backend login sessions backing rotating refresh tokens (STORAGE_DRIVER=supabase)
+CREATE TABLE public.app_auth_sessions (
+  id UUID NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.app_users(id) ON DELETE CASCADE,
+  refresh_token_hash TEXT NOT NULL UNIQUE,
+  previous_refresh_token_hash TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_reason TEXT,
+  last_refreshed_at TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_app_auth_sessions_user ON public.app_auth_sessions(user_id);
+CREATE INDEX idx_app_auth_sessions_previous ON public.app_auth_sessions(previous_refresh_token_hash);
+
+-- Only the backend (service role) reads and writes this table
+ALTER TABLE public.app_auth_sessions ENABLE ROW LEVEL SECURITY;
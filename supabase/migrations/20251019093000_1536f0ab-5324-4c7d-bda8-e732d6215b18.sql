@@ -0,0 +1,18 @@
+-- Onboarding status transitions recorded by the backend MerchantService (STORAGE_DRIVER=supabase)
+-- No foreign key to merchants: the audit trail outlives deleted profiles.
+CREATE TABLE public.merchant_status_history (
+  id UUID NOT NULL PRIMARY KEY,
+  merchant_id UUID NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  reason TEXT,
+  metadata JSONB,
+  actor_id UUID,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('merchant', 'admin', 'bank', 'system')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_merchant_status_history_merchant ON public.merchant_status_history(merchant_id, created_at);
+
+-- Only the backend (service role) reads and writes this table
+ALTER TABLE public.merchant_status_history ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,59 @@
+-- One merchant model: merchant_profiles becomes the store for both the React onboarding
+-- flow and the Express MerchantService (STORAGE_DRIVER=supabase), and onboarding_status
+-- uses the backend state machine vocabulary.
+
+-- Fields the backend model needs beyond what the onboarding form captures
+ALTER TABLE public.merchant_profiles
+  ADD COLUMN IF NOT EXISTS business_type TEXT,
+  ADD COLUMN IF NOT EXISTS website TEXT,
+  ADD COLUMN IF NOT EXISTS address_line1 TEXT,
+  ADD COLUMN IF NOT EXISTS address_line2 TEXT,
+  ADD COLUMN IF NOT EXISTS city TEXT,
+  ADD COLUMN IF NOT EXISTS state TEXT,
+  ADD COLUMN IF NOT EXISTS postal_code TEXT,
+  ADD COLUMN IF NOT EXISTS country TEXT DEFAULT 'India',
+  ADD COLUMN IF NOT EXISTS metadata JSONB,
+  ADD COLUMN IF NOT EXISTS bank_application_id TEXT,
+  ADD COLUMN IF NOT EXISTS bank_response JSONB,
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS validated_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS bank_submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS decision_at TIMESTAMP WITH TIME ZONE;
+
+-- Replace the status enum with the state machine statuses
+CREATE TYPE public.onboarding_status_v2 AS ENUM (
+  'draft',
+  'submitted',
+  'validating',
+  'pending_bank_approval',
+  'approved',
+  'rejected'
+);
+
+ALTER TABLE public.merchant_profiles ALTER COLUMN onboarding_status DROP DEFAULT;
+
+ALTER TABLE public.merchant_profiles
+  ALTER COLUMN onboarding_status TYPE public.onboarding_status_v2
+  USING (
+    CASE
+      WHEN onboarding_status::text IN ('submitted', 'validating', 'pending_bank_approval', 'approved', 'rejected')
+        THEN onboarding_status::text
+      WHEN onboarding_status::text = 'verified' THEN 'approved'
+      WHEN onboarding_status::text IN ('validation_failed', 'bank_rejected') THEN 'rejected'
+      WHEN onboarding_status::text = 'in_progress' AND bank_application_id IS NOT NULL THEN 'pending_bank_approval'
+      WHEN onboarding_status::text = 'in_progress' AND submitted_at IS NOT NULL THEN 'validating'
+      ELSE 'draft'
+    END
+  )::public.onboarding_status_v2;
+
+ALTER TABLE public.merchant_profiles ALTER COLUMN onboarding_status SET DEFAULT 'draft';
+
+DROP TYPE public.onboarding_status;
+ALTER TYPE public.onboarding_status_v2 RENAME TO onboarding_status;
+
+CREATE INDEX IF NOT EXISTS idx_merchant_profiles_onboarding_status ON public.merchant_profiles(onboarding_status);
+CREATE INDEX IF NOT EXISTS idx_merchant_documents_merchant ON public.merchant_documents(merchant_id);
+
+-- Superseded by merchant_profiles
+DROP TABLE IF EXISTS public.merchants;
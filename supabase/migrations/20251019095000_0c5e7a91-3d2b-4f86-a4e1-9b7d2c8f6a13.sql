@@ -0,0 +1,24 @@
+-- Durable bank submission queue used by the backend (STORAGE_DRIVER=supabase)
+-- status 'dead' is the dead-letter list; merchant_store says which store holds the merchant.
+CREATE TABLE public.bank_submission_jobs (
+  id UUID NOT NULL PRIMARY KEY,
+  merchant_id UUID NOT NULL,
+  merchant_store TEXT NOT NULL CHECK (merchant_store IN ('sqlite', 'supabase')),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'running', 'succeeded', 'dead', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_error_code TEXT,
+  bank_application_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_bank_submission_jobs_due ON public.bank_submission_jobs(status, next_run_at);
+CREATE INDEX idx_bank_submission_jobs_merchant ON public.bank_submission_jobs(merchant_id);
+
+-- Only the backend (service role) reads and writes this table
+ALTER TABLE public.bank_submission_jobs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,25 @@
+-- Ledger of inbound bank webhooks used by the backend (STORAGE_DRIVER=supabase)
+-- One row per (application_id, event_id); redeliveries only bump duplicate_count.
+CREATE TABLE public.bank_webhook_events (
+  id UUID NOT NULL PRIMARY KEY,
+  route TEXT NOT NULL CHECK (route IN ('webhooks', 'supabase')),
+  application_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  merchant_id UUID,
+  status TEXT NOT NULL CHECK (status IN ('processing', 'processed', 'failed')),
+  payload TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  last_error_code TEXT,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (application_id, event_id)
+);
+
+CREATE INDEX idx_bank_webhook_events_status ON public.bank_webhook_events(status, received_at);
+
+-- Only the backend (service role) reads and writes this table
+ALTER TABLE public.bank_webhook_events ENABLE ROW LEVEL SECURITY;
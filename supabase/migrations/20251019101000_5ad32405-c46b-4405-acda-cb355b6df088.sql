@@ -0,0 +1,12 @@
+-- Bank "pending_info" decisions: the application waits in info_requested until the
+-- merchant uploads the documents the bank listed, then goes back to the bank under
+-- the same bank_application_id.
+ALTER TYPE public.onboarding_status ADD VALUE IF NOT EXISTS 'info_requested' AFTER 'pending_bank_approval';
+
+ALTER TABLE public.merchant_profiles
+  ADD COLUMN IF NOT EXISTS requested_documents public.document_type[],
+  ADD COLUMN IF NOT EXISTS info_request_reason TEXT,
+  ADD COLUMN IF NOT EXISTS info_requested_at TIMESTAMP WITH TIME ZONE,
+  -- Stamped by the dashboard once the requested documents are uploaded; the
+  -- merchant_profiles webhook picks it up and resubmits the application
+  ADD COLUMN IF NOT EXISTS info_provided_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,5 @@
+-- Acquiring bank adapter that received a merchant's application (e.g. 'mock_bank',
+-- 'mock_acquirer'); status polls, resubmissions and webhooks go to the same bank.
+-- NULL for applications sent before adapters existed, which all went to mock_bank.
+ALTER TABLE public.merchant_profiles
+  ADD COLUMN IF NOT EXISTS bank_adapter TEXT;
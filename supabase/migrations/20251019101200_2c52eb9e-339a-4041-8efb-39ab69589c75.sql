@@ -0,0 +1,5 @@
+-- Correlation id and W3C traceparent of the request that queued a bank submission,
+-- so the worker's bank call and the bank's later webhook join the same trace.
+ALTER TABLE public.bank_submission_jobs
+  ADD COLUMN IF NOT EXISTS request_id TEXT,
+  ADD COLUMN IF NOT EXISTS trace_parent TEXT;
@@ -0,0 +1,38 @@
+-- Outbound notifications sent by the backend (STORAGE_DRIVER=supabase)
+-- One row per message and channel; status moves from pending to sent or failed.
+CREATE TABLE public.notification_deliveries (
+  id UUID NOT NULL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms', 'whatsapp', 'push')),
+  provider TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'sent', 'failed')),
+  merchant_id UUID,
+  user_id UUID,
+  provider_message_id TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_notification_deliveries_merchant ON public.notification_deliveries(merchant_id, created_at);
+CREATE INDEX idx_notification_deliveries_status ON public.notification_deliveries(status, created_at);
+
+-- Only the backend (service role) reads and writes this table
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Channels each merchant receives onboarding updates on, and their browsers' web push subscriptions
+CREATE TABLE public.notification_preferences (
+  merchant_id UUID NOT NULL PRIMARY KEY REFERENCES public.merchant_profiles(id) ON DELETE CASCADE,
+  email BOOLEAN NOT NULL DEFAULT true,
+  sms BOOLEAN NOT NULL DEFAULT false,
+  whatsapp BOOLEAN NOT NULL DEFAULT false,
+  push BOOLEAN NOT NULL DEFAULT true,
+  push_subscriptions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the backend (service role) reads and writes this table
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
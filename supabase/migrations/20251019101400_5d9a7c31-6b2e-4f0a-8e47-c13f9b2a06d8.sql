@@ -0,0 +1,7 @@
+-- Notification templates: the language each merchant reads notifications in,
+-- and which template version produced each delivery
+ALTER TABLE public.notification_preferences
+  ADD COLUMN locale TEXT NOT NULL DEFAULT 'en'
+  CHECK (locale IN ('en', 'hi', 'mr', 'gu', 'bn', 'ta', 'te', 'kn'));
+
+ALTER TABLE public.notification_deliveries ADD COLUMN template TEXT;
@@ -0,0 +1,71 @@
+-- Transactional outbox used by the backend (STORAGE_DRIVER=supabase): each status change
+-- commits with an event listing the work it triggers, which the outbox dispatcher runs.
+-- status 'dead' is the dead-letter list; completed_handlers records progress between attempts.
+CREATE TABLE public.outbox_events (
+  id UUID NOT NULL PRIMARY KEY,
+  type TEXT NOT NULL,
+  merchant_id UUID NOT NULL,
+  merchant_store TEXT NOT NULL CHECK (merchant_store IN ('sqlite', 'supabase')),
+  payload JSONB NOT NULL,
+  handlers JSONB NOT NULL,
+  completed_handlers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'running', 'delivered', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_error_code TEXT,
+  request_id TEXT,
+  trace_parent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_outbox_events_due ON public.outbox_events(status, next_run_at);
+CREATE INDEX idx_outbox_events_merchant ON public.outbox_events(merchant_id);
+
+-- Only the backend (service role) reads and writes this table
+ALTER TABLE public.outbox_events ENABLE ROW LEVEL SECURITY;
+
+-- A status change in one transaction: the profile columns the backend owns, the
+-- status history entry and the outbox events. Documents are written beforehand.
+CREATE OR REPLACE FUNCTION public.apply_merchant_status_change(
+  p_profile JSONB,
+  p_history JSONB,
+  p_events JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.merchant_profiles AS m
+  SET (
+    full_name, mobile_number, email, pan_number, aadhaar_number, business_name, gst_number,
+    entity_type, business_type, website, address_line1, address_line2, city, state, postal_code,
+    country, metadata, onboarding_status, bank_application_id, bank_adapter, bank_response,
+    rejection_reason, requested_documents, info_request_reason, info_requested_at, info_provided_at,
+    submitted_at, validated_at, bank_submitted_at, decision_at, updated_at
+  ) = (
+    p.full_name, p.mobile_number, p.email, p.pan_number, p.aadhaar_number, p.business_name, p.gst_number,
+    p.entity_type, p.business_type, p.website, p.address_line1, p.address_line2, p.city, p.state, p.postal_code,
+    p.country, p.metadata, p.onboarding_status, p.bank_application_id, p.bank_adapter, p.bank_response,
+    p.rejection_reason, p.requested_documents, p.info_request_reason, p.info_requested_at, p.info_provided_at,
+    p.submitted_at, p.validated_at, p.bank_submitted_at, p.decision_at, p.updated_at
+  )
+  FROM jsonb_populate_record(NULL::public.merchant_profiles, p_profile) AS p
+  WHERE m.id = p.id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merchant profile % not found', p_profile->>'id' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO public.merchant_status_history
+  SELECT * FROM jsonb_populate_record(NULL::public.merchant_status_history, p_history);
+
+  INSERT INTO public.outbox_events
+  SELECT * FROM jsonb_populate_recordset(NULL::public.outbox_events, p_events);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Called by the backend with the service role only
+REVOKE EXECUTE ON FUNCTION public.apply_merchant_status_change(JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,15 @@
+-- Stream a merchant's profile, documents and KYC row to the onboarding
+-- dashboard. Existing RLS policies limit each merchant to their own rows.
+DO $$
+DECLARE
+  table_name TEXT;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['merchant_profiles', 'merchant_documents', 'merchant_kyc'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,4 @@
+-- When the current attempt took a webhook event. A redelivery takes over an
+-- event still processing past its lease, since the attempt that held it crashed.
+ALTER TABLE public.bank_webhook_events
+  ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,49 @@
+-- merchant_profiles.user_id holds a Supabase Auth user (React onboarding) or an
+-- app_users account (Express backend), so one foreign key cannot cover it. The
+-- owner is checked against both tables instead, and deleting either kind of
+-- account still removes the profile.
+ALTER TABLE public.merchant_profiles DROP CONSTRAINT IF EXISTS merchant_profiles_user_id_fkey;
+
+CREATE OR REPLACE FUNCTION public.check_merchant_profile_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = NEW.user_id)
+    AND NOT EXISTS (SELECT 1 FROM public.app_users WHERE id = NEW.user_id) THEN
+    RAISE EXCEPTION 'Merchant profile owner % does not exist', NEW.user_id
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_merchant_profile_owner
+  BEFORE INSERT OR UPDATE OF user_id ON public.merchant_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_merchant_profile_owner();
+
+CREATE OR REPLACE FUNCTION public.delete_owned_merchant_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.merchant_profiles WHERE user_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_owned_merchant_profile
+  AFTER DELETE ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_owned_merchant_profile();
+
+CREATE TRIGGER delete_owned_merchant_profile
+  AFTER DELETE ON public.app_users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_owned_merchant_profile();
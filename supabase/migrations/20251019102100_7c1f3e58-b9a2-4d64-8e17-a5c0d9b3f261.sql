@@ -0,0 +1,70 @@
+-- Products a merchant picked during onboarding. Written by the React product
+-- step and the backend MerchantService; the backend routes bank submissions on them.
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'product_type') THEN
+    CREATE TYPE public.product_type AS ENUM (
+      'upi_qr',
+      'upi_qr_soundbox',
+      'pos',
+      'payment_gateway',
+      'current_account'
+    );
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.merchant_products (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  merchant_id UUID NOT NULL REFERENCES public.merchant_profiles(id) ON DELETE CASCADE,
+  product_type public.product_type NOT NULL,
+  settlement_type TEXT NOT NULL DEFAULT 'next_day' CHECK (settlement_type IN ('same_day', 'next_day')),
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (merchant_id, product_type)
+);
+
+ALTER TABLE public.merchant_products ENABLE ROW LEVEL SECURITY;
+
+-- Merchants manage the products of their own profile
+DROP POLICY IF EXISTS "Users can view their own products" ON public.merchant_products;
+CREATE POLICY "Users can view their own products"
+ON public.merchant_products
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.merchant_profiles
+    WHERE id = merchant_products.merchant_id
+    AND user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can create their own products" ON public.merchant_products;
+CREATE POLICY "Users can create their own products"
+ON public.merchant_products
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.merchant_profiles
+    WHERE id = merchant_products.merchant_id
+    AND user_id = auth.uid()
+  )
+);
+
+DROP POLICY IF EXISTS "Users can delete their own products" ON public.merchant_products;
+CREATE POLICY "Users can delete their own products"
+ON public.merchant_products
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.merchant_profiles
+    WHERE id = merchant_products.merchant_id
+    AND user_id = auth.uid()
+  )
+);
+
+DROP TRIGGER IF EXISTS update_merchant_products_updated_at ON public.merchant_products;
+CREATE TRIGGER update_merchant_products_updated_at
+  BEFORE UPDATE ON public.merchant_products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- A bank decision that no longer applies to the merchant (a redelivery after
+-- the merchant moved on) is acknowledged and recorded as ignored, not failed
+ALTER TABLE public.bank_webhook_events
+  DROP CONSTRAINT IF EXISTS bank_webhook_events_status_check;
+
+ALTER TABLE public.bank_webhook_events
+  ADD CONSTRAINT bank_webhook_events_status_check
+  CHECK (status IN ('processing', 'processed', 'ignored', 'failed'));
@@ -0,0 +1,61 @@
+-- A status change only applies while the merchant is still in the status it
+-- was resolved from (the history entry's from_status). Two concurrent changes
+-- both read the old status; the second now writes nothing and returns false.
+DROP FUNCTION IF EXISTS public.apply_merchant_status_change(JSONB, JSONB, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.apply_merchant_status_change(
+  p_profile JSONB,
+  p_history JSONB,
+  p_events JSONB,
+  p_bank_job JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.merchant_profiles AS m
+  SET (
+    full_name, mobile_number, email, pan_number, aadhaar_number, business_name, gst_number,
+    entity_type, business_type, website, address_line1, address_line2, city, state, postal_code,
+    country, metadata, onboarding_status, bank_application_id, bank_adapter, bank_response,
+    rejection_reason, requested_documents, info_request_reason, info_requested_at, info_provided_at,
+    submitted_at, validated_at, bank_submitted_at, decision_at, updated_at
+  ) = (
+    p.full_name, p.mobile_number, p.email, p.pan_number, p.aadhaar_number, p.business_name, p.gst_number,
+    p.entity_type, p.business_type, p.website, p.address_line1, p.address_line2, p.city, p.state, p.postal_code,
+    p.country, p.metadata, p.onboarding_status, p.bank_application_id, p.bank_adapter, p.bank_response,
+    p.rejection_reason, p.requested_documents, p.info_request_reason, p.info_requested_at, p.info_provided_at,
+    p.submitted_at, p.validated_at, p.bank_submitted_at, p.decision_at, p.updated_at
+  )
+  FROM jsonb_populate_record(NULL::public.merchant_profiles, p_profile) AS p
+  WHERE m.id = p.id
+    AND m.onboarding_status::TEXT = p_history->>'from_status';
+
+  IF NOT FOUND THEN
+    IF NOT EXISTS (SELECT 1 FROM public.merchant_profiles WHERE id = (p_profile->>'id')::UUID) THEN
+      RAISE EXCEPTION 'Merchant profile % not found', p_profile->>'id' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO public.merchant_status_history
+  SELECT * FROM jsonb_populate_record(NULL::public.merchant_status_history, p_history);
+
+  INSERT INTO public.outbox_events
+  SELECT * FROM jsonb_populate_recordset(NULL::public.outbox_events, p_events);
+
+  -- The profile row locked by the UPDATE above keeps two changes from both queueing a job
+  IF p_bank_job IS NOT NULL THEN
+    INSERT INTO public.bank_submission_jobs
+    SELECT * FROM jsonb_populate_record(NULL::public.bank_submission_jobs, p_bank_job) AS j
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.bank_submission_jobs
+      WHERE merchant_id = j.merchant_id AND status IN ('pending', 'running')
+    );
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Called by the backend with the service role only
+REVOKE EXECUTE ON FUNCTION public.apply_merchant_status_change(JSONB, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+-- notifications.user_id holds the merchant's owner: a Supabase Auth user (React
+-- onboarding) or an app_users account (Express backend). The foreign key to
+-- auth.users rejected the backend's in-app notifications, so the owner is
+-- checked against both tables instead, as for merchant_profiles.
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_user_id_fkey;
+
+CREATE OR REPLACE FUNCTION public.check_notification_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM auth.users WHERE id = NEW.user_id)
+    AND NOT EXISTS (SELECT 1 FROM public.app_users WHERE id = NEW.user_id) THEN
+    RAISE EXCEPTION 'Notification owner % does not exist', NEW.user_id
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_notification_owner ON public.notifications;
+CREATE TRIGGER check_notification_owner
+  BEFORE INSERT OR UPDATE OF user_id ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_notification_owner();
+
+-- Deleting either kind of account still clears its inbox
+CREATE OR REPLACE FUNCTION public.delete_owned_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.notifications WHERE user_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_owned_notifications ON auth.users;
+CREATE TRIGGER delete_owned_notifications
+  AFTER DELETE ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_owned_notifications();
+
+DROP TRIGGER IF EXISTS delete_owned_notifications ON public.app_users;
+CREATE TRIGGER delete_owned_notifications
+  AFTER DELETE ON public.app_users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_owned_notifications();
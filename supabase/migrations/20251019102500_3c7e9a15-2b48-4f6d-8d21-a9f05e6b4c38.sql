@@ -0,0 +1,3 @@
+-- The backend's first merchant store, superseded by merchant_profiles. Dropped
+-- again for databases that still have it.
+DROP TABLE IF EXISTS public.merchants;
@@ -11,6 +11,9 @@ export default defineConfig({
             devOptions: {
                 enabled: true
             },
+            workbox: {
+                importScripts: ['push-sw.js']
+            },
             manifest: {
                 name: 'SabbPe Merchant Onboarding',
                 short_name: 'SabbPe',